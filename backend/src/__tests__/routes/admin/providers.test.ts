@@ -0,0 +1,76 @@
+import express from 'express';
+import request from 'supertest';
+import providersRouter from '../../../routes/admin/providers';
+
+const mockRedis = {
+  hgetall: jest.fn(),
+  hset: jest.fn(),
+  eval: jest.fn(),
+};
+
+jest.mock('../../../utils/cache', () => ({
+  getRedisClient: () => mockRedis,
+}));
+
+jest.mock('../../../utils/database', () => ({
+  getPrismaClient: jest.fn(() => ({})),
+}));
+
+// 인증은 통과시키고 관리자 요청으로 처리
+jest.mock('../../../middleware/auth', () => ({
+  authenticateToken: (req: any, _res: any, next: () => void) => {
+    req.userId = 1;
+    next();
+  },
+  requireAdmin: (_req: any, _res: any, next: () => void) => next(),
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin/providers', providersRouter);
+
+describe('Admin Provider Circuit API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRedis.hset.mockResolvedValue(1);
+  });
+
+  it('should read the shared circuit state without using the cache', async () => {
+    mockRedis.hgetall.mockResolvedValue({
+      state: 'open',
+      failureCount: '5',
+      successCount: '0',
+      lastFailureTime: String(Date.now()),
+      forcedOpen: 'false',
+    });
+
+    const first = await request(app).get('/api/admin/providers/claude/circuit');
+    const second = await request(app).get('/api/admin/providers/claude/circuit');
+
+    expect(first.status).toBe(200);
+    expect(first.body.circuit).toMatchObject({ state: 'open', failureCount: 5, forcedOpen: false });
+    expect(second.status).toBe(200);
+    expect(mockRedis.hgetall).toHaveBeenCalledTimes(2);
+  });
+
+  it('should force open and reset the shared circuit', async () => {
+    const opened = await request(app).post('/api/admin/providers/gemini/circuit').send({ action: 'open' });
+
+    expect(opened.status).toBe(200);
+    expect(opened.body.circuit).toMatchObject({ state: 'open', forcedOpen: true });
+    expect(mockRedis.hset).toHaveBeenLastCalledWith(
+      'circuit:gemini',
+      expect.objectContaining({ state: 'open', forcedOpen: 'true' })
+    );
+
+    const reset = await request(app).post('/api/admin/providers/gemini/circuit').send({ action: 'reset' });
+
+    expect(reset.status).toBe(200);
+    expect(reset.body.circuit).toMatchObject({ state: 'closed', failureCount: 0, forcedOpen: false });
+  });
+
+  it('should reject unknown providers and actions', async () => {
+    expect((await request(app).get('/api/admin/providers/unknown/circuit')).status).toBe(404);
+    expect((await request(app).post('/api/admin/providers/claude/circuit').send({ action: 'close' })).status).toBe(400);
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  openA2AEventBuffer,
+  appendA2AEvent,
+  getA2AEventsSince,
+  getA2AEventBufferOwner,
+} from '../../../services/ai/a2aEventBuffer';
+
+describe('A2A Event Buffer', () => {
+  it('should reject a duplicate session id', () => {
+    expect(openA2AEventBuffer('dup-session', 1)).toBe(true);
+    expect(openA2AEventBuffer('dup-session', 1)).toBe(false);
+    expect(getA2AEventBufferOwner('dup-session')).toBe(1);
+  });
+
+  it('should number events and return only those after the last seen sequence', () => {
+    openA2AEventBuffer('resume-session', 2);
+    appendA2AEvent('resume-session', 'a2a_phase', { phase: 'collaboration' });
+    appendA2AEvent('resume-session', 'a2a_chunk', { chunk: 'a' });
+    const last = appendA2AEvent('resume-session', 'a2a_chunk', { chunk: 'b' });
+
+    expect(last.seq).toBe(3);
+    expect(getA2AEventsSince('resume-session', 1).map((event) => event.seq)).toEqual([2, 3]);
+    expect(getA2AEventsSince('resume-session', 3)).toEqual([]);
+  });
+
+  it('should drop the chunks of a finished turn but keep sequence numbers', () => {
+    const turn = { provider: 'openai', phase: 'debate', round: 1 };
+    openA2AEventBuffer('compact-session', 3);
+    appendA2AEvent('compact-session', 'a2a_agent_start', turn);
+    appendA2AEvent('compact-session', 'a2a_chunk', { ...turn, chunk: 'a' });
+    appendA2AEvent('compact-session', 'a2a_chunk', { ...turn, round: 2, chunk: 'b' });
+    appendA2AEvent('compact-session', 'a2a_agent_complete', { ...turn, content: 'a' });
+
+    expect(getA2AEventsSince('compact-session', 0).map((event) => [event.seq, event.event])).toEqual([
+      [1, 'a2a_agent_start'],
+      [3, 'a2a_chunk'],
+      [4, 'a2a_agent_complete'],
+    ]);
+    expect(getA2AEventsSince('compact-session', 2).map((event) => event.seq)).toEqual([3, 4]);
+  });
+
+  it('should not buffer events for unknown sessions', () => {
+    expect(appendA2AEvent('unknown-session', 'a2a_chunk', {}).seq).toBe(0);
+    expect(getA2AEventsSince('unknown-session', 0)).toEqual([]);
+    expect(getA2AEventBufferOwner('unknown-session')).toBeNull();
+  });
+});
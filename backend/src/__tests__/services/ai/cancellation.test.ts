@@ -0,0 +1,58 @@
+import { PassThrough } from 'stream';
+import {
+  registerRequest,
+  cancelRequest,
+  unregisterRequest,
+  abortRequest,
+  waitForStreamEnd,
+} from '../../../services/ai/cancellation';
+
+describe('Generation Cancellation', () => {
+  it('should abort the signal only for the owning user', () => {
+    const signal = registerRequest('owned-request', 1)!;
+
+    expect(cancelRequest('owned-request', 2)).toBe(false);
+    expect(signal.aborted).toBe(false);
+
+    expect(cancelRequest('owned-request', 1)).toBe(true);
+    expect(signal.aborted).toBe(true);
+    expect(cancelRequest('owned-request', 1)).toBe(false);
+  });
+
+  it('should not cancel finished requests', () => {
+    const signal = registerRequest('finished-request', 1)!;
+    unregisterRequest('finished-request', signal);
+
+    expect(cancelRequest('finished-request', 1)).toBe(false);
+    expect(signal.aborted).toBe(false);
+  });
+
+  it('should not let a duplicate ID replace or release an active request', () => {
+    const signal = registerRequest('shared-id', 1)!;
+
+    expect(registerRequest('shared-id', 2)).toBeNull();
+    unregisterRequest('shared-id', new AbortController().signal);
+
+    expect(cancelRequest('shared-id', 1)).toBe(true);
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should abort a request whose client disconnected', () => {
+    const signal = registerRequest('disconnected-request', 1)!;
+    abortRequest('disconnected-request', signal);
+
+    expect(signal.aborted).toBe(true);
+    expect(cancelRequest('disconnected-request', 1)).toBe(false);
+  });
+
+  it('should resolve a pending stream when the signal aborts', async () => {
+    const stream = new PassThrough();
+    const signal = registerRequest('stream-request', 1)!;
+    const ended = waitForStreamEnd(stream, signal);
+
+    cancelRequest('stream-request', 1);
+
+    await expect(ended).resolves.toBeUndefined();
+    expect(stream.destroyed).toBe(true);
+  });
+});
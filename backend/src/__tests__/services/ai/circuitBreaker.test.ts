@@ -1,5 +1,25 @@
 import { CircuitBreaker, CircuitState, getCircuitBreaker } from '../../../services/ai/circuitBreaker';
 
+// provider를 지정한 Circuit Breaker가 사용하는 Redis 공유 상태
+const mockRedis = {
+  hgetall: jest.fn(),
+  hset: jest.fn(),
+  eval: jest.fn(),
+};
+
+jest.mock('../../../utils/cache', () => ({
+  getRedisClient: () => mockRedis,
+}));
+
+// Lua 스크립트가 반환하는 HGETALL 결과 형식 ([필드, 값, ...])
+function sharedHash(fields: Record<string, string | number | boolean>): string[] {
+  return Object.entries(fields).flatMap(([key, value]) => [key, String(value)]);
+}
+
+const failing = async () => {
+  throw new Error('Test error');
+};
+
 describe('Circuit Breaker', () => {
   let circuitBreaker: CircuitBreaker;
 
@@ -132,5 +152,98 @@ describe('Circuit Breaker', () => {
       expect(breaker1).not.toBe(breaker2);
     });
   });
-});
 
+  describe('shared state', () => {
+    let sharedBreaker: CircuitBreaker;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockRedis.hgetall.mockResolvedValue({});
+      mockRedis.hset.mockResolvedValue(1);
+      sharedBreaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 1000 }, 'shared-provider');
+    });
+
+    it('should apply failures through the atomic script and adopt the shared result', async () => {
+      // 다른 인스턴스의 실패가 합쳐져 임계값을 넘은 경우
+      mockRedis.eval.mockResolvedValueOnce(
+        sharedHash({ state: 'open', failureCount: 3, successCount: 0, lastFailureTime: Date.now(), forcedOpen: false })
+      );
+
+      await expect(sharedBreaker.execute(failing)).rejects.toThrow('Test error');
+
+      const [script, keyCount, key, , threshold] = mockRedis.eval.mock.calls[0];
+      expect(script).toContain("HINCRBY', KEYS[1], 'failureCount'");
+      expect([keyCount, key, threshold]).toEqual([1, 'circuit:shared-provider', 3]);
+      expect(sharedBreaker.getState()).toBe(CircuitState.OPEN);
+      expect(sharedBreaker.getStats().failureCount).toBe(3);
+    });
+
+    it('should not run the call when another instance reopened the circuit during half-open transition', async () => {
+      const lastFailureTime = Date.now() - 2000;
+      mockRedis.hgetall.mockResolvedValueOnce({
+        state: 'open',
+        failureCount: '3',
+        successCount: '0',
+        lastFailureTime: String(lastFailureTime),
+        forcedOpen: 'false',
+      });
+      mockRedis.eval.mockResolvedValueOnce(
+        sharedHash({ state: 'open', failureCount: 4, successCount: 0, lastFailureTime: Date.now(), forcedOpen: false })
+      );
+      const fn = jest.fn(async () => 'success');
+
+      await expect(sharedBreaker.execute(fn, async () => 'fallback')).resolves.toBe('fallback');
+      expect(mockRedis.eval.mock.calls[0][0]).toContain("'half-open'");
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should close after half-open successes recorded by the shared script', async () => {
+      mockRedis.hgetall.mockResolvedValueOnce({ state: 'half-open', failureCount: '0', successCount: '1' });
+      mockRedis.eval.mockResolvedValueOnce(
+        sharedHash({ state: 'closed', failureCount: 0, successCount: 0, lastFailureTime: 0, forcedOpen: false })
+      );
+
+      await expect(sharedBreaker.execute(async () => 'success')).resolves.toBe('success');
+      expect(mockRedis.eval.mock.calls[0][0]).toContain("HINCRBY', KEYS[1], 'successCount'");
+      expect(sharedBreaker.getState()).toBe(CircuitState.CLOSED);
+    });
+
+    it('should keep the local transition when Redis is unavailable', async () => {
+      mockRedis.hgetall.mockRejectedValue(new Error('Redis down'));
+      mockRedis.eval.mockRejectedValue(new Error('Redis down'));
+
+      for (let i = 0; i < 3; i++) {
+        await expect(sharedBreaker.execute(failing)).rejects.toThrow('Test error');
+        await sharedBreaker.refresh(0);
+      }
+
+      expect(sharedBreaker.getState()).toBe(CircuitState.OPEN);
+    });
+
+    it('should reuse the shared state briefly instead of reading Redis on every call', async () => {
+      await sharedBreaker.execute(async () => 'success');
+      await sharedBreaker.execute(async () => 'success');
+      expect(mockRedis.hgetall).toHaveBeenCalledTimes(1);
+
+      await sharedBreaker.refresh(0);
+      expect(mockRedis.hgetall).toHaveBeenCalledTimes(2);
+    });
+
+    it('should overwrite the shared state on manual open and reset', async () => {
+      await sharedBreaker.forceOpen();
+      expect(mockRedis.hset).toHaveBeenLastCalledWith(
+        'circuit:shared-provider',
+        expect.objectContaining({ state: 'open', forcedOpen: 'true' })
+      );
+      // 강제로 연 상태는 리셋 타임아웃이 지나도 반열림으로 바뀌지 않음
+      await expect(sharedBreaker.execute(async () => 'success', async () => 'fallback')).resolves.toBe('fallback');
+
+      await sharedBreaker.reset();
+      expect(mockRedis.hset).toHaveBeenLastCalledWith(
+        'circuit:shared-provider',
+        expect.objectContaining({ state: 'closed', failureCount: '0', forcedOpen: 'false' })
+      );
+      expect(sharedBreaker.getState()).toBe(CircuitState.CLOSED);
+    });
+  });
+});
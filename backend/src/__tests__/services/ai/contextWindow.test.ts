@@ -0,0 +1,65 @@
+import {
+  getHistoryBudget,
+  splitByBudget,
+  chunkByBudget,
+  selectRelevantTurns,
+  ContextMessage,
+} from '../../../services/ai/contextWindow';
+
+// 테스트용: 글자 수를 그대로 토큰 수로 사용
+const countTokens = (message: ContextMessage) => message.content.length;
+
+const history: ContextMessage[] = [
+  { role: 'user', content: '파이썬으로 CSV 파일 읽는 방법 알려줘' },
+  { role: 'assistant', content: 'pandas의 read_csv를 사용하면 됩니다.' },
+  { role: 'user', content: '오늘 날씨 어때?' },
+  { role: 'assistant', content: '날씨 정보는 제공하지 않습니다.' },
+  { role: 'user', content: '점심 메뉴 추천해줘' },
+  { role: 'assistant', content: '김치찌개 어떠세요?' },
+];
+
+describe('Context Window', () => {
+  it('should reserve response, current message and overhead tokens', () => {
+    expect(
+      getHistoryBudget({ contextWindow: 8192, reservedOutputTokens: 4096, currentTokens: 1000, overheadTokens: 1024 })
+    ).toBe(2072);
+    expect(
+      getHistoryBudget({ contextWindow: 200000, reservedOutputTokens: 4096, currentTokens: 100, maxHistoryTokens: 32000 })
+    ).toBe(32000);
+    expect(getHistoryBudget({ contextWindow: 4096, reservedOutputTokens: 4096, currentTokens: 100 })).toBe(0);
+  });
+
+  it('should keep the newest messages within budget starting with a user message', () => {
+    const lastTwo = countTokens(history[4]) + countTokens(history[5]);
+    // 마지막 세 메시지(assistant로 시작)가 들어가는 예산이어도 user부터 유지
+    const { recent, older, recentTokens } = splitByBudget(history, lastTwo + countTokens(history[3]), countTokens);
+
+    expect(recent).toEqual(history.slice(4));
+    expect(older).toEqual(history.slice(0, 4));
+    expect(recentTokens).toBe(lastTwo);
+  });
+
+  it('should keep everything when the budget is large enough', () => {
+    const { recent, older } = splitByBudget(history, 10000, countTokens);
+
+    expect(recent).toHaveLength(history.length);
+    expect(older).toHaveLength(0);
+  });
+
+  it('should chunk oldest-first without dropping any message', () => {
+    const budget = countTokens(history[0]) + countTokens(history[1]);
+    const chunks = chunkByBudget(history, budget, countTokens);
+
+    expect(chunks[0]).toEqual(history.slice(0, 2));
+    expect(chunks.flat()).toEqual(history);
+    // 예산보다 큰 메시지는 단독 묶음
+    expect(chunkByBudget(history.slice(0, 2), 1, countTokens)).toEqual([[history[0]], [history[1]]]);
+  });
+
+  it('should retrieve older turns related to the current question in order', () => {
+    const relevant = selectRelevantTurns(history.slice(0, 4), 'CSV 파일을 pandas로 읽을 때 인코딩은?', 1000, countTokens, 0.2);
+
+    expect(relevant).toEqual(history.slice(0, 2));
+    expect(selectRelevantTurns(history.slice(0, 4), 'CSV 파일 읽는 방법', 10, countTokens, 0.2)).toEqual([]);
+  });
+});
@@ -0,0 +1,29 @@
+import { cosineSimilarity, embedText, EMBEDDING_DIMENSIONS } from '../../../services/ai/embedding';
+
+describe('Local Embedding', () => {
+  it('should return a normalized vector', () => {
+    const vector = embedText('서울 날씨 알려줘');
+    expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(cosineSimilarity(vector, vector)).toBeCloseTo(1, 5);
+  });
+
+  it('should return a zero vector for empty text', () => {
+    const vector = embedText('   ');
+    expect(cosineSimilarity(vector, vector)).toBe(0);
+  });
+
+  it('should ignore case and whitespace differences', () => {
+    const a = embedText('What is  the capital of France?');
+    const b = embedText('what is the capital of france?');
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1, 5);
+  });
+
+  it('should score near-duplicate prompts above unrelated ones', () => {
+    const base = embedText('파이썬으로 리스트를 정렬하는 방법을 알려줘');
+    const similar = embedText('파이썬으로 리스트 정렬하는 방법 알려줘');
+    const unrelated = embedText('내일 부산 날씨는 어때?');
+
+    expect(cosineSimilarity(base, similar)).toBeGreaterThan(0.7);
+    expect(cosineSimilarity(base, unrelated)).toBeLessThan(0.3);
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  validateGenerationParams,
+  fitGenerationParams,
+  hasGenerationParams,
+  GenerationLimits,
+} from '../../../services/ai/generationParams';
+
+const openaiLimits: GenerationLimits = {
+  maxTemperature: 2,
+  maxOutputTokens: 32768,
+  topP: true,
+  maxStopSequences: 4,
+  seed: true,
+};
+
+const claudeLimits: GenerationLimits = {
+  maxTemperature: 1,
+  maxOutputTokens: 64000,
+  topP: true,
+  maxStopSequences: 8,
+  seed: false,
+  exclusiveSampling: true,
+};
+
+describe('Generation Params', () => {
+  it('should accept parameters within provider limits', () => {
+    expect(
+      validateGenerationParams({ temperature: 1.5, topP: 0.9, maxTokens: 1000, stop: ['END'], seed: 42 }, openaiLimits)
+    ).toEqual([]);
+  });
+
+  it('should report parameters the provider does not support', () => {
+    const issues = validateGenerationParams({ temperature: 1.5, topP: 0.9, seed: 42 }, claudeLimits);
+
+    expect(issues).toHaveLength(3);
+    expect(issues.join(' ')).toContain('temperature');
+    expect(issues.join(' ')).toContain('seed');
+  });
+
+  it('should drop unsupported values and clamp to limits when fitting', () => {
+    expect(
+      fitGenerationParams({ model: 'gpt-4.1', temperature: 1.5, topP: 0.9, maxTokens: 100000, seed: 7 }, claudeLimits)
+    ).toEqual({ temperature: 1, maxTokens: 64000 });
+  });
+
+  it('should detect whether any parameter is set', () => {
+    expect(hasGenerationParams({ temperature: undefined, stop: undefined })).toBe(false);
+    expect(hasGenerationParams({ temperature: 0 })).toBe(true);
+    expect(hasGenerationParams(undefined)).toBe(false);
+  });
+});
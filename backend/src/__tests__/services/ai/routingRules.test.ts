@@ -0,0 +1,52 @@
+import { evaluateRoutingRule, RoutingConditions, RoutingRequestContext } from '../../../services/ai/routingRules';
+import { Intent } from '../../../services/ai/intentAnalyzer';
+
+jest.mock('../../../utils/database', () => ({
+  getPrismaClient: jest.fn(() => ({})),
+}));
+
+jest.mock('../../../services/ai/providerRegistry', () => ({
+  hasProviderAdapter: jest.fn((provider: string) => ['openai', 'claude'].includes(provider)),
+}));
+
+const codeIntent: Intent = { type: 'code', confidence: 0.9 };
+
+function rule(conditions: RoutingConditions, provider = 'claude') {
+  return { id: 1, name: 'test rule', conditions, provider, model: null, priority: 100 };
+}
+
+describe('Routing Rules', () => {
+  it.each<[string, RoutingConditions, string, RoutingRequestContext, string[]]>([
+    ['empty conditions', {}, '아무 질문', {}, []],
+    ['matching intent', { intentTypes: ['code', 'table'] }, '정렬 함수 작성', {}, []],
+    ['other intent', { intentTypes: ['research'] }, '정렬 함수 작성', {}, ['intentTypes']],
+    ['keyword regex ignoring case', { keywordPattern: '^SQL\\b' }, 'sql 쿼리 최적화', {}, []],
+    ['keyword regex not found', { keywordPattern: '엑셀|csv' }, '정렬 함수 작성', {}, ['keywordPattern']],
+    ['invalid regex', { keywordPattern: '([' }, '정렬 함수 작성', {}, ['keywordPattern']],
+    ['matching role', { userRoles: ['admin'] }, '질문', { userRole: 'admin' }, []],
+    ['missing role', { userRoles: ['admin'] }, '질문', {}, ['userRoles']],
+    ['matching topic', { topics: ['finance'] }, '질문', { topic: 'finance' }, []],
+    ['other topic', { topics: ['finance'] }, '질문', { topic: 'general' }, ['topics']],
+    ['attachments required', { hasAttachments: true }, '질문', { hasAttachments: true }, []],
+    ['attachments missing', { hasAttachments: true }, '질문', {}, ['hasAttachments']],
+    ['no attachments required', { hasAttachments: false }, '질문', { hasAttachments: true }, ['hasAttachments']],
+    [
+      'all failing conditions reported',
+      { intentTypes: ['summary'], userRoles: ['admin'], topics: ['finance'] },
+      '질문',
+      { userRole: 'user' },
+      ['intentTypes', 'userRoles', 'topics'],
+    ],
+  ])('should evaluate %s', (_name, conditions, prompt, context, failedConditions) => {
+    const result = evaluateRoutingRule(rule(conditions), prompt, codeIntent, context);
+
+    expect(result.failedConditions).toEqual(failedConditions);
+    expect(result.matched).toBe(failedConditions.length === 0);
+  });
+
+  it('should not match a rule whose provider is not registered', () => {
+    const result = evaluateRoutingRule(rule({}, 'unknown-provider'), '질문', codeIntent);
+
+    expect(result).toEqual({ ruleId: 1, name: 'test rule', matched: false, failedConditions: ['provider'] });
+  });
+});
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { extractJson, generateStructured } from '../../../services/ai/structuredOutput';
+import { getProviderAdapter } from '../../../services/ai/providerRegistry';
+
+jest.mock('../../../services/ai/providerRegistry', () => ({
+  getProviderAdapter: jest.fn(),
+}));
+
+jest.mock('../../../services/ai/weightManager', () => ({
+  selectProvider: jest.fn(async () => 'openai'),
+}));
+
+jest.mock('../../../services/ai/modelCatalog', () => ({
+  resolveCatalogModel: jest.fn(async (_provider: string, model?: string) => ({ model: model || 'gpt-4.1-mini' })),
+}));
+
+const schema = z.object({ title: z.string(), score: z.number() });
+
+// 응답을 순서대로 반환하는 어댑터
+function mockResponses(...responses: string[]) {
+  const chat = jest.fn();
+  for (const response of responses) {
+    chat.mockResolvedValueOnce(response);
+  }
+  (getProviderAdapter as jest.Mock).mockReturnValue({ chat, capabilities: { jsonMode: true } });
+  return chat;
+}
+
+describe('Structured Output', () => {
+  describe('extractJson', () => {
+    it('should parse plain and fenced JSON', () => {
+      expect(extractJson('{"a":1}')).toEqual({ a: 1 });
+      expect(extractJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+      expect(extractJson('```\n[1, 2]\n```')).toEqual([1, 2]);
+    });
+
+    it('should extract JSON surrounded by prose', () => {
+      expect(extractJson('결과입니다: {"title":"요약","score":3} 참고하세요.')).toEqual({ title: '요약', score: 3 });
+    });
+
+    it('should throw when there is no JSON', () => {
+      expect(() => extractJson('JSON이 없습니다')).toThrow('응답에서 JSON을 찾을 수 없습니다');
+      expect(() => extractJson('{"a":')).toThrow();
+    });
+  });
+
+  describe('generateStructured', () => {
+    it('should return the validated result on the first valid response', async () => {
+      const chat = mockResponses('{"title":"요약","score":3}');
+
+      await expect(generateStructured([{ role: 'user', content: '요약해줘' }], schema)).resolves.toEqual({
+        title: '요약',
+        score: 3,
+      });
+      expect(chat).toHaveBeenCalledTimes(1);
+      expect(chat.mock.calls[0][1]).toMatchObject({ jsonMode: true, model: 'gpt-4.1-mini' });
+    });
+
+    it('should send validation issues back and accept the repaired response', async () => {
+      const chat = mockResponses('{"title":"요약","score":"높음"}', '{"title":"요약","score":5}');
+
+      await expect(generateStructured([{ role: 'user', content: '요약해줘' }], schema)).resolves.toEqual({
+        title: '요약',
+        score: 5,
+      });
+      expect(chat).toHaveBeenCalledTimes(2);
+
+      const repairMessages = chat.mock.calls[1][0];
+      expect(repairMessages[repairMessages.length - 2]).toEqual({
+        role: 'assistant',
+        content: '{"title":"요약","score":"높음"}',
+      });
+      expect(repairMessages[repairMessages.length - 1].content).toContain('score');
+    });
+
+    it('should throw after maxRepairAttempts invalid responses', async () => {
+      const chat = mockResponses('설명만 있습니다', '{"title":1}', '{"score":2}');
+
+      await expect(
+        generateStructured([{ role: 'user', content: '요약해줘' }], schema, { maxRepairAttempts: 1 })
+      ).rejects.toThrow('Structured output validation failed');
+      expect(chat).toHaveBeenCalledTimes(2);
+    });
+  });
+});
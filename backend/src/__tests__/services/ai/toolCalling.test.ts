@@ -0,0 +1,24 @@
+import { parseToolArguments, getToolMessageText } from '../../../services/ai/toolCalling';
+
+describe('Tool Calling', () => {
+  it('should parse tool arguments as an object', () => {
+    expect(parseToolArguments('{"query":"환율","maxResults":3}')).toEqual({ query: '환율', maxResults: 3 });
+  });
+
+  it('should fall back to an empty object for malformed or non-object arguments', () => {
+    expect(parseToolArguments('{"query":')).toEqual({});
+    expect(parseToolArguments('["a"]')).toEqual({});
+    expect(parseToolArguments(undefined)).toEqual({});
+  });
+
+  it('should include tool calls when measuring assistant message text', () => {
+    const text = getToolMessageText({
+      role: 'assistant',
+      content: '검색합니다',
+      toolCalls: [{ id: 'call_1', name: 'web_search', arguments: { query: '환율' } }],
+    });
+
+    expect(text).toContain('검색합니다');
+    expect(text).toContain('web_search');
+  });
+});
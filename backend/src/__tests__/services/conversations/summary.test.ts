@@ -0,0 +1,103 @@
+import { getRollingSummary, StoredMessage } from '../../../services/conversations/summary';
+import { orchestrateAI } from '../../../services/ai/orchestrator';
+import { getPrismaClient } from '../../../utils/database';
+
+// summary 모듈이 로드 시점에 클라이언트를 가져오므로 팩토리 안에서 생성
+jest.mock('../../../utils/database', () => {
+  const prisma = {
+    conversationSummary: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+  return { getPrismaClient: jest.fn(() => prisma) };
+});
+
+jest.mock('../../../services/ai/orchestrator', () => ({
+  orchestrateAI: jest.fn(),
+}));
+
+const mockPrisma = getPrismaClient() as any;
+const mockOrchestrate = orchestrateAI as jest.Mock;
+
+// 메시지 하나가 요약 한도(8000)를 채워 메시지마다 한 묶음이 됨
+const perMessageChunk = () => 8000;
+
+function messages(...ids: number[]): StoredMessage[] {
+  return ids.map((id) => ({ id, role: id % 2 ? 'user' : 'assistant', content: `메시지 ${id}` }));
+}
+
+function upsertedData(): { summary: string; lastMessageId: number; messageCount: number }[] {
+  return mockPrisma.conversationSummary.upsert.mock.calls.map(([args]: any[]) => args.update);
+}
+
+describe('Rolling Summary', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.conversationSummary.findUnique.mockResolvedValue(null);
+    mockPrisma.conversationSummary.upsert.mockResolvedValue({});
+  });
+
+  it('should summarize new messages oldest-first on top of the stored summary', async () => {
+    mockPrisma.conversationSummary.findUnique.mockResolvedValue({
+      conversationId: 1,
+      summary: '기존 요약',
+      lastMessageId: 2,
+      messageCount: 2,
+      isEdited: false,
+      updatedAt: new Date(),
+    });
+    mockOrchestrate.mockResolvedValueOnce('요약 3').mockResolvedValueOnce('요약 4');
+
+    const result = await getRollingSummary(1, messages(1, 2, 3, 4), 500, perMessageChunk);
+
+    expect(result).toBe('요약 4');
+    expect(mockOrchestrate).toHaveBeenCalledTimes(2);
+    expect(mockOrchestrate.mock.calls[0][1]).toContain('기존 요약');
+    expect(mockOrchestrate.mock.calls[0][1]).toContain('메시지 3');
+    expect(mockOrchestrate.mock.calls[0][1]).not.toContain('메시지 4');
+    expect(mockOrchestrate.mock.calls[1][1]).toContain('요약 3');
+    expect(mockOrchestrate.mock.calls[1][1]).toContain('메시지 4');
+    expect(upsertedData()).toEqual([
+      { summary: '요약 3', lastMessageId: 3, messageCount: 3 },
+      { summary: '요약 4', lastMessageId: 4, messageCount: 4 },
+    ]);
+  });
+
+  it('should not call the AI when the stored summary already covers the messages', async () => {
+    mockPrisma.conversationSummary.findUnique.mockResolvedValue({
+      conversationId: 1,
+      summary: '기존 요약',
+      lastMessageId: 4,
+      messageCount: 4,
+      isEdited: true,
+      updatedAt: new Date(),
+    });
+
+    await expect(getRollingSummary(1, messages(1, 2, 3, 4), 500, perMessageChunk)).resolves.toBe('기존 요약');
+    expect(mockOrchestrate).not.toHaveBeenCalled();
+    expect(mockPrisma.conversationSummary.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should move lastMessageId only past successfully summarized chunks', async () => {
+    mockOrchestrate
+      .mockResolvedValueOnce('요약 1')
+      .mockRejectedValueOnce(new Error('provider down'))
+      .mockResolvedValueOnce('요약 3');
+
+    const result = await getRollingSummary(1, messages(1, 2, 3), 500, perMessageChunk);
+
+    expect(result).toBe('요약 1');
+    expect(mockOrchestrate).toHaveBeenCalledTimes(2);
+    expect(upsertedData()).toEqual([{ summary: '요약 1', lastMessageId: 1, messageCount: 1 }]);
+  });
+
+  it('should process at most MAX_SUMMARY_CHUNKS_PER_REQUEST chunks per request', async () => {
+    mockOrchestrate.mockImplementation(async (_messages: unknown, prompt: string) => `요약 ${prompt.length}`);
+
+    await getRollingSummary(1, messages(1, 2, 3, 4, 5, 6), 500, perMessageChunk);
+
+    expect(mockOrchestrate).toHaveBeenCalledTimes(4);
+    expect(upsertedData().map((data) => data.lastMessageId)).toEqual([1, 2, 3, 4]);
+  });
+});
@@ -78,6 +78,7 @@ import codeRoutes from './routes/code.js';
 import workflowRoutes from './routes/workflows.js';
 import mcpRoutes from './routes/mcp.js';
 import conversationRoutes from './routes/conversations.js';
+import personaRoutes from './routes/personas.js';
 import logRoutes from './routes/logs.js';
 import adminRoutes from './routes/admin/index.js';
 import multimodalRoutes from './routes/multimodal.js';
@@ -94,6 +95,7 @@ app.use('/api/code', codeRoutes);
 app.use('/api/workflows', workflowRoutes);
 app.use('/api/mcp', mcpRoutes);
 app.use('/api/conversations', conversationRoutes);
+app.use('/api/personas', personaRoutes);
 app.use('/api/logs', logRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/multimodal', multimodalRoutes);
@@ -0,0 +1,282 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest, requireAdmin } from '../../middleware/auth.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { createLogger } from '../../utils/logger.js';
+import { validateInput } from '../../middleware/security.js';
+import { adminSchemas } from '../../utils/validation.js';
+import { DEFAULT_A2A_PIPELINE } from '../../services/ai/a2aPipeline.js';
+
+const router = Router();
+const prisma = getPrismaClient();
+
+/**
+ * @swagger
+ * /api/admin/a2a-presets:
+ *   get:
+ *     tags: [Admin]
+ *     summary: A2A 파이프라인 프리셋 목록 (내장 기본 구성 포함)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 프리셋 목록과 내장 기본 구성
+ */
+router.get(
+  '/',
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'listA2APresets',
+      screenUrl: '/api/admin/a2a-presets',
+    });
+
+    try {
+      const presets = await prisma.a2APreset.findMany({
+        orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+      });
+
+      res.json({ presets, builtinDefault: DEFAULT_A2A_PIPELINE });
+    } catch (error) {
+      logger.error('A2A presets listing error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/admin/a2a-presets',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to list A2A presets' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/a2a-presets:
+ *   post:
+ *     tags: [Admin]
+ *     summary: A2A 파이프라인 프리셋 생성
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - definition
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               definition:
+ *                 type: object
+ *                 description: "participants[{provider, model, persona}], phases[{name: collaboration|debate, rounds}], synthesizers[{provider, model, persona}] (폴백 순서), earlyStop{enabled, threshold}"
+ *               isDefault:
+ *                 type: boolean
+ *                 description: 프리셋을 지정하지 않은 요청에 사용 (기존 기본 프리셋은 해제)
+ *     responses:
+ *       201:
+ *         description: 생성된 프리셋
+ *       409:
+ *         description: 같은 이름의 프리셋이 이미 존재
+ */
+router.post(
+  '/',
+  authenticateToken,
+  requireAdmin,
+  validateInput(adminSchemas.a2aPreset),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'createA2APreset',
+      screenUrl: '/api/admin/a2a-presets',
+    });
+
+    try {
+      const { name, description, definition, isDefault } = req.body;
+
+      const existing = await prisma.a2APreset.findUnique({ where: { name } });
+      if (existing) {
+        res.status(409).json({ error: 'A2A preset with this name already exists' });
+        return;
+      }
+
+      if (isDefault) {
+        await prisma.a2APreset.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      const preset = await prisma.a2APreset.create({
+        data: {
+          name,
+          description,
+          definition,
+          isDefault,
+          createdBy: req.userId,
+        },
+      });
+
+      logger.success('A2A preset created', {
+        userId: req.userId,
+        presetId: preset.id,
+        name,
+        backendApiUrl: '/api/admin/a2a-presets',
+        logType: 'success',
+      });
+
+      res.status(201).json({ preset });
+    } catch (error) {
+      logger.error('A2A preset creation error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/admin/a2a-presets',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to create A2A preset' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/a2a-presets/{id}:
+ *   put:
+ *     tags: [Admin]
+ *     summary: A2A 파이프라인 프리셋 수정
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: 수정된 프리셋
+ *       404:
+ *         description: 프리셋 없음
+ */
+router.put(
+  '/:id',
+  authenticateToken,
+  requireAdmin,
+  validateInput(adminSchemas.a2aPresetUpdate),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'updateA2APreset',
+      screenUrl: '/api/admin/a2a-presets/:id',
+    });
+
+    try {
+      const presetId = parseInt(req.params.id);
+      const { name, description, definition, isDefault } = req.body;
+
+      const existing = await prisma.a2APreset.findUnique({ where: { id: presetId } });
+      if (!existing) {
+        res.status(404).json({ error: 'A2A preset not found' });
+        return;
+      }
+
+      const updateData: any = {};
+      if (name !== undefined) updateData.name = name;
+      if (description !== undefined) updateData.description = description;
+      if (definition !== undefined) updateData.definition = definition;
+      if (isDefault !== undefined) updateData.isDefault = isDefault;
+
+      if (isDefault) {
+        await prisma.a2APreset.updateMany({
+          where: { isDefault: true, id: { not: presetId } },
+          data: { isDefault: false },
+        });
+      }
+
+      const preset = await prisma.a2APreset.update({
+        where: { id: presetId },
+        data: updateData,
+      });
+
+      logger.success('A2A preset updated', {
+        userId: req.userId,
+        presetId,
+        backendApiUrl: `/api/admin/a2a-presets/${presetId}`,
+        logType: 'success',
+      });
+
+      res.json({ preset });
+    } catch (error) {
+      logger.error('A2A preset update error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/admin/a2a-presets/${req.params.id}`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to update A2A preset' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/a2a-presets/{id}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: A2A 파이프라인 프리셋 삭제
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: 삭제 완료
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'deleteA2APreset',
+      screenUrl: '/api/admin/a2a-presets/:id',
+    });
+
+    try {
+      const presetId = parseInt(req.params.id);
+
+      await prisma.a2APreset.delete({
+        where: { id: presetId },
+      });
+
+      logger.success('A2A preset deleted', {
+        userId: req.userId,
+        presetId,
+        backendApiUrl: `/api/admin/a2a-presets/${presetId}`,
+        logType: 'success',
+      });
+
+      res.json({ message: 'A2A preset deleted successfully' });
+    } catch (error) {
+      logger.error('A2A preset deletion error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/admin/a2a-presets/${req.params.id}`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to delete A2A preset' });
+    }
+  }
+);
+
+export default router;
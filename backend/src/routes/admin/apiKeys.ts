@@ -5,10 +5,49 @@ import { createLogger } from '../../utils/logger.js';
 import { encrypt, decrypt } from '../../utils/encryption.js';
 import { validateInput } from '../../middleware/security.js';
 import { adminSchemas } from '../../utils/validation.js';
+import { getEffectiveWeights, isAdaptiveWeightingEnabled } from '../../services/ai/weightManager.js';
+import { getKeyUsage, getKeyCooldown, clearKeyCooldown } from '../../services/ai/keyPool.js';
 
 const router = Router();
 const prisma = getPrismaClient();
 
+const HEADER_MASK = '********';
+
+// 응답에 포함되는 metadata에서 헤더 값은 마스킹 (인증 토큰이 포함될 수 있음)
+function maskMetadata(metadata: unknown): Record<string, any> {
+  if (!metadata || typeof metadata !== 'object') {
+    return {};
+  }
+
+  const { headers, ...rest } = metadata as Record<string, any>;
+  if (!headers || typeof headers !== 'object') {
+    return rest;
+  }
+
+  return {
+    ...rest,
+    headers: Object.fromEntries(Object.keys(headers).map((name) => [name, HEADER_MASK])),
+  };
+}
+
+// 수정 요청의 metadata를 저장된 값에 병합. headers가 없으면 저장된 헤더를 유지하고,
+// 마스킹된 값 그대로 돌아온 헤더는 저장된 값을 유지 (목록에서 빠진 헤더는 삭제)
+function mergeMetadata(stored: unknown, incoming: Record<string, any>): Record<string, any> {
+  const current = stored && typeof stored === 'object' ? (stored as Record<string, any>) : {};
+  const { headers, ...rest } = incoming;
+  const merged: Record<string, any> = { ...current, ...rest };
+
+  if (headers) {
+    const storedHeaders: Record<string, string> = current.headers || {};
+    merged.headers = Object.fromEntries(
+      Object.entries(headers as Record<string, string>)
+        .map(([name, value]) => [name, value === HEADER_MASK ? storedHeaders[name] : value])
+        .filter(([, value]) => value !== undefined)
+    );
+  }
+  return merged;
+}
+
 // API 키 목록
 router.get(
   '/',
@@ -29,12 +68,18 @@ router.get(
           provider: true,
           isActive: true,
           weight: true,
+          metadata: true,
+          name: true,
+          dailyRequestLimit: true,
+          dailyTokenLimit: true,
           createdAt: true,
           updatedAt: true,
           createdBy: true,
         },
       });
 
+      const usage = await getKeyUsage(apiKeys.map((key: (typeof apiKeys)[number]) => key.id));
+
       logger.success('API keys listed', {
         userId: req.userId,
         count: apiKeys.length,
@@ -42,7 +87,21 @@ router.get(
         logType: 'success',
       });
 
-      res.json({ apiKeys });
+      const [effectiveWeights, adaptiveWeighting] = await Promise.all([
+        getEffectiveWeights(),
+        isAdaptiveWeightingEnabled(),
+      ]);
+
+      res.json({
+        apiKeys: apiKeys.map((key: (typeof apiKeys)[number]) => ({
+          ...key,
+          metadata: maskMetadata(key.metadata),
+          usage: usage.get(key.id) || { requestCount: 0, tokenCount: 0, errorCount: 0, lastStatus: null, lastUsedAt: null },
+          cooldown: getKeyCooldown(key.id),
+        })),
+        adaptiveWeighting,
+        effectiveWeights,
+      });
     } catch (error) {
       logger.error('API keys listing error', {
         userId: req.userId,
@@ -75,13 +134,34 @@ router.get(
  *             properties:
  *               provider:
  *                 type: string
- *                 enum: [openai, claude, gemini, perplexity, luxia]
+ *                 enum: [openai, claude, gemini, perplexity, luxia, openai-compatible]
  *               apiKey:
  *                 type: string
  *               weight:
  *                 type: number
  *               isActive:
  *                 type: boolean
+ *               name:
+ *                 type: string
+ *                 description: 같은 프로바이더의 키를 구분하기 위한 이름
+ *               dailyRequestLimit:
+ *                 type: integer
+ *                 description: 키별 일일 요청 수 한도 (없으면 무제한)
+ *               dailyTokenLimit:
+ *                 type: integer
+ *                 description: 키별 일일 토큰 한도 (없으면 무제한)
+ *               metadata:
+ *                 type: object
+ *                 description: openai-compatible 프로바이더의 엔드포인트 설정
+ *                 properties:
+ *                   baseUrl:
+ *                     type: string
+ *                   model:
+ *                     type: string
+ *                   headers:
+ *                     type: object
+ *                     additionalProperties:
+ *                       type: string
  *     responses:
  *       201:
  *         description: API 키 생성 성공
@@ -100,7 +180,7 @@ router.post(
     });
 
     try {
-      const { provider, apiKey, weight, isActive } = req.body;
+      const { provider, apiKey, weight, isActive, metadata, name, dailyRequestLimit, dailyTokenLimit } = req.body;
 
       if (!provider || !apiKey) {
         logger.warning('Invalid request: provider and apiKey are required', {
@@ -121,6 +201,10 @@ router.post(
           apiKey: encryptedApiKey,
           weight: weight || 1.0,
           isActive: isActive !== undefined ? isActive : true,
+          metadata: metadata || {},
+          name,
+          dailyRequestLimit,
+          dailyTokenLimit,
           createdBy: req.userId,
         },
         select: {
@@ -128,6 +212,10 @@ router.post(
           provider: true,
           isActive: true,
           weight: true,
+          metadata: true,
+          name: true,
+          dailyRequestLimit: true,
+          dailyTokenLimit: true,
           createdAt: true,
         },
       });
@@ -140,7 +228,7 @@ router.post(
         logType: 'success',
       });
 
-      res.status(201).json({ apiKey: newApiKey });
+      res.status(201).json({ apiKey: { ...newApiKey, metadata: maskMetadata(newApiKey.metadata) } });
     } catch (error) {
       logger.error('API key creation error', {
         userId: req.userId,
@@ -158,6 +246,7 @@ router.put(
   '/:id',
   authenticateToken,
   requireAdmin,
+  validateInput(adminSchemas.apiKeyUpdate),
   async (req: AuthRequest, res: Response) => {
     const logger = createLogger({
       screenName: 'Admin',
@@ -167,7 +256,16 @@ router.put(
 
     try {
       const apiKeyId = parseInt(req.params.id);
-      const { apiKey, weight, isActive } = req.body;
+      const { apiKey, weight, isActive, metadata, name, dailyRequestLimit, dailyTokenLimit } = req.body;
+
+      const existing = await prisma.apiKey.findUnique({
+        where: { id: apiKeyId },
+        select: { metadata: true },
+      });
+      if (!existing) {
+        res.status(404).json({ error: 'API key not found' });
+        return;
+      }
 
       const updateData: any = {};
       if (apiKey !== undefined) {
@@ -176,6 +274,10 @@ router.put(
       }
       if (weight !== undefined) updateData.weight = weight;
       if (isActive !== undefined) updateData.isActive = isActive;
+      if (metadata !== undefined) updateData.metadata = mergeMetadata(existing.metadata, metadata);
+      if (name !== undefined) updateData.name = name;
+      if (dailyRequestLimit !== undefined) updateData.dailyRequestLimit = dailyRequestLimit;
+      if (dailyTokenLimit !== undefined) updateData.dailyTokenLimit = dailyTokenLimit;
 
       const updated = await prisma.apiKey.update({
         where: { id: apiKeyId },
@@ -185,10 +287,19 @@ router.put(
           provider: true,
           isActive: true,
           weight: true,
+          metadata: true,
+          name: true,
+          dailyRequestLimit: true,
+          dailyTokenLimit: true,
           updatedAt: true,
         },
       });
 
+      // 키를 교체하거나 다시 활성화하면 401/429 쿨다운 해제
+      if (apiKey !== undefined || isActive === true) {
+        clearKeyCooldown(apiKeyId);
+      }
+
       logger.success('API key updated', {
         userId: req.userId,
         apiKeyId,
@@ -196,7 +307,7 @@ router.put(
         logType: 'success',
       });
 
-      res.json({ apiKey: updated });
+      res.json({ apiKey: { ...updated, metadata: maskMetadata(updated.metadata) } });
     } catch (error) {
       logger.error('API key update error', {
         userId: req.userId,
@@ -0,0 +1,284 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest, requireAdmin } from '../../middleware/auth.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { createLogger } from '../../utils/logger.js';
+import { validateInput } from '../../middleware/security.js';
+import { adminSchemas } from '../../utils/validation.js';
+import { getBudgetStates } from '../../services/ai/budget.js';
+
+const router = Router();
+const prisma = getPrismaClient();
+
+/**
+ * @swagger
+ * /api/admin/budgets:
+ *   get:
+ *     tags: [Admin]
+ *     summary: 사용자/역할별 AI 사용 예산 목록 (현재 기간 사용량 포함)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 예산 목록
+ */
+router.get(
+  '/',
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'listBudgets',
+      screenUrl: '/api/admin/budgets',
+    });
+
+    try {
+      const budgets = await prisma.usageBudget.findMany({
+        include: { user: { select: { id: true, email: true, name: true } } },
+        orderBy: [{ scope: 'asc' }, { id: 'asc' }],
+      });
+
+      const budgetsWithUsage = await Promise.all(
+        budgets.map(async (budget: (typeof budgets)[number]) => ({
+          ...budget,
+          usage: await getBudgetStates(budget),
+        }))
+      );
+
+      res.json({ budgets: budgetsWithUsage });
+    } catch (error) {
+      logger.error('Budgets listing error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/admin/budgets',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to list budgets' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/budgets:
+ *   post:
+ *     tags: [Admin]
+ *     summary: AI 사용 예산 생성
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scope
+ *               - period
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [user, role]
+ *               userId:
+ *                 type: integer
+ *               role:
+ *                 type: string
+ *               period:
+ *                 type: string
+ *                 enum: [daily, monthly]
+ *               tokenLimit:
+ *                 type: integer
+ *               costLimit:
+ *                 type: number
+ *                 description: USD
+ *               softLimitPercent:
+ *                 type: integer
+ *                 description: 경고를 보낼 사용률 (기본 80)
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: 생성된 예산
+ *       409:
+ *         description: 같은 대상·기간의 예산이 이미 존재
+ */
+router.post(
+  '/',
+  authenticateToken,
+  requireAdmin,
+  validateInput(adminSchemas.usageBudget),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'createBudget',
+      screenUrl: '/api/admin/budgets',
+    });
+
+    try {
+      const { scope, userId, role, period, tokenLimit, costLimit, softLimitPercent, isActive } = req.body;
+
+      const existing = await prisma.usageBudget.findFirst({
+        where: scope === 'user' ? { userId, period } : { role, period },
+      });
+      if (existing) {
+        res.status(409).json({ error: 'Budget already exists for this target and period' });
+        return;
+      }
+
+      const budget = await prisma.usageBudget.create({
+        data: {
+          scope,
+          userId: scope === 'user' ? userId : null,
+          role: scope === 'role' ? role : null,
+          period,
+          tokenLimit: tokenLimit || null,
+          costLimit: costLimit || null,
+          softLimitPercent,
+          isActive,
+        },
+      });
+
+      logger.success('Budget created', {
+        userId: req.userId,
+        budgetId: budget.id,
+        scope,
+        period,
+        backendApiUrl: '/api/admin/budgets',
+        logType: 'success',
+      });
+
+      res.status(201).json({ budget });
+    } catch (error) {
+      logger.error('Budget creation error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/admin/budgets',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to create budget' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/budgets/{id}:
+ *   put:
+ *     tags: [Admin]
+ *     summary: AI 사용 예산 수정 (한도, 경고 비율, 활성화)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: 수정된 예산
+ */
+router.put(
+  '/:id',
+  authenticateToken,
+  requireAdmin,
+  validateInput(adminSchemas.usageBudgetUpdate),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'updateBudget',
+      screenUrl: '/api/admin/budgets/:id',
+    });
+
+    try {
+      const budgetId = parseInt(req.params.id);
+      const { tokenLimit, costLimit, softLimitPercent, isActive } = req.body;
+
+      const updateData: any = {};
+      if (tokenLimit !== undefined) updateData.tokenLimit = tokenLimit || null;
+      if (costLimit !== undefined) updateData.costLimit = costLimit || null;
+      if (softLimitPercent !== undefined) updateData.softLimitPercent = softLimitPercent;
+      if (isActive !== undefined) updateData.isActive = isActive;
+
+      const budget = await prisma.usageBudget.update({
+        where: { id: budgetId },
+        data: updateData,
+      });
+
+      logger.success('Budget updated', {
+        userId: req.userId,
+        budgetId,
+        backendApiUrl: `/api/admin/budgets/${budgetId}`,
+        logType: 'success',
+      });
+
+      res.json({ budget });
+    } catch (error) {
+      logger.error('Budget update error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/admin/budgets/${req.params.id}`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to update budget' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/budgets/{id}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: AI 사용 예산 삭제
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: 삭제 완료
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'deleteBudget',
+      screenUrl: '/api/admin/budgets/:id',
+    });
+
+    try {
+      const budgetId = parseInt(req.params.id);
+
+      await prisma.usageBudget.delete({
+        where: { id: budgetId },
+      });
+
+      logger.success('Budget deleted', {
+        userId: req.userId,
+        budgetId,
+        backendApiUrl: `/api/admin/budgets/${budgetId}`,
+        logType: 'success',
+      });
+
+      res.json({ message: 'Budget deleted successfully' });
+    } catch (error) {
+      logger.error('Budget deletion error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/admin/budgets/${req.params.id}`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to delete budget' });
+    }
+  }
+);
+
+export default router;
@@ -4,6 +4,11 @@ import userRoutes from './users.js';
 import guardrailRoutes from './guardrails.js';
 import logRoutes from './logs.js';
 import settingsRoutes from './settings.js';
+import providerRoutes from './providers.js';
+import routingRoutes from './routing.js';
+import usageRoutes from './usage.js';
+import budgetRoutes from './budgets.js';
+import a2aPresetRoutes from './a2aPresets.js';
 
 const router = Router();
 
@@ -12,6 +17,11 @@ router.use('/users', userRoutes);
 router.use('/guardrails', guardrailRoutes);
 router.use('/logs', logRoutes);
 router.use('/settings', settingsRoutes);
+router.use('/providers', providerRoutes);
+router.use('/routing', routingRoutes);
+router.use('/usage', usageRoutes);
+router.use('/budgets', budgetRoutes);
+router.use('/a2a-presets', a2aPresetRoutes);
 
 export default router;
 
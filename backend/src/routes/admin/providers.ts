@@ -0,0 +1,278 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest, requireAdmin } from '../../middleware/auth.js';
+import { createLogger } from '../../utils/logger.js';
+import { validateInput } from '../../middleware/security.js';
+import { adminSchemas } from '../../utils/validation.js';
+import { getCircuitBreaker } from '../../services/ai/circuitBreaker.js';
+import { hasProviderAdapter, getProviderDisplayName } from '../../services/ai/providerRegistry.js';
+import {
+  getModelCatalog,
+  setProviderModels,
+  DEFAULT_MODEL_CATALOG,
+} from '../../services/ai/modelCatalog.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/admin/providers/{provider}/circuit:
+ *   get:
+ *     tags: [Admin]
+ *     summary: 프로바이더 Circuit Breaker 상태 조회
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Circuit Breaker 상태
+ *       404:
+ *         description: 알 수 없는 프로바이더
+ */
+router.get(
+  '/:provider/circuit',
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'getProviderCircuit',
+      screenUrl: '/api/admin/providers/:provider/circuit',
+    });
+
+    const { provider } = req.params;
+
+    try {
+      if (!hasProviderAdapter(provider)) {
+        res.status(404).json({ error: 'Provider not found' });
+        return;
+      }
+
+      const circuitBreaker = getCircuitBreaker(provider);
+      await circuitBreaker.refresh(0);
+
+      res.json({
+        provider,
+        providerName: getProviderDisplayName(provider),
+        circuit: circuitBreaker.getStats(),
+      });
+    } catch (error) {
+      logger.error('Provider circuit fetch error', {
+        userId: req.userId,
+        provider,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/admin/providers/${provider}/circuit`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to fetch circuit state' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/providers/{provider}/circuit:
+ *   post:
+ *     tags: [Admin]
+ *     summary: 프로바이더 Circuit Breaker 강제 열기 / 리셋
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - action
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [open, reset]
+ *     responses:
+ *       200:
+ *         description: 변경된 Circuit Breaker 상태
+ *       404:
+ *         description: 알 수 없는 프로바이더
+ */
+router.post(
+  '/:provider/circuit',
+  authenticateToken,
+  requireAdmin,
+  validateInput(adminSchemas.circuitAction),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'updateProviderCircuit',
+      screenUrl: '/api/admin/providers/:provider/circuit',
+    });
+
+    const { provider } = req.params;
+    const { action } = req.body;
+
+    try {
+      if (!hasProviderAdapter(provider)) {
+        res.status(404).json({ error: 'Provider not found' });
+        return;
+      }
+
+      const circuitBreaker = getCircuitBreaker(provider);
+      if (action === 'open') {
+        await circuitBreaker.forceOpen();
+      } else {
+        await circuitBreaker.reset();
+      }
+
+      logger.success('Provider circuit updated', {
+        userId: req.userId,
+        provider,
+        action,
+        backendApiUrl: `/api/admin/providers/${provider}/circuit`,
+        logType: 'success',
+      });
+
+      res.json({
+        provider,
+        providerName: getProviderDisplayName(provider),
+        circuit: circuitBreaker.getStats(),
+      });
+    } catch (error) {
+      logger.error('Provider circuit update error', {
+        userId: req.userId,
+        provider,
+        action,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/admin/providers/${provider}/circuit`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to update circuit state' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/providers/models:
+ *   get:
+ *     tags: [Admin]
+ *     summary: 모델 카탈로그 조회 (관리자 재정의가 적용된 카탈로그와 기본 카탈로그)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 프로바이더별 모델 목록
+ */
+router.get(
+  '/models',
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'getModelCatalog',
+      screenUrl: '/api/admin/providers/models',
+    });
+
+    try {
+      res.json({ catalog: await getModelCatalog(), defaults: DEFAULT_MODEL_CATALOG });
+    } catch (error) {
+      logger.error('Model catalog fetch error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/admin/providers/models',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to fetch model catalog' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/providers/{provider}/models:
+ *   put:
+ *     tags: [Admin]
+ *     summary: 프로바이더 모델 목록 재정의
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - models
+ *             properties:
+ *               models:
+ *                 type: array
+ *                 nullable: true
+ *                 description: "[{id, name, contextWindow, maxOutputTokens, modalities[text|image|audio], streaming, toolCalling, price{input, output}(USD/100만 토큰), isDefault}] (null이면 기본 카탈로그로 복원)"
+ *     responses:
+ *       200:
+ *         description: 적용된 모델 목록
+ *       404:
+ *         description: 알 수 없는 프로바이더
+ */
+router.put(
+  '/:provider/models',
+  authenticateToken,
+  requireAdmin,
+  validateInput(adminSchemas.providerModels),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'updateProviderModels',
+      screenUrl: '/api/admin/providers/:provider/models',
+    });
+
+    const { provider } = req.params;
+
+    try {
+      if (!hasProviderAdapter(provider)) {
+        res.status(404).json({ error: 'Provider not found' });
+        return;
+      }
+
+      await setProviderModels(provider, req.body.models);
+      const catalog = await getModelCatalog();
+
+      logger.success('Provider models updated', {
+        userId: req.userId,
+        provider,
+        reset: req.body.models === null,
+        backendApiUrl: `/api/admin/providers/${provider}/models`,
+        logType: 'success',
+      });
+
+      res.json({ provider, models: catalog[provider] || [] });
+    } catch (error) {
+      logger.error('Provider models update error', {
+        userId: req.userId,
+        provider,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/admin/providers/${provider}/models`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to update provider models' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,364 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest, requireAdmin } from '../../middleware/auth.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { createLogger } from '../../utils/logger.js';
+import { validateInput } from '../../middleware/security.js';
+import { adminSchemas } from '../../utils/validation.js';
+import { classifyIntent } from '../../services/ai/intentAnalyzer.js';
+import { explainRouting, invalidateRoutingRulesCache } from '../../services/ai/routingRules.js';
+
+const router = Router();
+const prisma = getPrismaClient();
+
+/**
+ * @swagger
+ * /api/admin/routing:
+ *   get:
+ *     tags: [Admin]
+ *     summary: 라우팅 규칙 목록 (우선순위 순)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 라우팅 규칙 목록
+ */
+router.get(
+  '/',
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'listRoutingRules',
+      screenUrl: '/api/admin/routing',
+    });
+
+    try {
+      const rules = await prisma.routingRule.findMany({
+        orderBy: [{ priority: 'asc' }, { id: 'asc' }],
+      });
+
+      res.json({ rules });
+    } catch (error) {
+      logger.error('Routing rules listing error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/admin/routing',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to list routing rules' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/routing:
+ *   post:
+ *     tags: [Admin]
+ *     summary: 라우팅 규칙 생성
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - provider
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               conditions:
+ *                 type: object
+ *                 properties:
+ *                   intentTypes:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   keywordPattern:
+ *                     type: string
+ *                   userRoles:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   topics:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   hasAttachments:
+ *                     type: boolean
+ *               provider:
+ *                 type: string
+ *               model:
+ *                 type: string
+ *               priority:
+ *                 type: integer
+ *                 description: 낮을수록 먼저 평가
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: 생성된 라우팅 규칙
+ */
+router.post(
+  '/',
+  authenticateToken,
+  requireAdmin,
+  validateInput(adminSchemas.routingRule),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'createRoutingRule',
+      screenUrl: '/api/admin/routing',
+    });
+
+    try {
+      const { name, description, conditions, provider, model, priority, isActive } = req.body;
+
+      const rule = await prisma.routingRule.create({
+        data: {
+          name,
+          description,
+          conditions,
+          provider,
+          model: model || null,
+          priority,
+          isActive,
+          createdBy: req.userId,
+        },
+      });
+      invalidateRoutingRulesCache();
+
+      logger.success('Routing rule created', {
+        userId: req.userId,
+        ruleId: rule.id,
+        provider,
+        backendApiUrl: '/api/admin/routing',
+        logType: 'success',
+      });
+
+      res.status(201).json({ rule });
+    } catch (error) {
+      logger.error('Routing rule creation error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/admin/routing',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to create routing rule' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/routing/dry-run:
+ *   post:
+ *     tags: [Admin]
+ *     summary: 프롬프트가 어떤 라우팅 규칙에 걸리는지 확인 (실제 호출 없음)
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - prompt
+ *             properties:
+ *               prompt:
+ *                 type: string
+ *               userRole:
+ *                 type: string
+ *               topic:
+ *                 type: string
+ *               hasAttachments:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: 의도 분석 결과, 규칙별 평가 결과, 선택될 프로바이더/모델
+ */
+router.post(
+  '/dry-run',
+  authenticateToken,
+  requireAdmin,
+  validateInput(adminSchemas.routingDryRun),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'dryRunRouting',
+      screenUrl: '/api/admin/routing/dry-run',
+    });
+
+    try {
+      const { prompt, userRole, topic, hasAttachments } = req.body;
+
+      invalidateRoutingRulesCache();
+      const intent = await classifyIntent(prompt);
+      const { evaluations, decision } = await explainRouting(prompt, intent, {
+        userRole,
+        topic,
+        hasAttachments,
+      });
+
+      res.json({
+        intent,
+        evaluations,
+        matchedRule: decision?.rule || null,
+        // 규칙이 없으면 의도별 추천 프로바이더 (실제 요청 시 가용성/가중치에 따라 달라질 수 있음)
+        provider: decision?.provider || intent.preferredProvider || null,
+        model: decision?.model || null,
+      });
+    } catch (error) {
+      logger.error('Routing dry run error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/admin/routing/dry-run',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to run routing dry run' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/routing/{id}:
+ *   put:
+ *     tags: [Admin]
+ *     summary: 라우팅 규칙 수정 (우선순위 변경 포함)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: 수정된 라우팅 규칙
+ *       404:
+ *         description: 규칙 없음
+ */
+router.put(
+  '/:id',
+  authenticateToken,
+  requireAdmin,
+  validateInput(adminSchemas.routingRuleUpdate),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'updateRoutingRule',
+      screenUrl: '/api/admin/routing/:id',
+    });
+
+    try {
+      const ruleId = parseInt(req.params.id);
+      const existing = await prisma.routingRule.findUnique({ where: { id: ruleId } });
+      if (!existing) {
+        res.status(404).json({ error: 'Routing rule not found' });
+        return;
+      }
+
+      const { name, description, conditions, provider, model, priority, isActive } = req.body;
+
+      const updateData: any = {};
+      if (name !== undefined) updateData.name = name;
+      if (description !== undefined) updateData.description = description;
+      if (conditions !== undefined) updateData.conditions = conditions;
+      if (provider !== undefined) updateData.provider = provider;
+      if (model !== undefined) updateData.model = model || null;
+      if (priority !== undefined) updateData.priority = priority;
+      if (isActive !== undefined) updateData.isActive = isActive;
+
+      const rule = await prisma.routingRule.update({
+        where: { id: ruleId },
+        data: updateData,
+      });
+      invalidateRoutingRulesCache();
+
+      logger.success('Routing rule updated', {
+        userId: req.userId,
+        ruleId,
+        backendApiUrl: `/api/admin/routing/${ruleId}`,
+        logType: 'success',
+      });
+
+      res.json({ rule });
+    } catch (error) {
+      logger.error('Routing rule update error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/admin/routing/${req.params.id}`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to update routing rule' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/admin/routing/{id}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: 라우팅 규칙 삭제
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: 삭제 완료
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'deleteRoutingRule',
+      screenUrl: '/api/admin/routing/:id',
+    });
+
+    try {
+      const ruleId = parseInt(req.params.id);
+
+      await prisma.routingRule.delete({
+        where: { id: ruleId },
+      });
+      invalidateRoutingRulesCache();
+
+      logger.success('Routing rule deleted', {
+        userId: req.userId,
+        ruleId,
+        backendApiUrl: `/api/admin/routing/${ruleId}`,
+        logType: 'success',
+      });
+
+      res.json({ message: 'Routing rule deleted successfully' });
+    } catch (error) {
+      logger.error('Routing rule deletion error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/admin/routing/${req.params.id}`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to delete routing rule' });
+    }
+  }
+);
+
+export default router;
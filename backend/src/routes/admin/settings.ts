@@ -35,13 +35,113 @@ const DEFAULT_SETTINGS: Record<string, { value: string; category: string; descri
   AI_DEFAULT_PROVIDER: {
     value: 'auto',
     category: 'ai',
-    description: '기본 AI 프로바이더 (auto, openai, claude, gemini, perplexity, luxia)',
+    description: '기본 AI 프로바이더 (auto, openai, claude, gemini, perplexity, luxia, openai-compatible)',
   },
   AI_MIX_OF_AGENTS_ENABLED: {
     value: 'true',
     category: 'ai',
     description: 'Mix of Agents 모드 활성화 여부',
   },
+  AI_MIX_PROVIDERS: {
+    value: 'openai,claude,gemini',
+    category: 'ai',
+    description: 'Mix of Agents 초안을 생성할 프로바이더 (쉼표 구분, provider 또는 provider:model)',
+  },
+  AI_MIX_AGGREGATORS: {
+    value: 'claude,openai',
+    category: 'ai',
+    description: 'Mix of Agents 초안을 평가·통합할 심사 모델 (쉼표 구분, 앞에서부터 시도)',
+  },
+  AI_INTENT_CLASSIFIER_ENABLED: {
+    value: 'false',
+    category: 'ai',
+    description: 'LLM 기반 의도 분류 사용 여부 (비활성 또는 실패 시 키워드 매칭 사용)',
+  },
+  AI_INTENT_CLASSIFIER_PROVIDER: {
+    value: 'openai',
+    category: 'ai',
+    description: '의도 분류에 사용할 프로바이더',
+  },
+  AI_INTENT_CLASSIFIER_MODEL: {
+    value: 'gpt-4.1-mini',
+    category: 'ai',
+    description: '의도 분류에 사용할 모델 (저비용 모델 권장)',
+  },
+  AI_INTENT_PROVIDER_MAP: {
+    value: '{"table":"claude","research":"perplexity","code":"openai","document":"claude","summary":"gemini","statistics":"openai","general":"openai"}',
+    category: 'ai',
+    description: '의도별 추천 프로바이더 (JSON: table, research, code, document, summary, statistics, general)',
+  },
+  AI_ADAPTIVE_WEIGHTING_ENABLED: {
+    value: 'false',
+    category: 'ai',
+    description: '적응형 가중치 사용 여부 (최근 성공률과 p95 응답 시간으로 프로바이더 가중치 보정)',
+  },
+  AI_ADAPTIVE_LATENCY_TARGET_MS: {
+    value: '15000',
+    category: 'ai',
+    description: '적응형 가중치의 목표 p95 응답 시간 (밀리초, 초과 시 비례하여 가중치 감소)',
+  },
+  AI_KEY_SELECTION_STRATEGY: {
+    value: 'round_robin',
+    category: 'ai',
+    description: '프로바이더별 API 키 선택 방식 (round_robin: 순환, least_used: 오늘 요청 수가 가장 적은 키)',
+  },
+  AI_STREAM_FAILOVER_TOKENS: {
+    value: '50',
+    category: 'ai',
+    description: '스트리밍 중 오류 시 다음 프로바이더로 전환할 최대 전송 토큰 수 (0: 폴백 비활성)',
+  },
+  AI_MODEL_PRICES: {
+    value: '{}',
+    category: 'ai',
+    description: '모델별 토큰 가격 재정의 (JSON, USD/100만 토큰: {"gpt-4.1":{"input":2,"output":8}})',
+  },
+  AI_MODEL_CATALOG: {
+    value: '{}',
+    category: 'ai',
+    description: '프로바이더별 모델 카탈로그 재정의 (JSON: {"openai":[{"id":"gpt-4.1","contextWindow":1047576,"modalities":["text","image"],"streaming":true,"toolCalling":true,"price":{"input":2,"output":8}}]}, 지정한 프로바이더는 목록 전체를 대체)',
+  },
+  AI_CONTEXT_STRATEGY: {
+    value: 'auto',
+    category: 'ai',
+    description: '토큰 예산을 넘는 이전 대화 처리 방식 (auto: 관련 대화가 있으면 retrieval 아니면 summary, truncate: 버림, summary: 요약, retrieval: 관련 턴만 포함)',
+  },
+  AI_CONTEXT_RESPONSE_TOKENS: {
+    value: '4096',
+    category: 'ai',
+    description: '컨텍스트 계산 시 응답용으로 남겨 둘 토큰 수 (요청에 maxTokens가 있으면 그 값 사용)',
+  },
+  AI_CONTEXT_MAX_TOKENS: {
+    value: '32000',
+    category: 'ai',
+    description: '대화 이력에 사용할 최대 토큰 수 (모델 컨텍스트가 더 커도 이 값으로 제한, 0: 제한 없음)',
+  },
+  AI_RESPONSE_CACHE_TTL: {
+    value: '3600',
+    category: 'ai',
+    description: 'AI 응답 캐시 유지 시간 (초, 0: 캐시 비활성)',
+  },
+  AI_SEMANTIC_CACHE_ENABLED: {
+    value: 'false',
+    category: 'ai',
+    description: '의미 기반 응답 캐시 사용 여부 (같은 대화 맥락에서 거의 같은 질문이면 캐시된 답변 재사용)',
+  },
+  AI_SEMANTIC_CACHE_THRESHOLD: {
+    value: '0.92',
+    category: 'ai',
+    description: '의미 기반 캐시 재사용 기준 코사인 유사도 (0~1)',
+  },
+  AI_TOOLS_ENABLED: {
+    value: 'true',
+    category: 'ai',
+    description: '도구 호출 사용 여부 (웹 검색, 표 생성, 코드 실행, 문서 검색, MCP 도구를 모델이 직접 호출)',
+  },
+  AI_TOOL_MAX_ITERATIONS: {
+    value: '5',
+    category: 'ai',
+    description: '한 응답에서 도구 호출을 반복할 최대 횟수 (도달 시 도구 결과만으로 답변 마무리)',
+  },
 };
 
 router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response) => {
@@ -179,6 +279,8 @@ router.put('/:key', authenticateToken, requireAdmin, async (req: AuthRequest, re
       },
     });
 
+    notifySettingChanged(key);
+
     logger.success('Setting updated', {
       key,
       value: String(value),
@@ -236,6 +338,7 @@ router.post('/bulk', authenticateToken, requireAdmin, async (req: AuthRequest, r
         },
       });
 
+      notifySettingChanged(key);
       results.push({
         key: setting.key,
         value: setting.value,
@@ -277,6 +380,8 @@ router.delete('/:key', authenticateToken, requireAdmin, async (req: AuthRequest,
       where: { key },
     });
 
+    notifySettingChanged(key);
+
     logger.success('Setting deleted', {
       key,
       logType: 'success',
@@ -292,6 +397,21 @@ router.delete('/:key', authenticateToken, requireAdmin, async (req: AuthRequest,
   }
 });
 
+// 설정을 캐시하는 서비스가 변경 시 캐시를 비우도록 등록 (설정 라우트가 서비스를 import하지 않도록 역방향 등록)
+const settingListeners = new Map<string, Array<() => void>>();
+
+export function onSettingChanged(keys: string[], listener: () => void): void {
+  for (const key of keys) {
+    settingListeners.set(key, [...(settingListeners.get(key) || []), listener]);
+  }
+}
+
+function notifySettingChanged(key: string): void {
+  for (const listener of settingListeners.get(key) || []) {
+    listener();
+  }
+}
+
 export async function getSetting(key: string): Promise<string> {
   try {
     const prismaClient = getPrismaClient();
@@ -311,6 +431,23 @@ export async function getSetting(key: string): Promise<string> {
   }
 }
 
+// 서비스에서 관리하는 설정 저장 (기본 설정이면 분류와 설명 유지)
+export async function setSetting(key: string, value: string): Promise<void> {
+  const prismaClient = getPrismaClient();
+  const defaultSetting = DEFAULT_SETTINGS[key];
+  await prismaClient.systemSettings.upsert({
+    where: { key },
+    update: { value },
+    create: {
+      key,
+      value,
+      category: defaultSetting?.category || 'custom',
+      description: defaultSetting?.description || '',
+    },
+  });
+  notifySettingChanged(key);
+}
+
 export async function getSettingBoolean(key: string): Promise<boolean> {
   const value = await getSetting(key);
   return value.toLowerCase() === 'true';
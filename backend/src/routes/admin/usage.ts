@@ -0,0 +1,189 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest, requireAdmin } from '../../middleware/auth.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { createLogger } from '../../utils/logger.js';
+
+const router = Router();
+const prisma = getPrismaClient();
+
+const DEFAULT_RANGE_DAYS = 30;
+
+interface UsageRow {
+  date: string;
+  userId: number;
+  userName: string;
+  provider: string;
+  model: string;
+  messageCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+interface UsageTotals {
+  messageCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return { messageCount: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function addToTotals(totals: UsageTotals, row: UsageRow): void {
+  totals.messageCount += row.messageCount;
+  totals.promptTokens += row.promptTokens;
+  totals.completionTokens += row.completionTokens;
+  totals.totalTokens += row.totalTokens;
+  totals.cost += row.cost;
+}
+
+function groupRows<K extends string>(
+  rows: UsageRow[],
+  keyName: K,
+  getKey: (row: UsageRow) => string | number,
+  extra?: (row: UsageRow) => Record<string, unknown>
+): Array<Record<K, string | number> & UsageTotals> {
+  const groups = new Map<string | number, Record<string, unknown> & UsageTotals>();
+
+  for (const row of rows) {
+    const key = getKey(row);
+    let group = groups.get(key);
+    if (!group) {
+      group = { [keyName]: key, ...extra?.(row), ...emptyTotals() };
+      groups.set(key, group);
+    }
+    addToTotals(group, row);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.cost - a.cost) as Array<
+    Record<K, string | number> & UsageTotals
+  >;
+}
+
+/**
+ * @swagger
+ * /api/admin/usage:
+ *   get:
+ *     tags: [Admin]
+ *     summary: 토큰 사용량/비용 리포트 (사용자·프로바이더·모델·일자별)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: 기본값 30일 전
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 합계, 일자×사용자×프로바이더×모델 행, 기준별 집계
+ */
+router.get(
+  '/',
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Admin',
+      callerFunction: 'usageReport',
+      screenUrl: '/api/admin/usage',
+    });
+
+    try {
+      const startDate = req.query.startDate
+        ? new Date(req.query.startDate as string)
+        : new Date(Date.now() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+      const endDate = req.query.endDate
+        ? new Date(`${req.query.endDate as string}T23:59:59.999Z`)
+        : null;
+      const userId = req.query.userId ? parseInt(req.query.userId as string, 10) : null;
+      const provider = (req.query.provider as string) || null;
+
+      if (isNaN(startDate.getTime()) || (endDate && isNaN(endDate.getTime())) || Number.isNaN(userId)) {
+        res.status(400).json({ error: 'Invalid query parameters' });
+        return;
+      }
+
+      const rawRows: any[] = await prisma.$queryRaw`
+        SELECT
+          TO_CHAR(DATE(m.created_at), 'YYYY-MM-DD') AS date,
+          m.user_id AS "userId",
+          COALESCE(u.name, u.email) AS "userName",
+          COALESCE(m.provider, 'unknown') AS provider,
+          COALESCE(m.model, 'unknown') AS model,
+          COUNT(*) AS "messageCount",
+          COALESCE(SUM(m.prompt_tokens), 0) AS "promptTokens",
+          COALESCE(SUM(m.completion_tokens), 0) AS "completionTokens",
+          COALESCE(SUM(m.tokens), 0) AS "totalTokens",
+          COALESCE(SUM(m.cost), 0) AS cost
+        FROM messages m
+        JOIN users u ON u.id = m.user_id
+        WHERE m.role = 'assistant'
+          AND m.created_at >= ${startDate}::timestamp
+          AND m.created_at <= COALESCE(${endDate}::timestamp, m.created_at)
+          AND (${userId}::int IS NULL OR m.user_id = ${userId}::int)
+          AND (${provider}::text IS NULL OR m.provider = ${provider}::text)
+        GROUP BY DATE(m.created_at), m.user_id, u.name, u.email, m.provider, m.model
+        ORDER BY date DESC, cost DESC
+      `;
+
+      // COUNT/SUM 결과는 BigInt/Decimal이므로 숫자로 변환
+      const rows: UsageRow[] = rawRows.map((row) => ({
+        date: row.date,
+        userId: row.userId,
+        userName: row.userName,
+        provider: row.provider,
+        model: row.model,
+        messageCount: Number(row.messageCount),
+        promptTokens: Number(row.promptTokens),
+        completionTokens: Number(row.completionTokens),
+        totalTokens: Number(row.totalTokens),
+        cost: Number(row.cost),
+      }));
+
+      const totals = emptyTotals();
+      rows.forEach((row) => addToTotals(totals, row));
+
+      res.json({
+        startDate: startDate.toISOString(),
+        endDate: endDate?.toISOString() || null,
+        totals,
+        rows,
+        byUser: groupRows(rows, 'userId', (row) => row.userId, (row) => ({ userName: row.userName })),
+        byProvider: groupRows(rows, 'provider', (row) => row.provider),
+        byModel: groupRows(rows, 'model', (row) => row.model, (row) => ({ provider: row.provider })),
+        byDay: groupRows(rows, 'date', (row) => row.date).sort((a, b) =>
+          String(b.date).localeCompare(String(a.date))
+        ),
+      });
+    } catch (error) {
+      logger.error('Usage report error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/admin/usage',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to get usage report' });
+    }
+  }
+);
+
+export default router;
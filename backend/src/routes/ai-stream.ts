@@ -1,11 +1,33 @@
 import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
 import { validatePrompt } from '../services/guardrails/validator.js';
 import { orchestrateAIStream } from '../services/ai/orchestrator-stream.js';
+import { ToolCallRecord, toToolCallJson } from '../services/ai/toolCalling.js';
+import {
+  PersonaSettings,
+  getAccessiblePersona,
+  getConversationPersona,
+  setConversationPersona,
+} from '../services/ai/personas.js';
 import { createLogger } from '../utils/logger.js';
 import { aiSchemas } from '../utils/validation.js';
 import { validateInput } from '../middleware/security.js';
-import { createSession, addMessage, updateConversationTitle } from '../services/conversations/session.js';
+import {
+  createSession,
+  addMessage,
+  updateConversationTitle,
+  getConversationTopic,
+  isConversationOwner,
+} from '../services/conversations/session.js';
+import { buildContext } from '../services/conversations/context.js';
+import { ContextMessage } from '../services/ai/contextWindow.js';
+import { createUsageTracker, runWithUsageTracker, summarizeUsage } from '../services/ai/usageTracker.js';
+import { checkBudget, getBudgetExceededMessage } from '../services/ai/budget.js';
+import { resolveA2APipeline } from '../services/ai/a2aPipeline.js';
+import { registerRequest, unregisterRequest, abortRequest } from '../services/ai/cancellation.js';
+import { isCatalogModel } from '../services/ai/modelCatalog.js';
 
 const router = Router();
 const logger = createLogger({
@@ -34,9 +56,43 @@ const logger = createLogger({
  *                 type: string
  *               conversationId:
  *                 type: integer
+ *               a2aPresetId:
+ *                 type: integer
+ *                 description: A2A 모드 파이프라인 프리셋 (미지정 시 기본 프리셋)
+ *               a2aPipeline:
+ *                 type: object
+ *                 description: A2A 모드 인라인 파이프라인 정의 (프리셋보다 우선)
+ *               useTools:
+ *                 type: boolean
+ *                 description: 일반 모드에서 도구 호출 사용 (tool_call/tool_result 이벤트 전송)
+ *               personaId:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: 대화에 연결할 페르소나 (null이면 해제, 미지정 시 대화에 연결된 페르소나 사용)
+ *               provider:
+ *                 type: string
+ *                 description: 프로바이더 (미지정 시 자동 선택)
+ *               model:
+ *                 type: string
+ *                 description: 모델 (provider 지정 시에만 사용 가능, 모델 카탈로그에 있는 모델)
+ *               temperature:
+ *                 type: number
+ *               topP:
+ *                 type: number
+ *               maxTokens:
+ *                 type: integer
+ *               stop:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               seed:
+ *                 type: integer
+ *                 description: 생성 파라미터는 provider 지정 시 해당 프로바이더 한도로 검증하고, 자동 선택이면 선택된 프로바이더에 맞춰 조정
  *     responses:
  *       200:
- *         description: 스트리밍 응답 (text/event-stream)
+ *         description: 스트리밍 응답 (text/event-stream). 첫 이벤트 request의 requestId로 취소 가능
+ *       400:
+ *         description: 입력 검증 실패 (프로바이더가 지원하지 않는 생성 파라미터 포함)
  *       401:
  *         description: 인증 필요
  */
@@ -52,7 +108,24 @@ router.post(
     });
 
     try {
-      const { message, conversationId: existingConversationId, provider, chatMode: rawChatMode, mixOfAgents } = req.body;
+      const {
+        message,
+        conversationId: existingConversationId,
+        provider,
+        chatMode: rawChatMode,
+        mixOfAgents,
+        hasAttachments,
+        a2aPresetId,
+        a2aPipeline: inlinePipeline,
+        useTools,
+        personaId,
+        model,
+        temperature,
+        topP,
+        maxTokens,
+        stop,
+        seed,
+      } = req.body;
       
       // X-Chat-Mode 헤더에서 chatMode 가져오기 (캐시 우회용)
       const headerChatMode = req.headers['x-chat-mode'] as string | undefined;
@@ -89,6 +162,40 @@ router.post(
         return;
       }
 
+      // 사용 예산 확인 (프로바이더 호출·SSE 시작 전이므로 일반 JSON 오류로 응답)
+      const budget = await checkBudget(req.userId!, req.user?.role);
+      if (!budget.allowed) {
+        res.status(402).json({
+          error: getBudgetExceededMessage(budget.exceeded!),
+          code: 'BUDGET_EXCEEDED',
+          budget: budget.exceeded,
+        });
+        return;
+      }
+
+      const a2aPipeline = chatMode === 'a2a'
+        ? await resolveA2APipeline({ presetId: a2aPresetId, pipeline: inlinePipeline })
+        : null;
+      if (chatMode === 'a2a' && !a2aPipeline) {
+        res.status(404).json({ error: 'A2A preset not found' });
+        return;
+      }
+
+      // 지정한 모델은 모델 카탈로그에 있어야 함 (카탈로그가 비어 있는 자체 호스팅 프로바이더 제외)
+      if (model && provider && !(await isCatalogModel(provider, model))) {
+        res.status(400).json({ error: `Unknown model for ${provider}: ${model}` });
+        return;
+      }
+
+      let persona: PersonaSettings | null = null;
+      if (personaId) {
+        persona = await getAccessiblePersona(personaId, req.userId!);
+        if (!persona) {
+          res.status(404).json({ error: 'Persona not found' });
+          return;
+        }
+      }
+
       // 대화 ID 결정: 기존 대화가 없으면 새로 생성
       let activeConversationId = existingConversationId;
       let isNewConversation = false;
@@ -103,11 +210,48 @@ router.post(
           conversationId: activeConversationId,
           logType: 'info',
         });
+      } else if (!(await isConversationOwner(activeConversationId, req.userId!))) {
+        // 다른 사용자의 대화 이력이 프롬프트에 들어가지 않도록 소유자 확인
+        logger.warning('Conversation not found or not owned', {
+          userId: req.userId,
+          conversationId: activeConversationId,
+          backendApiUrl: '/api/ai/chat/stream',
+          logType: 'warning',
+        });
+        res.status(404).json({ error: 'Conversation not found' });
+        return;
+      }
+
+      // 요청에 페르소나가 지정되면 대화에 연결, 아니면 대화에 연결된 페르소나 사용
+      if (personaId !== undefined) {
+        await setConversationPersona(activeConversationId, req.userId!, personaId);
+      } else if (!isNewConversation) {
+        persona = await getConversationPersona(activeConversationId, req.userId!);
+      }
+
+      // 이전 대화를 선택된 모델의 컨텍스트에 맞춰 구성 (사용자 메시지 저장 전, A2A 토론은 현재 질문만 사용)
+      // 요약 생성(AI 호출) 사용량도 이 요청의 사용량·예산에 포함
+      const usageTracker = createUsageTracker();
+      let history: ContextMessage[] = [];
+      if (!isNewConversation && chatMode !== 'a2a') {
+        // 일반 모드에서 프로바이더를 지정하지 않으면 페르소나 기본 프로바이더/모델 기준
+        const usePersonaModel = chatMode === 'normal' && (!provider || provider === 'auto') && !!persona?.provider;
+        const context = await runWithUsageTracker(usageTracker, () =>
+          buildContext(activeConversationId, {
+            provider: usePersonaModel ? persona!.provider! : provider,
+            model: usePersonaModel ? persona!.model || undefined : model,
+            currentMessage: message,
+            maxTokens,
+          })
+        );
+        history = context.messages;
       }
 
       // 사용자 메시지 저장
       await addMessage(activeConversationId, req.userId!, 'user', message);
 
+      const topic = isNewConversation ? 'general' : await getConversationTopic(activeConversationId);
+
       // SSE 헤더 설정
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
@@ -130,11 +274,29 @@ router.post(
         }
       };
 
+      // 취소 요청(POST /api/ai/requests/:id/cancel)에 사용할 ID
+      const requestId = randomUUID();
+      const signal = registerRequest(requestId, req.userId!)!;
+      // 응답이 끝나면 해제, 도중에 연결이 끊기면 프로바이더 호출도 중단
+      res.on('close', () => {
+        if (res.writableEnded) {
+          unregisterRequest(requestId, signal);
+        } else {
+          abortRequest(requestId, signal);
+        }
+      });
+      sendSSE({ type: 'request', requestId });
+
       // 새 대화인 경우 conversationId를 클라이언트에 전송
       if (isNewConversation) {
         sendSSE({ type: 'conversationId', conversationId: activeConversationId });
       }
 
+      // 소프트 한도 경고
+      for (const warning of budget.warnings) {
+        sendSSE({ type: 'budget_warning', budget: warning });
+      }
+
       // 스트리밍 시작
       logger.info('Starting AI stream', {
         userId: req.userId,
@@ -144,8 +306,14 @@ router.post(
         logType: 'info',
       });
 
-      await orchestrateAIStream(
+      // 폴백으로 프로바이더가 바뀌면 실제 응답한 프로바이더로 저장
+      let respondingProvider = provider || 'auto';
+      // 도구 호출 내역은 응답 메시지 메타데이터로 저장
+      const toolCalls: ToolCallRecord[] = [];
+
+      await runWithUsageTracker(usageTracker, () => orchestrateAIStream(
         [
+          ...history,
           {
             role: 'user',
             content: message,
@@ -157,11 +325,40 @@ router.post(
             sendSSE({ type: 'chunk', content: chunk });
           },
           onComplete: async (fullResponse: string) => {
+            const cancelled = signal.aborted;
+            const usage = await summarizeUsage(usageTracker);
             try {
-              await addMessage(activeConversationId, req.userId!, 'assistant', fullResponse, provider || 'auto');
+              // mix/A2A는 여러 프로바이더 응답을 합친 것이므로 모드명으로 저장
+              const savedProvider = (chatMode || 'normal') === 'normal'
+                ? usage.provider || respondingProvider
+                : chatMode;
+              // 취소된 경우 받은 부분까지만 저장 (받은 내용이 없으면 저장하지 않음)
+              const metadata: Prisma.InputJsonObject = {
+                ...(cancelled ? { cancelled: true } : {}),
+                ...(toolCalls.length > 0 ? { toolCalls: toolCalls.map(toToolCallJson) } : {}),
+              };
+              if (!cancelled || fullResponse) {
+                await addMessage(
+                  activeConversationId,
+                  req.userId!,
+                  'assistant',
+                  fullResponse,
+                  savedProvider,
+                  usage,
+                  Object.keys(metadata).length > 0 ? metadata : undefined
+                );
+              }
+              // 하드 한도는 SSE 시작 전에 402로 거부하고, 여기서는 소프트 한도에 근접한 경우
+              // 이번 응답으로 초과했는지 다시 확인 (초과 알림)
+              if (budget.warnings.length > 0) {
+                await checkBudget(req.userId!, req.user?.role);
+              }
               logger.info('Conversation saved', {
                 userId: req.userId,
                 conversationId: activeConversationId,
+                tokens: usage.totalTokens,
+                cost: usage.cost,
+                cancelled,
                 logType: 'success',
               });
             } catch (saveError) {
@@ -170,7 +367,13 @@ router.post(
                 logType: 'error',
               });
             }
-            sendSSE({ type: 'complete', content: fullResponse, conversationId: activeConversationId });
+            sendSSE({
+              type: 'complete',
+              content: fullResponse,
+              conversationId: activeConversationId,
+              usage: { totalTokens: usage.totalTokens, cost: usage.cost },
+              cancelled,
+            });
             res.end();
           },
           onError: (error: Error) => {
@@ -191,12 +394,44 @@ router.post(
           onPhaseChange: (phase: string) => {
             sendSSE({ type: 'phase', phase });
           },
+          onProviderSwitch: (fromProvider: string, toProvider: string, providerName: string, reason: string) => {
+            respondingProvider = toProvider;
+            sendSSE({ type: 'provider_switched', fromProvider, provider: toProvider, providerName, reason });
+          },
+          onEarlyStop: (phase: string, round: number, similarity: number) => {
+            sendSSE({ type: 'early_stop', phase, round, similarity });
+          },
+          onToolCall: (call) => {
+            toolCalls.push({ id: call.id, name: call.name, arguments: call.arguments });
+            sendSSE({ type: 'tool_call', id: call.id, name: call.name, arguments: call.arguments });
+          },
+          onToolResult: (call, result) => {
+            const entry = toolCalls.find((toolCall) => toolCall.id === call.id);
+            if (entry) {
+              entry.result = result.content;
+              entry.isError = result.isError;
+            }
+            sendSSE({ type: 'tool_result', id: call.id, name: call.name, content: result.content, isError: result.isError });
+          },
         },
         {
           preferredProvider: provider || undefined,
           chatMode: chatMode || 'normal',
+          a2aPipeline: a2aPipeline || undefined,
+          signal,
+          // 페르소나가 허용 도구를 비워 두면 도구 사용 안 함
+          toolContext: useTools && persona?.allowedTools?.length !== 0
+            ? { userId: req.userId!, conversationId: activeConversationId, allowedTools: persona?.allowedTools }
+            : undefined,
+          persona: persona || undefined,
+          generation: { model, temperature, topP, maxTokens, stop, seed },
+          routingContext: {
+            userRole: req.user?.role,
+            topic: topic || undefined,
+            hasAttachments: !!hasAttachments,
+          },
         }
-      );
+      ));
     } catch (error) {
       logger.error('Stream chat error', {
         userId: req.userId,
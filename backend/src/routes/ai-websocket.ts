@@ -3,222 +3,157 @@ import { authenticateToken } from '../middleware/auth.js';
 import { logger } from '../utils/logger.js';
 import { getPrismaClient } from '../utils/database.js';
 import { getIO } from '../utils/socket.js';
-import { chatWithOpenAIStream, StreamCallbacks } from '../services/ai/openai-stream.js';
-import { chatWithClaudeStream } from '../services/ai/claude.js';
-import { chatWithGeminiStream } from '../services/ai/gemini.js';
-import { chatWithPerplexityStream } from '../services/ai/perplexity.js';
-import { streamLuxia } from '../services/ai/luxia.js';
+import { getProviderDisplayName } from '../services/ai/providerRegistry.js';
+import {
+  createUsageTracker,
+  runWithUsageTracker,
+  summarizeUsage,
+  getMessageUsageData,
+  UsageTracker,
+} from '../services/ai/usageTracker.js';
+import { checkBudget, getBudgetExceededMessage } from '../services/ai/budget.js';
+import {
+  resolveA2APipeline,
+  runA2APipeline,
+  formatA2AResponse,
+  A2APipelineDefinition,
+  A2APipelineSelection,
+} from '../services/ai/a2aPipeline.js';
+import {
+  startA2ATranscript,
+  recordA2ATurn,
+  completeA2ATranscript,
+  failA2ATranscript,
+  A2AEarlyStopRecord,
+} from '../services/ai/a2aTranscript.js';
+import { openA2AEventBuffer, appendA2AEvent, closeA2AEventBuffer } from '../services/ai/a2aEventBuffer.js';
+import { registerRequest, unregisterRequest } from '../services/ai/cancellation.js';
+import { isConversationOwner } from '../services/conversations/session.js';
+import { validateInput } from '../middleware/security.js';
+import { aiSchemas } from '../utils/validation.js';
 
 const router = express.Router();
 const prisma = getPrismaClient();
 
-interface A2ARequest {
+interface A2ARequest extends A2APipelineSelection {
   message: string;
   conversationId?: number;
   sessionId: string;
+  parallel?: boolean;
 }
 
-const PROVIDERS = ['openai', 'claude', 'gemini', 'perplexity'] as const;
-const PROVIDER_NAMES: Record<string, string> = {
-  openai: 'OpenAI GPT-4.1',
-  claude: 'Claude Sonnet 4.5',
-  gemini: 'Google Gemini 2.5',
-  perplexity: 'Perplexity Sonar Pro',
-  luxia: 'Luxia AI',
-};
-
-function getKoreanDate(): string {
-  const now = new Date();
-  const koreaTime = new Date(now.toLocaleString('en-US', { timeZone: 'Asia/Seoul' }));
-  const year = koreaTime.getFullYear();
-  const month = koreaTime.getMonth() + 1;
-  const day = koreaTime.getDate();
-  const weekdays = ['일', '월', '화', '수', '목', '금', '토'];
-  const weekday = weekdays[koreaTime.getDay()];
-  return `${year}년 ${month}월 ${day}일 (${weekday}요일)`;
-}
-
-function buildSystemPrompt(providerName: string, phase: string, round: number): string {
-  const koreanDate = getKoreanDate();
-  
-  if (phase === 'collaboration') {
-    return `오늘은 ${koreanDate}입니다. 당신은 ${providerName}입니다. 여러 AI 에이전트가 협력하여 사용자의 질문에 답변하고 있습니다. 
-이것은 협력 라운드 ${round}입니다. 다른 AI들의 관점을 존중하면서 당신만의 고유한 인사이트와 관점을 제공해 주세요.
-이전 AI들의 응답을 참고하되, 새로운 정보나 다른 각도에서의 분석을 추가해 주세요.
-응답 마지막에 '*${providerName}*'으로 서명해 주세요.`;
-  } else if (phase === 'debate') {
-    return `오늘은 ${koreanDate}입니다. 당신은 ${providerName}입니다. 여러 AI 에이전트가 토론을 통해 답변을 발전시키고 있습니다.
-이것은 토론 라운드 ${round}입니다. 이전 라운드에서 나온 의견들을 비판적으로 검토하고, 부족한 점을 보완하거나 다른 관점을 제시해 주세요.
-건설적인 토론을 통해 더 나은 결론을 도출할 수 있도록 기여해 주세요.
-응답 마지막에 '*${providerName}*'으로 서명해 주세요.`;
-  } else {
-    return `오늘은 ${koreanDate}입니다. 당신은 ${providerName}입니다. 
-다양한 AI 에이전트들의 협력과 토론 내용을 종합하여 최종 답변을 작성해 주세요.
-
-다음 형식으로 답변해 주세요:
-
-## 📋 AI별 핵심 인사이트
-각 AI의 주요 기여점을 요약
-
-## 🎯 종합 결론
-모든 관점을 통합한 최종 답변
-
-## 💡 핵심 포인트
-가장 중요한 결론 3-5가지
-
-응답 마지막에 '*${providerName}*'으로 서명해 주세요.`;
-  }
+// 세션 버퍼에 seq를 붙여 저장한 뒤 방에 전송 (재연결 시 놓친 이벤트 재전송용)
+function emitA2AEvent(sessionId: string, event: string, data: Record<string, unknown>): void {
+  const { seq } = appendA2AEvent(sessionId, event, data);
+  getIO().to(`a2a_${sessionId}`).emit(event, { ...data, seq });
 }
 
-async function streamProviderResponse(
-  provider: string,
-  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>,
-  sessionId: string,
-  phase: string,
-  round: number
-): Promise<string> {
-  const providerName = PROVIDER_NAMES[provider];
-  const systemPrompt = buildSystemPrompt(providerName, phase, round);
-  
-  const messagesWithSystem = [
-    { role: 'system' as const, content: systemPrompt },
-    ...messages,
-  ];
-
-  let fullResponse = '';
-  let hasError = false;
-  
-  const io = getIO();
-  const callbacks: StreamCallbacks = {
-    onChunk: (chunk: string) => {
-      fullResponse += chunk;
-      io.to(`a2a_${sessionId}`).emit('a2a_chunk', {
-        provider,
-        providerName,
-        phase,
-        round,
-        chunk,
-        timestamp: Date.now(),
-      });
-    },
-    onComplete: () => {},
-    onError: (error: Error) => {
-      hasError = true;
-      logger.error(`A2A WebSocket: ${provider} error`, {
-        screenName: 'AI',
-        callerFunction: 'streamProviderResponse',
-        error: error.message,
-        logType: 'error',
-      });
-      const errorMessage = `[${providerName}: 응답 생성 실패 - ${error.message}]`;
-      fullResponse = errorMessage;
-      io.to(`a2a_${sessionId}`).emit('a2a_chunk', {
-        provider,
-        providerName,
-        phase,
-        round,
-        chunk: errorMessage,
-        timestamp: Date.now(),
-      });
-    },
-  };
-
+// 요청 시 선택할 수 있는 A2A 프리셋 목록 (정의 상세는 관리자 API에서 관리)
+router.get('/a2a/presets', authenticateToken, async (req, res) => {
   try {
-    switch (provider) {
-      case 'openai':
-        await chatWithOpenAIStream(messagesWithSystem, callbacks);
-        break;
-      case 'claude':
-        await chatWithClaudeStream(messagesWithSystem, callbacks);
-        break;
-      case 'gemini':
-        await chatWithGeminiStream(messagesWithSystem, callbacks);
-        break;
-      case 'perplexity':
-        await chatWithPerplexityStream(messagesWithSystem, callbacks);
-        break;
-      case 'luxia':
-        const stream = await streamLuxia(messagesWithSystem);
-        if (stream) {
-          for await (const chunk of stream as AsyncIterable<Buffer>) {
-            const text = chunk.toString();
-            const lines = text.split('\n');
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                try {
-                  const data = JSON.parse(line.slice(6));
-                  const content = data.choices?.[0]?.delta?.content || '';
-                  if (content) {
-                    fullResponse += content;
-                    io.to(`a2a_${sessionId}`).emit('a2a_chunk', {
-                      provider,
-                      providerName,
-                      phase,
-                      round,
-                      chunk: content,
-                      timestamp: Date.now(),
-                    });
-                  }
-                } catch {}
-              }
-            }
-          }
-        }
-        break;
-    }
+    const presets = await prisma.a2APreset.findMany({
+      select: { id: true, name: true, description: true, isDefault: true },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+    res.json({ presets });
   } catch (error) {
-    logger.error(`A2A WebSocket: ${provider} error`, {
+    logger.error('A2A presets listing error', {
       screenName: 'AI',
-      callerFunction: 'streamProviderResponse',
+      callerFunction: 'a2a.presets',
       error: error instanceof Error ? error.message : 'Unknown error',
       logType: 'error',
     });
-    fullResponse = `[${providerName} 응답 실패]`;
+    res.status(500).json({ error: 'Failed to list A2A presets' });
   }
+});
 
-  return fullResponse;
-}
-
-router.post('/a2a/start', authenticateToken, async (req, res) => {
-  const { message, conversationId, sessionId } = req.body as A2ARequest;
+router.post('/a2a/start', authenticateToken, validateInput(aiSchemas.a2aStart), async (req, res) => {
+  const { message, conversationId, sessionId, presetId, pipeline: inlinePipeline, parallel } = req.body as A2ARequest;
   const userId = (req as any).user?.id;
 
-  if (!sessionId) {
-    return res.status(400).json({ error: 'sessionId is required' });
-  }
+  try {
+    // 토론 기록과 결과 메시지가 이 대화에 저장되므로 다른 사용자의 대화는 거부
+    if (conversationId && !(await isConversationOwner(conversationId, userId))) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
 
-  logger.info('A2A WebSocket session starting', {
-    screenName: 'AI',
-    callerFunction: 'a2a.start',
-    sessionId,
-    userId,
-    logType: 'info',
-  });
+    const resolvedPipeline = await resolveA2APipeline({ presetId, pipeline: inlinePipeline });
+    if (!resolvedPipeline) {
+      return res.status(404).json({ error: 'A2A preset not found' });
+    }
+    const pipeline = parallel === undefined ? resolvedPipeline : { ...resolvedPipeline, parallel };
+
+    // A2A는 여러 프로바이더를 여러 라운드 호출하므로 시작 전에 예산 확인
+    const budget = await checkBudget(userId, (req as any).user?.role);
+    if (!budget.allowed) {
+      return res.status(402).json({
+        error: getBudgetExceededMessage(budget.exceeded!),
+        code: 'BUDGET_EXCEEDED',
+        budget: budget.exceeded,
+      });
+    }
 
-  res.json({ status: 'started', sessionId });
+    // 같은 세션 ID로 중복 시작하면 이벤트 순서가 섞이고 다른 요청의 취소 대상을 덮어쓰므로 거부
+    // 세션 ID로 취소 (소켓 cancel_a2a 또는 POST /api/ai/requests/:id/cancel)
+    const signal = registerRequest(sessionId, userId);
+    if (!signal) {
+      return res.status(409).json({ error: 'A2A session already started' });
+    }
+    if (!openA2AEventBuffer(sessionId, userId)) {
+      unregisterRequest(sessionId, signal);
+      return res.status(409).json({ error: 'A2A session already started' });
+    }
 
-  processA2A(message, sessionId, userId, conversationId).catch((error) => {
-    logger.error('A2A processing error', {
+    logger.info('A2A WebSocket session starting', {
       screenName: 'AI',
-      callerFunction: 'processA2A',
-      error: error instanceof Error ? error.message : 'Unknown error',
-      logType: 'error',
+      callerFunction: 'a2a.start',
+      sessionId,
+      userId,
+      logType: 'info',
     });
-    getIO().to(`a2a_${sessionId}`).emit('a2a_error', {
+
+    res.json({ status: 'started', sessionId, budgetWarnings: budget.warnings });
+
+    const usageTracker = createUsageTracker();
+    runWithUsageTracker(usageTracker, () =>
+      processA2A(message, sessionId, userId, pipeline, usageTracker, signal, conversationId ?? undefined)
+    ).catch((error) => {
+      failA2ATranscript(sessionId, error instanceof Error ? error.message : 'Unknown error');
+      logger.error('A2A processing error', {
+        screenName: 'AI',
+        callerFunction: 'processA2A',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        logType: 'error',
+      });
+      emitA2AEvent(sessionId, 'a2a_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }).finally(() => {
+      unregisterRequest(sessionId, signal);
+      closeA2AEventBuffer(sessionId);
+    });
+  } catch (error) {
+    logger.error('A2A start error', {
+      screenName: 'AI',
+      callerFunction: 'a2a.start',
+      userId,
       error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
     });
-  });
+    res.status(500).json({ error: 'Failed to start A2A session' });
+  }
 });
 
 async function processA2A(
   userMessage: string,
   sessionId: string,
   userId: number,
+  pipeline: A2APipelineDefinition,
+  usageTracker: UsageTracker,
+  signal: AbortSignal,
   conversationId?: number
 ): Promise<void> {
-  const io = getIO();
-  const conversationHistory: Array<{ role: 'user' | 'assistant'; content: string; provider?: string }> = [];
-  let totalResponse = '';
+  const emit = (event: string, data: Record<string, unknown>) => emitA2AEvent(sessionId, event, data);
   let actualConversationId = conversationId;
 
   if (!actualConversationId) {
@@ -229,9 +164,9 @@ async function processA2A(
         status: 'active',
       },
     });
-    actualConversationId = conversation.id;
+    actualConversationId = conversation.id as number;
 
-    io.to(`a2a_${sessionId}`).emit('a2a_conversation', {
+    emit('a2a_conversation', {
       conversationId: actualConversationId,
     });
   }
@@ -245,166 +180,75 @@ async function processA2A(
     },
   });
 
-  const userMessages = [{ role: 'user' as const, content: userMessage }];
-
-  io.to(`a2a_${sessionId}`).emit('a2a_phase', { phase: 'collaboration' });
-
-  for (let round = 1; round <= 2; round++) {
-    for (const provider of PROVIDERS) {
-      io.to(`a2a_${sessionId}`).emit('a2a_agent_start', {
-        provider,
-        providerName: PROVIDER_NAMES[provider],
-        phase: 'collaboration',
-        round,
-      });
-
-      const contextMessages = [
-        ...userMessages,
-        ...conversationHistory.map((h) => ({
-          role: 'assistant' as const,
-          content: `[${h.provider}]: ${h.content}`,
-        })),
-      ];
-
-      const response = await streamProviderResponse(
-        provider,
-        contextMessages,
-        sessionId,
-        'collaboration',
-        round
-      );
-
-      conversationHistory.push({
-        role: 'assistant',
-        content: response,
-        provider: PROVIDER_NAMES[provider],
-      });
-
-      totalResponse += `\n\n### ${PROVIDER_NAMES[provider]} (협력 라운드 ${round})\n${response}`;
-
-      io.to(`a2a_${sessionId}`).emit('a2a_agent_complete', {
-        provider,
-        providerName: PROVIDER_NAMES[provider],
-        phase: 'collaboration',
-        round,
-        content: response,
-      });
-
-      logger.info(`A2A: ${provider} collaboration round ${round} completed`, {
-        screenName: 'AI',
-        callerFunction: 'processA2A',
-        responseLength: response.length,
-        logType: 'info',
-      });
-    }
-  }
-
-  io.to(`a2a_${sessionId}`).emit('a2a_phase', { phase: 'debate' });
+  // 발언별 기록 저장 (다시 보기용)
+  const transcriptId = await startA2ATranscript({
+    sessionId,
+    conversationId: actualConversationId,
+    userId,
+    prompt: userMessage,
+    pipeline,
+  });
+  const pendingTurns: Promise<void>[] = [];
+  let earlyStop: A2AEarlyStopRecord | null = null;
 
-  for (let round = 1; round <= 2; round++) {
-    for (const provider of PROVIDERS) {
-      io.to(`a2a_${sessionId}`).emit('a2a_agent_start', {
+  const result = await runA2APipeline(pipeline, userMessage, {
+    onPhaseChange: (phase) => {
+      emit('a2a_phase', { phase });
+    },
+    onAgentStart: (provider, providerName, phase, round) => {
+      emit('a2a_agent_start', { provider, providerName, phase, round });
+    },
+    onChunk: (provider, phase, round, chunk) => {
+      emit('a2a_chunk', {
         provider,
-        providerName: PROVIDER_NAMES[provider],
-        phase: 'debate',
+        providerName: getProviderDisplayName(provider),
+        phase,
         round,
+        chunk,
+        timestamp: Date.now(),
       });
-
-      const contextMessages = [
-        ...userMessages,
-        ...conversationHistory.map((h) => ({
-          role: 'assistant' as const,
-          content: `[${h.provider}]: ${h.content}`,
-        })),
-      ];
-
-      const response = await streamProviderResponse(
-        provider,
-        contextMessages,
-        sessionId,
-        'debate',
-        round
-      );
-
-      conversationHistory.push({
-        role: 'assistant',
-        content: response,
-        provider: PROVIDER_NAMES[provider],
-      });
-
-      totalResponse += `\n\n### ${PROVIDER_NAMES[provider]} (토론 라운드 ${round})\n${response}`;
-
-      io.to(`a2a_${sessionId}`).emit('a2a_agent_complete', {
+    },
+    onAgentComplete: (provider, phase, round, content) => {
+      emit('a2a_agent_complete', {
         provider,
-        providerName: PROVIDER_NAMES[provider],
-        phase: 'debate',
+        providerName: getProviderDisplayName(provider),
+        phase,
         round,
-        content: response,
-      });
-
-      logger.info(`A2A: ${provider} debate round ${round} completed`, {
-        screenName: 'AI',
-        callerFunction: 'processA2A',
-        responseLength: response.length,
-        logType: 'info',
+        content,
       });
-    }
-  }
-
-  io.to(`a2a_${sessionId}`).emit('a2a_phase', { phase: 'synthesis' });
-  io.to(`a2a_${sessionId}`).emit('a2a_agent_start', {
-    provider: 'luxia',
-    providerName: PROVIDER_NAMES.luxia,
-    phase: 'synthesis',
-    round: 1,
-  });
-
-  const synthesisMessages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }> = [
-    {
-      role: 'user',
-      content: `사용자 질문: ${userMessage}\n\n다음은 여러 AI 에이전트들의 협력과 토론 내용입니다:\n\n${conversationHistory
-        .map((h) => `[${h.provider}]: ${h.content}`)
-        .join('\n\n')}\n\n위 내용을 종합하여 최종 답변을 작성해 주세요.`,
     },
-  ];
-
-  let synthesisResponse = '';
-  try {
-    synthesisResponse = await streamProviderResponse(
-      'luxia',
-      synthesisMessages,
-      sessionId,
-      'synthesis',
-      1
-    );
-  } catch (error) {
-    synthesisResponse = await streamProviderResponse(
-      'claude',
-      synthesisMessages,
-      sessionId,
-      'synthesis',
-      1
-    );
-  }
-
-  totalResponse += `\n\n## 🌟 Luxia AI 최종 종합\n${synthesisResponse}`;
-
-  io.to(`a2a_${sessionId}`).emit('a2a_agent_complete', {
-    provider: 'luxia',
-    providerName: PROVIDER_NAMES.luxia,
-    phase: 'synthesis',
-    round: 1,
-    content: synthesisResponse,
-  });
-
-  await prisma.message.create({
-    data: {
-      conversationId: actualConversationId,
-      userId,
-      role: 'assistant',
-      content: totalResponse,
-      provider: 'a2a',
+    onEarlyStop: (phase, round, similarity) => {
+      earlyStop = { phase, round, similarity };
+      emit('a2a_early_stop', { phase, round, similarity });
     },
+    onTurnComplete: (turn) => {
+      pendingTurns.push(recordA2ATurn(transcriptId, turn));
+    },
+  }, { signal });
+
+  const totalResponse = formatA2AResponse(result, pipeline);
+
+  const usage = await summarizeUsage(usageTracker);
+  const savedMessage = !result.cancelled || totalResponse
+    ? await prisma.message.create({
+        data: {
+          conversationId: actualConversationId,
+          userId,
+          role: 'assistant',
+          content: totalResponse,
+          provider: 'a2a',
+          ...getMessageUsageData(usage, result.cancelled ? { cancelled: true } : undefined),
+        },
+      })
+    : null;
+
+  await Promise.all(pendingTurns);
+  await completeA2ATranscript(transcriptId, {
+    messageId: savedMessage?.id ?? null,
+    synthesizer: result.synthesizer,
+    earlyStop,
+    usage,
+    cancelled: result.cancelled,
   });
 
   await prisma.conversation.update({
@@ -412,17 +256,21 @@ async function processA2A(
     data: { updatedAt: new Date() },
   });
 
-  io.to(`a2a_${sessionId}`).emit('a2a_complete', {
+  emit('a2a_complete', {
     conversationId: actualConversationId,
+    sessionId,
     totalLength: totalResponse.length,
+    cancelled: result.cancelled,
   });
 
-  logger.info('A2A WebSocket session completed', {
+  logger.info(result.cancelled ? 'A2A WebSocket session cancelled' : 'A2A WebSocket session completed', {
     screenName: 'AI',
     callerFunction: 'processA2A',
     sessionId,
     conversationId: actualConversationId,
     totalLength: totalResponse.length,
+    tokens: usage.totalTokens,
+    cost: usage.cost,
     logType: 'success',
   });
 }
@@ -8,12 +8,24 @@ import { createLogger } from '../utils/logger.js';
 import { validateInput } from '../middleware/security.js';
 import { aiSchemas } from '../utils/validation.js';
 import { getProviderWeights } from '../services/ai/weightManager.js';
+import { getProviderAdapter, getProviderDisplayName } from '../services/ai/providerRegistry.js';
+import {
+  createUsageTracker,
+  runWithUsageTracker,
+  summarizeUsage,
+  getMessageUsageData,
+} from '../services/ai/usageTracker.js';
+import { checkBudget, getBudgetExceededMessage } from '../services/ai/budget.js';
+import { cancelRequest } from '../services/ai/cancellation.js';
+import { getModelCatalog } from '../services/ai/modelCatalog.js';
+import { ContextMessage } from '../services/ai/contextWindow.js';
+import { buildContext } from '../services/conversations/context.js';
 
 const prisma = getPrismaClient();
 
 const router = Router();
 
-// 활성화된 AI 프로바이더 목록 조회
+// 활성화된 AI 프로바이더 목록 조회 (모델 카탈로그와 생성 파라미터 한도 포함)
 router.get(
   '/providers',
   authenticateToken,
@@ -26,13 +38,19 @@ router.get(
 
     try {
       const weights = await getProviderWeights();
+      const catalog = await getModelCatalog();
       
-      const providers = weights.map(w => ({
-        id: w.provider,
-        name: getProviderDisplayName(w.provider),
-        weight: w.weight,
-        isActive: w.isActive,
-      }));
+      const providers = weights.map(w => {
+        const adapter = getProviderAdapter(w.provider);
+        return {
+          id: w.provider,
+          name: getProviderDisplayName(w.provider),
+          weight: w.weight,
+          isActive: w.isActive,
+          models: catalog[w.provider] || [],
+          generation: adapter?.capabilities.generation || null,
+        };
+      });
 
       logger.debug('Providers retrieved', {
         userId: req.userId,
@@ -54,17 +72,6 @@ router.get(
   }
 );
 
-function getProviderDisplayName(provider: string): string {
-  const names: Record<string, string> = {
-    openai: 'OpenAI GPT-4o',
-    claude: 'Claude Sonnet 4',
-    gemini: 'Google Gemini 1.5',
-    perplexity: 'Perplexity AI',
-    luxia: 'Luxia AI',
-  };
-  return names[provider] || provider;
-}
-
 /**
  * @swagger
  * /api/ai/prompt-suggestions:
@@ -161,9 +168,24 @@ router.post(
  *                 type: string
  *               conversationId:
  *                 type: integer
+ *               temperature:
+ *                 type: number
+ *               topP:
+ *                 type: number
+ *               maxTokens:
+ *                 type: integer
+ *               stop:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               seed:
+ *                 type: integer
+ *                 description: 생성 파라미터는 자동 라우팅으로 선택된 프로바이더 한도에 맞춰 조정 (model 지정 불가)
  *     responses:
  *       200:
  *         description: AI 응답
+ *       400:
+ *         description: 입력 검증 실패
  *       401:
  *         description: 인증 필요
  */
@@ -180,7 +202,13 @@ router.post(
     });
 
     try {
-      const { message, conversationId } = req.body;
+      const { message, conversationId, hasAttachments, mixOfAgents, temperature, topP, maxTokens, stop, seed } = req.body;
+
+      // 자동 라우팅 전용이므로 모델은 /chat/stream에서 프로바이더와 함께 지정
+      if (req.body.model) {
+        res.status(400).json({ error: 'Model selection requires a provider (use /api/ai/chat/stream)' });
+        return;
+      }
 
       if (!message) {
         logger.warning('Invalid request: message is required', {
@@ -205,30 +233,42 @@ router.post(
         return;
       }
 
+      // 사용 예산 확인 (초과 시 402)
+      const budget = await checkBudget(req.userId!, req.user?.role);
+      if (!budget.allowed) {
+        res.status(402).json({
+          error: getBudgetExceededMessage(budget.exceeded!),
+          code: 'BUDGET_EXCEEDED',
+          budget: budget.exceeded,
+        });
+        return;
+      }
+
       // 수정된 프롬프트 사용
       const finalMessage = validation.modifiedPrompt || message;
 
-      // 대화 이력 로드
+      // 대화 이력 로드 (자동 라우팅 대상 모델의 컨텍스트에 맞춰 구성)
       let conversation = null;
-      let historyMessages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }> = [];
+      let historyMessages: ContextMessage[] = [];
+      // 요약 생성(AI 호출) 사용량도 이 요청의 사용량·예산에 포함
+      const usageTracker = createUsageTracker();
 
       if (conversationId) {
         conversation = await prisma.conversation.findUnique({
           where: { id: parseInt(conversationId) },
-          include: {
-            messages: {
-              orderBy: { createdAt: 'asc' },
-              take: 20, // 최근 20개 메시지만 사용
-            },
-          },
         });
 
-        if (conversation) {
-          historyMessages = conversation.messages.map((m) => ({
-            role: m.role as 'user' | 'assistant' | 'system',
-            content: m.content,
-          }));
+        // 다른 사용자의 대화 이력은 사용하지 않음
+        if (!conversation || conversation.userId !== req.userId) {
+          res.status(404).json({ error: 'Conversation not found' });
+          return;
         }
+
+        const historyConversationId = conversation.id;
+        const context = await runWithUsageTracker(usageTracker, () =>
+          buildContext(historyConversationId, { currentMessage: finalMessage, maxTokens })
+        );
+        historyMessages = context.messages;
       }
 
       // 사용자 메시지 추가
@@ -238,7 +278,17 @@ router.post(
       });
 
       // AI 오케스트레이션으로 응답 생성
-      const aiResponse = await orchestrateAI(historyMessages, finalMessage);
+      const aiResponse = await runWithUsageTracker(usageTracker, () =>
+        orchestrateAI(historyMessages, finalMessage, {
+          useMultipleProviders: !!mixOfAgents,
+          generation: { temperature, topP, maxTokens, stop, seed },
+          routingContext: {
+            userRole: req.user?.role,
+            topic: conversation?.topic || 'general',
+            hasAttachments: !!hasAttachments,
+          },
+        })
+      );
 
       if (!aiResponse) {
         logger.error('Failed to generate AI response', {
@@ -266,7 +316,8 @@ router.post(
         finalConversationId = newConversation.id;
       }
 
-      // 메시지 저장
+      // 메시지 저장 (응답 메시지에 토큰 사용량/비용 기록)
+      const usage = await summarizeUsage(usageTracker);
       await prisma.message.createMany({
         data: [
           {
@@ -280,10 +331,17 @@ router.post(
             userId: req.userId!,
             role: 'assistant',
             content: aiResponse,
+            provider: usage.provider,
+            ...getMessageUsageData(usage),
           },
         ],
       });
 
+      // 소프트 한도에 근접한 경우 이번 응답으로 초과했는지 다시 확인 (초과 알림)
+      if (budget.warnings.length > 0) {
+        checkBudget(req.userId!, req.user?.role);
+      }
+
       logger.success('Chat response generated', {
         userId: req.userId,
         conversationId: finalConversationId,
@@ -294,6 +352,8 @@ router.post(
       res.json({
         content: aiResponse,
         conversationId: finalConversationId,
+        usage: { totalTokens: usage.totalTokens, cost: usage.cost },
+        budgetWarnings: budget.warnings,
       });
     } catch (error) {
       logger.error('Chat error', {
@@ -307,5 +367,36 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/ai/requests/{id}/cancel:
+ *   post:
+ *     tags: [AI]
+ *     summary: 진행 중인 생성 취소
+ *     description: 스트리밍 응답의 requestId 또는 A2A 세션 ID. 취소 시점까지의 부분 응답은 중단 표시와 함께 저장됨
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 취소됨
+ *       401:
+ *         description: 인증 필요
+ *       404:
+ *         description: 진행 중인 요청 없음
+ */
+router.post('/requests/:id/cancel', authenticateToken, (req: AuthRequest, res: Response) => {
+  if (!cancelRequest(req.params.id, req.userId)) {
+    res.status(404).json({ error: 'Request not found or already finished' });
+    return;
+  }
+  res.json({ cancelled: true });
+});
+
 export default router;
 
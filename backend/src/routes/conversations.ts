@@ -4,8 +4,14 @@ import {
   createSession,
   getSession,
   listSessions,
+  isConversationOwner,
 } from '../services/conversations/session.js';
-import { manageContext } from '../services/conversations/context.js';
+import { buildContext } from '../services/conversations/context.js';
+import { getConversationSummary, updateConversationSummary } from '../services/conversations/summary.js';
+import { getA2ATranscript } from '../services/ai/a2aTranscript.js';
+import { getAccessiblePersona, setConversationPersona } from '../services/ai/personas.js';
+import { validateInput } from '../middleware/security.js';
+import { personaSchemas, conversationSchemas } from '../utils/validation.js';
 import { createLogger } from '../utils/logger.js';
 
 const router = Router();
@@ -128,7 +134,55 @@ router.get(
   }
 );
 
-// 컨텍스트 조회
+// 대화에 페르소나 연결 (personaId가 null이면 해제)
+router.put(
+  '/:id/persona',
+  authenticateToken,
+  validateInput(personaSchemas.assign),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Conversations',
+      callerFunction: 'setConversationPersona',
+      screenUrl: '/api/conversations/:id/persona',
+    });
+
+    try {
+      const conversationId = parseInt(req.params.id);
+      const { personaId } = req.body;
+
+      if (personaId && !(await getAccessiblePersona(personaId, req.userId!))) {
+        res.status(404).json({ error: 'Persona not found' });
+        return;
+      }
+
+      const updated = await setConversationPersona(conversationId, req.userId!, personaId);
+      if (!updated) {
+        res.status(404).json({ error: 'Conversation not found' });
+        return;
+      }
+
+      logger.success('Conversation persona set', {
+        userId: req.userId,
+        conversationId,
+        personaId,
+        backendApiUrl: `/api/conversations/${conversationId}/persona`,
+        logType: 'success',
+      });
+
+      res.json({ conversationId, personaId });
+    } catch (error) {
+      logger.error('Conversation persona update error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/conversations/${req.params.id}/persona`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to set conversation persona' });
+    }
+  }
+);
+
+// 컨텍스트 조회 (provider, model 쿼리로 해당 모델의 토큰 예산 기준 확인, 요약은 저장된 것만 사용)
 router.get(
   '/:id/context',
   authenticateToken,
@@ -141,17 +195,32 @@ router.get(
 
     try {
       const conversationId = parseInt(req.params.id);
-      const context = await manageContext(conversationId);
+      if (!(await isConversationOwner(conversationId, req.userId!))) {
+        res.status(404).json({ error: 'Conversation not found' });
+        return;
+      }
+
+      const provider = typeof req.query.provider === 'string' ? req.query.provider : undefined;
+      const model = typeof req.query.model === 'string' ? req.query.model : undefined;
+      const built = await buildContext(conversationId, { provider, model, currentMessage: '', readOnly: true });
 
       logger.debug('Context retrieved', {
         userId: req.userId,
         conversationId,
-        messageCount: context.length,
+        messageCount: built.messages.length,
+        strategy: built.strategy,
         backendApiUrl: `/api/conversations/${conversationId}/context`,
         logType: 'success',
       });
 
-      res.json({ context });
+      res.json({
+        context: built.messages,
+        strategy: built.strategy,
+        contextWindow: built.contextWindow,
+        budgetTokens: built.budgetTokens,
+        historyTokens: built.historyTokens,
+        omittedMessages: built.omittedMessages,
+      });
     } catch (error) {
       logger.error('Context retrieval error', {
         userId: req.userId,
@@ -164,5 +233,142 @@ router.get(
   }
 );
 
+// 누적 대화 요약 조회 (아직 요약이 없으면 summary: null)
+router.get(
+  '/:id/summary',
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Conversations',
+      callerFunction: 'getSummary',
+      screenUrl: '/api/conversations/:id/summary',
+    });
+
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (!(await isConversationOwner(conversationId, req.userId!))) {
+        res.status(404).json({ error: 'Conversation not found' });
+        return;
+      }
+
+      const summary = await getConversationSummary(conversationId);
+
+      logger.debug('Conversation summary retrieved', {
+        userId: req.userId,
+        conversationId,
+        hasSummary: !!summary,
+        backendApiUrl: `/api/conversations/${conversationId}/summary`,
+        logType: 'success',
+      });
+
+      res.json({ summary });
+    } catch (error) {
+      logger.error('Conversation summary retrieval error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/conversations/${req.params.id}/summary`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to get conversation summary' });
+    }
+  }
+);
+
+// 누적 대화 요약 수정 (이후 자동 갱신은 수정된 요약에 이어서 작성)
+router.put(
+  '/:id/summary',
+  authenticateToken,
+  validateInput(conversationSchemas.summary),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Conversations',
+      callerFunction: 'updateSummary',
+      screenUrl: '/api/conversations/:id/summary',
+    });
+
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (!(await isConversationOwner(conversationId, req.userId!))) {
+        res.status(404).json({ error: 'Conversation not found' });
+        return;
+      }
+
+      const { summary: text, lastMessageId } = req.body;
+      const summary = await updateConversationSummary(conversationId, text, lastMessageId);
+      if (!summary) {
+        res.status(400).json({ error: 'lastMessageId is not a message of this conversation' });
+        return;
+      }
+
+      logger.success('Conversation summary updated', {
+        userId: req.userId,
+        conversationId,
+        lastMessageId: summary.lastMessageId,
+        backendApiUrl: `/api/conversations/${conversationId}/summary`,
+        logType: 'success',
+      });
+
+      res.json({ summary });
+    } catch (error) {
+      logger.error('Conversation summary update error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/conversations/${req.params.id}/summary`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to update conversation summary' });
+    }
+  }
+);
+
+// A2A 토론 기록 조회 (발언별 단계·라운드·지연 시간·토큰, 다시 보기용)
+router.get(
+  '/:id/a2a/:sessionId',
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Conversations',
+      callerFunction: 'getA2ATranscript',
+      screenUrl: '/api/conversations/:id/a2a/:sessionId',
+    });
+
+    try {
+      const conversationId = parseInt(req.params.id);
+      const transcript = await getA2ATranscript(conversationId, req.params.sessionId, req.userId!);
+
+      if (!transcript) {
+        logger.warning('A2A transcript not found', {
+          userId: req.userId,
+          conversationId,
+          sessionId: req.params.sessionId,
+          backendApiUrl: `/api/conversations/${conversationId}/a2a/${req.params.sessionId}`,
+          logType: 'warning',
+        });
+        res.status(404).json({ error: 'A2A session not found' });
+        return;
+      }
+
+      logger.debug('A2A transcript retrieved', {
+        userId: req.userId,
+        conversationId,
+        sessionId: req.params.sessionId,
+        turnCount: transcript.turns.length,
+        backendApiUrl: `/api/conversations/${conversationId}/a2a/${req.params.sessionId}`,
+        logType: 'success',
+      });
+
+      res.json({ session: transcript });
+    } catch (error) {
+      logger.error('A2A transcript retrieval error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/conversations/${req.params.id}/a2a/${req.params.sessionId}`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to get A2A session' });
+    }
+  }
+);
+
 export default router;
 
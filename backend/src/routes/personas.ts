@@ -0,0 +1,296 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { getPrismaClient } from '../utils/database.js';
+import { createLogger } from '../utils/logger.js';
+import { validateInput } from '../middleware/security.js';
+import { personaSchemas } from '../utils/validation.js';
+
+const router = Router();
+const prisma = getPrismaClient();
+
+// 본인 페르소나만 수정 가능 (관리자는 모든 페르소나)
+async function findEditablePersona(req: AuthRequest, personaId: number) {
+  const persona = await prisma.persona.findUnique({ where: { id: personaId } });
+  if (!persona || (persona.userId !== req.userId && req.user?.role !== 'admin')) {
+    return null;
+  }
+  return persona;
+}
+
+/**
+ * @swagger
+ * /api/personas:
+ *   get:
+ *     tags: [Personas]
+ *     summary: 사용 가능한 페르소나 목록 (본인 페르소나와 공유 페르소나)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 페르소나 목록 (editable은 현재 사용자가 수정 가능한지 여부)
+ */
+router.get(
+  '/',
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Personas',
+      callerFunction: 'listPersonas',
+      screenUrl: '/api/personas',
+    });
+
+    try {
+      const personas = await prisma.persona.findMany({
+        where: { OR: [{ userId: req.userId }, { isShared: true }] },
+        orderBy: [{ isShared: 'desc' }, { name: 'asc' }],
+      });
+
+      res.json({
+        personas: personas.map((persona: any) => ({
+          ...persona,
+          temperature: persona.temperature === null ? null : Number(persona.temperature),
+          editable: persona.userId === req.userId || req.user?.role === 'admin',
+        })),
+      });
+    } catch (error) {
+      logger.error('Persona listing error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/personas',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to list personas' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/personas:
+ *   post:
+ *     tags: [Personas]
+ *     summary: 페르소나 생성
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - systemPrompt
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               systemPrompt:
+ *                 type: string
+ *               language:
+ *                 type: string
+ *                 description: 응답 언어 (ko, en, ja, zh 또는 언어 이름, 기본 ko)
+ *               provider:
+ *                 type: string
+ *                 description: 자동 선택 요청 시 사용할 기본 프로바이더
+ *               model:
+ *                 type: string
+ *               temperature:
+ *                 type: number
+ *               allowedTools:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: 허용할 도구 이름 (미지정 시 전체, 빈 배열이면 도구 사용 안 함, mcp는 모든 MCP 도구)
+ *               showSignature:
+ *                 type: boolean
+ *                 description: 답변 끝에 프로바이더 시그니처 표시
+ *               isShared:
+ *                 type: boolean
+ *                 description: 모든 사용자에게 공유 (관리자만)
+ *     responses:
+ *       201:
+ *         description: 생성된 페르소나
+ *       403:
+ *         description: 관리자가 아닌 사용자의 공유 설정
+ */
+router.post(
+  '/',
+  authenticateToken,
+  validateInput(personaSchemas.create),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Personas',
+      callerFunction: 'createPersona',
+      screenUrl: '/api/personas',
+    });
+
+    try {
+      const { isShared, ...fields } = req.body;
+      if (isShared && req.user?.role !== 'admin') {
+        res.status(403).json({ error: 'Only admins can share personas' });
+        return;
+      }
+
+      const persona = await prisma.persona.create({
+        data: {
+          ...fields,
+          isShared,
+          userId: req.userId!,
+        },
+      });
+
+      logger.success('Persona created', {
+        userId: req.userId,
+        personaId: persona.id,
+        name: persona.name,
+        backendApiUrl: '/api/personas',
+        logType: 'success',
+      });
+
+      res.status(201).json({ persona });
+    } catch (error) {
+      logger.error('Persona creation error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: '/api/personas',
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to create persona' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/personas/{id}:
+ *   put:
+ *     tags: [Personas]
+ *     summary: 페르소나 수정 (본인 페르소나, 관리자는 전체)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: 수정된 페르소나
+ *       404:
+ *         description: 페르소나 없음
+ */
+router.put(
+  '/:id',
+  authenticateToken,
+  validateInput(personaSchemas.update),
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Personas',
+      callerFunction: 'updatePersona',
+      screenUrl: '/api/personas/:id',
+    });
+
+    try {
+      const personaId = parseInt(req.params.id);
+      const existing = await findEditablePersona(req, personaId);
+      if (!existing) {
+        res.status(404).json({ error: 'Persona not found' });
+        return;
+      }
+
+      if (req.body.isShared && req.user?.role !== 'admin') {
+        res.status(403).json({ error: 'Only admins can share personas' });
+        return;
+      }
+
+      const persona = await prisma.persona.update({
+        where: { id: personaId },
+        data: req.body,
+      });
+
+      logger.success('Persona updated', {
+        userId: req.userId,
+        personaId,
+        backendApiUrl: `/api/personas/${personaId}`,
+        logType: 'success',
+      });
+
+      res.json({ persona });
+    } catch (error) {
+      logger.error('Persona update error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/personas/${req.params.id}`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to update persona' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/personas/{id}:
+ *   delete:
+ *     tags: [Personas]
+ *     summary: 페르소나 삭제 (연결된 대화는 기본 설정으로 응답)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: 삭제 완료
+ *       404:
+ *         description: 페르소나 없음
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const logger = createLogger({
+      screenName: 'Personas',
+      callerFunction: 'deletePersona',
+      screenUrl: '/api/personas/:id',
+    });
+
+    try {
+      const personaId = parseInt(req.params.id);
+      const existing = await findEditablePersona(req, personaId);
+      if (!existing) {
+        res.status(404).json({ error: 'Persona not found' });
+        return;
+      }
+
+      await prisma.persona.delete({
+        where: { id: personaId },
+      });
+
+      logger.success('Persona deleted', {
+        userId: req.userId,
+        personaId,
+        backendApiUrl: `/api/personas/${personaId}`,
+        logType: 'success',
+      });
+
+      res.json({ message: 'Persona deleted successfully' });
+    } catch (error) {
+      logger.error('Persona deletion error', {
+        userId: req.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backendApiUrl: `/api/personas/${req.params.id}`,
+        logType: 'error',
+      });
+      res.status(500).json({ error: 'Failed to delete persona' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,90 @@
+// WebSocket A2A 세션 이벤트 버퍼
+// 소켓이 끊겼다가 다시 연결된 클라이언트가 마지막으로 받은 seq 이후 이벤트를 다시 받을 수 있도록 세션별로 보관.
+// 토론은 소켓과 무관하게 서버에서 계속 진행되며, 끝난 세션의 버퍼는 일정 시간 뒤 삭제.
+// 발언이 끝나면 전체 내용이 담긴 a2a_agent_complete가 있으므로 그 발언의 a2a_chunk는 버퍼에서 제거
+
+export interface BufferedA2AEvent {
+  seq: number;
+  event: string;
+  data: Record<string, unknown>;
+}
+
+interface A2AEventSession {
+  userId: number;
+  events: BufferedA2AEvent[];
+  lastSeq: number;
+  finished: boolean;
+}
+
+const FINISHED_SESSION_TTL_MS = 5 * 60 * 1000;
+const MAX_BUFFERED_EVENTS = 2000; // 진행 중인 발언의 청크가 이를 넘으면 오래된 청크부터 제거
+
+const sessions = new Map<string, A2AEventSession>();
+
+/**
+ * 세션 버퍼 생성. 같은 세션 ID가 이미 있으면 false
+ */
+export function openA2AEventBuffer(sessionId: string, userId: number): boolean {
+  if (sessions.has(sessionId)) {
+    return false;
+  }
+  sessions.set(sessionId, { userId, events: [], lastSeq: 0, finished: false });
+  return true;
+}
+
+// seq는 세션마다 1부터 증가 (버퍼가 없으면 0, 재전송 대상 아님)
+export function appendA2AEvent(
+  sessionId: string,
+  event: string,
+  data: Record<string, unknown>
+): BufferedA2AEvent {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return { seq: 0, event, data };
+  }
+
+  if (event === 'a2a_agent_complete') {
+    session.events = session.events.filter((buffered) => !isChunkOf(buffered, data));
+  }
+
+  session.lastSeq++;
+  const buffered = { seq: session.lastSeq, event, data };
+  session.events.push(buffered);
+
+  if (session.events.length > MAX_BUFFERED_EVENTS) {
+    const oldestChunk = session.events.findIndex((candidate) => candidate.event === 'a2a_chunk');
+    session.events.splice(oldestChunk === -1 ? 0 : oldestChunk, 1);
+  }
+  return buffered;
+}
+
+// 같은 발언(프로바이더·단계·라운드)의 청크인지
+function isChunkOf(buffered: BufferedA2AEvent, turn: Record<string, unknown>): boolean {
+  return (
+    buffered.event === 'a2a_chunk' &&
+    buffered.data.provider === turn.provider &&
+    buffered.data.phase === turn.phase &&
+    buffered.data.round === turn.round
+  );
+}
+
+export function getA2AEventsSince(sessionId: string, lastSeq: number): BufferedA2AEvent[] {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return [];
+  }
+  return session.events.filter((buffered) => buffered.seq > lastSeq);
+}
+
+export function getA2AEventBufferOwner(sessionId: string): number | null {
+  return sessions.get(sessionId)?.userId ?? null;
+}
+
+export function closeA2AEventBuffer(sessionId: string): void {
+  const session = sessions.get(sessionId);
+  if (!session || session.finished) {
+    return;
+  }
+  session.finished = true;
+  setTimeout(() => sessions.delete(sessionId), FINISHED_SESSION_TTL_MS).unref();
+}
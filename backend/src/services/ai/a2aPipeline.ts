@@ -0,0 +1,623 @@
+import { z } from 'zod';
+import { ChatMessage } from './router.js';
+import { createLogger } from '../../utils/logger.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { getProviderAdapter, getProviderDisplayName, hasProviderAdapter } from './providerRegistry.js';
+import { cosineSimilarity, embedText } from './embedding.js';
+import { createChildUsageTracker, runWithUsageTracker, UsageRecord } from './usageTracker.js';
+
+const prisma = getPrismaClient();
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'A2APipeline',
+});
+
+export const A2A_PHASES = ['collaboration', 'debate'] as const;
+
+export type A2APhase = (typeof A2A_PHASES)[number];
+
+// A2A 파이프라인 정의 (참가자, 단계별 라운드, 종합 폴백 체인, 조기 종료)
+const a2aAgentSchema = z.object({
+  provider: z.string().refine(hasProviderAdapter, '지원하지 않는 프로바이더입니다'),
+  model: z.string().max(255).optional().nullable(),
+  persona: z.string().max(2000).optional().nullable(),
+});
+
+export const a2aPipelineSchema = z.object({
+  participants: z.array(a2aAgentSchema).min(1, '참가자를 한 명 이상 지정하세요').max(8),
+  phases: z.array(z.object({
+    name: z.enum(A2A_PHASES),
+    rounds: z.number().int().min(0).max(5),
+  })).max(6),
+  synthesizers: z.array(a2aAgentSchema).min(1, '종합 에이전트를 한 명 이상 지정하세요').max(5),
+  earlyStop: z.object({
+    enabled: z.boolean(),
+    threshold: z.number().min(0).max(1),
+  }).optional(),
+  parallel: z.boolean().optional(),
+});
+
+export interface A2AAgentConfig {
+  provider: string;
+  model?: string | null;
+  persona?: string | null; // 시스템 프롬프트에 추가되는 역할 설명
+}
+
+export interface A2APhaseConfig {
+  name: A2APhase;
+  rounds: number;
+}
+
+export interface A2AEarlyStopConfig {
+  enabled: boolean;
+  threshold: number; // 한 라운드 응답 간 평균 코사인 유사도
+}
+
+export interface A2APipelineDefinition {
+  participants: A2AAgentConfig[];
+  phases: A2APhaseConfig[];
+  synthesizers: A2AAgentConfig[]; // 앞에서부터 시도 (폴백 체인)
+  earlyStop?: A2AEarlyStopConfig;
+  parallel?: boolean; // 라운드 내 에이전트 동시 실행
+}
+
+export interface A2APipelineSelection {
+  presetId?: number | null;
+  pipeline?: A2APipelineDefinition | null;
+}
+
+export interface A2AHistoryEntry {
+  provider: string;
+  label: string;
+  content: string;
+  phase: A2APhase;
+  round: number;
+}
+
+// 저장·다시 보기용 발언 기록 (실패한 발언과 최종 종합 포함)
+export interface A2ATurnRecord {
+  sequence: number; // 발언 시작 순서
+  provider: string;
+  model: string | null;
+  label: string;
+  phase: A2APhase | 'synthesis';
+  round: number;
+  content: string;
+  status: 'completed' | 'failed' | 'cancelled'; // cancelled: 취소 시점까지의 부분 발언
+  startedAt: Date;
+  completedAt: Date;
+  usage: UsageRecord[];
+}
+
+export interface A2APipelineEvents {
+  onPhaseChange?: (phase: string) => void;
+  onAgentStart?: (provider: string, providerName: string, phase: string, round: number) => void;
+  onChunk: (provider: string, phase: string, round: number, chunk: string) => void;
+  onAgentComplete?: (provider: string, phase: string, round: number, content: string) => void;
+  onEarlyStop?: (phase: string, round: number, similarity: number) => void;
+  onTurnComplete?: (turn: A2ATurnRecord) => void;
+}
+
+export interface A2APipelineResult {
+  history: A2AHistoryEntry[];
+  synthesis: string;
+  synthesizer: string | null; // 종합에 성공한 프로바이더
+  earlyStopped: boolean;
+  cancelled: boolean; // 취소되면 남은 발언과 종합을 건너뜀
+}
+
+export interface A2APipelineOptions {
+  signal?: AbortSignal;
+}
+
+// 기존 고정 구성 (4개 프로바이더, 협력 2라운드, 토론 2라운드, Luxia 종합 → Claude 폴백)
+export const DEFAULT_A2A_PIPELINE: A2APipelineDefinition = {
+  participants: [
+    { provider: 'openai' },
+    { provider: 'claude' },
+    { provider: 'gemini' },
+    { provider: 'perplexity' },
+  ],
+  phases: [
+    { name: 'collaboration', rounds: 2 },
+    { name: 'debate', rounds: 2 },
+  ],
+  synthesizers: [{ provider: 'luxia' }, { provider: 'claude' }],
+  earlyStop: { enabled: false, threshold: 0.85 },
+};
+
+const PHASE_LABELS: Record<A2APhase, string> = {
+  collaboration: '협력',
+  debate: '토론',
+};
+
+/**
+ * 대화에 저장할 A2A 응답 본문 (발언별 제목 + 최종 종합). SSE·WebSocket 경로가 같은 형식으로 저장
+ */
+export function formatA2AResponse(result: A2APipelineResult, pipeline: A2APipelineDefinition): string {
+  const synthesizerName = getProviderDisplayName(result.synthesizer || pipeline.synthesizers[0].provider);
+  // 종합 전에 취소되면 그때까지의 발언만 포함
+  return (
+    result.history
+      .map((entry) => `\n\n### ${entry.label} (${PHASE_LABELS[entry.phase]} 라운드 ${entry.round})\n${entry.content}`)
+      .join('') + (result.synthesis ? `\n\n## 🌟 ${synthesizerName} 최종 종합\n${result.synthesis}` : '')
+  );
+}
+
+// 저장된 프리셋 정의 검증 (DB에서 직접 수정했거나 스키마가 바뀐 프리셋 대비)
+function parsePresetDefinition(presetId: number, definition: unknown): A2APipelineDefinition | null {
+  const parsed = a2aPipelineSchema.safeParse(definition);
+  if (!parsed.success) {
+    logger.error('Invalid A2A preset definition', {
+      presetId,
+      error: parsed.error.message,
+      logType: 'error',
+    });
+    return null;
+  }
+  return parsed.data;
+}
+
+/**
+ * 요청에 사용할 파이프라인 결정: 인라인 정의 > 프리셋 ID > 기본 프리셋 > 내장 기본값.
+ * 지정한 프리셋이 없거나 정의가 잘못되었으면 null (기본 프리셋이 잘못되었으면 내장 기본값 사용).
+ */
+export async function resolveA2APipeline(
+  selection?: A2APipelineSelection
+): Promise<A2APipelineDefinition | null> {
+  if (selection?.pipeline) {
+    return selection.pipeline;
+  }
+
+  if (selection?.presetId) {
+    const preset = await prisma.a2APreset.findUnique({
+      where: { id: selection.presetId },
+    });
+    return preset ? parsePresetDefinition(preset.id, preset.definition) : null;
+  }
+
+  try {
+    const defaultPreset = await prisma.a2APreset.findFirst({
+      where: { isDefault: true },
+    });
+    const definition = defaultPreset ? parsePresetDefinition(defaultPreset.id, defaultPreset.definition) : null;
+    if (definition) {
+      return definition;
+    }
+  } catch (error) {
+    logger.warning('Failed to load default A2A preset', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'warning',
+    });
+  }
+
+  return DEFAULT_A2A_PIPELINE;
+}
+
+function getKoreanDate(): string {
+  const now = new Date();
+  const koreaTime = new Date(now.toLocaleString('en-US', { timeZone: 'Asia/Seoul' }));
+  const year = koreaTime.getFullYear();
+  const month = koreaTime.getMonth() + 1;
+  const day = koreaTime.getDate();
+  const weekdays = ['일', '월', '화', '수', '목', '금', '토'];
+  const weekday = weekdays[koreaTime.getDay()];
+  return `${year}년 ${month}월 ${day}일 (${weekday}요일)`;
+}
+
+function getAgentLabel(agent: A2AAgentConfig): string {
+  const name = getProviderDisplayName(agent.provider);
+  return agent.model ? `${name} (${agent.model})` : name;
+}
+
+function withPersona(systemPrompt: string, agent: A2AAgentConfig): string {
+  return agent.persona ? `${systemPrompt}\n\n당신의 역할: ${agent.persona}` : systemPrompt;
+}
+
+function buildAgentMessages(
+  userPrompt: string,
+  history: A2AHistoryEntry[],
+  agent: A2AAgentConfig,
+  phase: A2APhase,
+  round: number
+): ChatMessage[] {
+  const koreanDate = getKoreanDate();
+  const agentLabel = getAgentLabel(agent);
+
+  const phaseInstructions =
+    phase === 'collaboration'
+      ? `당신은 ${agentLabel}입니다. 다른 AI 에이전트들과 함께 협력하여 사용자의 질문에 대한 최적의 답변을 도출하는 토론에 참여하고 있습니다.
+
+지금은 협력적 인사이트 공유 단계 ${round}라운드입니다.
+- 이전 발언자들의 의견을 참고하여 새로운 관점이나 보완적인 인사이트를 제시하세요.
+- 다른 에이전트의 좋은 아이디어는 인정하고 발전시키세요.`
+      : `당신은 ${agentLabel}입니다. 다른 AI 에이전트들과 함께 토론하며 답변을 개선하고 있습니다.
+
+지금은 토론 및 보완 단계 ${round}라운드입니다.
+- 지금까지의 논의에서 부족한 점이나 보완이 필요한 부분을 지적하세요.
+- 건설적인 비평과 함께 개선된 인사이트를 제안하세요.
+- 다른 에이전트들의 의견 중 동의하지 않는 부분이 있다면 논리적으로 반박하세요.`;
+
+  const systemPrompt = `오늘 날짜는 ${koreanDate}입니다. (한국 표준시 기준)
+
+${phaseInstructions}
+- 간결하면서도 핵심적인 내용을 담아 2-3문단 이내로 답변하세요.
+- 한국어로 답변하세요.
+
+중요: 답변의 마지막에 반드시 다음 형식으로 시그니처를 추가하세요:
+---
+*${agentLabel}*`;
+
+  let conversationContext = `사용자 질문: ${userPrompt}\n\n`;
+  if (history.length > 0) {
+    conversationContext += '지금까지의 토론 내용:\n\n';
+    for (const entry of history) {
+      conversationContext += `[${entry.label} - ${PHASE_LABELS[entry.phase]} ${entry.round}라운드]\n${entry.content}\n\n`;
+    }
+  }
+
+  return [
+    { role: 'system', content: withPersona(systemPrompt, agent) },
+    { role: 'user', content: conversationContext },
+  ];
+}
+
+function buildSynthesisMessages(
+  userPrompt: string,
+  history: A2AHistoryEntry[],
+  participants: A2AAgentConfig[],
+  synthesizer: A2AAgentConfig
+): ChatMessage[] {
+  const koreanDate = getKoreanDate();
+  const synthesizerLabel = getAgentLabel(synthesizer);
+  const participantSections = Array.from(new Set(participants.map(getAgentLabel)))
+    .map((label) => `### ${label}\n• **핵심 포인트 1**: 해설 내용\n• **핵심 포인트 2**: 해설 내용`)
+    .join('\n\n');
+
+  const systemPrompt = `오늘 날짜는 ${koreanDate}입니다. (한국 표준시 기준)
+
+당신은 ${synthesizerLabel}입니다. 여러 AI 에이전트들의 협력적 토론 결과를 종합하여 최종 답변을 제시하는 역할을 맡고 있습니다.
+
+반드시 다음 형식으로 답변을 구성하세요:
+
+## 📋 종합 Summary
+
+각 AI의 핵심 인사이트를 불릿 포인트로 요약하고 간단한 해설을 추가하세요.
+
+${participantSections}
+
+---
+
+## 🌟 ${synthesizerLabel} 최종 종합 답변
+
+위 AI들의 인사이트를 바탕으로 종합적인 최종 답변을 작성하세요.
+
+---
+
+### 💡 핵심 결론
+
+가장 중요한 결론을 간결하게 정리하세요.
+
+---
+*${synthesizerLabel}*
+
+작성 시 유의사항:
+1. 각 AI별 섹션 사이에 충분한 간격을 두세요.
+2. 불릿 포인트는 핵심 내용을 간결하게 정리하고, 해설은 1-2문장으로 작성하세요.
+3. 토론에서 합의된 내용과 상충되는 의견을 균형 있게 반영하세요.
+4. 실용적이고 실행 가능한 결론을 도출하세요.
+5. 한국어로 답변하세요.`;
+
+  let conversationSummary = `원래 질문: ${userPrompt}\n\n=== 토론 전체 내용 ===\n\n`;
+  for (const phase of A2A_PHASES) {
+    const entries = history.filter((entry) => entry.phase === phase);
+    if (entries.length === 0) {
+      continue;
+    }
+    conversationSummary += `## ${phase === 'collaboration' ? '협력적 인사이트 공유' : '토론 및 보완'} 단계\n\n`;
+    for (const entry of entries) {
+      conversationSummary += `**${entry.label}** (라운드 ${entry.round}):\n${entry.content}\n\n`;
+    }
+  }
+  conversationSummary += '\n위의 토론 내용을 바탕으로 종합 Summary와 최종 답변을 작성해주세요.';
+
+  return [
+    { role: 'system', content: withPersona(systemPrompt, synthesizer) },
+    { role: 'user', content: conversationSummary },
+  ];
+}
+
+async function streamAgent(
+  agent: A2AAgentConfig,
+  messages: ChatMessage[],
+  onChunk: (chunk: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const adapter = getProviderAdapter(agent.provider);
+  if (!adapter) {
+    throw new Error(`Unknown provider: ${agent.provider}`);
+  }
+
+  let fullResponse = '';
+  let streamError: Error | null = null;
+
+  await adapter.stream(
+    messages,
+    {
+      onChunk: (chunk: string) => {
+        fullResponse += chunk;
+        onChunk(chunk);
+      },
+      onComplete: () => {},
+      onError: (error: Error) => {
+        streamError = error;
+      },
+    },
+    { model: agent.model || undefined, signal }
+  );
+
+  if (streamError) {
+    throw streamError;
+  }
+  return fullResponse;
+}
+
+// 한 라운드 응답 간 평균 유사도 (응답이 2개 미만이면 0)
+function getRoundAgreement(entries: A2AHistoryEntry[]): number {
+  if (entries.length < 2) {
+    return 0;
+  }
+
+  const vectors = entries.map((entry) => embedText(entry.content));
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      total += cosineSimilarity(vectors[i], vectors[j]);
+      pairs++;
+    }
+  }
+  return total / pairs;
+}
+
+function buildTurnRecord(
+  sequence: number,
+  agent: A2AAgentConfig,
+  phase: A2APhase | 'synthesis',
+  round: number,
+  content: string,
+  status: A2ATurnRecord['status'],
+  startedAt: Date,
+  usage: UsageRecord[]
+): A2ATurnRecord {
+  return {
+    sequence,
+    provider: agent.provider,
+    model: agent.model || null,
+    label: getAgentLabel(agent),
+    phase,
+    round,
+    content,
+    status,
+    startedAt,
+    completedAt: new Date(),
+    usage,
+  };
+}
+
+// 에이전트 한 명의 발언. 실패하면 오류 문구를 전송하고 토론 기록(history)에는 남기지 않음
+async function runAgentTurn(
+  agent: A2AAgentConfig,
+  userPrompt: string,
+  history: A2AHistoryEntry[],
+  phase: A2APhase,
+  round: number,
+  sequence: number,
+  events: A2APipelineEvents,
+  signal?: AbortSignal
+): Promise<A2AHistoryEntry | null> {
+  const startedAt = new Date();
+  const tracker = createChildUsageTracker();
+
+  try {
+    const messages = buildAgentMessages(userPrompt, history, agent, phase, round);
+    const response = await runWithUsageTracker(tracker, () =>
+      streamAgent(agent, messages, (chunk) => events.onChunk(agent.provider, phase, round, chunk), signal)
+    );
+    const status = signal?.aborted ? 'cancelled' : 'completed';
+    events.onAgentComplete?.(agent.provider, phase, round, response);
+    events.onTurnComplete?.(
+      buildTurnRecord(sequence, agent, phase, round, response, status, startedAt, tracker.records)
+    );
+
+    return response
+      ? { provider: agent.provider, label: getAgentLabel(agent), content: response, phase, round }
+      : null;
+  } catch (error) {
+    logger.warning(`A2A: ${agent.provider} failed in ${phase} round ${round}`, {
+      error: error instanceof Error ? error.message : 'Unknown',
+      logType: 'warning',
+    });
+    const errorText = `오류: ${error instanceof Error ? error.message : '알 수 없는 오류'}`;
+    events.onChunk(agent.provider, phase, round, errorText);
+    events.onAgentComplete?.(agent.provider, phase, round, errorText);
+    events.onTurnComplete?.(
+      buildTurnRecord(sequence, agent, phase, round, errorText, 'failed', startedAt, tracker.records)
+    );
+    return null;
+  }
+}
+
+// 청크는 프로바이더/단계/라운드로만 구분되므로 같은 프로바이더가 두 번 참가하면 동시 실행 불가
+function canRunInParallel(pipeline: A2APipelineDefinition): boolean {
+  const providers = pipeline.participants.map((agent) => agent.provider);
+  if (new Set(providers).size === providers.length) {
+    return true;
+  }
+  logger.warning('A2A: duplicate providers in pipeline, running agents sequentially', {
+    providers: providers.join(', '),
+    logType: 'warning',
+  });
+  return false;
+}
+
+/**
+ * A2A 파이프라인 실행 (SSE/WebSocket 공용).
+ * 단계별 라운드마다 참가자를 순서대로(parallel이면 동시에) 호출하고, 조기 종료 조건을 만족하면 남은 라운드를 건너뛰고 종합.
+ */
+export async function runA2APipeline(
+  pipeline: A2APipelineDefinition,
+  userPrompt: string,
+  events: A2APipelineEvents,
+  options?: A2APipelineOptions
+): Promise<A2APipelineResult> {
+  const history: A2AHistoryEntry[] = [];
+  let earlyStopped = false;
+  let sequence = 0;
+  const parallel = !!pipeline.parallel && canRunInParallel(pipeline);
+  const signal = options?.signal;
+
+  logger.info('A2A pipeline started', {
+    participants: pipeline.participants.map((agent) => agent.provider).join(', '),
+    phases: pipeline.phases.map((phase) => `${phase.name}:${phase.rounds}`).join(', '),
+    parallel,
+    userPrompt: userPrompt.substring(0, 50),
+    logType: 'info',
+  });
+
+  for (const phase of pipeline.phases) {
+    if (earlyStopped || signal?.aborted || phase.rounds <= 0) {
+      continue;
+    }
+    events.onPhaseChange?.(phase.name);
+
+    for (let round = 1; round <= phase.rounds && !earlyStopped && !signal?.aborted; round++) {
+      let roundEntries: Array<A2AHistoryEntry | null>;
+
+      if (parallel) {
+        // 같은 라운드 에이전트는 서로의 발언 없이 이전 라운드까지의 기록만 참고
+        const snapshot = [...history];
+        for (const agent of pipeline.participants) {
+          events.onAgentStart?.(agent.provider, getAgentLabel(agent), phase.name, round);
+        }
+        const firstSequence = sequence + 1;
+        sequence += pipeline.participants.length;
+        roundEntries = await Promise.all(
+          pipeline.participants.map((agent, index) =>
+            runAgentTurn(agent, userPrompt, snapshot, phase.name, round, firstSequence + index, events, signal)
+          )
+        );
+        roundEntries.forEach((entry) => entry && history.push(entry));
+      } else {
+        roundEntries = [];
+        for (const agent of pipeline.participants) {
+          if (signal?.aborted) {
+            break;
+          }
+          events.onAgentStart?.(agent.provider, getAgentLabel(agent), phase.name, round);
+          const entry = await runAgentTurn(
+            agent,
+            userPrompt,
+            history,
+            phase.name,
+            round,
+            ++sequence,
+            events,
+            signal
+          );
+          if (entry) {
+            history.push(entry);
+          }
+          roundEntries.push(entry);
+        }
+      }
+
+      if (pipeline.earlyStop?.enabled && !signal?.aborted) {
+        const agreement = getRoundAgreement(
+          roundEntries.filter((entry): entry is A2AHistoryEntry => !!entry)
+        );
+        if (agreement >= pipeline.earlyStop.threshold) {
+          earlyStopped = true;
+          logger.info('A2A: agents converged, skipping remaining rounds', {
+            phase: phase.name,
+            round,
+            agreement: Number(agreement.toFixed(4)),
+            logType: 'info',
+          });
+          events.onEarlyStop?.(phase.name, round, agreement);
+        }
+      }
+    }
+  }
+
+  const [primary] = pipeline.synthesizers;
+  let synthesis = '';
+  let synthesizer: string | null = null;
+
+  if (primary && !signal?.aborted) {
+    events.onPhaseChange?.('synthesis');
+    events.onAgentStart?.(primary.provider, getAgentLabel(primary), 'synthesis', 1);
+    const startedAt = new Date();
+    const tracker = createChildUsageTracker();
+    let streamed = '';
+    const onSynthesisChunk = (chunk: string) => {
+      streamed += chunk;
+      events.onChunk(primary.provider, 'synthesis', 1, chunk);
+    };
+
+    for (const [index, candidate] of pipeline.synthesizers.entries()) {
+      if (signal?.aborted) {
+        break;
+      }
+      if (index > 0) {
+        onSynthesisChunk(`${getAgentLabel(candidate)}로 대체 종합 중...\n\n`);
+      }
+
+      try {
+        const messages = buildSynthesisMessages(userPrompt, history, pipeline.participants, candidate);
+        synthesis = await runWithUsageTracker(tracker, () =>
+          streamAgent(candidate, messages, onSynthesisChunk, signal)
+        );
+        synthesizer = candidate.provider;
+        break;
+      } catch (error) {
+        logger.warning(`A2A: synthesis with ${candidate.provider} failed`, {
+          error: error instanceof Error ? error.message : 'Unknown',
+          logType: 'warning',
+        });
+      }
+    }
+
+    if (!synthesizer && !signal?.aborted) {
+      logger.error('A2A synthesis failed completely', { logType: 'error' });
+      synthesis = '최종 종합 중 오류가 발생했습니다.';
+      onSynthesisChunk(synthesis);
+    }
+
+    events.onAgentComplete?.(primary.provider, 'synthesis', 1, synthesis);
+    // 다시 보기는 화면에 스트리밍된 그대로 (대체 종합 안내 포함)
+    events.onTurnComplete?.(
+      buildTurnRecord(
+        ++sequence,
+        primary,
+        'synthesis',
+        1,
+        streamed,
+        signal?.aborted ? 'cancelled' : synthesizer ? 'completed' : 'failed',
+        startedAt,
+        tracker.records
+      )
+    );
+  }
+
+  const cancelled = !!signal?.aborted;
+
+  logger.info(cancelled ? 'A2A pipeline cancelled' : 'A2A pipeline completed', {
+    historyLength: history.length,
+    synthesizer,
+    earlyStopped,
+    logType: cancelled ? 'info' : 'success',
+  });
+
+  return { history, synthesis, synthesizer, earlyStopped, cancelled };
+}
@@ -0,0 +1,245 @@
+import { A2ATurn, Prisma } from '@prisma/client';
+import { createLogger } from '../../utils/logger.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { A2AAgentConfig, A2APipelineDefinition, A2ATurnRecord } from './a2aPipeline.js';
+import { summarizeUsage, UsageSummary } from './usageTracker.js';
+
+const prisma = getPrismaClient();
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'A2ATranscript',
+});
+
+export interface A2AEarlyStopRecord {
+  phase: string;
+  round: number;
+  similarity: number;
+}
+
+export interface A2ATranscriptTurn {
+  sequence: number;
+  provider: string;
+  model: string | null;
+  label: string;
+  phase: string;
+  round: number;
+  content: string;
+  status: string;
+  latencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  tokens: number;
+  cost: number;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+export interface A2ATranscript {
+  sessionId: string;
+  conversationId: number;
+  messageId: number | null;
+  prompt: string;
+  parallel: boolean;
+  status: string;
+  synthesizer: string | null;
+  earlyStop: A2AEarlyStopRecord | null;
+  tokens: number;
+  cost: number;
+  startedAt: Date;
+  completedAt: Date | null;
+  turns: A2ATranscriptTurn[];
+}
+
+/**
+ * 토론 시작 시 세션 기록 생성. 저장에 실패해도 토론은 계속 진행하므로 null 반환
+ */
+// JSON 컬럼 저장용 변환 (undefined 필드 제외)
+function toAgentJson(agent: A2AAgentConfig): Prisma.InputJsonObject {
+  return { provider: agent.provider, model: agent.model ?? null, persona: agent.persona ?? null };
+}
+
+function toPipelineJson(pipeline: A2APipelineDefinition): Prisma.InputJsonObject {
+  return {
+    participants: pipeline.participants.map(toAgentJson),
+    phases: pipeline.phases.map((phase) => ({ name: phase.name, rounds: phase.rounds })),
+    synthesizers: pipeline.synthesizers.map(toAgentJson),
+    ...(pipeline.earlyStop && {
+      earlyStop: { enabled: pipeline.earlyStop.enabled, threshold: pipeline.earlyStop.threshold },
+    }),
+    parallel: !!pipeline.parallel,
+  };
+}
+
+function toEarlyStopJson(earlyStop: A2AEarlyStopRecord): Prisma.InputJsonObject {
+  return { phase: earlyStop.phase, round: earlyStop.round, similarity: earlyStop.similarity };
+}
+
+export async function startA2ATranscript(input: {
+  sessionId: string;
+  conversationId: number;
+  userId: number;
+  prompt: string;
+  pipeline: A2APipelineDefinition;
+}): Promise<number | null> {
+  try {
+    const session = await prisma.a2ASession.create({
+      data: {
+        sessionId: input.sessionId,
+        conversationId: input.conversationId,
+        userId: input.userId,
+        prompt: input.prompt,
+        pipeline: toPipelineJson(input.pipeline),
+        parallel: !!input.pipeline.parallel,
+      },
+    });
+    return session.id;
+  } catch (error) {
+    logger.error('Failed to create A2A transcript', {
+      sessionId: input.sessionId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+    return null;
+  }
+}
+
+// 발언이 끝날 때마다 저장 (토론 도중 중단되어도 완료된 발언은 남음)
+export async function recordA2ATurn(transcriptId: number | null, turn: A2ATurnRecord): Promise<void> {
+  if (!transcriptId) {
+    return;
+  }
+
+  try {
+    const usage = await summarizeUsage({ records: turn.usage });
+    await prisma.a2ATurn.create({
+      data: {
+        sessionId: transcriptId,
+        sequence: turn.sequence,
+        provider: turn.provider,
+        model: turn.model || usage.model,
+        label: turn.label,
+        phase: turn.phase,
+        round: turn.round,
+        content: turn.content,
+        status: turn.status,
+        latencyMs: turn.completedAt.getTime() - turn.startedAt.getTime(),
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        tokens: usage.totalTokens,
+        cost: usage.cost,
+        startedAt: turn.startedAt,
+        completedAt: turn.completedAt,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to record A2A turn', {
+      transcriptId,
+      sequence: turn.sequence,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+  }
+}
+
+export async function completeA2ATranscript(
+  transcriptId: number | null,
+  result: {
+    messageId: number | null; // 취소되어 저장할 발언이 없으면 null
+    synthesizer: string | null;
+    earlyStop: A2AEarlyStopRecord | null;
+    usage: UsageSummary;
+    cancelled?: boolean;
+  }
+): Promise<void> {
+  if (!transcriptId) {
+    return;
+  }
+
+  try {
+    await prisma.a2ASession.update({
+      where: { id: transcriptId },
+      data: {
+        status: result.cancelled ? 'cancelled' : 'completed',
+        messageId: result.messageId,
+        synthesizer: result.synthesizer,
+        earlyStop: result.earlyStop ? toEarlyStopJson(result.earlyStop) : undefined,
+        tokens: result.usage.totalTokens,
+        cost: result.usage.cost,
+        completedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to complete A2A transcript', {
+      transcriptId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+  }
+}
+
+export async function failA2ATranscript(sessionId: string, errorMessage: string): Promise<void> {
+  try {
+    await prisma.a2ASession.updateMany({
+      where: { sessionId, status: 'running' },
+      data: { status: 'failed', error: errorMessage, completedAt: new Date() },
+    });
+  } catch (error) {
+    logger.error('Failed to mark A2A transcript as failed', {
+      sessionId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+  }
+}
+
+/**
+ * 대화에 속한 토론 기록 조회 (다른 사용자의 대화이거나 없으면 null)
+ */
+export async function getA2ATranscript(
+  conversationId: number,
+  sessionId: string,
+  userId: number
+): Promise<A2ATranscript | null> {
+  const session = await prisma.a2ASession.findUnique({
+    where: { sessionId },
+    include: {
+      turns: { orderBy: { sequence: 'asc' } },
+    },
+  });
+
+  if (!session || session.conversationId !== conversationId || session.userId !== userId) {
+    return null;
+  }
+
+  return {
+    sessionId: session.sessionId,
+    conversationId: session.conversationId,
+    messageId: session.messageId,
+    prompt: session.prompt,
+    parallel: session.parallel,
+    status: session.status,
+    synthesizer: session.synthesizer,
+    earlyStop: (session.earlyStop as A2AEarlyStopRecord | null) || null,
+    tokens: session.tokens,
+    cost: Number(session.cost),
+    startedAt: session.startedAt,
+    completedAt: session.completedAt,
+    turns: session.turns.map((turn: A2ATurn) => ({
+      sequence: turn.sequence,
+      provider: turn.provider,
+      model: turn.model,
+      label: turn.label,
+      phase: turn.phase,
+      round: turn.round,
+      content: turn.content,
+      status: turn.status,
+      latencyMs: turn.latencyMs,
+      promptTokens: turn.promptTokens,
+      completionTokens: turn.completionTokens,
+      tokens: turn.tokens,
+      cost: Number(turn.cost),
+      startedAt: turn.startedAt,
+      completedAt: turn.completedAt,
+    })),
+  };
+}
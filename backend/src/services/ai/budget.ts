@@ -0,0 +1,189 @@
+import { Prisma, UsageBudget } from '@prisma/client';
+import { createLogger } from '../../utils/logger.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { notificationManager } from '../notifications/manager.js';
+
+const prisma = getPrismaClient();
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'Budget',
+});
+
+export const BUDGET_SCOPES = ['user', 'role'] as const;
+export const BUDGET_PERIODS = ['daily', 'monthly'] as const;
+
+export type BudgetScope = (typeof BUDGET_SCOPES)[number];
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+export type BudgetMetric = 'tokens' | 'cost';
+
+export interface BudgetState {
+  budgetId: number;
+  scope: BudgetScope;
+  target: string; // 사용자 이메일 또는 역할명
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+  percent: number;
+  softLimitPercent: number;
+  resetsAt: string;
+}
+
+export interface BudgetCheckResult {
+  allowed: boolean;
+  exceeded: BudgetState | null;
+  warnings: BudgetState[]; // 소프트 한도(softLimitPercent) 이상 사용
+}
+
+// 초과 알림은 예산·기간당 한 번만 전송
+const alertedBudgets = new Set<string>();
+
+// 일간/월간 기간 (UTC 기준, AIRequestStats와 동일)
+export function getPeriodRange(period: BudgetPeriod, now: Date = new Date()): { start: Date; end: Date } {
+  if (period === 'daily') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    return { start, end };
+  }
+
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+// 예산 대상 사용자 정보 (사용자 예산의 target 표시용)
+export type UsageBudgetWithUser = UsageBudget & { user?: { email: string } | null };
+
+async function getPeriodUsage(budget: UsageBudget, start: Date): Promise<{ tokens: number; cost: number }> {
+  let where: Prisma.MessageWhereInput;
+  if (budget.scope === 'user' && budget.userId !== null) {
+    where = { userId: budget.userId };
+  } else if (budget.scope === 'role' && budget.role !== null) {
+    where = { user: { role: budget.role } };
+  } else {
+    // 대상이 비어 있는 예산은 집계하지 않음 (필터를 빼면 전체 사용량이 잡힘)
+    return { tokens: 0, cost: 0 };
+  }
+
+  const result = await prisma.message.aggregate({
+    where: { ...where, role: 'assistant', createdAt: { gte: start } },
+    _sum: { tokens: true, cost: true },
+  });
+
+  return {
+    tokens: Number(result._sum?.tokens || 0),
+    cost: Number(result._sum?.cost || 0),
+  };
+}
+
+export async function getBudgetStates(budget: UsageBudgetWithUser): Promise<BudgetState[]> {
+  const { start, end } = getPeriodRange(budget.period as BudgetPeriod);
+  const usage = await getPeriodUsage(budget, start);
+  const base = {
+    budgetId: budget.id,
+    scope: budget.scope as BudgetScope,
+    target: budget.scope === 'user' ? budget.user?.email || String(budget.userId) : budget.role || '',
+    period: budget.period as BudgetPeriod,
+    softLimitPercent: budget.softLimitPercent,
+    resetsAt: end.toISOString(),
+  };
+
+  const states: BudgetState[] = [];
+  if (budget.tokenLimit) {
+    states.push({
+      ...base,
+      metric: 'tokens',
+      used: usage.tokens,
+      limit: budget.tokenLimit,
+      percent: Math.round((usage.tokens / budget.tokenLimit) * 100),
+    });
+  }
+  if (budget.costLimit && Number(budget.costLimit) > 0) {
+    const limit = Number(budget.costLimit);
+    states.push({
+      ...base,
+      metric: 'cost',
+      used: usage.cost,
+      limit,
+      percent: Math.round((usage.cost / limit) * 100),
+    });
+  }
+  return states;
+}
+
+function sendBudgetAlert(state: BudgetState): void {
+  const alertKey = `${state.budgetId}:${state.metric}:${state.resetsAt}`;
+  if (alertedBudgets.has(alertKey)) {
+    return;
+  }
+  alertedBudgets.add(alertKey);
+
+  const periodLabel = state.period === 'daily' ? '일간' : '월간';
+  const used = state.metric === 'cost' ? `$${state.used.toFixed(4)}` : `${state.used} 토큰`;
+  const limit = state.metric === 'cost' ? `$${state.limit}` : `${state.limit} 토큰`;
+
+  notificationManager
+    .sendSystemAlert(
+      'AI 사용 예산 초과',
+      `${state.scope === 'user' ? '사용자' : '역할'} ${state.target}의 ${periodLabel} 예산을 초과했습니다. (${used} / ${limit})`,
+      'warning'
+    )
+    .catch((error) => {
+      logger.error('Failed to send budget alert', {
+        budgetId: state.budgetId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        logType: 'error',
+      });
+    });
+}
+
+/**
+ * 요청 전 사용자 예산 확인. 사용자 예산과 사용자 역할(팀) 예산을 모두 평가.
+ * 예산 조회에 실패하면 요청을 막지 않음.
+ */
+export async function checkBudget(userId: number, role?: string): Promise<BudgetCheckResult> {
+  try {
+    const budgets = await prisma.usageBudget.findMany({
+      where: {
+        isActive: true,
+        OR: [{ scope: 'user', userId }, ...(role ? [{ scope: 'role', role }] : [])],
+      },
+      include: { user: { select: { email: true } } },
+    });
+
+    const states = (
+      await Promise.all(budgets.map((budget: UsageBudgetWithUser) => getBudgetStates(budget)))
+    ).flat();
+
+    const exceeded = states.find((state) => state.used >= state.limit) || null;
+    const warnings = states.filter(
+      (state) => state.used < state.limit && state.percent >= state.softLimitPercent
+    );
+
+    if (exceeded) {
+      sendBudgetAlert(exceeded);
+      logger.warning('Usage budget exceeded', {
+        userId,
+        budgetId: exceeded.budgetId,
+        metric: exceeded.metric,
+        used: exceeded.used,
+        limit: exceeded.limit,
+        logType: 'warning',
+      });
+    }
+
+    return { allowed: !exceeded, exceeded, warnings };
+  } catch (error) {
+    logger.error('Failed to check usage budget', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+    return { allowed: true, exceeded: null, warnings: [] };
+  }
+}
+
+export function getBudgetExceededMessage(state: BudgetState): string {
+  const periodLabel = state.period === 'daily' ? '일간' : '월간';
+  return `${periodLabel} AI 사용 예산을 초과했습니다. ${new Date(state.resetsAt).toLocaleString('ko-KR', { timeZone: 'Asia/Seoul' })} 이후 다시 시도하거나 관리자에게 문의하세요.`;
+}
@@ -0,0 +1,94 @@
+// 진행 중인 생성 요청(SSE 스트림, A2A 토론)의 취소 관리
+// 취소되면 AbortSignal로 프로바이더 HTTP 호출을 중단하고, 스트림 함수는 그때까지 받은 부분 응답으로 정상 종료.
+// 오류가 아니므로 Circuit Breaker/폴백/키 재시도에 집계되지 않고 부분 응답 사용량은 그대로 기록됨
+
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'Cancellation',
+});
+
+interface ActiveRequest {
+  userId: number;
+  controller: AbortController;
+}
+
+const activeRequests = new Map<string, ActiveRequest>();
+
+/**
+ * 요청 등록. 같은 ID의 요청이 진행 중이면 덮어쓰지 않고 null
+ */
+export function registerRequest(requestId: string, userId: number): AbortSignal | null {
+  if (activeRequests.has(requestId)) {
+    return null;
+  }
+  const controller = new AbortController();
+  activeRequests.set(requestId, { userId, controller });
+  return controller.signal;
+}
+
+// 등록한 요청 본인만 해제 (같은 ID로 나중에 등록된 요청은 유지)
+export function unregisterRequest(requestId: string, signal: AbortSignal): void {
+  if (activeRequests.get(requestId)?.controller.signal === signal) {
+    activeRequests.delete(requestId);
+  }
+}
+
+// 클라이언트 연결이 끊긴 요청 중단 (취소와 같이 부분 응답으로 종료)
+export function abortRequest(requestId: string, signal: AbortSignal): void {
+  const request = activeRequests.get(requestId);
+  if (request?.controller.signal === signal) {
+    request.controller.abort();
+    activeRequests.delete(requestId);
+  }
+}
+
+/**
+ * 요청 취소. 진행 중인 요청이 없거나 다른 사용자의 요청이면 false
+ */
+export function cancelRequest(requestId: string, userId: number | undefined): boolean {
+  const request = activeRequests.get(requestId);
+  if (!request || request.userId !== userId) {
+    return false;
+  }
+
+  request.controller.abort();
+  activeRequests.delete(requestId);
+  logger.info('Generation cancelled', {
+    requestId,
+    userId,
+    logType: 'info',
+  });
+  return true;
+}
+
+/**
+ * axios SSE 응답 스트림이 끝날 때까지 대기. 취소되면 스트림을 닫고 오류 없이 종료
+ */
+export function waitForStreamEnd(stream: NodeJS.ReadableStream, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      (stream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+      resolve();
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    stream.on('end', () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    });
+    stream.on('error', (error: Error) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        resolve();
+      } else {
+        reject(error);
+      }
+    });
+  });
+}
@@ -1,5 +1,6 @@
 import { createLogger } from '../../utils/logger.js';
 import { updateCircuitBreakerState } from '../../utils/metrics.js';
+import { getRedisClient } from '../../utils/cache.js';
 
 const logger = createLogger({
   screenName: 'AI',
@@ -18,58 +19,121 @@ export enum CircuitState {
   HALF_OPEN = 'half-open', // 테스트 상태
 }
 
+interface SharedCircuitState {
+  state: CircuitState;
+  failureCount: number;
+  successCount: number;
+  lastFailureTime: number;
+  forcedOpen: boolean;
+}
+
+const CIRCUIT_KEY_PREFIX = 'circuit';
+const SHARED_STATE_CACHE_MS = 1000; // 요청마다 Redis를 조회하지 않도록 공유 상태를 잠시 재사용
+const HALF_OPEN_SUCCESS_THRESHOLD = 2;
+
+// 상태 전이는 Lua 스크립트로 Redis에서 원자적으로 적용 (여러 인스턴스가 서로의 전이를 덮어쓰지 않도록)
+// 공통: KEYS[1] = 상태 해시, 결과로 전이 후 전체 해시 반환
+const HALF_OPEN_SCRIPT = `
+local state = redis.call('HGET', KEYS[1], 'state')
+local lastFailure = tonumber(redis.call('HGET', KEYS[1], 'lastFailureTime') or '0') or 0
+if state == 'open' and redis.call('HGET', KEYS[1], 'forcedOpen') ~= 'true'
+  and tonumber(ARGV[1]) - lastFailure >= tonumber(ARGV[2]) then
+  redis.call('HSET', KEYS[1], 'state', 'half-open', 'successCount', 0)
+end
+return redis.call('HGETALL', KEYS[1])
+`;
+
+const RECORD_SUCCESS_SCRIPT = `
+local state = redis.call('HGET', KEYS[1], 'state') or 'closed'
+if state == 'half-open' then
+  local successes = redis.call('HINCRBY', KEYS[1], 'successCount', 1)
+  if successes >= tonumber(ARGV[1]) then
+    redis.call('HSET', KEYS[1], 'state', 'closed', 'successCount', 0)
+  end
+end
+if state ~= 'open' then
+  redis.call('HSET', KEYS[1], 'failureCount', 0)
+end
+return redis.call('HGETALL', KEYS[1])
+`;
+
+const RECORD_FAILURE_SCRIPT = `
+local failures = redis.call('HINCRBY', KEYS[1], 'failureCount', 1)
+local state = redis.call('HGET', KEYS[1], 'state') or 'closed'
+redis.call('HSET', KEYS[1], 'lastFailureTime', ARGV[1])
+if state == 'half-open' or failures >= tonumber(ARGV[2]) then
+  redis.call('HSET', KEYS[1], 'state', 'open')
+end
+return redis.call('HGETALL', KEYS[1])
+`;
+
 export class CircuitBreaker {
   private state: CircuitState = CircuitState.CLOSED;
   private failureCount: number = 0;
   private lastFailureTime: number = 0;
   private successCount: number = 0;
+  private forcedOpen: boolean = false; // 관리자가 강제로 연 경우 자동 복구하지 않음
+  private refreshedAt: number = 0;
   private options: CircuitBreakerOptions;
+  private provider?: string;
 
-  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+  // provider를 지정하면 상태를 Redis에 공유하여 여러 백엔드 인스턴스가 같은 상태를 사용
+  constructor(options: Partial<CircuitBreakerOptions> = {}, provider?: string) {
     this.options = {
       failureThreshold: options.failureThreshold || 5,
       resetTimeout: options.resetTimeout || 60000, // 1분
       monitoringPeriod: options.monitoringPeriod || 60000, // 1분
     };
+    this.provider = provider;
   }
 
   async execute<T>(
     fn: () => Promise<T>,
     fallback?: () => Promise<T>
   ): Promise<T> {
+    await this.refresh();
+
     if (this.state === CircuitState.OPEN) {
       // 차단 상태에서 리셋 타임아웃 확인
-      if (Date.now() - this.lastFailureTime >= this.options.resetTimeout) {
+      if (!this.forcedOpen && Date.now() - this.lastFailureTime >= this.options.resetTimeout) {
         this.state = CircuitState.HALF_OPEN;
         this.successCount = 0;
-        updateCircuitBreakerState('unknown', 'half-open');
-        logger.info('Circuit breaker entering half-open state', {
-          logType: 'info',
-        });
-      } else {
-        // 여전히 차단 상태
-        logger.warning('Circuit breaker is open, using fallback', {
-          logType: 'warning',
-        });
-        if (fallback) {
-          return await fallback();
+        this.reportState();
+        await this.applySharedTransition(HALF_OPEN_SCRIPT, [Date.now(), this.options.resetTimeout]);
+        if (this.state === CircuitState.HALF_OPEN) {
+          logger.info('Circuit breaker entering half-open state', {
+            provider: this.provider,
+            logType: 'info',
+          });
         }
-        throw new Error('Circuit breaker is open');
       }
     }
 
+    // 다른 인스턴스가 이미 다시 열었거나 관리자가 강제로 연 경우 포함
+    if (this.state === CircuitState.OPEN) {
+      logger.warning('Circuit breaker is open, using fallback', {
+        provider: this.provider,
+        logType: 'warning',
+      });
+      if (fallback) {
+        return await fallback();
+      }
+      throw new Error('Circuit breaker is open');
+    }
+
     try {
       const result = await fn();
       
       // 성공 처리
-      this.onSuccess();
+      await this.onSuccess();
       return result;
     } catch (error) {
       // 실패 처리
-      this.onFailure();
+      await this.onFailure();
       
       if (fallback) {
         logger.warning('Execution failed, using fallback', {
+          provider: this.provider,
           error: error instanceof Error ? error.message : 'Unknown error',
           logType: 'warning',
         });
@@ -80,39 +144,60 @@ export class CircuitBreaker {
     }
   }
 
-  private onSuccess(): void {
+  private async onSuccess(): Promise<void> {
+    const previousState = this.state;
+    const hadFailures = this.failureCount > 0;
     this.failureCount = 0;
 
     if (this.state === CircuitState.HALF_OPEN) {
       this.successCount++;
       
       // 반열림 상태에서 성공이 연속으로 발생하면 닫힘 상태로 전환
-      if (this.successCount >= 2) {
+      if (this.successCount >= HALF_OPEN_SUCCESS_THRESHOLD) {
         this.state = CircuitState.CLOSED;
-        updateCircuitBreakerState('unknown', 'closed');
-        logger.info('Circuit breaker closed after successful recovery', {
-          logType: 'success',
-        });
+        this.successCount = 0;
       }
     }
+
+    if (previousState === CircuitState.HALF_OPEN || hadFailures) {
+      await this.applySharedTransition(RECORD_SUCCESS_SCRIPT, [HALF_OPEN_SUCCESS_THRESHOLD]);
+    }
+
+    if (this.state === CircuitState.CLOSED && previousState !== CircuitState.CLOSED) {
+      this.reportState();
+      logger.info('Circuit breaker closed after successful recovery', {
+        provider: this.provider,
+        logType: 'success',
+      });
+    }
   }
 
-  private onFailure(): void {
+  private async onFailure(): Promise<void> {
+    const previousState = this.state;
     this.failureCount++;
     this.lastFailureTime = Date.now();
 
-    if (this.state === CircuitState.HALF_OPEN) {
-      // 반열림 상태에서 실패하면 다시 열림 상태로
+    if (this.state === CircuitState.HALF_OPEN || this.failureCount >= this.options.failureThreshold) {
       this.state = CircuitState.OPEN;
-      updateCircuitBreakerState('unknown', 'open');
+    }
+
+    await this.applySharedTransition(RECORD_FAILURE_SCRIPT, [this.lastFailureTime, this.options.failureThreshold]);
+
+    if (this.state !== CircuitState.OPEN || previousState === CircuitState.OPEN) {
+      return;
+    }
+
+    this.reportState();
+    if (previousState === CircuitState.HALF_OPEN) {
+      // 반열림 상태에서 실패하면 다시 열림 상태로
       logger.warning('Circuit breaker reopened after failure in half-open state', {
+        provider: this.provider,
         logType: 'warning',
       });
-    } else if (this.failureCount >= this.options.failureThreshold) {
+    } else {
       // 실패 임계값 초과 시 열림 상태로
-      this.state = CircuitState.OPEN;
-      updateCircuitBreakerState('unknown', 'open');
       logger.error('Circuit breaker opened due to failure threshold', {
+        provider: this.provider,
         failureCount: this.failureCount,
         threshold: this.options.failureThreshold,
         logType: 'error',
@@ -120,28 +205,151 @@ export class CircuitBreaker {
     }
   }
 
+  // 리셋 타임아웃이 지난 열림 상태는 반열림으로 간주
   getState(): CircuitState {
+    if (
+      this.state === CircuitState.OPEN &&
+      !this.forcedOpen &&
+      Date.now() - this.lastFailureTime >= this.options.resetTimeout
+    ) {
+      return CircuitState.HALF_OPEN;
+    }
     return this.state;
   }
 
   getStats() {
     return {
-      state: this.state,
+      state: this.getState(),
       failureCount: this.failureCount,
       successCount: this.successCount,
       lastFailureTime: this.lastFailureTime,
+      forcedOpen: this.forcedOpen,
     };
   }
 
-  reset(): void {
+  async forceOpen(): Promise<void> {
+    this.state = CircuitState.OPEN;
+    this.forcedOpen = true;
+    this.lastFailureTime = Date.now();
+    this.reportState();
+    await this.persist();
+    logger.warning('Circuit breaker manually opened', {
+      provider: this.provider,
+      logType: 'warning',
+    });
+  }
+
+  async reset(): Promise<void> {
     this.state = CircuitState.CLOSED;
     this.failureCount = 0;
     this.successCount = 0;
     this.lastFailureTime = 0;
+    this.forcedOpen = false;
+    this.reportState();
+    await this.persist();
     logger.info('Circuit breaker manually reset', {
+      provider: this.provider,
       logType: 'info',
     });
   }
+
+  // Redis에 저장된 공유 상태로 로컬 상태 갱신 (Redis 장애 시 로컬 상태 유지)
+  // maxAgeMs 이내에 이미 갱신했으면 다시 조회하지 않음 (관리 화면은 0으로 항상 조회)
+  async refresh(maxAgeMs: number = SHARED_STATE_CACHE_MS): Promise<void> {
+    if (!this.provider || Date.now() - this.refreshedAt < maxAgeMs) {
+      return;
+    }
+
+    try {
+      this.applyShared(await getRedisClient().hgetall(this.getStoreKey()));
+    } catch (error) {
+      logger.debug('Failed to load shared circuit state', {
+        provider: this.provider,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        logType: 'warning',
+      });
+    }
+  }
+
+  // 로컬에서 계산한 전이를 Redis에 원자적으로 적용하고, 다른 인스턴스 결과가 반영된 공유 상태로 맞춤
+  private async applySharedTransition(script: string, args: Array<string | number>): Promise<void> {
+    if (!this.provider) {
+      return;
+    }
+
+    try {
+      const result = (await getRedisClient().eval(script, 1, this.getStoreKey(), ...args)) as string[];
+      const shared: Record<string, string> = {};
+      for (let i = 0; i < result.length; i += 2) {
+        shared[result[i]] = result[i + 1];
+      }
+      this.applyShared(shared);
+    } catch (error) {
+      logger.debug('Failed to apply shared circuit transition', {
+        provider: this.provider,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        logType: 'warning',
+      });
+    }
+  }
+
+  private applyShared(shared: Record<string, string>): void {
+    this.refreshedAt = Date.now();
+    if (!shared.state) {
+      return;
+    }
+
+    const previousState = this.state;
+    const parsed: SharedCircuitState = {
+      state: shared.state as CircuitState,
+      failureCount: parseInt(shared.failureCount, 10) || 0,
+      successCount: parseInt(shared.successCount, 10) || 0,
+      lastFailureTime: parseInt(shared.lastFailureTime, 10) || 0,
+      forcedOpen: shared.forcedOpen === 'true',
+    };
+
+    this.state = parsed.state;
+    this.failureCount = parsed.failureCount;
+    this.successCount = parsed.successCount;
+    this.lastFailureTime = parsed.lastFailureTime;
+    this.forcedOpen = parsed.forcedOpen;
+
+    if (previousState !== this.state) {
+      this.reportState();
+    }
+  }
+
+  // 관리자 조작(강제 열기·리셋)은 전체 상태를 덮어씀
+  private async persist(): Promise<void> {
+    if (!this.provider) {
+      return;
+    }
+
+    try {
+      await getRedisClient().hset(this.getStoreKey(), {
+        state: this.state,
+        failureCount: String(this.failureCount),
+        successCount: String(this.successCount),
+        lastFailureTime: String(this.lastFailureTime),
+        forcedOpen: String(this.forcedOpen),
+      });
+      this.refreshedAt = Date.now();
+    } catch (error) {
+      logger.debug('Failed to persist circuit state', {
+        provider: this.provider,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        logType: 'warning',
+      });
+    }
+  }
+
+  private getStoreKey(): string {
+    return `${CIRCUIT_KEY_PREFIX}:${this.provider}`;
+  }
+
+  private reportState(): void {
+    updateCircuitBreakerState(this.provider || 'unknown', this.state);
+  }
 }
 
 // 프로바이더별 Circuit Breaker 인스턴스
@@ -155,8 +363,9 @@ export function getCircuitBreaker(provider: string): CircuitBreaker {
         failureThreshold: 5,
         resetTimeout: 60000, // 1분
         monitoringPeriod: 60000,
-      })
+      }, provider)
     );
+    updateCircuitBreakerState(provider, CircuitState.CLOSED);
   }
   return circuitBreakers.get(provider)!;
 }
@@ -1,70 +1,45 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { createLogger } from '../../utils/logger.js';
-import { decrypt } from '../../utils/encryption.js';
-import { getPrismaClient } from '../../utils/database.js';
+import { createClientCache, withPooledApiKey } from './keyPool.js';
+import { estimateTokens, estimateMessagesTokens, TokenUsage } from './tokenCounter.js';
+import { ToolSchema, ToolChatMessage, ToolChatOptions, ToolChatResult } from './toolCalling.js';
 
-const prisma = getPrismaClient();
 const logger = createLogger({
   screenName: 'AI',
   callerFunction: 'ClaudeClient',
 });
 
-let cachedClient: Anthropic | null = null;
-let cachedKeyId: number | null = null;
-
-export async function getClaudeClient(): Promise<Anthropic | null> {
-  try {
-    const apiKey = await prisma.apiKey.findFirst({
-      where: {
-        provider: 'claude',
-        isActive: true,
-      },
-      orderBy: {
-        weight: 'desc',
-      },
-    });
-
-    if (!apiKey) {
-      logger.warning('Claude API key not found', {
-        logType: 'warning',
-      });
-      return null;
-    }
-
-    if (cachedClient && cachedKeyId === apiKey.id) {
-      return cachedClient;
-    }
-
-    const decryptedApiKey = decrypt(apiKey.apiKey);
-
-    cachedClient = new Anthropic({
-      apiKey: decryptedApiKey,
-    });
-    cachedKeyId = apiKey.id;
+export const getClaudeClient = createClientCache((lease) => {
+  logger.info('Claude client initialized', { keyId: lease.keyId, logType: 'info' });
+  return new Anthropic({
+    apiKey: lease.apiKey,
+  });
+});
 
-    logger.info('Claude client initialized', { logType: 'info' });
+export interface ClaudeChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  onUsage?: (usage: TokenUsage) => void;
+  signal?: AbortSignal;
+}
 
-    return cachedClient;
-  } catch (error) {
-    logger.error('Failed to initialize Claude client', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      logType: 'error',
-    });
-    return null;
-  }
+// Sonnet 4.5는 temperature와 top_p를 함께 받지 않으므로 top_p를 지정하면 temperature 생략
+function toSamplingParams(options?: ClaudeChatOptions) {
+  return {
+    max_tokens: options?.maxTokens || 4096,
+    ...(options?.topP !== undefined ? { top_p: options.topP } : { temperature: options?.temperature ?? 0.7 }),
+    ...(options?.stop?.length ? { stop_sequences: options.stop } : {}),
+  };
 }
 
 export async function chatWithClaude(
   messages: Array<{ role: string; content: string }>,
-  options?: { model?: string; temperature?: number }
+  options?: ClaudeChatOptions
 ): Promise<string | null> {
   try {
-    const claude = await getClaudeClient();
-    if (!claude) {
-      logger.warning('Claude client not available', { logType: 'warning' });
-      return null;
-    }
-
     const systemMessage = messages.find((m) => m.role === 'system')?.content || '';
     const conversationMessages = messages
       .filter((m) => m.role !== 'system')
@@ -79,15 +54,28 @@ export async function chatWithClaude(
       logType: 'info',
     });
 
-    const response = await claude.messages.create({
-      model: options?.model || 'claude-sonnet-4-5-20250929',
-      max_tokens: 4096,
-      temperature: options?.temperature || 0.7,
-      system: systemMessage || undefined,
-      messages: conversationMessages,
+    const result = await withPooledApiKey('claude', async (lease) => {
+      const response = await getClaudeClient(lease).messages.create({
+        model: options?.model || 'claude-sonnet-4-5-20250929',
+        ...toSamplingParams(options),
+        system: systemMessage || undefined,
+        messages: conversationMessages,
+      });
+
+      lease.reportTokens(response.usage.input_tokens + response.usage.output_tokens);
+      options?.onUsage?.({
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+      });
+      return { text: response.content[0]?.type === 'text' ? response.content[0].text : null };
     });
 
-    const text = response.content[0]?.type === 'text' ? response.content[0].text : null;
+    if (!result) {
+      logger.warning('Claude client not available', { logType: 'warning' });
+      return null;
+    }
+
+    const text = result.text;
     
     logger.info('Claude chat response received', {
       hasContent: !!text,
@@ -114,15 +102,11 @@ export interface StreamCallbacks {
 export async function chatWithClaudeStream(
   messages: Array<{ role: string; content: string }>,
   callbacks: StreamCallbacks,
-  options?: { model?: string; temperature?: number }
+  options?: ClaudeChatOptions
 ): Promise<void> {
-  try {
-    const claude = await getClaudeClient();
-    if (!claude) {
-      callbacks.onError(new Error('Claude client not available'));
-      return;
-    }
+  let fullResponse = '';
 
+  try {
     const systemMessage = messages.find((m) => m.role === 'system')?.content || '';
     const conversationMessages = messages
       .filter((m) => m.role !== 'system')
@@ -137,22 +121,42 @@ export async function chatWithClaudeStream(
       logType: 'info',
     });
 
-    let fullResponse = '';
+    const result = await withPooledApiKey(
+      'claude',
+      async (lease) => {
+        const stream = await getClaudeClient(lease).messages.stream({
+          model: options?.model || 'claude-sonnet-4-5-20250929',
+          ...toSamplingParams(options),
+          system: systemMessage || undefined,
+          messages: conversationMessages,
+        }, { signal: options?.signal });
 
-    const stream = await claude.messages.stream({
-      model: options?.model || 'claude-sonnet-4-5-20250929',
-      max_tokens: 4096,
-      temperature: options?.temperature || 0.7,
-      system: systemMessage || undefined,
-      messages: conversationMessages,
-    });
+        for await (const event of stream) {
+          if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            const text = event.delta.text;
+            fullResponse += text;
+            callbacks.onChunk(text);
+          }
+        }
 
-    for await (const event of stream) {
-      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-        const text = event.delta.text;
-        fullResponse += text;
-        callbacks.onChunk(text);
-      }
+        const finalMessage = await stream.finalMessage().catch(() => null);
+        if (finalMessage) {
+          lease.reportTokens(finalMessage.usage.input_tokens + finalMessage.usage.output_tokens);
+          options?.onUsage?.({
+            promptTokens: finalMessage.usage.input_tokens,
+            completionTokens: finalMessage.usage.output_tokens,
+          });
+        } else {
+          lease.reportTokens(estimateMessagesTokens(messages, 3.5) + estimateTokens(fullResponse, 3.5));
+        }
+        return true;
+      },
+      { canRetry: () => fullResponse.length === 0 }
+    );
+
+    if (!result) {
+      callbacks.onError(new Error('Claude client not available'));
+      return;
     }
 
     logger.info('Claude stream completed', {
@@ -162,6 +166,11 @@ export async function chatWithClaudeStream(
 
     callbacks.onComplete(fullResponse);
   } catch (error) {
+    if (options?.signal?.aborted) {
+      logger.info('Claude stream cancelled', { responseLength: fullResponse.length, logType: 'info' });
+      callbacks.onComplete(fullResponse);
+      return;
+    }
     logger.error('Claude stream error', {
       error: error instanceof Error ? error.message : 'Unknown error',
       logType: 'error',
@@ -170,3 +179,89 @@ export async function chatWithClaudeStream(
   }
 }
 
+
+// 공통 도구 호출 메시지 → Claude Messages 형식 (도구 결과는 user 메시지의 tool_result 블록, 연속 결과는 한 메시지로 합침)
+function toClaudeToolMessages(messages: ToolChatMessage[]): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      continue;
+    }
+    if (msg.role === 'tool') {
+      const block: Anthropic.ToolResultBlockParam = {
+        type: 'tool_result',
+        tool_use_id: msg.toolCallId,
+        content: msg.content,
+      };
+      const last = result[result.length - 1];
+      if (last?.role === 'user' && Array.isArray(last.content)) {
+        last.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      const content: Anthropic.ContentBlockParam[] = msg.content ? [{ type: 'text', text: msg.content }] : [];
+      for (const call of msg.toolCalls) {
+        content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+      }
+      result.push({ role: 'assistant', content });
+      continue;
+    }
+    result.push({ role: msg.role === 'assistant' ? 'assistant' : 'user', content: msg.content });
+  }
+
+  return result;
+}
+
+/**
+ * 도구 목록을 함께 보내는 단일 턴 호출. 도구 실행과 반복은 toolLoop에서 처리
+ */
+export async function chatWithClaudeTools(
+  messages: ToolChatMessage[],
+  tools: ToolSchema[],
+  options?: ToolChatOptions
+): Promise<ToolChatResult> {
+  const systemMessage = messages.find((m) => m.role === 'system')?.content || '';
+
+  const result = await withPooledApiKey('claude', async (lease) => {
+    const response = await getClaudeClient(lease).messages.create(
+      {
+        model: options?.model || 'claude-sonnet-4-5-20250929',
+        ...toSamplingParams(options),
+        system: systemMessage || undefined,
+        messages: toClaudeToolMessages(messages),
+        tools: tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+        })),
+      },
+      { signal: options?.signal }
+    );
+
+    lease.reportTokens(response.usage.input_tokens + response.usage.output_tokens);
+    options?.onUsage?.({
+      promptTokens: response.usage.input_tokens,
+      completionTokens: response.usage.output_tokens,
+    });
+
+    return {
+      content: response.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join(''),
+      toolCalls: response.content.flatMap((block) =>
+        block.type === 'tool_use'
+          ? [{ id: block.id, name: block.name, arguments: (block.input as Record<string, unknown>) || {} }]
+          : []
+      ),
+    };
+  });
+
+  if (!result) {
+    throw new Error('Claude API key not available');
+  }
+  return result;
+}
@@ -0,0 +1,134 @@
+// 토큰 기준 대화 이력 배분
+// 모델 컨텍스트에서 응답·현재 메시지(첨부 포함)·시스템 프롬프트 몫을 뺀 예산 안에서 최근 대화를 유지하고,
+// 예산을 넘는 이전 대화는 요약 또는 현재 질문과 관련된 턴 검색으로 보완
+
+import { embedText, cosineSimilarity } from './embedding.js';
+
+export type ContextStrategy = 'truncate' | 'summary' | 'retrieval';
+
+export interface ContextMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export type MessageTokenCounter = (message: ContextMessage) => number;
+
+export interface HistoryBudgetParams {
+  contextWindow: number;
+  reservedOutputTokens: number;
+  currentTokens: number; // 현재 사용자 메시지 (첨부 포함)
+  overheadTokens?: number; // 시스템 프롬프트·도구 정의 등
+  maxHistoryTokens?: number; // 0 또는 미지정: 제한 없음
+}
+
+export function getHistoryBudget(params: HistoryBudgetParams): number {
+  const available =
+    params.contextWindow - params.reservedOutputTokens - params.currentTokens - (params.overheadTokens || 0);
+  const budget = params.maxHistoryTokens ? Math.min(available, params.maxHistoryTokens) : available;
+  return Math.max(0, budget);
+}
+
+/**
+ * 최신 메시지부터 예산 안에 들어가는 만큼 유지 (중간을 건너뛰지 않음).
+ * 유지 구간이 assistant 메시지로 시작하면 older로 넘김 (user로 시작해야 하는 프로바이더 대응)
+ */
+export function splitByBudget<T extends ContextMessage>(
+  messages: T[],
+  budget: number,
+  countTokens: MessageTokenCounter
+): { recent: T[]; older: T[]; recentTokens: number } {
+  let start = messages.length;
+  let used = 0;
+  while (start > 0) {
+    const cost = countTokens(messages[start - 1]);
+    if (used + cost > budget) {
+      break;
+    }
+    used += cost;
+    start--;
+  }
+
+  while (start < messages.length && messages[start].role !== 'user') {
+    used -= countTokens(messages[start]);
+    start++;
+  }
+
+  return { recent: messages.slice(start), older: messages.slice(0, start), recentTokens: used };
+}
+
+/**
+ * 오래된 메시지부터 예산 크기 묶음으로 나눔 (예산보다 큰 메시지는 단독 묶음)
+ */
+export function chunkByBudget<T extends ContextMessage>(
+  messages: T[],
+  budget: number,
+  countTokens: MessageTokenCounter
+): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+  for (const message of messages) {
+    const cost = countTokens(message);
+    if (current.length > 0 && used + cost > budget) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(message);
+    used += cost;
+  }
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+// user 메시지와 이어지는 assistant 응답을 한 턴으로 묶음
+export function groupTurns(messages: ContextMessage[]): ContextMessage[][] {
+  const turns: ContextMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * 현재 질문과 유사도가 기준 이상인 이전 턴을 예산 안에서 선택 (대화 순서 유지)
+ */
+export function selectRelevantTurns(
+  messages: ContextMessage[],
+  query: string,
+  budget: number,
+  countTokens: MessageTokenCounter,
+  minSimilarity: number
+): ContextMessage[] {
+  const queryVector = embedText(query);
+  const scored = groupTurns(messages)
+    .map((turn, index) => ({
+      turn,
+      index,
+      similarity: cosineSimilarity(queryVector, embedText(turn.map((m) => m.content).join('\n'))),
+      tokens: turn.reduce((sum, m) => sum + countTokens(m), 0),
+    }))
+    .filter((candidate) => candidate.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const selected: typeof scored = [];
+  let used = 0;
+  for (const candidate of scored) {
+    if (used + candidate.tokens <= budget) {
+      selected.push(candidate);
+      used += candidate.tokens;
+    }
+  }
+
+  return selected.sort((a, b) => a.index - b.index).flatMap((candidate) => candidate.turn);
+}
+
+export function formatTranscript(messages: ContextMessage[]): string {
+  return messages.map((m) => `${m.role === 'assistant' ? '어시스턴트' : '사용자'}: ${m.content}`).join('\n\n');
+}
@@ -0,0 +1,66 @@
+// 외부 API 없이 계산하는 로컬 임베딩 (feature hashing)
+// 공백을 제거한 문자 2-gram + 3-gram 사용 (단어 단위는 조사·띄어쓰기 차이에 약함)
+// 의미 검색용이 아니라 거의 같은 프롬프트(어순·조사·공백 차이)를 찾기 위한 용도
+
+export const EMBEDDING_DIMENSIONS = 512;
+
+function hashFeature(feature: string): number {
+  // FNV-1a 32bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function embedText(text: string): Float32Array {
+  const vector = new Float32Array(EMBEDDING_DIMENSIONS);
+  const normalized = normalizeText(text);
+  if (!normalized) {
+    return vector;
+  }
+
+  const addFeature = (feature: string) => {
+    const hash = hashFeature(feature);
+    // 상위 비트로 부호를 정해 충돌로 인한 편향 완화
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % EMBEDDING_DIMENSIONS] += sign;
+  };
+
+  const compact = normalized.replace(/ /g, '');
+  if (compact.length < 2) {
+    addFeature(`c1:${compact}`);
+  }
+  for (const size of [2, 3]) {
+    for (let i = 0; i + size <= compact.length; i++) {
+      addFeature(`c${size}:${compact.slice(i, i + size)}`);
+    }
+  }
+
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+
+  return vector;
+}
+
+// 두 벡터 모두 정규화되어 있으므로 내적이 코사인 유사도
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
@@ -1,67 +1,42 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { createLogger } from '../../utils/logger.js';
-import { decrypt } from '../../utils/encryption.js';
-import { getPrismaClient } from '../../utils/database.js';
+import { createClientCache, withPooledApiKey } from './keyPool.js';
+import { estimateTokens, estimateMessagesTokens } from './tokenCounter.js';
 
-const prisma = getPrismaClient();
 const logger = createLogger({
   screenName: 'AI',
   callerFunction: 'GeminiClient',
 });
 
-let cachedClient: GoogleGenerativeAI | null = null;
-let cachedKeyId: number | null = null;
-
-export async function getGeminiClient(): Promise<GoogleGenerativeAI | null> {
-  try {
-    const apiKey = await prisma.apiKey.findFirst({
-      where: {
-        provider: 'gemini',
-        isActive: true,
-      },
-      orderBy: {
-        weight: 'desc',
-      },
-    });
-
-    if (!apiKey) {
-      logger.warning('Gemini API key not found', {
-        logType: 'warning',
-      });
-      return null;
-    }
-
-    if (cachedClient && cachedKeyId === apiKey.id) {
-      return cachedClient;
-    }
-
-    const decryptedApiKey = decrypt(apiKey.apiKey);
-    cachedClient = new GoogleGenerativeAI(decryptedApiKey);
-    cachedKeyId = apiKey.id;
+export const getGeminiClient = createClientCache((lease) => {
+  logger.info('Gemini client initialized', { keyId: lease.keyId, logType: 'info' });
+  return new GoogleGenerativeAI(lease.apiKey);
+});
 
-    logger.info('Gemini client initialized', { logType: 'info' });
+export interface GeminiChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  jsonMode?: boolean;
+  signal?: AbortSignal;
+}
 
-    return cachedClient;
-  } catch (error) {
-    logger.error('Failed to initialize Gemini client', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      logType: 'error',
-    });
-    return null;
-  }
+function toGenerationConfig(options?: GeminiChatOptions) {
+  return {
+    temperature: options?.temperature ?? 0.7,
+    maxOutputTokens: options?.maxTokens,
+    topP: options?.topP,
+    stopSequences: options?.stop?.length ? options.stop : undefined,
+  };
 }
 
 export async function chatWithGemini(
   messages: Array<{ role: string; content: string }>,
-  options?: { model?: string; temperature?: number }
+  options?: GeminiChatOptions
 ): Promise<string | null> {
   try {
-    const gemini = await getGeminiClient();
-    if (!gemini) {
-      logger.warning('Gemini client not available', { logType: 'warning' });
-      return null;
-    }
-
     const modelName = options?.model || 'gemini-2.5-flash';
     logger.info('Gemini chat starting', {
       model: modelName,
@@ -69,10 +44,6 @@ export async function chatWithGemini(
       logType: 'info',
     });
 
-    const model = gemini.getGenerativeModel({
-      model: modelName,
-    });
-
     const prompt = messages
       .map((m) => {
         const role = m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : 'System';
@@ -80,15 +51,30 @@ export async function chatWithGemini(
       })
       .join('\n\n') + '\n\nAssistant:';
 
-    const result = await model.generateContent({
-      contents: [{ role: 'user' as const, parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: options?.temperature || 0.7,
-      },
+    const result = await withPooledApiKey('gemini', async (lease) => {
+      const model = getGeminiClient(lease).getGenerativeModel({
+        model: modelName,
+      });
+
+      const generated = await model.generateContent({
+        contents: [{ role: 'user' as const, parts: [{ text: prompt }] }],
+        generationConfig: {
+          ...toGenerationConfig(options),
+          ...(options?.jsonMode ? { responseMimeType: 'application/json' } : {}),
+        },
+      });
+
+      const text = generated.response.text() || null;
+      lease.reportTokens(estimateMessagesTokens(messages) + estimateTokens(text || ''));
+      return { text };
     });
 
-    const response = result.response;
-    const text = response.text() || null;
+    if (!result) {
+      logger.warning('Gemini client not available', { logType: 'warning' });
+      return null;
+    }
+
+    const text = result.text;
     
     logger.info('Gemini chat response received', {
       hasContent: !!text,
@@ -116,15 +102,11 @@ export interface StreamCallbacks {
 export async function chatWithGeminiStream(
   messages: Array<{ role: string; content: string }>,
   callbacks: StreamCallbacks,
-  options?: { model?: string; temperature?: number }
+  options?: GeminiChatOptions
 ): Promise<void> {
-  try {
-    const gemini = await getGeminiClient();
-    if (!gemini) {
-      callbacks.onError(new Error('Gemini client not available'));
-      return;
-    }
+  let fullResponse = '';
 
+  try {
     const modelName = options?.model || 'gemini-2.5-flash';
     logger.info('Gemini stream starting', {
       model: modelName,
@@ -132,10 +114,6 @@ export async function chatWithGeminiStream(
       logType: 'info',
     });
 
-    const model = gemini.getGenerativeModel({
-      model: modelName,
-    });
-
     const prompt = messages
       .map((m) => {
         const role = m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : 'System';
@@ -143,21 +121,39 @@ export async function chatWithGeminiStream(
       })
       .join('\n\n') + '\n\nAssistant:';
 
-    let fullResponse = '';
-
-    const result = await model.generateContentStream({
-      contents: [{ role: 'user' as const, parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: options?.temperature || 0.7,
+    const result = await withPooledApiKey(
+      'gemini',
+      async (lease) => {
+        const model = getGeminiClient(lease).getGenerativeModel({
+          model: modelName,
+        });
+
+        const generated = await model.generateContentStream({
+          contents: [{ role: 'user' as const, parts: [{ text: prompt }] }],
+          generationConfig: toGenerationConfig(options),
+        });
+
+        for await (const chunk of generated.stream) {
+          // SDK가 AbortSignal을 지원하지 않아 취소 시 스트림 소비만 중단
+          if (options?.signal?.aborted) {
+            break;
+          }
+          const text = chunk.text();
+          if (text) {
+            fullResponse += text;
+            callbacks.onChunk(text);
+          }
+        }
+
+        lease.reportTokens(estimateMessagesTokens(messages) + estimateTokens(fullResponse));
+        return true;
       },
-    });
+      { canRetry: () => fullResponse.length === 0 }
+    );
 
-    for await (const chunk of result.stream) {
-      const text = chunk.text();
-      if (text) {
-        fullResponse += text;
-        callbacks.onChunk(text);
-      }
+    if (!result) {
+      callbacks.onError(new Error('Gemini client not available'));
+      return;
     }
 
     logger.info('Gemini stream completed', {
@@ -167,6 +163,11 @@ export async function chatWithGeminiStream(
 
     callbacks.onComplete(fullResponse);
   } catch (error: any) {
+    if (options?.signal?.aborted) {
+      logger.info('Gemini stream cancelled', { responseLength: fullResponse.length, logType: 'info' });
+      callbacks.onComplete(fullResponse);
+      return;
+    }
     logger.error('Gemini stream error', {
       error: error instanceof Error ? error.message : 'Unknown error',
       errorDetails: error?.message,
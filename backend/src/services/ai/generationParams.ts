@@ -0,0 +1,87 @@
+// 요청별 생성 파라미터 (model, temperature, top_p, max tokens, stop, seed)
+// 프로바이더를 직접 지정한 요청은 capabilities.generation 한도로 검증해 거부하고,
+// 자동 선택/페일오버로 정해진 프로바이더에는 지원하지 않는 값을 빼고 범위로 맞춰 전달
+
+export interface GenerationParams {
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  seed?: number;
+}
+
+export interface GenerationLimits {
+  maxTemperature: number;
+  maxOutputTokens: number;
+  topP: boolean;
+  maxStopSequences: number; // 0이면 stop 미지원
+  seed: boolean;
+  exclusiveSampling?: boolean; // temperature와 top_p 동시 지정 불가 (Claude 4.5 계열)
+}
+
+const GENERATION_KEYS: Array<keyof GenerationParams> = ['model', 'temperature', 'topP', 'maxTokens', 'stop', 'seed'];
+
+export function hasGenerationParams(params?: GenerationParams | null): boolean {
+  return !!params && GENERATION_KEYS.some((key) => params[key] !== undefined);
+}
+
+/**
+ * 프로바이더 한도에 맞지 않는 값 목록 (비어 있으면 통과)
+ */
+export function validateGenerationParams(params: GenerationParams, limits: GenerationLimits): string[] {
+  const issues: string[] = [];
+
+  if (params.temperature !== undefined && params.temperature > limits.maxTemperature) {
+    issues.push(`temperature는 ${limits.maxTemperature} 이하여야 합니다`);
+  }
+  if (params.maxTokens !== undefined && params.maxTokens > limits.maxOutputTokens) {
+    issues.push(`maxTokens는 ${limits.maxOutputTokens} 이하여야 합니다`);
+  }
+  if (params.topP !== undefined && !limits.topP) {
+    issues.push('topP를 지원하지 않습니다');
+  }
+  if (params.topP !== undefined && params.temperature !== undefined && limits.exclusiveSampling) {
+    issues.push('temperature와 topP는 함께 지정할 수 없습니다');
+  }
+  if (params.stop?.length) {
+    if (limits.maxStopSequences === 0) {
+      issues.push('stop 시퀀스를 지원하지 않습니다');
+    } else if (params.stop.length > limits.maxStopSequences) {
+      issues.push(`stop 시퀀스는 최대 ${limits.maxStopSequences}개입니다`);
+    }
+  }
+  if (params.seed !== undefined && !limits.seed) {
+    issues.push('seed를 지원하지 않습니다');
+  }
+
+  return issues;
+}
+
+/**
+ * 지원하지 않는 파라미터는 제외하고 범위를 넘는 값은 한도로 제한 (model은 호출 측에서 결정)
+ */
+export function fitGenerationParams(
+  params: GenerationParams,
+  limits: GenerationLimits
+): Omit<GenerationParams, 'model'> {
+  const fitted: Omit<GenerationParams, 'model'> = {};
+
+  if (params.temperature !== undefined) {
+    fitted.temperature = Math.min(params.temperature, limits.maxTemperature);
+  }
+  if (params.topP !== undefined && limits.topP && !(limits.exclusiveSampling && fitted.temperature !== undefined)) {
+    fitted.topP = params.topP;
+  }
+  if (params.maxTokens !== undefined) {
+    fitted.maxTokens = Math.min(params.maxTokens, limits.maxOutputTokens);
+  }
+  if (params.stop?.length && limits.maxStopSequences > 0) {
+    fitted.stop = params.stop.slice(0, limits.maxStopSequences);
+  }
+  if (params.seed !== undefined && limits.seed) {
+    fitted.seed = params.seed;
+  }
+
+  return fitted;
+}
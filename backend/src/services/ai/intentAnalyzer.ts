@@ -1,14 +1,27 @@
+import crypto from 'crypto';
+import { z } from 'zod';
 import { createLogger } from '../../utils/logger.js';
+import { getCache, setCache, CACHE_PREFIXES } from '../../utils/cache.js';
+import { getSetting, getSettingBoolean } from '../../routes/admin/settings.js';
+import { getProviderAdapter, hasProviderAdapter } from './providerRegistry.js';
 
 const logger = createLogger({
   screenName: 'AI',
   callerFunction: 'IntentAnalyzer',
 });
 
+export const INTENT_TYPES = ['table', 'research', 'code', 'document', 'summary', 'statistics', 'general'] as const;
+export const INTENT_TOOLS = ['searchWeb', 'generateTable', 'executePythonCode', 'parseDocument'] as const;
+
+export type IntentType = (typeof INTENT_TYPES)[number];
+
 export interface Intent {
-  type: 'table' | 'research' | 'code' | 'document' | 'summary' | 'statistics' | 'general';
+  type: IntentType;
   confidence: number;
-  preferredProvider?: 'openai' | 'claude' | 'gemini' | 'perplexity' | 'luxia';
+  preferredProvider?: string;
+  entities?: string[];
+  suggestedTools?: string[];
+  source?: 'classifier' | 'keyword';
 }
 
 const INTENT_KEYWORDS = {
@@ -20,7 +33,62 @@ const INTENT_KEYWORDS = {
   statistics: ['통계', 'statistics', '분석', '데이터', '시각화'],
 };
 
-export function analyzeIntent(prompt: string): Intent {
+// 의도별 추천 프로바이더 기본값 (SystemSettings AI_INTENT_PROVIDER_MAP으로 변경 가능)
+export const DEFAULT_INTENT_PROVIDER_MAP: Record<IntentType, string> = {
+  table: 'claude',
+  research: 'perplexity',
+  code: 'openai',
+  document: 'claude',
+  summary: 'gemini',
+  statistics: 'openai',
+  general: 'openai',
+};
+
+const INTENT_CACHE_TTL = 24 * 60 * 60; // 24시간
+
+const classifierResultSchema = z.object({
+  type: z.enum(INTENT_TYPES),
+  confidence: z.number().min(0).max(1),
+  entities: z.array(z.string()).default([]),
+  suggestedTools: z.array(z.enum(INTENT_TOOLS)).default([]),
+});
+
+const CLASSIFIER_PROMPT = `사용자 요청의 의도를 분류하세요. 다음 JSON 형식으로만 응답하세요:
+{"type": "${INTENT_TYPES.join('" | "')}", "confidence": 0~1, "entities": ["핵심 개체"], "suggestedTools": ["${INTENT_TOOLS.join('" | "')}"]}
+
+- table: 표/비교표 생성
+- research: 최신 정보 조사, 웹 검색 필요
+- code: 코드 작성/실행
+- document: 업로드 문서 관련 질문
+- summary: 요약/정리
+- statistics: 데이터 분석/통계/시각화
+- general: 그 외 일반 대화`;
+
+export async function getIntentProviderMap(): Promise<Record<IntentType, string>> {
+  const raw = await getSetting('AI_INTENT_PROVIDER_MAP');
+  if (!raw) {
+    return DEFAULT_INTENT_PROVIDER_MAP;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const providerMap = { ...DEFAULT_INTENT_PROVIDER_MAP };
+    for (const type of INTENT_TYPES) {
+      const provider = parsed[type];
+      if (typeof provider === 'string' && hasProviderAdapter(provider)) {
+        providerMap[type] = provider;
+      }
+    }
+    return providerMap;
+  } catch {
+    logger.warning('Invalid AI_INTENT_PROVIDER_MAP setting, using defaults', {
+      logType: 'warning',
+    });
+    return DEFAULT_INTENT_PROVIDER_MAP;
+  }
+}
+
+function scoreKeywords(prompt: string): { type: IntentType; score: number } {
   const lowerPrompt = prompt.toLowerCase();
   const scores: Record<string, number> = {};
 
@@ -41,18 +109,13 @@ export function analyzeIntent(prompt: string): Intent {
   const maxScore = Math.max(...Object.values(scores), 0);
   const intentType = Object.keys(scores).find(
     (key) => scores[key] === maxScore
-  ) as Intent['type'] || 'general';
-
-  // 의도별 추천 프로바이더
-  const providerMap: Record<string, Intent['preferredProvider']> = {
-    table: 'claude',
-    research: 'perplexity',
-    code: 'openai',
-    document: 'claude',
-    summary: 'gemini',
-    statistics: 'openai',
-    general: 'openai',
-  };
+  ) as IntentType || 'general';
+
+  return { type: intentType, score: maxScore };
+}
+
+export function analyzeIntent(prompt: string): Intent {
+  const { type: intentType, score: maxScore } = scoreKeywords(prompt);
 
   logger.debug('Intent analyzed', {
     prompt: prompt.substring(0, 100),
@@ -64,7 +127,105 @@ export function analyzeIntent(prompt: string): Intent {
   return {
     type: intentType,
     confidence: maxScore / 5, // 정규화 (0-1)
-    preferredProvider: providerMap[intentType],
+    preferredProvider: DEFAULT_INTENT_PROVIDER_MAP[intentType],
+    source: 'keyword',
   };
 }
 
+function parseClassifierResponse(response: string): z.infer<typeof classifierResultSchema> | null {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return null;
+  }
+
+  try {
+    const result = classifierResultSchema.safeParse(JSON.parse(jsonMatch[0]));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+async function classifyWithModel(prompt: string): Promise<Intent | null> {
+  const provider = await getSetting('AI_INTENT_CLASSIFIER_PROVIDER');
+  const adapter = getProviderAdapter(provider);
+  if (!adapter) {
+    return null;
+  }
+
+  const model = (await getSetting('AI_INTENT_CLASSIFIER_MODEL')) || undefined;
+  const response = await adapter.chat(
+    [
+      { role: 'system', content: CLASSIFIER_PROMPT },
+      { role: 'user', content: prompt.substring(0, 2000) },
+    ],
+    { model, temperature: 0, maxTokens: 256 }
+  );
+
+  if (!response) {
+    return null;
+  }
+
+  const parsed = parseClassifierResponse(response);
+  if (!parsed) {
+    logger.warning('Intent classifier returned invalid JSON', {
+      provider,
+      response: response.substring(0, 200),
+      logType: 'warning',
+    });
+    return null;
+  }
+
+  return {
+    type: parsed.type,
+    confidence: parsed.confidence,
+    entities: parsed.entities,
+    suggestedTools: parsed.suggestedTools,
+    source: 'classifier',
+  };
+}
+
+/**
+ * 분류기 모드가 켜져 있으면 저비용 모델로 의도를 분류하고 (프롬프트 해시 기준 캐시),
+ * 꺼져 있거나 분류에 실패하면 키워드 매칭으로 폴백.
+ */
+export async function classifyIntent(prompt: string): Promise<Intent> {
+  const providerMap = await getIntentProviderMap();
+
+  if (await getSettingBoolean('AI_INTENT_CLASSIFIER_ENABLED')) {
+    const cacheKey = crypto.createHash('sha256').update(prompt).digest('hex');
+
+    try {
+      const cached = await getCache<Intent>(cacheKey, { prefix: CACHE_PREFIXES.INTENT });
+      if (cached) {
+        return { ...cached, preferredProvider: providerMap[cached.type] };
+      }
+
+      const classified = await classifyWithModel(prompt);
+      if (classified) {
+        await setCache(cacheKey, classified, {
+          prefix: CACHE_PREFIXES.INTENT,
+          ttl: INTENT_CACHE_TTL,
+        });
+
+        logger.debug('Intent classified', {
+          prompt: prompt.substring(0, 100),
+          intentType: classified.type,
+          confidence: classified.confidence,
+          suggestedTools: classified.suggestedTools,
+          logType: 'success',
+        });
+
+        return { ...classified, preferredProvider: providerMap[classified.type] };
+      }
+    } catch (error) {
+      logger.warning('Intent classification failed, using keyword fallback', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        logType: 'warning',
+      });
+    }
+  }
+
+  const intent = analyzeIntent(prompt);
+  return { ...intent, preferredProvider: providerMap[intent.type] };
+}
@@ -0,0 +1,296 @@
+import { createLogger } from '../../utils/logger.js';
+import { decrypt } from '../../utils/encryption.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { getSetting } from '../../routes/admin/settings.js';
+
+const prisma = getPrismaClient();
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'KeyPool',
+});
+
+// 401/403: 키 자체가 잘못됨 → 길게 제외, 429: 레이트 리밋 → 잠시 제외
+const AUTH_ERROR_COOLDOWN_MS = 60 * 60 * 1000;
+const RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+const MAX_KEY_ATTEMPTS = 3;
+
+export type KeySelectionStrategy = 'round_robin' | 'least_used';
+
+export interface ApiKeyLease {
+  keyId: number;
+  provider: string;
+  apiKey: string; // 복호화된 키
+  metadata: unknown;
+  updatedAt: number;
+  tokens: number;
+  reportTokens: (tokens: number) => void;
+}
+
+export interface ApiKeyUsageSummary {
+  requestCount: number;
+  tokenCount: number;
+  errorCount: number;
+  lastStatus: number | null;
+  lastUsedAt: Date | null;
+}
+
+const cooldowns = new Map<number, { until: number; status: number }>();
+const roundRobinCursors = new Map<string, number>();
+
+function getTodayDate(): Date {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return today;
+}
+
+// SDK(OpenAI, Anthropic), axios, Gemini 오류에서 HTTP 상태 코드 추출
+export function getErrorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+
+  const e = error as { status?: unknown; response?: { status?: unknown }; message?: unknown };
+  if (typeof e.status === 'number') {
+    return e.status;
+  }
+  if (typeof e.response?.status === 'number') {
+    return e.response.status;
+  }
+  if (typeof e.message === 'string') {
+    const match = e.message.match(/\[(401|403|429)\b/);
+    if (match) {
+      return parseInt(match[1], 10);
+    }
+  }
+  return undefined;
+}
+
+function isKeyRejected(status: number | undefined): boolean {
+  return status === 401 || status === 403 || status === 429;
+}
+
+export function getKeyCooldown(keyId: number): { until: number; status: number } | null {
+  const cooldown = cooldowns.get(keyId);
+  if (!cooldown) {
+    return null;
+  }
+  if (cooldown.until <= Date.now()) {
+    cooldowns.delete(keyId);
+    return null;
+  }
+  return cooldown;
+}
+
+export function clearKeyCooldown(keyId: number): void {
+  cooldowns.delete(keyId);
+}
+
+export async function getKeyUsage(keyIds: number[]): Promise<Map<number, ApiKeyUsageSummary>> {
+  const usageMap = new Map<number, ApiKeyUsageSummary>();
+  if (keyIds.length === 0) {
+    return usageMap;
+  }
+
+  const rows = await prisma.apiKeyUsage.findMany({
+    where: {
+      apiKeyId: { in: keyIds },
+      date: getTodayDate(),
+    },
+  });
+
+  for (const row of rows) {
+    usageMap.set(row.apiKeyId, {
+      requestCount: row.requestCount,
+      tokenCount: row.tokenCount,
+      errorCount: row.errorCount,
+      lastStatus: row.lastStatus,
+      lastUsedAt: row.lastUsedAt,
+    });
+  }
+
+  return usageMap;
+}
+
+async function getSelectionStrategy(): Promise<KeySelectionStrategy> {
+  const strategy = await getSetting('AI_KEY_SELECTION_STRATEGY');
+  return strategy === 'least_used' ? 'least_used' : 'round_robin';
+}
+
+export async function acquireApiKey(
+  provider: string,
+  excludeKeyIds: number[] = []
+): Promise<ApiKeyLease | null> {
+  try {
+    const keys = await prisma.apiKey.findMany({
+      where: {
+        provider,
+        isActive: true,
+      },
+      orderBy: [{ weight: 'desc' }, { id: 'asc' }],
+    });
+
+    const usage = await getKeyUsage(keys.map((key: (typeof keys)[number]) => key.id));
+
+    // 쿨다운 중이거나 일일 쿼터를 초과한 키 제외
+    const available = keys.filter((key: (typeof keys)[number]) => {
+      if (excludeKeyIds.includes(key.id) || getKeyCooldown(key.id)) {
+        return false;
+      }
+      const today = usage.get(key.id);
+      if (key.dailyRequestLimit && (today?.requestCount || 0) >= key.dailyRequestLimit) {
+        return false;
+      }
+      if (key.dailyTokenLimit && (today?.tokenCount || 0) >= key.dailyTokenLimit) {
+        return false;
+      }
+      return true;
+    });
+
+    if (available.length === 0) {
+      logger.warning('No available API key in pool', {
+        provider,
+        totalKeys: keys.length,
+        logType: 'warning',
+      });
+      return null;
+    }
+
+    let selected = available[0];
+    if ((await getSelectionStrategy()) === 'least_used') {
+      selected = available.reduce((best: (typeof available)[number], key: (typeof available)[number]) =>
+        (usage.get(key.id)?.requestCount || 0) < (usage.get(best.id)?.requestCount || 0) ? key : best
+      );
+    } else {
+      const cursor = roundRobinCursors.get(provider) || 0;
+      selected = available[cursor % available.length];
+      roundRobinCursors.set(provider, cursor + 1);
+    }
+
+    const lease: ApiKeyLease = {
+      keyId: selected.id,
+      provider,
+      apiKey: decrypt(selected.apiKey),
+      metadata: selected.metadata,
+      updatedAt: new Date(selected.updatedAt).getTime(),
+      tokens: 0,
+      reportTokens: (tokens: number) => {
+        lease.tokens = tokens;
+      },
+    };
+    return lease;
+  } catch (error) {
+    logger.error('Failed to acquire API key', {
+      provider,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+    return null;
+  }
+}
+
+export async function recordKeyUsage(
+  keyId: number,
+  result: { tokens?: number; status?: number; isError?: boolean }
+): Promise<void> {
+  const date = getTodayDate();
+  const tokens = result.tokens || 0;
+  const errorCount = result.isError ? 1 : 0;
+
+  try {
+    await prisma.apiKeyUsage.upsert({
+      where: { apiKeyId_date: { apiKeyId: keyId, date } },
+      create: {
+        apiKeyId: keyId,
+        date,
+        requestCount: 1,
+        tokenCount: tokens,
+        errorCount,
+        lastStatus: result.status ?? null,
+        lastUsedAt: new Date(),
+      },
+      update: {
+        requestCount: { increment: 1 },
+        tokenCount: { increment: tokens },
+        errorCount: { increment: errorCount },
+        lastStatus: result.status ?? null,
+        lastUsedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    logger.debug('Failed to record API key usage', {
+      keyId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'warning',
+    });
+  }
+}
+
+function recordKeyFailure(lease: ApiKeyLease, error: unknown): number | undefined {
+  const status = getErrorStatus(error);
+
+  if (isKeyRejected(status)) {
+    const cooldownMs = status === 429 ? RATE_LIMIT_COOLDOWN_MS : AUTH_ERROR_COOLDOWN_MS;
+    cooldowns.set(lease.keyId, { until: Date.now() + cooldownMs, status: status! });
+    logger.warning('API key rejected, skipping temporarily', {
+      provider: lease.provider,
+      keyId: lease.keyId,
+      status,
+      cooldownMs,
+      logType: 'warning',
+    });
+  }
+
+  recordKeyUsage(lease.keyId, { status, isError: true });
+  return status;
+}
+
+/**
+ * 풀에서 키를 받아 fn 실행. 401/403/429 응답이면 다음 키로 재시도.
+ * 사용 가능한 키가 없으면 null 반환.
+ * canRetry: 스트리밍처럼 이미 출력이 나간 경우 재시도를 막기 위한 조건
+ */
+export async function withPooledApiKey<T>(
+  provider: string,
+  fn: (lease: ApiKeyLease) => Promise<T>,
+  options?: { canRetry?: () => boolean }
+): Promise<T | null> {
+  const triedKeyIds: number[] = [];
+
+  for (let attempt = 0; attempt < MAX_KEY_ATTEMPTS; attempt++) {
+    const lease = await acquireApiKey(provider, triedKeyIds);
+    if (!lease) {
+      return null;
+    }
+    triedKeyIds.push(lease.keyId);
+
+    try {
+      const result = await fn(lease);
+      recordKeyUsage(lease.keyId, { tokens: lease.tokens, status: 200 });
+      return result;
+    } catch (error) {
+      const status = recordKeyFailure(lease, error);
+      const canRetry = options?.canRetry ? options.canRetry() : true;
+      if (!isKeyRejected(status) || !canRetry || attempt === MAX_KEY_ATTEMPTS - 1) {
+        throw error;
+      }
+    }
+  }
+
+  return null;
+}
+
+// 키 ID + 수정 시각 기준으로 SDK 클라이언트 캐시 (키 교체 시 재생성)
+export function createClientCache<T>(factory: (lease: ApiKeyLease) => T): (lease: ApiKeyLease) => T {
+  const clients = new Map<number, { client: T; updatedAt: number }>();
+
+  return (lease: ApiKeyLease) => {
+    const cached = clients.get(lease.keyId);
+    if (cached && cached.updatedAt === lease.updatedAt) {
+      return cached.client;
+    }
+
+    const client = factory(lease);
+    clients.set(lease.keyId, { client, updatedAt: lease.updatedAt });
+    return client;
+  };
+}
@@ -1,9 +1,9 @@
 import axios from 'axios';
 import { createLogger } from '../../utils/logger.js';
-import { decrypt } from '../../utils/encryption.js';
-import { getPrismaClient } from '../../utils/database.js';
+import { acquireApiKey, withPooledApiKey } from './keyPool.js';
+import { waitForStreamEnd } from './cancellation.js';
+import { estimateMessagesTokens, TokenUsage } from './tokenCounter.js';
 
-const prisma = getPrismaClient();
 const logger = createLogger({
   screenName: 'AI',
   callerFunction: 'LuxiaClient',
@@ -13,32 +13,14 @@ const LUXIA_API_URL = 'https://bridge.luxiacloud.com/luxia/v1/chat';
 const DEFAULT_MODEL = 'luxia3-llm-32b-0731';
 
 export async function getLuxiaApiKey(): Promise<string | null> {
-  try {
-    const apiKey = await prisma.apiKey.findFirst({
-      where: {
-        provider: 'luxia',
-        isActive: true,
-      },
-      orderBy: {
-        weight: 'desc',
-      },
-    });
-
-    if (!apiKey) {
-      logger.warning('Luxia API key not found', {
-        logType: 'warning',
-      });
-      return null;
-    }
-
-    return decrypt(apiKey.apiKey);
-  } catch (error) {
-    logger.error('Failed to get Luxia API key', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      logType: 'error',
+  const lease = await acquireApiKey('luxia');
+  if (!lease) {
+    logger.warning('Luxia API key not found', {
+      logType: 'warning',
     });
     return null;
   }
+  return lease.apiKey;
 }
 
 export interface LuxiaOptions {
@@ -48,6 +30,8 @@ export interface LuxiaOptions {
   topP?: number;
   frequencyPenalty?: number;
   stream?: boolean;
+  onUsage?: (usage: TokenUsage) => void;
+  signal?: AbortSignal;
 }
 
 export async function chatWithLuxia(
@@ -55,42 +39,52 @@ export async function chatWithLuxia(
   options?: LuxiaOptions
 ): Promise<string | null> {
   try {
-    const apiKey = await getLuxiaApiKey();
-    if (!apiKey) {
-      logger.warning('Luxia API key not available', { logType: 'warning' });
-      return null;
-    }
-
     logger.info('Luxia chat request starting', {
       model: options?.model || DEFAULT_MODEL,
       messageCount: messages.length,
       logType: 'info',
     });
 
-    const response = await axios.post(
-      LUXIA_API_URL,
-      {
-        model: options?.model || DEFAULT_MODEL,
-        messages: messages.map((m) => ({
-          role: m.role,
-          content: m.content,
-        })),
-        stream: false,
-        temperature: options?.temperature ?? 0,
-        max_completion_tokens: options?.maxTokens || 2048,
-        top_p: options?.topP ?? 1,
-        frequency_penalty: options?.frequencyPenalty ?? 0,
-      },
-      {
-        headers: {
-          apikey: apiKey,
-          'Content-Type': 'application/json',
+    const result = await withPooledApiKey('luxia', async (lease) => {
+      const response = await axios.post(
+        LUXIA_API_URL,
+        {
+          model: options?.model || DEFAULT_MODEL,
+          messages: messages.map((m) => ({
+            role: m.role,
+            content: m.content,
+          })),
+          stream: false,
+          temperature: options?.temperature ?? 0,
+          max_completion_tokens: options?.maxTokens || 2048,
+          top_p: options?.topP ?? 1,
+          frequency_penalty: options?.frequencyPenalty ?? 0,
         },
-        timeout: 60000,
+        {
+          headers: {
+            apikey: lease.apiKey,
+            'Content-Type': 'application/json',
+          },
+          timeout: 60000,
+        }
+      );
+
+      lease.reportTokens(response.data.usage?.total_tokens || 0);
+      if (response.data.usage) {
+        options?.onUsage?.({
+          promptTokens: response.data.usage.prompt_tokens || 0,
+          completionTokens: response.data.usage.completion_tokens || 0,
+        });
       }
-    );
+      return { content: (response.data.choices[0]?.message?.content as string) || null };
+    });
 
-    const content = response.data.choices[0]?.message?.content || null;
+    if (!result) {
+      logger.warning('Luxia API key not available', { logType: 'warning' });
+      return null;
+    }
+
+    const content = result.content;
     
     logger.info('Luxia chat response received', {
       hasContent: !!content,
@@ -116,33 +110,35 @@ export async function streamLuxia(
   options?: LuxiaOptions
 ): Promise<NodeJS.ReadableStream | null> {
   try {
-    const apiKey = await getLuxiaApiKey();
-    if (!apiKey) return null;
-
-    const response = await axios.post(
-      LUXIA_API_URL,
-      {
-        model: options?.model || DEFAULT_MODEL,
-        messages: messages.map((m) => ({
-          role: m.role,
-          content: m.content,
-        })),
-        stream: true,
-        temperature: options?.temperature ?? 0,
-        max_completion_tokens: options?.maxTokens || 2048,
-        top_p: options?.topP ?? 1,
-        frequency_penalty: options?.frequencyPenalty ?? 0,
-      },
-      {
-        headers: {
-          apikey: apiKey,
-          'Content-Type': 'application/json',
+    return await withPooledApiKey('luxia', async (lease) => {
+      const response = await axios.post(
+        LUXIA_API_URL,
+        {
+          model: options?.model || DEFAULT_MODEL,
+          messages: messages.map((m) => ({
+            role: m.role,
+            content: m.content,
+          })),
+          stream: true,
+          temperature: options?.temperature ?? 0,
+          max_completion_tokens: options?.maxTokens || 2048,
+          top_p: options?.topP ?? 1,
+          frequency_penalty: options?.frequencyPenalty ?? 0,
         },
-        responseType: 'stream',
-      }
-    );
+        {
+          headers: {
+            apikey: lease.apiKey,
+            'Content-Type': 'application/json',
+          },
+          responseType: 'stream',
+          signal: options?.signal,
+        }
+      );
 
-    return response.data;
+      // 응답 토큰은 스트림 소비 전이라 알 수 없으므로 입력 토큰만 집계
+      lease.reportTokens(estimateMessagesTokens(messages));
+      return response.data as NodeJS.ReadableStream;
+    });
   } catch (error) {
     logger.error('Luxia stream error', {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -152,3 +148,108 @@ export async function streamLuxia(
   }
 }
 
+
+export interface StreamCallbacks {
+  onChunk: (chunk: string) => void;
+  onComplete: (fullResponse: string) => void;
+  onError: (error: Error) => void;
+}
+
+export async function chatWithLuxiaStream(
+  messages: Array<{ role: string; content: string }>,
+  callbacks: StreamCallbacks,
+  options?: LuxiaOptions
+): Promise<void> {
+  let fullResponse = '';
+
+  try {
+    const stream = await streamLuxia(messages, options);
+
+    // 연결 전에 취소되면 비스트리밍 폴백 없이 종료
+    if (!stream && options?.signal?.aborted) {
+      callbacks.onComplete('');
+      return;
+    }
+
+    if (!stream) {
+      logger.warning('Luxia stream not available, falling back to non-stream', {
+        logType: 'warning',
+      });
+      await completeWithoutStream(messages, callbacks, options);
+      return;
+    }
+
+    let buffer = '';
+
+    stream.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data: ')) {
+          const data = line.slice(6);
+          if (data === '[DONE]') {
+            continue;
+          }
+          try {
+            const parsed = JSON.parse(data);
+            const content = parsed.choices?.[0]?.delta?.content || '';
+            if (content) {
+              fullResponse += content;
+              callbacks.onChunk(content);
+            }
+          } catch {
+            // 파싱할 수 없는 라인은 건너뜀
+          }
+        }
+      }
+    });
+
+    await waitForStreamEnd(stream, options?.signal);
+
+    logger.info('Luxia stream completed', {
+      responseLength: fullResponse.length,
+      logType: 'success',
+    });
+
+    callbacks.onComplete(fullResponse);
+  } catch (error) {
+    if (options?.signal?.aborted) {
+      callbacks.onComplete(fullResponse);
+      return;
+    }
+    // 아직 전송한 내용이 없으면 비스트리밍으로 재시도 (이미 보낸 청크는 되돌릴 수 없으므로 오류 처리)
+    if (!fullResponse) {
+      logger.warning('Luxia stream failed, falling back to non-stream', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        logType: 'warning',
+      });
+      await completeWithoutStream(messages, callbacks, options);
+      return;
+    }
+    logger.error('Luxia stream error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+    callbacks.onError(error instanceof Error ? error : new Error('Unknown error'));
+  }
+}
+
+async function completeWithoutStream(
+  messages: Array<{ role: string; content: string }>,
+  callbacks: StreamCallbacks,
+  options?: LuxiaOptions
+): Promise<void> {
+  try {
+    const content = await chatWithLuxia(messages, options);
+    if (!content) {
+      callbacks.onError(new Error('Luxia API returned no response'));
+      return;
+    }
+    callbacks.onChunk(content);
+    callbacks.onComplete(content);
+  } catch (error) {
+    callbacks.onError(error instanceof Error ? error : new Error('Luxia fallback failed'));
+  }
+}
@@ -0,0 +1,242 @@
+import { ChatMessage } from './router.js';
+import { createLogger } from '../../utils/logger.js';
+import { getProviderAdapter, getProviderDisplayName } from './providerRegistry.js';
+import { getSetting, getSettingBoolean } from '../../routes/admin/settings.js';
+
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'MixtureOfAgents',
+});
+
+export interface MixAgentConfig {
+  provider: string;
+  model?: string;
+}
+
+export interface MixDraft extends MixAgentConfig {
+  label: string;
+  response: string;
+}
+
+export interface MixtureCallbacks {
+  onPhaseChange?: (phase: string) => void;
+  onAgentStart?: (provider: string, providerName: string, phase: string, round: number) => void;
+  onAgentComplete?: (provider: string, fullContent: string) => void;
+  onChunk?: (chunk: string) => void; // 있으면 심사 모델 응답을 스트리밍
+  signal?: AbortSignal; // 취소되면 심사 모델 스트림을 중단하고 그때까지의 응답 사용
+}
+
+export interface MixtureResult {
+  response: string;
+  drafts: MixDraft[];
+  aggregator: string | null; // null이면 심사 실패로 초안을 나열한 응답
+}
+
+// "provider" 또는 "provider:model" 목록 (쉼표 구분)
+function parseAgentList(value: string): MixAgentConfig[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const [provider, ...modelParts] = item.split(':');
+      const model = modelParts.join(':').trim();
+      return model ? { provider: provider.trim(), model } : { provider: provider.trim() };
+    })
+    .filter((agent) => !!getProviderAdapter(agent.provider));
+}
+
+export async function isMixtureEnabled(): Promise<boolean> {
+  return getSettingBoolean('AI_MIX_OF_AGENTS_ENABLED');
+}
+
+function getDraftLabel(agent: MixAgentConfig): string {
+  const name = getProviderDisplayName(agent.provider);
+  return agent.model ? `${name} (${agent.model})` : name;
+}
+
+/**
+ * 설정된 프로바이더들에 같은 대화를 동시에 보내 초안 수집 (실패한 프로바이더는 제외)
+ */
+export async function collectMixDrafts(
+  messages: ChatMessage[],
+  callbacks?: MixtureCallbacks
+): Promise<MixDraft[]> {
+  const agents = parseAgentList(await getSetting('AI_MIX_PROVIDERS'));
+
+  callbacks?.onPhaseChange?.('collection');
+  for (const agent of agents) {
+    callbacks?.onAgentStart?.(agent.provider, getDraftLabel(agent), 'collection', 1);
+  }
+
+  const results = await Promise.all(
+    agents.map(async (agent): Promise<MixDraft | null> => {
+      try {
+        const adapter = getProviderAdapter(agent.provider)!;
+        const response = await adapter.chat(messages, agent.model ? { model: agent.model } : undefined);
+        callbacks?.onAgentComplete?.(agent.provider, response || '');
+        return response ? { ...agent, label: getDraftLabel(agent), response } : null;
+      } catch (error) {
+        logger.warning(`Mix of agents: ${agent.provider} failed`, {
+          error: error instanceof Error ? error.message : 'Unknown',
+          logType: 'warning',
+        });
+        callbacks?.onAgentComplete?.(agent.provider, '');
+        return null;
+      }
+    })
+  );
+
+  return results.filter((draft): draft is MixDraft => !!draft);
+}
+
+function buildAggregationMessages(userPrompt: string, drafts: MixDraft[]): ChatMessage[] {
+  const systemPrompt = `당신은 여러 AI 모델의 답변을 평가하고 하나로 통합하는 심사자입니다.
+반드시 다음 형식으로 답변하세요.
+
+## 종합 답변
+
+각 답변의 정확하고 유용한 내용을 통합해 하나의 완결된 답변을 작성하세요.
+- 각 문장이나 항목 끝에 어느 답변에서 온 내용인지 [1], [2]처럼 답변 번호로 출처를 표시하세요. 여러 답변이 같은 내용을 말하면 [1][3]처럼 모두 표시하세요.
+- 답변끼리 충돌하면 근거가 더 충분한 쪽을 따르고 충돌이 있었음을 밝히세요.
+- 어느 답변에도 없는 내용을 보완했다면 출처 표시 없이 작성하세요.
+
+## 답변 평가
+
+| 순위 | 답변 | 평가 |
+|---|---|---|
+
+각 답변의 강점과 약점(오류, 누락, 불필요한 내용)을 한 줄로 평가하고 품질 순으로 순위를 매기세요.
+
+한국어로 답변하세요.`;
+
+  const draftText = drafts
+    .map((draft, index) => `[${index + 1}] ${draft.label}\n${draft.response}`)
+    .join('\n\n---\n\n');
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: `질문: ${userPrompt}\n\n=== 답변 목록 ===\n\n${draftText}` },
+  ];
+}
+
+function formatMixSources(drafts: MixDraft[]): string {
+  return `\n\n---\n\n**출처**\n${drafts.map((draft, index) => `[${index + 1}] ${draft.label}`).join('\n')}`;
+}
+
+// 심사 실패 시 초안을 모델별로 나열
+function formatMixedDrafts(drafts: MixDraft[]): string {
+  let result = '## Mix of Agents 응답\n\n';
+  for (const draft of drafts) {
+    result += `### ${draft.label}\n\n${draft.response}\n\n---\n\n`;
+  }
+  return result;
+}
+
+async function runAggregator(
+  aggregator: MixAgentConfig,
+  messages: ChatMessage[],
+  onChunk?: (chunk: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const adapter = getProviderAdapter(aggregator.provider)!;
+  const options = { model: aggregator.model, signal };
+
+  if (!onChunk || !adapter.capabilities.streaming) {
+    const response = await adapter.chat(messages, options);
+    if (!response) {
+      throw new Error(`Empty response from ${aggregator.provider}`);
+    }
+    onChunk?.(response);
+    return response;
+  }
+
+  let response = '';
+  let streamError: Error | null = null;
+  await adapter.stream(
+    messages,
+    {
+      onChunk: (chunk: string) => {
+        response += chunk;
+        onChunk(chunk);
+      },
+      onComplete: () => {},
+      onError: (error: Error) => {
+        streamError = error;
+      },
+    },
+    options
+  );
+
+  if (streamError) {
+    // 이미 전송한 내용이 있으면 되돌릴 수 없으므로 부분 응답 사용
+    if (response) {
+      return response;
+    }
+    throw streamError;
+  }
+  return response;
+}
+
+/**
+ * 심사 모델이 초안의 순위를 매기고 비평한 뒤 출처 표시와 함께 하나의 답변으로 통합.
+ * 설정된 심사 모델을 순서대로 시도하고 모두 실패하면 초안을 나열.
+ */
+export async function aggregateMixDrafts(
+  userPrompt: string,
+  drafts: MixDraft[],
+  callbacks?: MixtureCallbacks
+): Promise<{ response: string; aggregator: string | null }> {
+  const aggregators = parseAgentList(await getSetting('AI_MIX_AGGREGATORS'));
+  const messages = buildAggregationMessages(userPrompt, drafts);
+  const sources = formatMixSources(drafts);
+
+  callbacks?.onPhaseChange?.('aggregation');
+
+  for (const aggregator of aggregators) {
+    if (callbacks?.signal?.aborted) {
+      return { response: '', aggregator: null };
+    }
+    callbacks?.onAgentStart?.(aggregator.provider, getDraftLabel(aggregator), 'aggregation', 1);
+    try {
+      const response = await runAggregator(aggregator, messages, callbacks?.onChunk, callbacks?.signal);
+      callbacks?.onChunk?.(sources);
+      callbacks?.onAgentComplete?.(aggregator.provider, response);
+      return { response: response + sources, aggregator: aggregator.provider };
+    } catch (error) {
+      logger.warning(`Mix of agents: aggregator ${aggregator.provider} failed`, {
+        error: error instanceof Error ? error.message : 'Unknown',
+        logType: 'warning',
+      });
+      callbacks?.onAgentComplete?.(aggregator.provider, '');
+    }
+  }
+
+  logger.error('Mix of agents: all aggregators failed, returning drafts', { logType: 'error' });
+  const fallback = formatMixedDrafts(drafts);
+  callbacks?.onChunk?.(fallback);
+  return { response: fallback, aggregator: null };
+}
+
+/**
+ * Mix of Agents: 초안 수집 → 심사 모델 통합. 초안이 하나도 없으면 null.
+ */
+export async function runMixtureOfAgents(
+  messages: ChatMessage[],
+  userPrompt: string,
+  callbacks?: MixtureCallbacks
+): Promise<MixtureResult | null> {
+  const drafts = await collectMixDrafts(messages, callbacks);
+
+  logger.info('Mix of agents drafts collected', {
+    providers: drafts.map((draft) => draft.provider).join(', '),
+    logType: 'info',
+  });
+
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  const { response, aggregator } = await aggregateMixDrafts(userPrompt, drafts, callbacks);
+  return { response, drafts, aggregator };
+}
@@ -0,0 +1,214 @@
+// 프로바이더별 모델 카탈로그 (모델 ID, 컨텍스트 크기, 입력 모달리티, 스트리밍/도구 지원, 가격)
+// 기본 카탈로그를 SystemSettings AI_MODEL_CATALOG로 프로바이더 단위 재정의 (지정한 프로바이더는 목록 전체를 대체)
+
+import { z } from 'zod';
+import { createLogger } from '../../utils/logger.js';
+import { getSetting, setSetting } from '../../routes/admin/settings.js';
+
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'ModelCatalog',
+});
+
+export const MODEL_MODALITIES = ['text', 'image', 'audio'] as const;
+
+export const modelCatalogEntrySchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().max(100).optional(),
+  contextWindow: z.number().int().positive(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  modalities: z.array(z.enum(MODEL_MODALITIES)).min(1).default(['text']),
+  streaming: z.boolean().default(true),
+  toolCalling: z.boolean().default(false),
+  price: z
+    .object({
+      input: z.number().min(0), // USD / 100만 토큰
+      output: z.number().min(0),
+    })
+    .nullable()
+    .default(null),
+  isDefault: z.boolean().optional(), // 모델 미지정 요청에 사용 (없으면 첫 번째 모델)
+});
+
+export const providerModelsSchema = z
+  .array(modelCatalogEntrySchema)
+  .refine((models) => new Set(models.map((model) => model.id)).size === models.length, '모델 ID가 중복되었습니다')
+  .refine((models) => models.filter((model) => model.isDefault).length <= 1, '기본 모델은 하나만 지정할 수 있습니다');
+
+export type ModelCatalogEntry = z.infer<typeof modelCatalogEntrySchema>;
+export type ModelCatalog = Record<string, ModelCatalogEntry[]>;
+
+// 공개 사양 기준 기본값. 목록이 비어 있는 프로바이더(자체 호스팅)는 모델을 자유롭게 지정
+export const DEFAULT_MODEL_CATALOG: ModelCatalog = {
+  openai: [
+    {
+      id: 'gpt-4.1',
+      contextWindow: 1047576,
+      maxOutputTokens: 32768,
+      modalities: ['text', 'image'],
+      streaming: true,
+      toolCalling: true,
+      price: { input: 2, output: 8 },
+      isDefault: true,
+    },
+    {
+      id: 'gpt-4.1-mini',
+      contextWindow: 1047576,
+      maxOutputTokens: 32768,
+      modalities: ['text', 'image'],
+      streaming: true,
+      toolCalling: true,
+      price: { input: 0.4, output: 1.6 },
+    },
+    {
+      id: 'gpt-4o',
+      contextWindow: 128000,
+      maxOutputTokens: 16384,
+      modalities: ['text', 'image'],
+      streaming: true,
+      toolCalling: true,
+      price: { input: 2.5, output: 10 },
+    },
+  ],
+  claude: [
+    {
+      id: 'claude-sonnet-4-5-20250929',
+      name: 'Claude Sonnet 4.5',
+      contextWindow: 200000,
+      maxOutputTokens: 64000,
+      modalities: ['text', 'image'],
+      streaming: true,
+      toolCalling: true,
+      price: { input: 3, output: 15 },
+      isDefault: true,
+    },
+  ],
+  gemini: [
+    {
+      id: 'gemini-2.5-flash',
+      contextWindow: 1048576,
+      maxOutputTokens: 65536,
+      modalities: ['text', 'image', 'audio'],
+      streaming: true,
+      toolCalling: false,
+      price: { input: 0.3, output: 2.5 },
+      isDefault: true,
+    },
+    {
+      id: 'gemini-2.5-pro',
+      contextWindow: 1048576,
+      maxOutputTokens: 65536,
+      modalities: ['text', 'image', 'audio'],
+      streaming: true,
+      toolCalling: false,
+      price: { input: 1.25, output: 10 },
+    },
+  ],
+  perplexity: [
+    {
+      id: 'sonar-pro',
+      contextWindow: 200000,
+      maxOutputTokens: 8192,
+      modalities: ['text'],
+      streaming: true,
+      toolCalling: false,
+      price: { input: 3, output: 15 },
+      isDefault: true,
+    },
+    {
+      id: 'sonar',
+      contextWindow: 127072,
+      maxOutputTokens: 8192,
+      modalities: ['text'],
+      streaming: true,
+      toolCalling: false,
+      price: { input: 1, output: 1 },
+    },
+  ],
+  luxia: [
+    {
+      id: 'luxia3-llm-32b-0731',
+      contextWindow: 32768,
+      maxOutputTokens: 8192,
+      modalities: ['text'],
+      streaming: true,
+      toolCalling: false,
+      price: null,
+      isDefault: true,
+    },
+  ],
+  'openai-compatible': [],
+};
+
+function parseCatalogOverrides(raw: string): ModelCatalog {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = z.record(providerModelsSchema).safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      throw new Error(parsed.error.message);
+    }
+    return parsed.data;
+  } catch {
+    logger.warning('Invalid AI_MODEL_CATALOG setting, using defaults', {
+      logType: 'warning',
+    });
+    return {};
+  }
+}
+
+export async function getModelCatalog(): Promise<ModelCatalog> {
+  return { ...DEFAULT_MODEL_CATALOG, ...parseCatalogOverrides(await getSetting('AI_MODEL_CATALOG')) };
+}
+
+export async function getProviderModels(provider: string): Promise<ModelCatalogEntry[]> {
+  return (await getModelCatalog())[provider] || [];
+}
+
+/**
+ * 프로바이더 모델 목록 재정의 (null이면 기본 카탈로그로 복원)
+ */
+export async function setProviderModels(provider: string, models: ModelCatalogEntry[] | null): Promise<void> {
+  const overrides = parseCatalogOverrides(await getSetting('AI_MODEL_CATALOG'));
+  if (models) {
+    overrides[provider] = models;
+  } else {
+    delete overrides[provider];
+  }
+  await setSetting('AI_MODEL_CATALOG', JSON.stringify(overrides));
+
+  logger.info('Model catalog updated', {
+    provider,
+    modelCount: models?.length ?? null,
+    logType: 'info',
+  });
+}
+
+export function getDefaultModel(models: ModelCatalogEntry[]): ModelCatalogEntry | null {
+  return models.find((model) => model.isDefault) || models[0] || null;
+}
+
+/**
+ * 요청 모델 결정: 지정 모델(카탈로그에 없으면 항목 없이 그대로 사용) → 카탈로그 기본 모델.
+ * 카탈로그가 비어 있으면 model이 undefined일 수 있음 (클라이언트 기본값 사용)
+ */
+export async function resolveCatalogModel(
+  provider: string,
+  model?: string | null
+): Promise<{ model: string | undefined; entry: ModelCatalogEntry | null }> {
+  const models = await getProviderModels(provider);
+  if (model) {
+    return { model, entry: models.find((candidate) => candidate.id === model) || null };
+  }
+  const entry = getDefaultModel(models);
+  return { model: entry?.id, entry };
+}
+
+/**
+ * 요청에서 지정할 수 있는 모델인지 (카탈로그가 비어 있는 프로바이더는 모든 모델 허용)
+ */
+export async function isCatalogModel(provider: string, model: string): Promise<boolean> {
+  const models = await getProviderModels(provider);
+  return models.length === 0 || models.some((candidate) => candidate.id === model);
+}
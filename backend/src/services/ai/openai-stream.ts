@@ -1,5 +1,6 @@
-import OpenAI from 'openai';
-import { getOpenAIClient } from './openai.js';
+import { getOpenAIClient, OpenAIChatOptions } from './openai.js';
+import { withPooledApiKey } from './keyPool.js';
+import { estimateTokens, estimateMessagesTokens, TokenUsage } from './tokenCounter.js';
 import { createLogger } from '../../utils/logger.js';
 
 const logger = createLogger({
@@ -15,39 +16,81 @@ export interface StreamCallbacks {
 
 export async function chatWithOpenAIStream(
   messages: Array<{ role: string; content: string }>,
-  callbacks: StreamCallbacks
+  callbacks: StreamCallbacks,
+  options?: OpenAIChatOptions
 ): Promise<void> {
+  let fullResponse = '';
+
   try {
-    const client = await getOpenAIClient();
-    if (!client) {
-      callbacks.onError(new Error('OpenAI client not initialized'));
-      return;
-    }
+    let chunkCount = 0;
+    let usage: TokenUsage | null = null;
 
-    const stream = await client.chat.completions.create({
-      model: 'gpt-4.1',
-      messages: messages.map((msg) => ({
-        role: msg.role as 'user' | 'assistant' | 'system',
-        content: msg.content,
-      })),
-      temperature: 0.7,
-      max_tokens: 4096,
-      stream: true,
-    });
+    const result = await withPooledApiKey(
+      'openai',
+      async (lease) => {
+        const client = getOpenAIClient(lease);
+
+        const stream = await client.chat.completions.create({
+          model: options?.model || 'gpt-4.1',
+          messages: messages.map((msg) => ({
+            role: msg.role as 'user' | 'assistant' | 'system',
+            content: msg.content,
+          })),
+          temperature: options?.temperature ?? 0.7,
+          max_tokens: options?.maxTokens || 4096,
+          top_p: options?.topP,
+          stop: options?.stop,
+          seed: options?.seed,
+          stream: true,
+          stream_options: { include_usage: true },
+        }, { signal: options?.signal });
+
+        for await (const chunk of stream) {
+          // include_usage: 마지막 청크에만 usage가 포함됨 (choices는 비어 있음)
+          if (chunk.usage) {
+            usage = {
+              promptTokens: chunk.usage.prompt_tokens,
+              completionTokens: chunk.usage.completion_tokens,
+            };
+          }
+
+          const content = chunk.choices[0]?.delta?.content || '';
+          if (content) {
+            chunkCount++;
+            fullResponse += content;
+            callbacks.onChunk(content);
+          }
+        }
 
-    for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content || '';
-      if (content) {
-        callbacks.onChunk(content);
-      }
+        lease.reportTokens(
+          usage
+            ? usage.promptTokens + usage.completionTokens
+            : estimateMessagesTokens(messages) + estimateTokens(fullResponse)
+        );
+        return true;
+      },
+      { canRetry: () => chunkCount === 0 }
+    );
+
+    if (!result) {
+      callbacks.onError(new Error('OpenAI API key not available'));
+      return;
     }
 
+    if (usage) {
+      options?.onUsage?.(usage);
+    }
     callbacks.onComplete();
 
     logger.success('OpenAI stream completed', {
       logType: 'success',
     });
   } catch (error) {
+    if (options?.signal?.aborted) {
+      logger.info('OpenAI stream cancelled', { responseLength: fullResponse.length, logType: 'info' });
+      callbacks.onComplete();
+      return;
+    }
     logger.error('OpenAI stream error', {
       error: error instanceof Error ? error.message : 'Unknown error',
       logType: 'error',
@@ -55,4 +98,3 @@ export async function chatWithOpenAIStream(
     callbacks.onError(error instanceof Error ? error : new Error('Unknown error'));
   }
 }
-
@@ -1,94 +1,93 @@
 import OpenAI from 'openai';
 import { createLogger } from '../../utils/logger.js';
-import { decrypt } from '../../utils/encryption.js';
-import { getPrismaClient } from '../../utils/database.js';
 import { getCircuitBreaker } from './circuitBreaker.js';
+import { createClientCache, withPooledApiKey } from './keyPool.js';
+import { TokenUsage } from './tokenCounter.js';
+import {
+  ToolSchema,
+  ToolCall,
+  ToolChatMessage,
+  ToolChatOptions,
+  ToolChatResult,
+  parseToolArguments,
+} from './toolCalling.js';
 
-const prisma = getPrismaClient();
 const logger = createLogger({
   screenName: 'AI',
   callerFunction: 'OpenAIClient',
 });
 
-let cachedClient: OpenAI | null = null;
-let cachedKeyId: number | null = null;
-
-export async function getOpenAIClient(): Promise<OpenAI | null> {
-  try {
-    const apiKey = await prisma.apiKey.findFirst({
-      where: {
-        provider: 'openai',
-        isActive: true,
-      },
-      orderBy: {
-        weight: 'desc',
-      },
-    });
-
-    if (!apiKey) {
-      logger.warning('OpenAI API key not found', {
-        logType: 'warning',
-      });
-      return null;
-    }
-
-    if (cachedClient && cachedKeyId === apiKey.id) {
-      return cachedClient;
-    }
-
-    const decryptedApiKey = decrypt(apiKey.apiKey);
-
-    cachedClient = new OpenAI({
-      apiKey: decryptedApiKey,
-    });
-    cachedKeyId = apiKey.id;
-
-    logger.info('OpenAI client initialized', { logType: 'info' });
-
-    return cachedClient;
-  } catch (error) {
-    logger.error('Failed to initialize OpenAI client', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      logType: 'error',
-    });
-    return null;
-  }
-}
+export const getOpenAIClient = createClientCache((lease) => {
+  logger.info('OpenAI client initialized', { keyId: lease.keyId, logType: 'info' });
+  return new OpenAI({
+    apiKey: lease.apiKey,
+  });
+});
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
-export async function chatWithOpenAI(messages: ChatMessage[]): Promise<string | null> {
+export interface OpenAIChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  seed?: number;
+  onUsage?: (usage: TokenUsage) => void;
+  signal?: AbortSignal; // 스트리밍 취소
+  jsonMode?: boolean; // response_format json_object (메시지에 'JSON' 언급 필요)
+}
+
+export async function chatWithOpenAI(
+  messages: ChatMessage[],
+  options?: OpenAIChatOptions
+): Promise<string | null> {
   const circuitBreaker = getCircuitBreaker('openai');
   
   return await circuitBreaker.execute(
     async () => {
       try {
-        const openai = await getOpenAIClient();
-        if (!openai) {
-          throw new Error('OpenAI client not initialized');
-        }
-
-        const response = await openai.chat.completions.create({
-          model: 'gpt-4.1',
-          messages: messages.map((msg) => ({
-            role: msg.role as 'user' | 'assistant' | 'system',
-            content: msg.content,
-          })),
-          temperature: 0.7,
-          max_tokens: 4096,
+        const result = await withPooledApiKey('openai', async (lease) => {
+          const openai = getOpenAIClient(lease);
+
+          const response = await openai.chat.completions.create({
+            model: options?.model || 'gpt-4.1',
+            messages: messages.map((msg) => ({
+              role: msg.role as 'user' | 'assistant' | 'system',
+              content: msg.content,
+            })),
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens || 4096,
+            top_p: options?.topP,
+            stop: options?.stop,
+            seed: options?.seed,
+            ...(options?.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+          });
+
+          lease.reportTokens(response.usage?.total_tokens || 0);
+          if (response.usage) {
+            options?.onUsage?.({
+              promptTokens: response.usage.prompt_tokens,
+              completionTokens: response.usage.completion_tokens,
+            });
+          }
+
+          logger.success('OpenAI chat completed', {
+            tokens: response.usage?.total_tokens,
+            logType: 'success',
+          });
+
+          return { content: response.choices[0]?.message?.content || null };
         });
 
-        const content = response.choices[0]?.message?.content || null;
-
-        logger.success('OpenAI chat completed', {
-          tokens: response.usage?.total_tokens,
-          logType: 'success',
-        });
+        if (!result) {
+          throw new Error('OpenAI API key not available');
+        }
 
-        return content;
+        return result.content;
       } catch (error) {
         logger.error('OpenAI chat error', {
           error: error instanceof Error ? error.message : 'Unknown error',
@@ -106,3 +105,89 @@ export async function chatWithOpenAI(messages: ChatMessage[]): Promise<string |
   );
 }
 
+
+// 공통 도구 호출 메시지 → OpenAI Chat Completions 형식 (OpenAI 호환 엔드포인트도 사용)
+export function toOpenAIToolMessages(
+  messages: ToolChatMessage[]
+): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  return messages.map((msg): OpenAI.Chat.Completions.ChatCompletionMessageParam => {
+    if (msg.role === 'tool') {
+      return { role: 'tool', tool_call_id: msg.toolCallId, content: msg.content };
+    }
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return { role: msg.role, content: msg.content };
+  });
+}
+
+export function toOpenAITools(tools: ToolSchema[]): OpenAI.Chat.Completions.ChatCompletionTool[] {
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+export function fromOpenAIToolCalls(
+  toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] | undefined
+): ToolCall[] {
+  return (toolCalls || [])
+    .filter((call) => call.type === 'function')
+    .map((call) => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: parseToolArguments(call.function.arguments),
+    }));
+}
+
+/**
+ * 도구 목록을 함께 보내는 단일 턴 호출. 도구 실행과 반복은 toolLoop에서 처리
+ */
+export async function chatWithOpenAITools(
+  messages: ToolChatMessage[],
+  tools: ToolSchema[],
+  options?: ToolChatOptions
+): Promise<ToolChatResult> {
+  const result = await withPooledApiKey('openai', async (lease) => {
+    const response = await getOpenAIClient(lease).chat.completions.create(
+      {
+        model: options?.model || 'gpt-4.1',
+        messages: toOpenAIToolMessages(messages),
+        tools: toOpenAITools(tools),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens || 4096,
+        top_p: options?.topP,
+        stop: options?.stop,
+        seed: options?.seed,
+      },
+      { signal: options?.signal }
+    );
+
+    lease.reportTokens(response.usage?.total_tokens || 0);
+    if (response.usage) {
+      options?.onUsage?.({
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+      });
+    }
+
+    const message = response.choices[0]?.message;
+    return {
+      content: message?.content || '',
+      toolCalls: fromOpenAIToolCalls(message?.tool_calls),
+    };
+  });
+
+  if (!result) {
+    throw new Error('OpenAI API key not available');
+  }
+  return result;
+}
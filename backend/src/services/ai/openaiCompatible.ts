@@ -0,0 +1,282 @@
+import OpenAI from 'openai';
+import { createLogger } from '../../utils/logger.js';
+import { createClientCache, withPooledApiKey } from './keyPool.js';
+import { estimateTokens, estimateMessagesTokens, TokenUsage } from './tokenCounter.js';
+import { ToolSchema, ToolChatMessage, ToolChatOptions, ToolChatResult, getToolMessageText } from './toolCalling.js';
+import { toOpenAIToolMessages, toOpenAITools, fromOpenAIToolCalls } from './openai.js';
+
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'OpenAICompatibleClient',
+});
+
+export const OPENAI_COMPATIBLE_PROVIDER = 'openai-compatible';
+
+// ApiKey.metadata에 저장되는 자체 호스팅 엔드포인트 설정
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // 예: http://vllm.internal:8000/v1
+  model: string;
+  headers?: Record<string, string>;
+}
+
+interface OpenAICompatibleClient {
+  client: OpenAI;
+  model: string;
+}
+
+export function parseOpenAICompatibleConfig(metadata: unknown): OpenAICompatibleConfig | null {
+  if (!metadata || typeof metadata !== 'object') {
+    return null;
+  }
+
+  const { baseUrl, model, headers } = metadata as Record<string, unknown>;
+  if (typeof baseUrl !== 'string' || !baseUrl || typeof model !== 'string' || !model) {
+    return null;
+  }
+
+  const parsedHeaders: Record<string, string> = {};
+  if (headers && typeof headers === 'object') {
+    for (const [name, value] of Object.entries(headers as Record<string, unknown>)) {
+      if (typeof value === 'string') {
+        parsedHeaders[name] = value;
+      }
+    }
+  }
+
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    model,
+    headers: parsedHeaders,
+  };
+}
+
+// 키마다 엔드포인트 설정이 다를 수 있으므로 키 단위로 클라이언트 생성
+export const getOpenAICompatibleClient = createClientCache((lease): OpenAICompatibleClient | null => {
+  const config = parseOpenAICompatibleConfig(lease.metadata);
+  if (!config) {
+    logger.error('OpenAI-compatible metadata must include baseUrl and model', {
+      apiKeyId: lease.keyId,
+      logType: 'error',
+    });
+    return null;
+  }
+
+  logger.info('OpenAI-compatible client initialized', {
+    keyId: lease.keyId,
+    baseUrl: config.baseUrl,
+    model: config.model,
+    logType: 'info',
+  });
+
+  return {
+    client: new OpenAI({
+      apiKey: lease.apiKey,
+      baseURL: config.baseUrl,
+      defaultHeaders: config.headers,
+    }),
+    model: config.model,
+  };
+});
+
+export interface OpenAICompatibleOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  seed?: number;
+  onUsage?: (usage: TokenUsage) => void;
+  signal?: AbortSignal;
+  jsonMode?: boolean; // response_format json_object (vLLM, llama.cpp server, Ollama 지원)
+}
+
+export async function chatWithOpenAICompatible(
+  messages: Array<{ role: string; content: string }>,
+  options?: OpenAICompatibleOptions
+): Promise<string | null> {
+  // Circuit Breaker는 호출 경로(오케스트레이터)에서 적용하므로 여기서 다시 감싸지 않음
+  try {
+    const result = await withPooledApiKey(OPENAI_COMPATIBLE_PROVIDER, async (lease) => {
+      const endpoint = getOpenAICompatibleClient(lease);
+      if (!endpoint) {
+        throw new Error('OpenAI-compatible client not initialized');
+      }
+
+      const response = await endpoint.client.chat.completions.create({
+        model: options?.model || endpoint.model,
+        messages: messages.map((msg) => ({
+          role: msg.role as 'user' | 'assistant' | 'system',
+          content: msg.content,
+        })),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens || 4096,
+        top_p: options?.topP,
+        stop: options?.stop,
+        seed: options?.seed,
+        ...(options?.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+      });
+
+      lease.reportTokens(response.usage?.total_tokens || 0);
+      if (response.usage) {
+        options?.onUsage?.({
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          model: options?.model || endpoint.model,
+        });
+      }
+
+      logger.success('OpenAI-compatible chat completed', {
+        model: options?.model || endpoint.model,
+        tokens: response.usage?.total_tokens,
+        logType: 'success',
+      });
+
+      return { content: response.choices[0]?.message?.content || null };
+    });
+
+    if (!result) {
+      logger.warning('OpenAI-compatible endpoint not configured', { logType: 'warning' });
+      return null;
+    }
+
+    return result.content;
+  } catch (error) {
+    logger.error('OpenAI-compatible chat error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+    return null;
+  }
+}
+
+export interface StreamCallbacks {
+  onChunk: (chunk: string) => void;
+  onComplete: (fullResponse: string) => void;
+  onError: (error: Error) => void;
+}
+
+export async function chatWithOpenAICompatibleStream(
+  messages: Array<{ role: string; content: string }>,
+  callbacks: StreamCallbacks,
+  options?: OpenAICompatibleOptions
+): Promise<void> {
+  let fullResponse = '';
+
+  try {
+    const result = await withPooledApiKey(
+      OPENAI_COMPATIBLE_PROVIDER,
+      async (lease) => {
+        const endpoint = getOpenAICompatibleClient(lease);
+        if (!endpoint) {
+          throw new Error('OpenAI-compatible client not initialized');
+        }
+
+        const stream = await endpoint.client.chat.completions.create({
+          model: options?.model || endpoint.model,
+          messages: messages.map((msg) => ({
+            role: msg.role as 'user' | 'assistant' | 'system',
+            content: msg.content,
+          })),
+          temperature: options?.temperature ?? 0.7,
+          max_tokens: options?.maxTokens || 4096,
+          top_p: options?.topP,
+          stop: options?.stop,
+          seed: options?.seed,
+          stream: true,
+        }, { signal: options?.signal });
+
+        for await (const chunk of stream) {
+          const content = chunk.choices[0]?.delta?.content || '';
+          if (content) {
+            fullResponse += content;
+            callbacks.onChunk(content);
+          }
+        }
+
+        // 서버마다 stream usage 지원이 달라 추정치 사용
+        const usage = {
+          promptTokens: estimateMessagesTokens(messages),
+          completionTokens: estimateTokens(fullResponse),
+          model: options?.model || endpoint.model,
+          estimated: true,
+        };
+        lease.reportTokens(usage.promptTokens + usage.completionTokens);
+        options?.onUsage?.(usage);
+        return true;
+      },
+      { canRetry: () => fullResponse.length === 0 }
+    );
+
+    if (!result) {
+      callbacks.onError(new Error('OpenAI-compatible endpoint not configured'));
+      return;
+    }
+
+    logger.success('OpenAI-compatible stream completed', {
+      responseLength: fullResponse.length,
+      logType: 'success',
+    });
+
+    callbacks.onComplete(fullResponse);
+  } catch (error) {
+    if (options?.signal?.aborted) {
+      logger.info('OpenAI-compatible stream cancelled', { responseLength: fullResponse.length, logType: 'info' });
+      callbacks.onComplete(fullResponse);
+      return;
+    }
+    logger.error('OpenAI-compatible stream error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+    callbacks.onError(error instanceof Error ? error : new Error('Unknown error'));
+  }
+}
+
+/**
+ * 도구 목록을 함께 보내는 단일 턴 호출 (vLLM 등 서버가 tools 파라미터를 지원해야 함)
+ */
+export async function chatWithOpenAICompatibleTools(
+  messages: ToolChatMessage[],
+  tools: ToolSchema[],
+  options?: ToolChatOptions
+): Promise<ToolChatResult> {
+  const result = await withPooledApiKey(OPENAI_COMPATIBLE_PROVIDER, async (lease) => {
+    const endpoint = getOpenAICompatibleClient(lease);
+    if (!endpoint) {
+      throw new Error('OpenAI-compatible client not initialized');
+    }
+
+    const response = await endpoint.client.chat.completions.create(
+      {
+        model: options?.model || endpoint.model,
+        messages: toOpenAIToolMessages(messages),
+        tools: toOpenAITools(tools),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens || 4096,
+        top_p: options?.topP,
+        stop: options?.stop,
+        seed: options?.seed,
+      },
+      { signal: options?.signal }
+    );
+
+    const message = response.choices[0]?.message;
+    const content = message?.content || '';
+    const usage = response.usage
+      ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+      : {
+          promptTokens: messages.reduce((sum, m) => sum + estimateTokens(getToolMessageText(m)) + 4, 0),
+          completionTokens: estimateTokens(content),
+          estimated: true,
+        };
+    lease.reportTokens(usage.promptTokens + usage.completionTokens);
+    options?.onUsage?.({ ...usage, model: options?.model || endpoint.model });
+
+    return { content, toolCalls: fromOpenAIToolCalls(message?.tool_calls) };
+  });
+
+  if (!result) {
+    throw new Error('OpenAI-compatible endpoint not configured');
+  }
+  return result;
+}
@@ -1,13 +1,30 @@
 import { ChatMessage } from './router.js';
 import { createLogger } from '../../utils/logger.js';
-import { getCircuitBreaker } from './circuitBreaker.js';
-import { chatWithOpenAIStream } from './openai-stream.js';
-import { chatWithClaude, chatWithClaudeStream } from './claude.js';
-import { chatWithGemini, chatWithGeminiStream } from './gemini.js';
-import { chatWithPerplexity, chatWithPerplexityStream } from './perplexity.js';
-import { chatWithLuxia, streamLuxia } from './luxia.js';
-import { selectProvider } from './weightManager.js';
-import { analyzeIntent } from './intentAnalyzer.js';
+import { getCircuitBreaker, CircuitState } from './circuitBreaker.js';
+import { getProviderAdapter, getProviderDisplayName } from './providerRegistry.js';
+import {
+  selectProvider,
+  getProviderWeights,
+  getEffectiveWeights,
+  isAdaptiveWeightingEnabled,
+} from './weightManager.js';
+import { classifyIntent } from './intentAnalyzer.js';
+import { matchRoutingRule, RoutingRequestContext } from './routingRules.js';
+import { getSettingNumber } from '../../routes/admin/settings.js';
+import {
+  runA2APipeline,
+  resolveA2APipeline,
+  formatA2AResponse,
+  A2APipelineDefinition,
+  DEFAULT_A2A_PIPELINE,
+} from './a2aPipeline.js';
+import { isMixtureEnabled, runMixtureOfAgents } from './mixture.js';
+import { ToolCall } from './toolCalling.js';
+import { isToolCallingEnabled, ToolContext, ToolExecutionResult } from './tools.js';
+import { runToolLoop } from './toolLoop.js';
+import { PersonaSettings, getLanguageName } from './personas.js';
+import { GenerationParams, fitGenerationParams } from './generationParams.js';
+import { resolveCatalogModel } from './modelCatalog.js';
 
 const logger = createLogger({
   screenName: 'AI',
@@ -25,9 +42,19 @@ function getKoreanDate(): string {
   return `${year}년 ${month}월 ${day}일 (${weekday}요일)`;
 }
 
-function buildSystemPrompt(provider: string): string {
+// 페르소나가 있으면 페르소나의 지시와 응답 언어를 사용하고 시그니처는 페르소나 설정을 따름
+function buildSystemPrompt(provider: string, persona?: PersonaSettings): string {
   const koreanDate = getKoreanDate();
   const providerName = getProviderName(provider);
+
+  if (persona) {
+    const signature = persona.showSignature
+      ? `\n\n중요: 답변의 마지막에 반드시 다음 형식으로 시그니처를 추가하세요:\n---\n*${providerName}*`
+      : '';
+    return `오늘 날짜는 ${koreanDate}입니다. (한국 표준시 기준)
+${persona.systemPrompt}
+${getLanguageName(persona.language)}로 답변하세요.${signature}`;
+  }
   
   return `오늘 날짜는 ${koreanDate}입니다. (한국 표준시 기준)
 당신은 ${providerName} AI 어시스턴트입니다.
@@ -39,8 +66,12 @@ function buildSystemPrompt(provider: string): string {
 *${providerName}*`;
 }
 
-function addSystemPromptToMessages(messages: ChatMessage[], provider: string): ChatMessage[] {
-  const systemPrompt = buildSystemPrompt(provider);
+function addSystemPromptToMessages(
+  messages: ChatMessage[],
+  provider: string,
+  persona?: PersonaSettings
+): ChatMessage[] {
+  const systemPrompt = buildSystemPrompt(provider, persona);
   const hasSystemMessage = messages.some(m => m.role === 'system');
   
   if (hasSystemMessage) {
@@ -78,6 +109,10 @@ export interface StreamCallbacks {
   onAgentStart?: (provider: string, providerName: string, phase: string, round: number) => void;
   onAgentComplete?: (provider: string, fullContent: string) => void;
   onPhaseChange?: (phase: string) => void;
+  onProviderSwitch?: (fromProvider: string, toProvider: string, providerName: string, reason: string) => void;
+  onEarlyStop?: (phase: string, round: number, similarity: number) => void;
+  onToolCall?: (call: ToolCall) => void;
+  onToolResult?: (call: ToolCall, result: ToolExecutionResult) => void;
 }
 
 export type ChatMode = 'normal' | 'mix' | 'a2a';
@@ -85,6 +120,21 @@ export type ChatMode = 'normal' | 'mix' | 'a2a';
 export interface StreamOptions {
   preferredProvider?: string;
   chatMode?: ChatMode;
+  routingContext?: RoutingRequestContext;
+  a2aPipeline?: A2APipelineDefinition; // 미지정 시 기본 프리셋
+  signal?: AbortSignal; // 취소되면 그때까지의 부분 응답으로 onComplete
+  toolContext?: ToolContext; // 지정 시 일반 모드에서 도구 호출 지원 프로바이더는 도구 호출 루프로 응답
+  persona?: PersonaSettings; // 일반 모드의 시스템 프롬프트·기본 프로바이더/모델·temperature
+  generation?: GenerationParams; // 일반 모드 생성 파라미터 (model은 preferredProvider 지정 시에만 적용)
+}
+
+// 단일 프로바이더(일반 모드) 호출 옵션
+interface SingleProviderOptions {
+  model?: string;
+  signal?: AbortSignal;
+  toolContext?: ToolContext;
+  persona?: PersonaSettings;
+  generation?: GenerationParams;
 }
 
 export async function orchestrateAIStream(
@@ -104,10 +154,34 @@ export async function orchestrateAIStream(
       logType: 'info',
     });
     
+    const persona = chatMode === 'normal' ? options?.persona : undefined;
+    const generation = chatMode === 'normal' ? options?.generation : undefined;
+    let model: string | undefined;
+
+    // 요청에서 지정한 모델이 페르소나 모델보다 우선
+    if (generation?.model && provider && provider !== 'auto') {
+      model = generation.model;
+    }
+
+    // 자동 선택 요청이면 페르소나의 기본 프로바이더 사용 (모델은 같은 프로바이더일 때만)
+    if ((!provider || provider === 'auto') && persona?.provider) {
+      provider = persona.provider;
+    }
+    if (!model && persona?.model && provider === persona.provider) {
+      model = persona.model;
+    }
+
     if (!provider || provider === 'auto') {
-      const intent = analyzeIntent(userPrompt);
-      provider = await selectProvider(intent.preferredProvider) || 'openai';
-      logger.info('Auto-selected provider', { provider, logType: 'info' });
+      const intent = await classifyIntent(userPrompt);
+      const routing = await matchRoutingRule(userPrompt, intent, options?.routingContext);
+      provider = await selectProvider(routing?.provider || intent.preferredProvider) || 'openai';
+      model = routing && routing.provider === provider ? routing.model : undefined;
+      logger.info('Auto-selected provider', {
+        provider,
+        model,
+        ruleId: routing?.rule.id,
+        logType: 'info',
+      });
     }
     
     logger.info('Stream orchestration starting', {
@@ -118,18 +192,26 @@ export async function orchestrateAIStream(
 
     if (chatMode === 'a2a') {
       logger.info('=== A2A MODE DETECTED - Starting A2A handler ===', { logType: 'info' });
-      await handleA2AMode(messages, userPrompt, callbacks);
+      const pipeline = options?.a2aPipeline || (await resolveA2APipeline()) || DEFAULT_A2A_PIPELINE;
+      await handleA2AMode(userPrompt, callbacks, pipeline, options?.signal);
       return;
     }
     
-    if (chatMode === 'mix') {
+    if (chatMode === 'mix' && (await isMixtureEnabled())) {
       logger.info('=== MIX MODE DETECTED - Starting Mix handler ===', { logType: 'info' });
-      await handleMixOfAgents(messages, callbacks);
+      await handleMixOfAgents(messages, userPrompt, callbacks, options?.signal);
       return;
     }
     
     logger.info('=== NORMAL MODE - Starting single provider ===', { logType: 'info' });
-    await handleSingleProvider(messages, provider, callbacks);
+    const toolContext = options?.toolContext && (await isToolCallingEnabled()) ? options.toolContext : undefined;
+    await handleSingleProvider(messages, provider, callbacks, {
+      model,
+      signal: options?.signal,
+      toolContext,
+      persona,
+      generation,
+    });
   } catch (error) {
     logger.error('Stream orchestration error', {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -139,749 +221,242 @@ export async function orchestrateAIStream(
   }
 }
 
+// 스트리밍 폴백 순서: 요청 프로바이더 → 가중치 내림차순 (Circuit Breaker가 열린 프로바이더 제외)
+async function getFailoverCandidates(provider: string): Promise<string[]> {
+  const weights = (await isAdaptiveWeightingEnabled())
+    ? (await getEffectiveWeights()).map((w) => ({ ...w, weight: w.effectiveWeight }))
+    : await getProviderWeights();
+  const fallbacks = weights
+    .filter((w) => w.provider !== provider && w.isActive)
+    .sort((a, b) => b.weight - a.weight)
+    .map((w) => w.provider);
+
+  // 다른 인스턴스에서 열린 Circuit Breaker도 제외하도록 Redis 공유 상태로 갱신한 뒤 확인
+  await Promise.all(fallbacks.map((p) => getCircuitBreaker(p).refresh()));
+  return [provider, ...fallbacks.filter((p) => getCircuitBreaker(p).getState() !== CircuitState.OPEN)];
+}
+
 async function handleSingleProvider(
   messages: ChatMessage[],
   provider: string,
-  callbacks: StreamCallbacks
+  callbacks: StreamCallbacks,
+  options: SingleProviderOptions
 ): Promise<void> {
-  const circuitBreaker = getCircuitBreaker(provider);
-  const messagesWithSystem = addSystemPromptToMessages(messages, provider);
-  
-  await circuitBreaker.execute(
-    async () => {
-      if (provider === 'openai') {
-        let fullResponse = '';
-        await chatWithOpenAIStream(messagesWithSystem, {
-          onChunk: (chunk: string) => {
-            fullResponse += chunk;
-            callbacks.onChunk(chunk);
-          },
-          onComplete: () => {
-            callbacks.onComplete(fullResponse);
-          },
-          onError: (error: Error) => {
-            callbacks.onError(error);
-          },
-        });
-      } else if (provider === 'luxia') {
-        await handleLuxiaStream(messagesWithSystem, callbacks);
-      } else {
-        logger.info(`Starting non-streaming provider: ${provider}`, { 
-          provider,
-          logType: 'info' 
-        });
-        
-        let response: string | null = null;
-        
-        switch (provider) {
-          case 'claude':
-            logger.info('Calling Claude API...', { logType: 'info' });
-            response = await chatWithClaude(messagesWithSystem);
-            break;
-          case 'gemini':
-            logger.info('Calling Gemini API...', { logType: 'info' });
-            response = await chatWithGemini(messagesWithSystem);
-            break;
-          case 'perplexity':
-            logger.info('Calling Perplexity API...', { logType: 'info' });
-            response = await chatWithPerplexity(messagesWithSystem);
-            break;
-          default:
-            logger.info(`Unknown provider ${provider}, falling back to Claude`, { logType: 'warning' });
-            response = await chatWithClaude(messagesWithSystem);
-        }
-        
-        logger.info(`Provider ${provider} response received`, { 
-          provider,
-          hasResponse: !!response,
-          responseLength: response?.length || 0,
-          logType: response ? 'success' : 'warning' 
-        });
-        
-        if (response) {
-          await streamTextWithTypingEffect(response, callbacks.onChunk);
-          callbacks.onComplete(response);
-        } else {
-          logger.error(`No response from ${provider}`, { provider, logType: 'error' });
-          callbacks.onError(new Error(`No response from ${provider}`));
-        }
-      }
-    },
-    async () => {
-      callbacks.onError(new Error('Circuit breaker is open'));
+  const { model, signal } = options;
+  // 이미 이 토큰 수 이상 전송된 뒤 실패하면 폴백하지 않고 오류로 처리 (0이면 폴백 비활성)
+  const failoverTokenLimit = await getSettingNumber('AI_STREAM_FAILOVER_TOKENS');
+  const candidates = failoverTokenLimit > 0
+    ? await getFailoverCandidates(provider)
+    : [provider];
+
+  let lastError: Error | null = null;
+  let previousProvider: string | null = null;
+
+  for (const candidate of candidates) {
+    // 폴백 도중 취소되면 다음 프로바이더를 호출하지 않음
+    if (signal?.aborted) {
+      callbacks.onComplete('');
+      return;
     }
-  );
-}
-
-async function handleMixOfAgents(
-  messages: ChatMessage[],
-  callbacks: StreamCallbacks
-): Promise<void> {
-  const providers = ['openai', 'claude', 'gemini'];
-  const responses: { provider: string; response: string }[] = [];
-  let fullResponse = '';
-  
-  const headerText = '## Mix of Agents 모드\n\n여러 AI의 응답을 순차적으로 수집합니다.\n\n---\n\n';
-  fullResponse += headerText;
-  callbacks.onChunk(headerText);
-  
-  for (const provider of providers) {
-    try {
-      const providerHeader = `### ${getProviderName(provider)}\n\n`;
-      callbacks.onChunk(providerHeader);
-      fullResponse += providerHeader;
-      
-      const messagesWithSystem = addSystemPromptToMessages(messages, provider);
-      
-      if (provider === 'openai') {
-        let providerResponse = providerHeader;
-        
-        await chatWithOpenAIStream(messagesWithSystem, {
-          onChunk: (chunk: string) => {
-            providerResponse += chunk;
-            fullResponse += chunk;
-            callbacks.onChunk(chunk);
-          },
-          onComplete: () => {
-            const footer = '\n\n---\n\n';
-            providerResponse += footer;
-            fullResponse += footer;
-            callbacks.onChunk(footer);
-            responses.push({ provider, response: providerResponse });
-          },
-          onError: (error: Error) => {
-            const errorText = `\n\n*오류 발생: ${error.message}*\n\n---\n\n`;
-            fullResponse += errorText;
-            callbacks.onChunk(errorText);
-          },
-        });
-      } else {
-        let response: string | null = null;
-        
-        switch (provider) {
-          case 'claude':
-            response = await chatWithClaude(messagesWithSystem);
-            break;
-          case 'gemini':
-            response = await chatWithGemini(messagesWithSystem);
-            break;
-          case 'perplexity':
-            response = await chatWithPerplexity(messagesWithSystem);
-            break;
-        }
-        
-        if (response) {
-          let providerResponseText = '';
-          await streamTextWithTypingEffect(response, (word) => {
-            providerResponseText += word;
-            fullResponse += word;
-            callbacks.onChunk(word);
-          });
-          
-          const footer = '\n\n---\n\n';
-          fullResponse += footer;
-          callbacks.onChunk(footer);
-          responses.push({ provider, response: providerHeader + providerResponseText });
-        } else {
-          const noResponseText = '*응답을 받지 못했습니다.*\n\n---\n\n';
-          fullResponse += noResponseText;
-          callbacks.onChunk(noResponseText);
-        }
-      }
-    } catch (error) {
-      logger.warning(`Mix of agents: ${provider} failed`, {
-        error: error instanceof Error ? error.message : 'Unknown',
+    if (previousProvider && lastError) {
+      logger.warning('Stream failover to next provider', {
+        fromProvider: previousProvider,
+        toProvider: candidate,
+        reason: lastError.message,
         logType: 'warning',
       });
-      const errorText = `*오류 발생*\n\n---\n\n`;
-      fullResponse += errorText;
-      callbacks.onChunk(errorText);
+      callbacks.onProviderSwitch?.(
+        previousProvider,
+        candidate,
+        getProviderName(candidate),
+        lastError.message
+      );
     }
-  }
-  
-  if (responses.length === 0) {
-    callbacks.onError(new Error('All providers failed'));
-    return;
-  }
-  
-  callbacks.onComplete(fullResponse);
-}
 
-async function handleLuxiaStream(
-  messages: ChatMessage[],
-  callbacks: StreamCallbacks
-): Promise<void> {
-  try {
-    const stream = await streamLuxia(messages);
-    
-    if (!stream) {
-      logger.warning('Luxia stream not available, falling back to non-stream', {
-        logType: 'warning',
-      });
-      await handleLuxiaFallback(messages, callbacks);
+    // 요청·라우팅 규칙·페르소나의 모델은 해당 프로바이더에만 적용
+    const result = await streamFromProvider(messages, candidate, callbacks, {
+      ...options,
+      model: candidate === provider ? model : undefined,
+    });
+    if (!result.error) {
       return;
     }
-    
-    let fullResponse = '';
-    let buffer = '';
-    let hasError = false;
-    
-    stream.on('data', (chunk: Buffer) => {
-      buffer += chunk.toString();
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-      
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') {
-            continue;
-          }
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || '';
-            if (content) {
-              fullResponse += content;
-              callbacks.onChunk(content);
-            }
-          } catch {
-            // Skip unparseable lines
-          }
-        }
-      }
-    });
-    
-    await new Promise<void>((resolve, reject) => {
-      stream.on('end', () => {
-        if (fullResponse) {
-          callbacks.onComplete(fullResponse);
-        }
-        resolve();
-      });
-      stream.on('error', (error: Error) => {
-        hasError = true;
-        logger.warning('Luxia stream error, will fallback', {
-          error: error.message,
-          logType: 'warning',
-        });
-        reject(error);
-      });
-    });
-  } catch (error) {
-    logger.warning('Luxia stream failed, falling back to non-stream', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      logType: 'warning',
-    });
-    await handleLuxiaFallback(messages, callbacks);
-  }
-}
 
-async function handleLuxiaFallback(
-  messages: ChatMessage[],
-  callbacks: StreamCallbacks
-): Promise<void> {
-  try {
-    const response = await chatWithLuxia(messages);
-    if (response) {
-      await streamTextWithTypingEffect(response, callbacks.onChunk);
-      callbacks.onComplete(response);
-    } else {
-      callbacks.onError(new Error('Luxia API returned no response'));
+    lastError = result.error;
+    if (result.emittedTokens >= failoverTokenLimit) {
+      logger.warning('Stream failed after too many tokens, skipping failover', {
+        provider: candidate,
+        emittedTokens: result.emittedTokens,
+        failoverTokenLimit,
+        logType: 'warning',
+      });
+      break;
     }
-  } catch (error) {
-    callbacks.onError(error instanceof Error ? error : new Error('Luxia fallback failed'));
+    previousProvider = candidate;
   }
-}
-
-async function getOpenAINonStream(messages: ChatMessage[]): Promise<string | null> {
-  const { chatWithOpenAI } = await import('./openai.js');
-  return chatWithOpenAI(messages);
-}
 
-function getProviderName(provider: string): string {
-  const names: Record<string, string> = {
-    openai: 'OpenAI GPT-4.1',
-    claude: 'Claude Sonnet 4.5',
-    gemini: 'Google Gemini 2.5',
-    perplexity: 'Perplexity Sonar Pro',
-    luxia: 'Luxia AI',
-  };
-  return names[provider] || provider;
-}
-
-function formatMixedResponses(responses: { provider: string; response: string }[]): string {
-  let result = '---\n\n## Mix of Agents 종합 응답\n\n';
-  
-  for (const { provider, response } of responses) {
-    result += `### ${getProviderName(provider)}\n\n${response}\n\n---\n\n`;
-  }
-  
-  return result;
+  callbacks.onError(lastError || new Error('No available providers'));
 }
 
-async function streamProviderResponse(
-  provider: string,
+async function streamFromProvider(
   messages: ChatMessage[],
-  callbacks: StreamCallbacks
-): Promise<string> {
-  let fullResponse = '';
-  
-  const streamCallbacks = {
-    onChunk: (chunk: string) => {
-      fullResponse += chunk;
-      callbacks.onChunk(chunk);
-    },
-    onComplete: () => {},
-    onError: (error: Error) => {
-      throw error;
-    },
-  };
-
-  const streamCallbacksWithResponse = {
-    onChunk: (chunk: string) => {
-      fullResponse += chunk;
-      callbacks.onChunk(chunk);
-    },
-    onComplete: (_response: string) => {},
-    onError: (error: Error) => {
-      throw error;
-    },
-  };
-
-  switch (provider) {
-    case 'openai':
-      await chatWithOpenAIStream(messages, streamCallbacks);
-      break;
-    case 'claude':
-      await chatWithClaudeStream(messages, streamCallbacksWithResponse);
-      break;
-    case 'gemini':
-      await chatWithGeminiStream(messages, streamCallbacksWithResponse);
-      break;
-    case 'perplexity':
-      await chatWithPerplexityStream(messages, streamCallbacksWithResponse);
-      break;
-    default:
-      throw new Error(`Unknown provider: ${provider}`);
+  provider: string,
+  callbacks: StreamCallbacks,
+  options: SingleProviderOptions
+): Promise<{ error: Error | null; emittedTokens: number }> {
+  const { signal, toolContext, persona, generation } = options;
+  const adapter = getProviderAdapter(provider);
+  if (!adapter) {
+    return { error: new Error(`Unknown provider: ${provider}`), emittedTokens: 0 };
   }
 
-  return fullResponse;
-}
+  // 모델 미지정 시 카탈로그 기본 모델. 카탈로그에 없는 모델은 프로바이더 capabilities만 따름
+  const { model, entry: modelInfo } = await resolveCatalogModel(provider, options.model);
+  const useTools = !!toolContext && adapter.capabilities.toolCalling && modelInfo?.toolCalling !== false;
+  const useStreaming = adapter.capabilities.streaming && modelInfo?.streaming !== false;
 
-async function handleA2AMode(
-  messages: ChatMessage[],
-  userPrompt: string,
-  callbacks: StreamCallbacks
-): Promise<void> {
-  const providers = ['openai', 'claude', 'gemini', 'perplexity'];
-  const conversationHistory: { provider: string; content: string; phase: string; round: number }[] = [];
-  let fullResponse = '';
-
-  logger.info('A2A mode started', {
-    providers: providers.join(', '),
-    userPrompt: userPrompt.substring(0, 50),
-    logType: 'info',
-  });
+  const circuitBreaker = getCircuitBreaker(provider);
+  const messagesWithSystem = addSystemPromptToMessages(messages, provider, persona);
+  let emittedText = '';
+  // 요청에서 샘플링(temperature/topP)을 지정하지 않으면 페르소나 temperature 사용
+  const sampling = generation?.temperature !== undefined || generation?.topP !== undefined
+    ? generation
+    : { ...generation, temperature: persona?.temperature ?? undefined };
+  const chatOptions = {
+    ...fitGenerationParams(sampling || {}, adapter.capabilities.generation),
+    model,
+    signal,
+  };
 
-  callbacks.onPhaseChange?.('collaboration');
-
-  for (let round = 1; round <= 2; round++) {
-    for (const provider of providers) {
-      try {
-        logger.info(`A2A: Calling ${provider} for collaboration round ${round}`, {
-          logType: 'info',
-        });
-
-        callbacks.onAgentStart?.(provider, getProviderName(provider), 'collaboration', round);
-
-        const contextMessages = buildA2AContextMessages(
-          userPrompt,
-          conversationHistory,
-          provider,
-          'collaboration',
-          round
-        );
-
-        const providerResponse = await streamProviderResponse(provider, contextMessages, callbacks);
-        
-        logger.info(`A2A: ${provider} streaming completed`, {
-          responseLength: providerResponse.length,
-          logType: 'success',
-        });
-
-        if (providerResponse) {
-          fullResponse += providerResponse;
-          conversationHistory.push({
-            provider,
-            content: providerResponse,
-            phase: 'collaboration',
-            round,
-          });
-        }
-        
-        callbacks.onAgentComplete?.(provider, providerResponse);
-      } catch (error) {
-        logger.warning(`A2A: ${provider} failed in collaboration round ${round}`, {
-          error: error instanceof Error ? error.message : 'Unknown',
-          logType: 'warning',
-        });
-        const errorText = `오류: ${error instanceof Error ? error.message : '알 수 없는 오류'}`;
-        callbacks.onChunk(errorText);
-        callbacks.onAgentComplete?.(provider, errorText);
-      }
-    }
-  }
+  try {
+    await circuitBreaker.execute(async () => {
+      // 도구 호출 루프: 중간 호출은 비스트리밍이므로 최종 답변을 타이핑 효과로 전송
+      if (useTools && toolContext && adapter.chatWithTools) {
+        const result = await runToolLoop(adapter, messagesWithSystem, toolContext, {
+          onChunk: (chunk: string) => {
+            emittedText += chunk;
+            callbacks.onChunk(chunk);
+          },
+          onToolCall: callbacks.onToolCall,
+          onToolResult: callbacks.onToolResult,
+        }, chatOptions);
 
-  callbacks.onPhaseChange?.('debate');
-
-  for (let round = 1; round <= 2; round++) {
-    for (const provider of providers) {
-      try {
-        logger.info(`A2A: Calling ${provider} for debate round ${round}`, {
-          logType: 'info',
-        });
-
-        callbacks.onAgentStart?.(provider, getProviderName(provider), 'debate', round);
-
-        const contextMessages = buildA2AContextMessages(
-          userPrompt,
-          conversationHistory,
-          provider,
-          'debate',
-          round
-        );
-
-        const providerResponse = await streamProviderResponse(provider, contextMessages, callbacks);
-        
-        logger.info(`A2A: ${provider} debate streaming completed`, {
-          responseLength: providerResponse.length,
-          logType: 'success',
-        });
-
-        if (providerResponse) {
-          fullResponse += providerResponse;
-          conversationHistory.push({
-            provider,
-            content: providerResponse,
-            phase: 'debate',
-            round,
-          });
+        if (!result.streamed) {
+          await streamTextWithTypingEffect(result.content, callbacks.onChunk);
         }
-        
-        callbacks.onAgentComplete?.(provider, providerResponse);
-      } catch (error) {
-        logger.warning(`A2A: ${provider} failed in debate round ${round}`, {
-          error: error instanceof Error ? error.message : 'Unknown',
-          logType: 'warning',
-        });
-        const errorText = `오류: ${error instanceof Error ? error.message : '알 수 없는 오류'}`;
-        callbacks.onChunk(errorText);
-        callbacks.onAgentComplete?.(provider, errorText);
+        callbacks.onComplete(result.content);
+        return;
       }
-    }
-  }
-
-  logger.info('=== A2A: Starting synthesis phase ===', {
-    historyLength: conversationHistory.length,
-    logType: 'info',
-  });
 
-  callbacks.onPhaseChange?.('synthesis');
-  callbacks.onAgentStart?.('luxia', 'Luxia AI', 'synthesis', 1);
+      if (useStreaming) {
+        // 스트림 도중 발생한 오류는 Circuit Breaker 실패로 집계되도록 다시 throw
+        let streamError: Error | null = null;
+        let chunkCount = 0;
 
-  let synthesisResponse = '';
-  
-  try {
-    logger.info('A2A: Building synthesis messages for Luxia', { logType: 'info' });
-    const synthesisMessages = buildSynthesisMessages(userPrompt, conversationHistory);
-    
-    logger.info('A2A: Attempting Luxia streaming...', { logType: 'info' });
-    const stream = await streamLuxia(synthesisMessages);
-    
-    if (stream) {
-      logger.info('A2A: Luxia stream obtained, starting to read...', { logType: 'info' });
-      let buffer = '';
-      await new Promise<void>((resolve, reject) => {
-        stream.on('data', (chunk: Buffer) => {
-          buffer += chunk.toString();
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') continue;
-              try {
-                const parsed = JSON.parse(data);
-                const content = parsed.choices?.[0]?.delta?.content || '';
-                if (content) {
-                  synthesisResponse += content;
-                  fullResponse += content;
-                  callbacks.onChunk(content);
-                }
-              } catch {}
-            }
-          }
-        });
-        stream.on('end', () => {
-          logger.info('A2A: Luxia stream ended', { responseLength: synthesisResponse.length, logType: 'success' });
-          resolve();
-        });
-        stream.on('error', (error: Error) => {
-          logger.error('A2A: Luxia stream error event', { error: error.message, logType: 'error' });
-          reject(error);
-        });
-      });
-    } else {
-      logger.warning('A2A: Luxia stream is null, using non-stream fallback', { logType: 'warning' });
-      const luxiaResponse = await chatWithLuxia(synthesisMessages);
-      if (luxiaResponse) {
-        logger.info('A2A: Luxia non-stream response received', { responseLength: luxiaResponse.length, logType: 'success' });
-        const words = luxiaResponse.split(' ');
-        for (let i = 0; i < words.length; i++) {
-          const word = words[i] + (i < words.length - 1 ? ' ' : '');
-          synthesisResponse += word;
-          fullResponse += word;
-          callbacks.onChunk(word);
-          if (i % 5 === 0) {
-            await new Promise(resolve => setTimeout(resolve, 3));
-          }
-        }
-      }
-    }
-  } catch (luxiaError) {
-    logger.warning('Luxia failed, trying Claude fallback', {
-      error: luxiaError instanceof Error ? luxiaError.message : 'Unknown',
-      logType: 'warning',
-    });
-    
-    try {
-      const synthesisMessages = buildSynthesisMessages(userPrompt, conversationHistory);
-      callbacks.onChunk('Claude로 대체 종합 중...\n\n');
-      
-      await new Promise<void>((resolve, reject) => {
-        chatWithClaudeStream(synthesisMessages, {
+        await adapter.stream(messagesWithSystem, {
           onChunk: (chunk: string) => {
-            synthesisResponse += chunk;
-            fullResponse += chunk;
+            chunkCount++;
+            emittedText += chunk;
             callbacks.onChunk(chunk);
           },
-          onComplete: () => {
-            logger.info('A2A: Claude fallback completed', { responseLength: synthesisResponse.length, logType: 'success' });
-            resolve();
+          onComplete: callbacks.onComplete,
+          onError: (error: Error) => {
+            streamError = error;
           },
-          onError: (error: Error) => reject(error),
-        });
-      });
-    } catch (claudeError) {
-      logger.error('A2A synthesis failed completely', {
-        error: claudeError instanceof Error ? claudeError.message : 'Unknown',
-        logType: 'error',
-      });
-      const errorText = '최종 종합 중 오류가 발생했습니다.';
-      callbacks.onChunk(errorText);
-      synthesisResponse = errorText;
-      fullResponse += errorText;
-    }
-  }
-  
-  logger.info('A2A: Synthesis phase completed', { 
-    synthesisLength: synthesisResponse.length,
-    totalLength: fullResponse.length,
-    logType: 'success' 
-  });
-  
-  callbacks.onAgentComplete?.('luxia', synthesisResponse);
-  callbacks.onComplete(fullResponse);
-}
-
-function buildA2AContextMessages(
-  userPrompt: string,
-  history: { provider: string; content: string; phase: string; round: number }[],
-  currentProvider: string,
-  phase: 'collaboration' | 'debate',
-  round: number
-): ChatMessage[] {
-  const messages: ChatMessage[] = [];
-  const koreanDate = getKoreanDate();
-  const providerName = getProviderName(currentProvider);
-  
-  let systemPrompt = '';
-  
-  if (phase === 'collaboration') {
-    systemPrompt = `오늘 날짜는 ${koreanDate}입니다. (한국 표준시 기준)
+        }, chatOptions);
 
-당신은 ${providerName}입니다. 다른 AI 에이전트들과 함께 협력하여 사용자의 질문에 대한 최적의 답변을 도출하는 토론에 참여하고 있습니다.
-
-지금은 협력적 인사이트 공유 단계 ${round}라운드입니다.
-- 이전 발언자들의 의견을 참고하여 새로운 관점이나 보완적인 인사이트를 제시하세요.
-- 다른 에이전트의 좋은 아이디어는 인정하고 발전시키세요.
-- 간결하면서도 핵심적인 내용을 담아 2-3문단 이내로 답변하세요.
-- 한국어로 답변하세요.
-
-중요: 답변의 마지막에 반드시 다음 형식으로 시그니처를 추가하세요:
----
-*${providerName}*`;
-  } else {
-    systemPrompt = `오늘 날짜는 ${koreanDate}입니다. (한국 표준시 기준)
+        const failure = streamError as Error | null;
+        if (failure) {
+          logger.error(`Provider ${provider} stream failed`, {
+            provider,
+            chunkCount,
+            error: failure.message,
+            logType: 'error',
+          });
+          throw failure;
+        }
+        return;
+      }
 
-당신은 ${providerName}입니다. 다른 AI 에이전트들과 함께 토론하며 답변을 개선하고 있습니다.
+      logger.info(`Starting non-streaming provider: ${provider}`, { 
+        provider,
+        logType: 'info' 
+      });
 
-지금은 토론 및 보완 단계 ${round}라운드입니다.
-- 지금까지의 논의에서 부족한 점이나 보완이 필요한 부분을 지적하세요.
-- 건설적인 비평과 함께 개선된 인사이트를 제안하세요.
-- 다른 에이전트들의 의견 중 동의하지 않는 부분이 있다면 논리적으로 반박하세요.
-- 간결하면서도 핵심적인 내용을 담아 2-3문단 이내로 답변하세요.
-- 한국어로 답변하세요.
+      const response = await adapter.chat(messagesWithSystem, chatOptions);
+      
+      logger.info(`Provider ${provider} response received`, { 
+        provider,
+        hasResponse: !!response,
+        responseLength: response?.length || 0,
+        logType: response ? 'success' : 'warning' 
+      });
+      
+      if (!response) {
+        logger.error(`No response from ${provider}`, { provider, logType: 'error' });
+        throw new Error(`No response from ${provider}`);
+      }
 
-중요: 답변의 마지막에 반드시 다음 형식으로 시그니처를 추가하세요:
----
-*${providerName}*`;
-  }
+      // 비스트리밍 프로바이더는 호출을 중단할 수 없으므로 응답 후 취소 여부 확인
+      if (signal?.aborted) {
+        callbacks.onComplete('');
+        return;
+      }
 
-  messages.push({ role: 'system', content: systemPrompt });
+      await streamTextWithTypingEffect(response, callbacks.onChunk);
+      callbacks.onComplete(response);
+    });
 
-  let conversationContext = `사용자 질문: ${userPrompt}\n\n`;
-  
-  if (history.length > 0) {
-    conversationContext += '지금까지의 토론 내용:\n\n';
-    for (const entry of history) {
-      conversationContext += `[${getProviderName(entry.provider)} - ${entry.phase === 'collaboration' ? '협력' : '토론'} ${entry.round}라운드]\n${entry.content}\n\n`;
-    }
+    return { error: null, emittedTokens: 0 };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error : new Error('Unknown error'),
+      emittedTokens: adapter.countTokens(emittedText),
+    };
   }
-
-  messages.push({ role: 'user', content: conversationContext });
-
-  return messages;
 }
 
-function buildSynthesisMessages(
+async function handleMixOfAgents(
+  messages: ChatMessage[],
   userPrompt: string,
-  history: { provider: string; content: string; phase: string; round: number }[]
-): ChatMessage[] {
-  const koreanDate = getKoreanDate();
-  
-  const systemPrompt = `오늘 날짜는 ${koreanDate}입니다. (한국 표준시 기준)
-
-당신은 Luxia AI입니다. 여러 AI 에이전트들의 협력적 토론 결과를 종합하여 최종 답변을 제시하는 역할을 맡고 있습니다.
-
-반드시 다음 형식으로 답변을 구성하세요:
-
-## 📋 종합 Summary
-
-각 AI의 핵심 인사이트를 불릿 포인트로 요약하고 간단한 해설을 추가하세요.
-
-### 🤖 OpenAI GPT-4.1
-• **핵심 포인트 1**: 해설 내용
-• **핵심 포인트 2**: 해설 내용
-
-### 🧠 Claude Sonnet 4.5
-• **핵심 포인트 1**: 해설 내용
-• **핵심 포인트 2**: 해설 내용
-
-### ✨ Gemini 2.5 Flash
-• **핵심 포인트 1**: 해설 내용
-• **핵심 포인트 2**: 해설 내용
-
-### 🔍 Perplexity Sonar Pro
-• **핵심 포인트 1**: 해설 내용
-• **핵심 포인트 2**: 해설 내용
-
----
-
-## 🌟 Luxia AI 최종 종합 답변
-
-위 AI들의 인사이트를 바탕으로 종합적인 최종 답변을 작성하세요.
-
----
-
-### 💡 핵심 결론
-
-가장 중요한 결론을 간결하게 정리하세요.
-
----
-*Luxia AI*
-
-작성 시 유의사항:
-1. 각 AI별 섹션 사이에 충분한 간격을 두세요.
-2. 불릿 포인트는 핵심 내용을 간결하게 정리하고, 해설은 1-2문장으로 작성하세요.
-3. 토론에서 합의된 내용과 상충되는 의견을 균형 있게 반영하세요.
-4. 실용적이고 실행 가능한 결론을 도출하세요.
-5. 한국어로 답변하세요.`;
-
-  let conversationSummary = `원래 질문: ${userPrompt}\n\n=== 토론 전체 내용 ===\n\n`;
-
-  const collaborationEntries = history.filter(h => h.phase === 'collaboration');
-  const debateEntries = history.filter(h => h.phase === 'debate');
-
-  if (collaborationEntries.length > 0) {
-    conversationSummary += '## 협력적 인사이트 공유 단계\n\n';
-    for (const entry of collaborationEntries) {
-      conversationSummary += `**${getProviderName(entry.provider)}** (라운드 ${entry.round}):\n${entry.content}\n\n`;
-    }
-  }
+  callbacks: StreamCallbacks,
+  signal?: AbortSignal
+): Promise<void> {
+  // 초안은 동시에 수집하고 심사 모델의 통합 답변만 스트리밍
+  const result = await runMixtureOfAgents(messages, userPrompt, {
+    onPhaseChange: callbacks.onPhaseChange,
+    onAgentStart: callbacks.onAgentStart,
+    onAgentComplete: callbacks.onAgentComplete,
+    onChunk: callbacks.onChunk,
+    signal,
+  });
 
-  if (debateEntries.length > 0) {
-    conversationSummary += '## 토론 및 보완 단계\n\n';
-    for (const entry of debateEntries) {
-      conversationSummary += `**${getProviderName(entry.provider)}** (라운드 ${entry.round}):\n${entry.content}\n\n`;
-    }
+  if (!result) {
+    callbacks.onError(new Error('All providers failed'));
+    return;
   }
 
-  conversationSummary += '\n위의 토론 내용을 바탕으로 종합 Summary와 최종 답변을 작성해주세요.';
+  callbacks.onComplete(result.response);
+}
 
-  return [
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: conversationSummary },
-  ];
+function getProviderName(provider: string): string {
+  return getProviderDisplayName(provider);
 }
 
-async function getProviderResponse(
-  provider: string,
-  messages: ChatMessage[]
-): Promise<string | null> {
-  logger.info(`getProviderResponse: Starting call to ${provider}`, {
-    messageCount: messages.length,
-    logType: 'info',
-  });
-  
-  try {
-    let response: string | null = null;
-    
-    switch (provider) {
-      case 'openai':
-        response = await getOpenAINonStream(messages);
-        break;
-      case 'claude':
-        response = await chatWithClaude(messages);
-        break;
-      case 'gemini':
-        response = await chatWithGemini(messages);
-        break;
-      case 'perplexity':
-        response = await chatWithPerplexity(messages);
-        break;
-      case 'luxia':
-        response = await chatWithLuxia(messages);
-        break;
-      default:
-        logger.warning(`getProviderResponse: Unknown provider ${provider}`, { logType: 'warning' });
-        return null;
-    }
-    
-    logger.info(`getProviderResponse: ${provider} completed`, {
-      hasResponse: !!response,
-      responseLength: response?.length || 0,
-      logType: response ? 'success' : 'warning',
-    });
-    
-    return response;
-  } catch (error) {
-    logger.error(`getProviderResponse: ${provider} error`, {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-      logType: 'error',
-    });
-    throw error;
-  }
+async function handleA2AMode(
+  userPrompt: string,
+  callbacks: StreamCallbacks,
+  pipeline: A2APipelineDefinition,
+  signal?: AbortSignal
+): Promise<void> {
+  // SSE 청크에는 에이전트 구분이 없으므로 항상 순차 실행
+  const result = await runA2APipeline({ ...pipeline, parallel: false }, userPrompt, {
+    onPhaseChange: callbacks.onPhaseChange,
+    onAgentStart: callbacks.onAgentStart,
+    onChunk: (_provider, _phase, _round, chunk) => callbacks.onChunk(chunk),
+    onAgentComplete: (provider, _phase, _round, content) => callbacks.onAgentComplete?.(provider, content),
+    onEarlyStop: (phase, round, similarity) => callbacks.onEarlyStop?.(phase, round, similarity),
+  }, { signal });
+
+  callbacks.onComplete(formatA2AResponse(result, pipeline));
 }
@@ -1,8 +1,13 @@
 import { routeAndChat, ChatMessage, RoutingResult } from './router.js';
 import { createLogger } from '../../utils/logger.js';
 import { getCircuitBreaker } from './circuitBreaker.js';
-import { getCache, setCache, CACHE_PREFIXES } from '../../utils/cache.js';
 import { recordAIRequest } from '../../utils/metrics.js';
+import { getProviderAdapter, listProviderAdapters } from './providerRegistry.js';
+import { RoutingRequestContext } from './routingRules.js';
+import { getCachedResponse, setCachedResponse, ResponseCacheScope } from './responseCache.js';
+import { isMixtureEnabled, runMixtureOfAgents } from './mixture.js';
+import { GenerationParams, fitGenerationParams, hasGenerationParams } from './generationParams.js';
+import { resolveCatalogModel } from './modelCatalog.js';
 
 const logger = createLogger({
   screenName: 'AI',
@@ -12,6 +17,8 @@ const logger = createLogger({
 export interface OrchestrationOptions {
   useMultipleProviders?: boolean;
   fallbackProviders?: string[];
+  routingContext?: RoutingRequestContext;
+  generation?: GenerationParams; // 자동 라우팅이므로 model 제외, 지정 시 응답 캐시 미사용
 }
 
 export async function orchestrateAI(
@@ -20,31 +27,50 @@ export async function orchestrateAI(
   options?: OrchestrationOptions
 ): Promise<string | null> {
   const startTime = Date.now();
+  const useMixture = !!options?.useMultipleProviders && (await isMixtureEnabled());
+  // 자동 라우팅 요청이므로 요청 기준 프로바이더는 'auto' (Mix of Agents는 'mix')
+  const cacheScope: ResponseCacheScope = { provider: useMixture ? 'mix' : 'auto' };
+  const generation = options?.generation;
+  // 생성 파라미터를 지정한 요청은 기본 응답과 구분되지 않으므로 캐시하지 않음
+  const useCache = !hasGenerationParams(generation);
+  const cacheResponse = async (response: string) => {
+    if (useCache) {
+      await setCachedResponse(messages, cacheScope, response);
+    }
+  };
   
   try {
-    // 캐시 키 생성 (프롬프트 기반)
-    const cacheKey = `orchestrate:${Buffer.from(userPrompt).toString('base64').substring(0, 50)}`;
-    
-    // 캐시 확인
-    const cached = await getCache<string>(cacheKey, {
-      prefix: CACHE_PREFIXES.API_RESPONSE,
-      ttl: 3600, // 1시간
-    });
+    // 캐시 확인 (전체 대화 기준, 의미 캐시 설정 시 유사 질문 포함)
+    const cached = useCache ? await getCachedResponse(messages, cacheScope) : null;
     
     if (cached) {
       logger.info('AI response retrieved from cache', {
+        semantic: cached.semantic,
         logType: 'success',
       });
-      return cached;
+      return cached.response;
+    }
+
+    // 다중 프로바이더: 초안 수집 후 심사 모델이 통합 (초안이 없으면 단일 라우팅으로 진행)
+    if (useMixture) {
+      const mixture = await runMixtureOfAgents(messages, userPrompt);
+      if (mixture) {
+        await cacheResponse(mixture.response);
+
+        const duration = Date.now() - startTime;
+        recordAIRequest('mix', 'success', duration);
+
+        return mixture.response;
+      }
     }
 
     // 기본 라우팅 및 채팅
-    const result = await routeAndChat(messages, userPrompt);
+    const result = await routeAndChat(messages, userPrompt, options?.routingContext, generation);
 
     if (!result) {
       // 폴백 프로바이더 시도 (자동 폴백)
-      const allProviders: Array<'openai' | 'claude' | 'gemini' | 'perplexity' | 'luxia'> = 
-        (options?.fallbackProviders as Array<'openai' | 'claude' | 'gemini' | 'perplexity' | 'luxia'>) || ['openai', 'claude', 'gemini', 'perplexity', 'luxia'];
+      const allProviders =
+        options?.fallbackProviders || listProviderAdapters().map((adapter) => adapter.id);
       
       logger.info('Trying fallback providers', {
         fallbacks: allProviders,
@@ -53,26 +79,17 @@ export async function orchestrateAI(
 
       for (const provider of allProviders) {
         try {
-          let response: string | null = null;
-
-          switch (provider) {
-            case 'openai':
-              response = await chatWithOpenAI(messages);
-              break;
-            case 'claude':
-              response = await chatWithClaude(messages);
-              break;
-            case 'gemini':
-              response = await chatWithGemini(messages);
-              break;
-            case 'perplexity':
-              response = await chatWithPerplexity(messages);
-              break;
-            case 'luxia':
-              response = await chatWithLuxia(messages);
-              break;
+          const adapter = getProviderAdapter(provider);
+          if (!adapter) {
+            continue;
           }
 
+          const { model } = await resolveCatalogModel(provider);
+          const response = await adapter.chat(messages, {
+            ...(generation ? fitGenerationParams(generation, adapter.capabilities.generation) : {}),
+            model,
+          });
+
           if (response) {
             logger.success('Fallback provider succeeded', {
               provider,
@@ -84,10 +101,7 @@ export async function orchestrateAI(
             recordAIRequest(provider, 'success', duration);
             
             // 응답 캐싱
-            await setCache(cacheKey, response, {
-              prefix: CACHE_PREFIXES.API_RESPONSE,
-              ttl: 3600,
-            });
+            await cacheResponse(response);
             
             return response;
           }
@@ -113,18 +127,9 @@ export async function orchestrateAI(
       return null;
     }
 
-    // 다중 프로바이더 사용 옵션 (향후 구현)
-    if (options?.useMultipleProviders) {
-      // 여러 프로바이더의 응답을 결합하는 로직
-      // 현재는 단일 응답 반환
-    }
-
     // 응답 캐싱
     if (result.response) {
-      await setCache(cacheKey, result.response, {
-        prefix: CACHE_PREFIXES.API_RESPONSE,
-        ttl: 3600, // 1시간
-      });
+      await cacheResponse(result.response);
       
       // 메트릭 기록
       const duration = Date.now() - startTime;
@@ -145,10 +150,3 @@ export async function orchestrateAI(
     return null;
   }
 }
-
-import { chatWithOpenAI } from './openai.js';
-import { chatWithClaude } from './claude.js';
-import { chatWithGemini } from './gemini.js';
-import { chatWithPerplexity } from './perplexity.js';
-import { chatWithLuxia } from './luxia.js';
-
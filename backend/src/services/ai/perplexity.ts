@@ -1,46 +1,26 @@
 import axios from 'axios';
 import { createLogger } from '../../utils/logger.js';
-import { decrypt } from '../../utils/encryption.js';
-import { getPrismaClient } from '../../utils/database.js';
+import { withPooledApiKey } from './keyPool.js';
+import { waitForStreamEnd } from './cancellation.js';
+import { estimateTokens, estimateMessagesTokens, TokenUsage } from './tokenCounter.js';
 
-const prisma = getPrismaClient();
 const logger = createLogger({
   screenName: 'AI',
   callerFunction: 'PerplexityClient',
 });
 
-export async function getPerplexityApiKey(): Promise<string | null> {
-  try {
-    const apiKey = await prisma.apiKey.findFirst({
-      where: {
-        provider: 'perplexity',
-        isActive: true,
-      },
-      orderBy: {
-        weight: 'desc',
-      },
-    });
-
-    if (!apiKey) {
-      logger.warning('Perplexity API key not found', {
-        logType: 'warning',
-      });
-      return null;
-    }
-
-    return decrypt(apiKey.apiKey);
-  } catch (error) {
-    logger.error('Failed to get Perplexity API key', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      logType: 'error',
-    });
-    return null;
-  }
+export interface PerplexityChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  onUsage?: (usage: TokenUsage) => void;
+  signal?: AbortSignal;
 }
 
 export async function chatWithPerplexity(
   messages: Array<{ role: string; content: string }>,
-  options?: { model?: string }
+  options?: PerplexityChatOptions
 ): Promise<string | null> {
   const modelName = options?.model || 'sonar-pro';
   
@@ -51,35 +31,46 @@ export async function chatWithPerplexity(
   });
   
   try {
-    const apiKey = await getPerplexityApiKey();
-    if (!apiKey) {
+    const result = await withPooledApiKey('perplexity', async (lease) => {
+      const response = await axios.post(
+        'https://api.perplexity.ai/chat/completions',
+        {
+          model: modelName,
+          messages: messages.map((m) => ({
+            role: m.role,
+            content: m.content,
+          })),
+          temperature: options?.temperature ?? 0.7,
+          max_tokens: options?.maxTokens || 4096,
+          top_p: options?.topP,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${lease.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: 60000,
+        }
+      );
+
+      lease.reportTokens(response.data.usage?.total_tokens || 0);
+      if (response.data.usage) {
+        options?.onUsage?.({
+          promptTokens: response.data.usage.prompt_tokens || 0,
+          completionTokens: response.data.usage.completion_tokens || 0,
+        });
+      }
+      return { content: (response.data.choices[0]?.message?.content as string) || null };
+    });
+
+    if (!result) {
       logger.warning('Perplexity API key not available', {
         logType: 'warning',
       });
       return null;
     }
 
-    const response = await axios.post(
-      'https://api.perplexity.ai/chat/completions',
-      {
-        model: modelName,
-        messages: messages.map((m) => ({
-          role: m.role,
-          content: m.content,
-        })),
-        temperature: 0.7,
-        max_tokens: 4096,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        timeout: 60000,
-      }
-    );
-
-    const content = response.data.choices[0]?.message?.content || null;
+    const content = result.content;
     
     logger.info('Perplexity chat response received', {
       hasContent: !!content,
@@ -109,9 +100,10 @@ export interface StreamCallbacks {
 export async function chatWithPerplexityStream(
   messages: Array<{ role: string; content: string }>,
   callbacks: StreamCallbacks,
-  options?: { model?: string }
+  options?: PerplexityChatOptions
 ): Promise<void> {
   const modelName = options?.model || 'sonar-pro';
+  let fullResponse = '';
   
   logger.info('Perplexity stream starting', {
     model: modelName,
@@ -120,12 +112,6 @@ export async function chatWithPerplexityStream(
   });
   
   try {
-    const apiKey = await getPerplexityApiKey();
-    if (!apiKey) {
-      callbacks.onError(new Error('Perplexity API key not available'));
-      return;
-    }
-
     const filteredMessages = messages
       .filter((m) => m.role === 'user' || m.role === 'assistant' || m.role === 'system')
       .map((m) => ({
@@ -133,71 +119,96 @@ export async function chatWithPerplexityStream(
         content: m.content,
       }));
 
-    const response = await axios.post(
-      'https://api.perplexity.ai/chat/completions',
-      {
-        model: modelName,
-        messages: filteredMessages,
-        temperature: 0.7,
-        max_tokens: 4096,
-        stream: true,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          Accept: 'text/event-stream',
-        },
-        timeout: 120000,
-        responseType: 'stream',
-      }
-    );
+    let usage: TokenUsage | null = null;
 
-    let fullResponse = '';
-    let buffer = '';
+    const result = await withPooledApiKey(
+      'perplexity',
+      async (lease) => {
+        const response = await axios.post(
+          'https://api.perplexity.ai/chat/completions',
+          {
+            model: modelName,
+            messages: filteredMessages,
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens || 4096,
+            top_p: options?.topP,
+            stream: true,
+          },
+          {
+            headers: {
+              Authorization: `Bearer ${lease.apiKey}`,
+              'Content-Type': 'application/json',
+              Accept: 'text/event-stream',
+            },
+            timeout: 120000,
+            responseType: 'stream',
+            signal: options?.signal,
+          }
+        );
 
-    response.data.on('data', (chunk: Buffer) => {
-      buffer += chunk.toString();
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
+        let buffer = '';
 
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') {
-            continue;
-          }
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || '';
-            if (content) {
-              fullResponse += content;
-              callbacks.onChunk(content);
+        response.data.on('data', (chunk: Buffer) => {
+          buffer += chunk.toString();
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            if (line.startsWith('data: ')) {
+              const data = line.slice(6);
+              if (data === '[DONE]') {
+                continue;
+              }
+              try {
+                const parsed = JSON.parse(data);
+                if (parsed.usage) {
+                  usage = {
+                    promptTokens: parsed.usage.prompt_tokens || 0,
+                    completionTokens: parsed.usage.completion_tokens || 0,
+                  };
+                }
+                const content = parsed.choices?.[0]?.delta?.content || '';
+                if (content) {
+                  fullResponse += content;
+                  callbacks.onChunk(content);
+                }
+              } catch {
+              }
             }
-          } catch {
           }
-        }
-      }
-    });
-
-    await new Promise<void>((resolve, reject) => {
-      response.data.on('end', () => {
-        logger.info('Perplexity stream completed', {
-          responseLength: fullResponse.length,
-          logType: 'success',
-        });
-        callbacks.onComplete(fullResponse);
-        resolve();
-      });
-      response.data.on('error', (error: Error) => {
-        logger.error('Perplexity stream error', {
-          error: error.message,
-          logType: 'error',
         });
-        reject(error);
-      });
+
+        await waitForStreamEnd(response.data, options?.signal);
+
+        lease.reportTokens(
+          usage
+            ? usage.promptTokens + usage.completionTokens
+            : estimateMessagesTokens(messages) + estimateTokens(fullResponse)
+        );
+        return true;
+      },
+      { canRetry: () => fullResponse.length === 0 }
+    );
+
+    if (!result) {
+      callbacks.onError(new Error('Perplexity API key not available'));
+      return;
+    }
+
+    logger.info('Perplexity stream completed', {
+      responseLength: fullResponse.length,
+      logType: 'success',
     });
+    if (usage) {
+      options?.onUsage?.(usage);
+    }
+    callbacks.onComplete(fullResponse);
   } catch (error: any) {
+    if (options?.signal?.aborted) {
+      logger.info('Perplexity stream cancelled', { responseLength: fullResponse.length, logType: 'info' });
+      callbacks.onComplete(fullResponse);
+      return;
+    }
     logger.error('Perplexity stream error', {
       error: error instanceof Error ? error.message : 'Unknown error',
       status: error?.response?.status,
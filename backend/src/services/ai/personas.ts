@@ -0,0 +1,113 @@
+// 어시스턴트 페르소나 조회와 대화 연결
+// 페르소나는 본인 소유 또는 공유(is_shared) 페르소나만 사용할 수 있고, 대화에는 metadata.personaId로 연결
+
+import { Persona, Prisma } from '@prisma/client';
+import { getPrismaClient } from '../../utils/database.js';
+import { createLogger } from '../../utils/logger.js';
+
+const prisma = getPrismaClient();
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'Personas',
+});
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  ko: '한국어',
+  en: '영어',
+  ja: '일본어',
+  zh: '중국어',
+};
+
+export interface PersonaSettings {
+  id: number;
+  name: string;
+  systemPrompt: string;
+  language: string;
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  allowedTools: string[] | null; // null: 모든 도구 허용, 'mcp': 모든 MCP 도구
+  showSignature: boolean;
+}
+
+export function getLanguageName(language: string): string {
+  return LANGUAGE_NAMES[language] || language;
+}
+
+export function toPersonaSettings(persona: Persona): PersonaSettings {
+  return {
+    id: persona.id,
+    name: persona.name,
+    systemPrompt: persona.systemPrompt,
+    language: persona.language || 'ko',
+    provider: persona.provider || null,
+    model: persona.model || null,
+    temperature: persona.temperature === null ? null : Number(persona.temperature),
+    allowedTools: Array.isArray(persona.allowedTools)
+      ? persona.allowedTools.filter((tool): tool is string => typeof tool === 'string')
+      : null,
+    showSignature: persona.showSignature,
+  };
+}
+
+/**
+ * 사용자가 사용할 수 있는 페르소나 조회 (본인 소유 또는 공유)
+ */
+export async function getAccessiblePersona(personaId: number, userId: number): Promise<PersonaSettings | null> {
+  const persona = await prisma.persona.findFirst({
+    where: { id: personaId, OR: [{ userId }, { isShared: true }] },
+  });
+  return persona ? toPersonaSettings(persona) : null;
+}
+
+export function getPersonaIdFromMetadata(metadata: unknown): number | null {
+  const personaId = (metadata as { personaId?: unknown } | null)?.personaId;
+  return typeof personaId === 'number' ? personaId : null;
+}
+
+/**
+ * 대화에 연결된 페르소나. 삭제되었거나 공유가 해제된 경우 null
+ */
+export async function getConversationPersona(conversationId: number, userId: number): Promise<PersonaSettings | null> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { metadata: true },
+  });
+  const personaId = getPersonaIdFromMetadata(conversation?.metadata);
+  return personaId ? getAccessiblePersona(personaId, userId) : null;
+}
+
+/**
+ * 대화에 페르소나 연결 (null이면 해제). 다른 메타데이터는 유지하며, 본인 대화가 아니면 false
+ */
+export async function setConversationPersona(
+  conversationId: number,
+  userId: number,
+  personaId: number | null
+): Promise<boolean> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { userId: true, metadata: true },
+  });
+  if (!conversation || conversation.userId !== userId) {
+    return false;
+  }
+
+  // 기존 metadata의 다른 키는 유지
+  const stored = conversation.metadata;
+  const { personaId: _previous, ...rest }: Prisma.JsonObject =
+    stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  const metadata: Prisma.InputJsonObject = personaId ? { ...rest, personaId } : rest;
+
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { metadata },
+  });
+
+  logger.info('Conversation persona updated', {
+    conversationId,
+    personaId,
+    logType: 'info',
+  });
+  return true;
+}
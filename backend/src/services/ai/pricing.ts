@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { createLogger } from '../../utils/logger.js';
+import { getSetting, onSettingChanged } from '../../routes/admin/settings.js';
+import { TokenUsage } from './tokenCounter.js';
+import { getModelCatalog } from './modelCatalog.js';
+
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'Pricing',
+});
+
+// USD / 100만 토큰
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// 공개 가격 기준 기본값 (모델 카탈로그 가격, SystemSettings AI_MODEL_PRICES 순으로 재정의)
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'sonar-pro': { input: 3, output: 15 },
+  sonar: { input: 1, output: 1 },
+};
+
+const modelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+});
+
+async function getCatalogPrices(): Promise<Record<string, ModelPrice>> {
+  const prices: Record<string, ModelPrice> = {};
+  for (const models of Object.values(await getModelCatalog())) {
+    for (const model of models) {
+      if (model.price) {
+        prices[model.id] = model.price;
+      }
+    }
+  }
+  return prices;
+}
+
+// 호출마다 설정·카탈로그를 조회하지 않도록 가격표 캐시 (이 인스턴스에서 변경하면 즉시, 다른 인스턴스는 TTL 후 반영)
+const PRICE_CACHE_TTL_MS = 30 * 1000;
+let cachedPrices: Record<string, ModelPrice> | null = null;
+let cachedAt = 0;
+
+export function invalidateModelPricesCache(): void {
+  cachedPrices = null;
+  cachedAt = 0;
+}
+
+onSettingChanged(['AI_MODEL_PRICES', 'AI_MODEL_CATALOG'], invalidateModelPricesCache);
+
+export async function getModelPrices(): Promise<Record<string, ModelPrice>> {
+  if (cachedPrices && Date.now() - cachedAt < PRICE_CACHE_TTL_MS) {
+    return cachedPrices;
+  }
+
+  cachedPrices = await loadModelPrices();
+  cachedAt = Date.now();
+  return cachedPrices;
+}
+
+async function loadModelPrices(): Promise<Record<string, ModelPrice>> {
+  const defaults = { ...DEFAULT_MODEL_PRICES, ...(await getCatalogPrices()) };
+  const raw = await getSetting('AI_MODEL_PRICES');
+  if (!raw) {
+    return defaults;
+  }
+
+  try {
+    const parsed = z.record(modelPriceSchema).safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      throw new Error(parsed.error.message);
+    }
+    return { ...defaults, ...parsed.data };
+  } catch {
+    logger.warning('Invalid AI_MODEL_PRICES setting, using defaults', {
+      logType: 'warning',
+    });
+    return defaults;
+  }
+}
+
+// 정확히 일치하는 모델이 없으면 가장 긴 접두사로 매칭 (날짜가 붙은 모델명 대응)
+export function findModelPrice(
+  model: string | undefined,
+  prices: Record<string, ModelPrice>
+): ModelPrice | null {
+  if (!model) {
+    return null;
+  }
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+// 가격 정보가 없는 모델(자체 호스팅 등)은 0
+export function calculateCost(usage: TokenUsage, price: ModelPrice | null): number {
+  if (!price) {
+    return 0;
+  }
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export async function getUsageCost(usage: TokenUsage): Promise<number> {
+  const prices = await getModelPrices();
+  return calculateCost(usage, findModelPrice(usage.model, prices));
+}
@@ -0,0 +1,359 @@
+import { chatWithOpenAI, chatWithOpenAITools } from './openai.js';
+import { chatWithOpenAIStream } from './openai-stream.js';
+import { chatWithClaude, chatWithClaudeStream, chatWithClaudeTools } from './claude.js';
+import { chatWithGemini, chatWithGeminiStream } from './gemini.js';
+import { chatWithPerplexity, chatWithPerplexityStream } from './perplexity.js';
+import { chatWithLuxia, chatWithLuxiaStream } from './luxia.js';
+import {
+  chatWithOpenAICompatible,
+  chatWithOpenAICompatibleStream,
+  chatWithOpenAICompatibleTools,
+  OPENAI_COMPATIBLE_PROVIDER,
+} from './openaiCompatible.js';
+import { estimateTokens, TokenUsage } from './tokenCounter.js';
+import { ToolSchema, ToolChatMessage, ToolChatResult, getToolMessageText } from './toolCalling.js';
+import { GenerationLimits } from './generationParams.js';
+import { recordProviderRequest } from './providerStats.js';
+import { recordUsage } from './usageTracker.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'ProviderRegistry',
+});
+
+export interface ProviderMessage {
+  role: string;
+  content: string;
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean; // 일반 모드에서 토큰 단위 스트리밍 사용 여부
+  systemPrompt: boolean; // system 역할 메시지 지원 여부
+  webSearch: boolean; // 응답 시 실시간 웹 검색 수행 여부
+  toolCalling: boolean; // 도구 호출(function calling) 지원 여부 (chatWithTools 구현)
+  jsonMode: boolean; // 네이티브 JSON 응답 모드 지원 여부 (chat의 jsonMode 옵션 적용)
+  maxContextTokens: number;
+  generation: GenerationLimits; // 요청별 생성 파라미터 한도
+}
+
+export interface ProviderChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  seed?: number;
+  onUsage?: (usage: TokenUsage) => void;
+  signal?: AbortSignal; // 취소 시 스트림은 부분 응답으로 onComplete
+  jsonMode?: boolean; // JSON 객체만 응답 (capabilities.jsonMode가 아닌 프로바이더는 무시)
+}
+
+export interface ProviderStreamCallbacks {
+  onChunk: (chunk: string) => void;
+  onComplete: (fullResponse: string) => void;
+  onError: (error: Error) => void;
+}
+
+export interface ProviderAdapter {
+  id: string;
+  displayName: string;
+  capabilities: ProviderCapabilities;
+  defaultModel: string; // 모델 카탈로그(modelCatalog.ts)를 읽지 못했을 때의 기본 모델
+  chat: (messages: ProviderMessage[], options?: ProviderChatOptions) => Promise<string | null>;
+  stream: (
+    messages: ProviderMessage[],
+    callbacks: ProviderStreamCallbacks,
+    options?: ProviderChatOptions
+  ) => Promise<void>;
+  chatWithTools?: (
+    messages: ToolChatMessage[],
+    tools: ToolSchema[],
+    options?: ProviderChatOptions
+  ) => Promise<ToolChatResult>;
+  countTokens: (text: string) => number;
+}
+
+const adapters = new Map<string, ProviderAdapter>();
+
+// 벤더가 usage를 주지 않은 경우 어댑터 토큰 계산기로 추정
+function resolveUsage(
+  adapter: ProviderAdapter,
+  messages: ProviderMessage[],
+  response: string,
+  reported: TokenUsage | null,
+  options?: ProviderChatOptions
+): TokenUsage {
+  const model = reported?.model || options?.model || adapter.defaultModel || undefined;
+  if (reported) {
+    return { ...reported, model };
+  }
+  return {
+    promptTokens: messages.reduce((sum, m) => sum + adapter.countTokens(m.content) + 4, 0),
+    completionTokens: adapter.countTokens(response),
+    model,
+    estimated: true,
+  };
+}
+
+// 모든 호출 경로의 성공률/지연 시간/토큰 사용량을 통계와 요청별 사용량 추적에 반영
+function withRequestStats(adapter: ProviderAdapter): ProviderAdapter {
+  const finish = (
+    status: 'success' | 'error',
+    startTime: number,
+    usage: TokenUsage | null,
+    options?: ProviderChatOptions
+  ) => {
+    recordProviderRequest(adapter.id, status, Date.now() - startTime, usage);
+    if (usage) {
+      recordUsage({ ...usage, provider: adapter.id });
+      options?.onUsage?.(usage);
+    }
+  };
+
+  return {
+    ...adapter,
+    chat: async (messages, options) => {
+      const startTime = Date.now();
+      let reported: TokenUsage | null = null;
+      try {
+        const response = await adapter.chat(messages, {
+          ...options,
+          onUsage: (usage) => {
+            reported = usage;
+          },
+        });
+        finish(
+          response ? 'success' : 'error',
+          startTime,
+          response ? resolveUsage(adapter, messages, response, reported, options) : null,
+          options
+        );
+        return response;
+      } catch (error) {
+        finish('error', startTime, null, options);
+        throw error;
+      }
+    },
+    stream: async (messages, callbacks, options) => {
+      const startTime = Date.now();
+      let reported: TokenUsage | null = null;
+      await adapter.stream(
+        messages,
+        {
+          onChunk: callbacks.onChunk,
+          onComplete: (fullResponse) => {
+            finish(
+              'success',
+              startTime,
+              resolveUsage(adapter, messages, fullResponse, reported, options),
+              options
+            );
+            callbacks.onComplete(fullResponse);
+          },
+          onError: (error) => {
+            finish('error', startTime, null, options);
+            callbacks.onError(error);
+          },
+        },
+        {
+          ...options,
+          onUsage: (usage) => {
+            reported = usage;
+          },
+        }
+      );
+    },
+    chatWithTools: adapter.chatWithTools
+      ? async (messages, tools, options) => {
+          const startTime = Date.now();
+          let reported: TokenUsage | null = null;
+          try {
+            const result = await adapter.chatWithTools!(messages, tools, {
+              ...options,
+              onUsage: (usage) => {
+                reported = usage;
+              },
+            });
+            // 도구 호출 인자도 출력 토큰으로 추정
+            const output = result.content + (result.toolCalls.length ? JSON.stringify(result.toolCalls) : '');
+            const textMessages = messages.map((m) => ({ role: m.role, content: getToolMessageText(m) }));
+            finish('success', startTime, resolveUsage(adapter, textMessages, output, reported, options), options);
+            return result;
+          } catch (error) {
+            finish('error', startTime, null, options);
+            throw error;
+          }
+        }
+      : undefined,
+  };
+}
+
+export function registerProviderAdapter(adapter: ProviderAdapter): void {
+  if (adapters.has(adapter.id)) {
+    logger.warning('Provider adapter re-registered', {
+      provider: adapter.id,
+      logType: 'warning',
+    });
+  }
+  adapters.set(adapter.id, withRequestStats(adapter));
+}
+
+export function getProviderAdapter(provider: string): ProviderAdapter | undefined {
+  return adapters.get(provider);
+}
+
+export function hasProviderAdapter(provider: string): boolean {
+  return adapters.has(provider);
+}
+
+export function listProviderAdapters(): ProviderAdapter[] {
+  return Array.from(adapters.values());
+}
+
+export function getProviderDisplayName(provider: string): string {
+  return adapters.get(provider)?.displayName || provider;
+}
+
+// 기본 프로바이더 등록
+registerProviderAdapter({
+  id: 'openai',
+  displayName: 'OpenAI GPT-4.1',
+  capabilities: {
+    streaming: true,
+    systemPrompt: true,
+    webSearch: false,
+    toolCalling: true,
+    jsonMode: true,
+    maxContextTokens: 1047576,
+    generation: { maxTemperature: 2, maxOutputTokens: 32768, topP: true, maxStopSequences: 4, seed: true },
+  },
+  defaultModel: 'gpt-4.1',
+  chat: (messages, options) =>
+    chatWithOpenAI(
+      messages.map((m) => ({
+        role: m.role as 'user' | 'assistant' | 'system',
+        content: m.content,
+      })),
+      options
+    ),
+  stream: async (messages, callbacks, options) => {
+    let fullResponse = '';
+    await chatWithOpenAIStream(
+      messages,
+      {
+        onChunk: (chunk: string) => {
+          fullResponse += chunk;
+          callbacks.onChunk(chunk);
+        },
+        onComplete: () => callbacks.onComplete(fullResponse),
+        onError: callbacks.onError,
+      },
+      options
+    );
+  },
+  chatWithTools: (messages, tools, options) => chatWithOpenAITools(messages, tools, options),
+  countTokens: (text) => estimateTokens(text),
+});
+
+registerProviderAdapter({
+  id: 'claude',
+  displayName: 'Claude Sonnet 4.5',
+  capabilities: {
+    streaming: true,
+    systemPrompt: true,
+    webSearch: false,
+    toolCalling: true,
+    jsonMode: false,
+    maxContextTokens: 200000,
+    generation: {
+      maxTemperature: 1,
+      maxOutputTokens: 64000,
+      topP: true,
+      maxStopSequences: 8,
+      seed: false,
+      exclusiveSampling: true,
+    },
+  },
+  defaultModel: 'claude-sonnet-4-5-20250929',
+  chat: (messages, options) => chatWithClaude(messages, options),
+  stream: (messages, callbacks, options) => chatWithClaudeStream(messages, callbacks, options),
+  chatWithTools: (messages, tools, options) => chatWithClaudeTools(messages, tools, options),
+  countTokens: (text) => estimateTokens(text, 3.5),
+});
+
+registerProviderAdapter({
+  id: 'gemini',
+  displayName: 'Google Gemini 2.5',
+  capabilities: {
+    streaming: true,
+    systemPrompt: false,
+    webSearch: false,
+    toolCalling: false,
+    jsonMode: true,
+    maxContextTokens: 1048576,
+    generation: { maxTemperature: 2, maxOutputTokens: 65536, topP: true, maxStopSequences: 5, seed: false },
+  },
+  defaultModel: 'gemini-2.5-flash',
+  chat: (messages, options) => chatWithGemini(messages, options),
+  stream: (messages, callbacks, options) => chatWithGeminiStream(messages, callbacks, options),
+  countTokens: (text) => estimateTokens(text),
+});
+
+registerProviderAdapter({
+  id: 'perplexity',
+  displayName: 'Perplexity Sonar Pro',
+  capabilities: {
+    streaming: true,
+    systemPrompt: true,
+    webSearch: true,
+    toolCalling: false,
+    jsonMode: false,
+    maxContextTokens: 200000,
+    generation: { maxTemperature: 2, maxOutputTokens: 8192, topP: true, maxStopSequences: 0, seed: false },
+  },
+  defaultModel: 'sonar-pro',
+  chat: (messages, options) => chatWithPerplexity(messages, options),
+  stream: (messages, callbacks, options) => chatWithPerplexityStream(messages, callbacks, options),
+  countTokens: (text) => estimateTokens(text),
+});
+
+registerProviderAdapter({
+  id: 'luxia',
+  displayName: 'Luxia AI',
+  capabilities: {
+    streaming: true,
+    systemPrompt: true,
+    webSearch: false,
+    toolCalling: false,
+    jsonMode: false,
+    maxContextTokens: 32768,
+    generation: { maxTemperature: 1, maxOutputTokens: 8192, topP: true, maxStopSequences: 0, seed: false },
+  },
+  defaultModel: 'luxia3-llm-32b-0731',
+  chat: (messages, options) => chatWithLuxia(messages, options),
+  stream: (messages, callbacks, options) => chatWithLuxiaStream(messages, callbacks, options),
+  countTokens: (text) => estimateTokens(text),
+});
+
+// 자체 호스팅 OpenAI 호환 엔드포인트 (vLLM, llama.cpp server, Ollama 등)
+// base URL, 모델, 헤더는 ApiKey.metadata에서 읽음
+registerProviderAdapter({
+  id: OPENAI_COMPATIBLE_PROVIDER,
+  displayName: 'Self-hosted (OpenAI 호환)',
+  capabilities: {
+    streaming: true,
+    systemPrompt: true,
+    webSearch: false,
+    toolCalling: true,
+    jsonMode: true,
+    maxContextTokens: 8192,
+    generation: { maxTemperature: 2, maxOutputTokens: 8192, topP: true, maxStopSequences: 4, seed: true },
+  },
+  defaultModel: '',
+  chat: (messages, options) => chatWithOpenAICompatible(messages, options),
+  stream: (messages, callbacks, options) =>
+    chatWithOpenAICompatibleStream(messages, callbacks, options),
+  chatWithTools: (messages, tools, options) => chatWithOpenAICompatibleTools(messages, tools, options),
+  countTokens: (text) => estimateTokens(text),
+});
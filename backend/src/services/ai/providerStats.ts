@@ -0,0 +1,221 @@
+import { Prisma } from '@prisma/client';
+import { createLogger } from '../../utils/logger.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { TokenUsage } from './tokenCounter.js';
+import { getUsageCost } from './pricing.js';
+
+const prisma = getPrismaClient();
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'ProviderStats',
+});
+
+// 최근 요청 기준 통계 (인스턴스별 메모리) + 일별 AIRequestStats (인스턴스 간 공유)
+const WINDOW_MS = 15 * 60 * 1000; // 15분
+const MAX_SAMPLES = 200;
+export const MIN_RECENT_SAMPLES = 10;
+const DAILY_FLUSH_INTERVAL_MS = 10 * 1000; // 일별 통계는 모아서 주기적으로 저장 (종료 시 마지막 구간은 유실될 수 있음)
+
+interface RequestSample {
+  timestamp: number;
+  success: boolean;
+  durationMs: number;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  sampleCount: number;
+  successRate: number | null; // 0~1, 데이터 없으면 null
+  p95LatencyMs: number | null; // 최근 표본에서만 계산 (일별 통계는 null)
+  avgLatencyMs: number | null;
+  source: 'recent' | 'daily' | 'none';
+}
+
+interface PendingDailyStats {
+  provider: string;
+  date: Date;
+  requestCount: number;
+  successCount: number;
+  errorCount: number;
+  totalDuration: number; // 초
+  totalTokens: number;
+  totalCost: number;
+}
+
+const samples = new Map<string, RequestSample[]>();
+const pendingDailyStats = new Map<string, PendingDailyStats>();
+
+function pruneSamples(list: RequestSample[], now: number): RequestSample[] {
+  const recent = list.filter((s) => now - s.timestamp <= WINDOW_MS);
+  return recent.length > MAX_SAMPLES ? recent.slice(recent.length - MAX_SAMPLES) : recent;
+}
+
+function getTodayDate(): Date {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return today;
+}
+
+export function recordProviderRequest(
+  provider: string,
+  status: 'success' | 'error',
+  durationMs: number,
+  usage?: TokenUsage | null
+): void {
+  const now = Date.now();
+  const list = samples.get(provider) || [];
+  list.push({ timestamp: now, success: status === 'success', durationMs });
+  samples.set(provider, pruneSamples(list, now));
+
+  queueDailyStats(provider, status, durationMs, usage).catch((error) => {
+    logger.debug('Failed to queue provider stats', {
+      provider,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'warning',
+    });
+  });
+}
+
+async function queueDailyStats(
+  provider: string,
+  status: 'success' | 'error',
+  durationMs: number,
+  usage?: TokenUsage | null
+): Promise<void> {
+  const cost = usage ? await getUsageCost(usage) : 0;
+  const date = getTodayDate();
+  const key = `${provider}:${date.toISOString()}`;
+  const pending = pendingDailyStats.get(key) || {
+    provider,
+    date,
+    requestCount: 0,
+    successCount: 0,
+    errorCount: 0,
+    totalDuration: 0,
+    totalTokens: 0,
+    totalCost: 0,
+  };
+
+  pending.requestCount++;
+  pending.successCount += status === 'success' ? 1 : 0;
+  pending.errorCount += status === 'error' ? 1 : 0;
+  pending.totalDuration += durationMs / 1000;
+  pending.totalTokens += usage ? usage.promptTokens + usage.completionTokens : 0;
+  pending.totalCost += cost;
+  pendingDailyStats.set(key, pending);
+}
+
+// 모인 증가분을 upsert + increment로 저장 (여러 인스턴스가 동시에 저장해도 누락 없음)
+export async function flushProviderStats(): Promise<void> {
+  const batch = [...pendingDailyStats.values()];
+  pendingDailyStats.clear();
+
+  for (const stats of batch) {
+    try {
+      await prisma.aIRequestStats.upsert({
+        where: { provider_date: { provider: stats.provider, date: stats.date } },
+        create: {
+          provider: stats.provider,
+          date: stats.date,
+          requestCount: stats.requestCount,
+          successCount: stats.successCount,
+          errorCount: stats.errorCount,
+          totalDuration: new Prisma.Decimal(stats.totalDuration.toFixed(3)),
+          totalTokens: stats.totalTokens,
+          totalCost: stats.totalCost,
+        },
+        update: {
+          requestCount: { increment: stats.requestCount },
+          successCount: { increment: stats.successCount },
+          errorCount: { increment: stats.errorCount },
+          totalDuration: { increment: new Prisma.Decimal(stats.totalDuration.toFixed(3)) },
+          totalTokens: { increment: stats.totalTokens },
+          totalCost: { increment: stats.totalCost },
+        },
+      });
+    } catch (error) {
+      logger.debug('Failed to persist provider stats', {
+        provider: stats.provider,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        logType: 'warning',
+      });
+    }
+  }
+}
+
+setInterval(() => {
+  flushProviderStats();
+}, DAILY_FLUSH_INTERVAL_MS).unref();
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+export function getRecentProviderHealth(provider: string): ProviderHealth {
+  const list = pruneSamples(samples.get(provider) || [], Date.now());
+  samples.set(provider, list);
+
+  if (list.length === 0) {
+    return { provider, sampleCount: 0, successRate: null, p95LatencyMs: null, avgLatencyMs: null, source: 'none' };
+  }
+
+  const successCount = list.filter((s) => s.success).length;
+  return {
+    provider,
+    sampleCount: list.length,
+    successRate: successCount / list.length,
+    p95LatencyMs: percentile(list.map((s) => s.durationMs), 95),
+    avgLatencyMs: list.reduce((sum, s) => sum + s.durationMs, 0) / list.length,
+    source: 'recent',
+  };
+}
+
+// 최근 표본이 부족하면 오늘자 AIRequestStats로 보완 (일별 통계에는 p95가 없으므로 평균 응답 시간만 제공)
+export async function getProviderHealth(providers: string[]): Promise<Map<string, ProviderHealth>> {
+  const result = new Map<string, ProviderHealth>();
+  const needsDaily: string[] = [];
+
+  for (const provider of providers) {
+    const health = getRecentProviderHealth(provider);
+    result.set(provider, health);
+    if (health.sampleCount < MIN_RECENT_SAMPLES) {
+      needsDaily.push(provider);
+    }
+  }
+
+  if (needsDaily.length === 0) {
+    return result;
+  }
+
+  try {
+    const dailyStats = await prisma.aIRequestStats.findMany({
+      where: {
+        provider: { in: needsDaily },
+        date: getTodayDate(),
+      },
+    });
+
+    for (const stats of dailyStats) {
+      if (stats.requestCount < MIN_RECENT_SAMPLES) {
+        continue;
+      }
+      result.set(stats.provider, {
+        provider: stats.provider,
+        sampleCount: stats.requestCount,
+        successRate: stats.successCount / stats.requestCount,
+        p95LatencyMs: null,
+        avgLatencyMs: stats.totalDuration ? (Number(stats.totalDuration) / stats.requestCount) * 1000 : null,
+        source: 'daily',
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to load daily provider stats', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+  }
+
+  return result;
+}
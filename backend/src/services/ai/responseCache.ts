@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+import { createLogger } from '../../utils/logger.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { getCache, setCache, CACHE_PREFIXES } from '../../utils/cache.js';
+import { recordCacheHit, recordCacheMiss } from '../../utils/metrics.js';
+import { getSetting, getSettingBoolean, getSettingNumber } from '../../routes/admin/settings.js';
+import { ChatMessage } from './router.js';
+import { cosineSimilarity, embedText } from './embedding.js';
+
+const prisma = getPrismaClient();
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'ResponseCache',
+});
+
+const SEMANTIC_METRIC_TYPE = `${CACHE_PREFIXES.API_RESPONSE}:semantic`;
+const MAX_SEMANTIC_ENTRIES = 2000;
+
+export interface ResponseCacheScope {
+  provider: string; // 요청한 프로바이더 (자동 라우팅이면 'auto')
+  model?: string | null;
+}
+
+export interface CachedResponseResult {
+  response: string;
+  semantic: boolean;
+  similarity?: number;
+}
+
+interface SemanticEntry {
+  contextKey: string; // 이전 대화 + 프로바이더/모델 해시
+  cacheKey: string;
+  vector: Float32Array;
+  expiresAt: number;
+}
+
+// 인스턴스 로컬 임베딩 인덱스 (응답 본문은 Redis에 있고 인덱스는 키만 가리킴)
+const semanticEntries: SemanticEntry[] = [];
+
+function normalizeMessages(messages: ChatMessage[]): Array<{ role: string; content: string }> {
+  return messages.map((message) => ({
+    role: message.role,
+    content: message.content.replace(/\s+/g, ' ').trim(),
+  }));
+}
+
+function hashPayload(payload: unknown): string {
+  return createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+// 전체 대화 + 프로바이더 + 모델 기준 캐시 키
+export function buildResponseCacheKey(messages: ChatMessage[], scope: ResponseCacheScope): string {
+  return hashPayload({
+    messages: normalizeMessages(messages),
+    provider: scope.provider,
+    model: scope.model || null,
+  });
+}
+
+// 마지막 사용자 메시지를 제외한 맥락 키 (의미 캐시는 같은 맥락 안에서만 비교)
+function buildContextKey(messages: ChatMessage[], scope: ResponseCacheScope): string {
+  return hashPayload({
+    messages: normalizeMessages(messages.slice(0, -1)),
+    provider: scope.provider,
+    model: scope.model || null,
+  });
+}
+
+function getLastUserPrompt(messages: ChatMessage[]): string | null {
+  const last = messages[messages.length - 1];
+  return last && last.role === 'user' ? last.content : null;
+}
+
+function recordCacheMetadata(key: string, ttl: number, result: 'hit' | 'miss'): void {
+  const now = new Date();
+  const counters =
+    result === 'hit'
+      ? { hitCount: { increment: 1 }, lastHitAt: now }
+      : { missCount: { increment: 1 }, lastMissAt: now };
+
+  prisma.cacheMetadata
+    .upsert({
+      where: { key },
+      create: {
+        key,
+        prefix: CACHE_PREFIXES.API_RESPONSE,
+        ttl,
+        hitCount: result === 'hit' ? 1 : 0,
+        missCount: result === 'miss' ? 1 : 0,
+        lastHitAt: result === 'hit' ? now : null,
+        lastMissAt: result === 'miss' ? now : null,
+      },
+      update: { ...counters, ttl },
+    })
+    .catch((error: unknown) => {
+      logger.debug('Failed to record cache metadata', {
+        key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        logType: 'warning',
+      });
+    });
+}
+
+function findSemanticMatch(
+  contextKey: string,
+  vector: Float32Array,
+  threshold: number
+): { entry: SemanticEntry; similarity: number } | null {
+  const now = Date.now();
+  let best: { entry: SemanticEntry; similarity: number } | null = null;
+
+  for (let i = semanticEntries.length - 1; i >= 0; i--) {
+    const entry = semanticEntries[i];
+    if (entry.expiresAt <= now) {
+      semanticEntries.splice(i, 1);
+      continue;
+    }
+    if (entry.contextKey !== contextKey) {
+      continue;
+    }
+
+    const similarity = cosineSimilarity(vector, entry.vector);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { entry, similarity };
+    }
+  }
+
+  return best;
+}
+
+function addSemanticEntry(entry: SemanticEntry): void {
+  const existing = semanticEntries.findIndex((item) => item.cacheKey === entry.cacheKey);
+  if (existing !== -1) {
+    semanticEntries.splice(existing, 1);
+  }
+  semanticEntries.push(entry);
+  if (semanticEntries.length > MAX_SEMANTIC_ENTRIES) {
+    semanticEntries.splice(0, semanticEntries.length - MAX_SEMANTIC_ENTRIES);
+  }
+}
+
+/**
+ * 캐시된 응답 조회. 정확히 같은 대화를 먼저 찾고,
+ * 의미 캐시가 켜져 있으면 같은 맥락에서 유사한 질문의 답변을 찾음.
+ */
+export async function getCachedResponse(
+  messages: ChatMessage[],
+  scope: ResponseCacheScope
+): Promise<CachedResponseResult | null> {
+  const ttl = await getSettingNumber('AI_RESPONSE_CACHE_TTL');
+  if (ttl <= 0) {
+    return null;
+  }
+
+  const cacheKey = buildResponseCacheKey(messages, scope);
+  const exact = await getCache<string>(cacheKey, {
+    prefix: CACHE_PREFIXES.API_RESPONSE,
+    skipMetrics: true,
+  });
+
+  if (exact) {
+    recordCacheHit(CACHE_PREFIXES.API_RESPONSE);
+    recordCacheMetadata(`${CACHE_PREFIXES.API_RESPONSE}:${cacheKey}`, ttl, 'hit');
+    return { response: exact, semantic: false };
+  }
+
+  const prompt = getLastUserPrompt(messages);
+  if (prompt && (await getSettingBoolean('AI_SEMANTIC_CACHE_ENABLED'))) {
+    const threshold = parseFloat(await getSetting('AI_SEMANTIC_CACHE_THRESHOLD')) || 0.92;
+    const match = findSemanticMatch(buildContextKey(messages, scope), embedText(prompt), threshold);
+
+    if (match) {
+      const response = await getCache<string>(match.entry.cacheKey, {
+        prefix: CACHE_PREFIXES.API_RESPONSE,
+        skipMetrics: true,
+      });
+
+      if (response) {
+        recordCacheHit(SEMANTIC_METRIC_TYPE);
+        recordCacheMetadata(`${CACHE_PREFIXES.API_RESPONSE}:${match.entry.cacheKey}`, ttl, 'hit');
+        logger.debug('Semantic cache hit', {
+          similarity: Number(match.similarity.toFixed(4)),
+          logType: 'success',
+        });
+        return { response, semantic: true, similarity: match.similarity };
+      }
+    }
+  }
+
+  recordCacheMiss(CACHE_PREFIXES.API_RESPONSE);
+  recordCacheMetadata(`${CACHE_PREFIXES.API_RESPONSE}:${cacheKey}`, ttl, 'miss');
+  return null;
+}
+
+export async function setCachedResponse(
+  messages: ChatMessage[],
+  scope: ResponseCacheScope,
+  response: string
+): Promise<void> {
+  const ttl = await getSettingNumber('AI_RESPONSE_CACHE_TTL');
+  if (ttl <= 0 || !response) {
+    return;
+  }
+
+  const cacheKey = buildResponseCacheKey(messages, scope);
+  const saved = await setCache(cacheKey, response, {
+    prefix: CACHE_PREFIXES.API_RESPONSE,
+    ttl,
+  });
+
+  // 의미 캐시가 나중에 켜져도 바로 쓸 수 있도록 인덱스는 항상 갱신
+  const prompt = getLastUserPrompt(messages);
+  if (saved && prompt) {
+    addSemanticEntry({
+      contextKey: buildContextKey(messages, scope),
+      cacheKey,
+      vector: embedText(prompt),
+      expiresAt: Date.now() + ttl * 1000,
+    });
+  }
+}
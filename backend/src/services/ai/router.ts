@@ -1,10 +1,9 @@
-import { analyzeIntent, Intent } from './intentAnalyzer.js';
+import { classifyIntent, Intent } from './intentAnalyzer.js';
 import { selectProvider } from './weightManager.js';
-import { chatWithOpenAI } from './openai.js';
-import { chatWithClaude } from './claude.js';
-import { chatWithGemini } from './gemini.js';
-import { chatWithPerplexity } from './perplexity.js';
-import { chatWithLuxia } from './luxia.js';
+import { getProviderAdapter } from './providerRegistry.js';
+import { matchRoutingRule, RoutingRequestContext } from './routingRules.js';
+import { GenerationParams, fitGenerationParams } from './generationParams.js';
+import { resolveCatalogModel } from './modelCatalog.js';
 import { createLogger } from '../../utils/logger.js';
 
 const logger = createLogger({
@@ -19,20 +18,27 @@ export interface ChatMessage {
 
 export interface RoutingResult {
   provider: string;
+  model?: string;
   response: string;
   intent: Intent;
+  ruleId?: number;
 }
 
 export async function routeAndChat(
   messages: ChatMessage[],
-  userPrompt: string
+  userPrompt: string,
+  context?: RoutingRequestContext,
+  generation?: GenerationParams // 선택된 프로바이더 한도에 맞춰 적용
 ): Promise<RoutingResult | null> {
   try {
     // 의도 분석
-    const intent = analyzeIntent(userPrompt);
+    const intent = await classifyIntent(userPrompt);
+
+    // 관리자 라우팅 규칙 → 의도별 추천 프로바이더 순으로 적용
+    const routing = await matchRoutingRule(userPrompt, intent, context);
 
     // 프로바이더 선택
-    const selectedProvider = await selectProvider(intent.preferredProvider);
+    const selectedProvider = await selectProvider(routing?.provider || intent.preferredProvider);
 
     if (!selectedProvider) {
       logger.error('No provider available', {
@@ -41,33 +47,36 @@ export async function routeAndChat(
       return null;
     }
 
+    // 규칙의 프로바이더가 선택된 경우에만 규칙의 모델 사용, 없으면 모델 카탈로그의 기본 모델
+    const { model, entry: modelInfo } = await resolveCatalogModel(
+      selectedProvider,
+      routing && routing.provider === selectedProvider ? routing.model : undefined
+    );
+    if (model && !modelInfo) {
+      logger.warning('Routing model not in model catalog', {
+        provider: selectedProvider,
+        model,
+        logType: 'warning',
+      });
+    }
+
     logger.info('Routing to provider', {
       provider: selectedProvider,
+      model,
       intent: intent.type,
       confidence: intent.confidence,
+      ruleId: routing?.rule.id,
       logType: 'info',
     });
 
     // 선택된 프로바이더로 채팅
-    let response: string | null = null;
-
-    switch (selectedProvider) {
-      case 'openai':
-        response = await chatWithOpenAI(messages);
-        break;
-      case 'claude':
-        response = await chatWithClaude(messages);
-        break;
-      case 'gemini':
-        response = await chatWithGemini(messages);
-        break;
-      case 'perplexity':
-        response = await chatWithPerplexity(messages);
-        break;
-      case 'luxia':
-        response = await chatWithLuxia(messages);
-        break;
-    }
+    const adapter = getProviderAdapter(selectedProvider);
+    const response = adapter
+      ? await adapter.chat(messages, {
+          ...(generation ? fitGenerationParams(generation, adapter.capabilities.generation) : {}),
+          model,
+        })
+      : null;
 
     if (!response) {
       logger.error('Failed to get response from provider', {
@@ -79,8 +88,10 @@ export async function routeAndChat(
 
     return {
       provider: selectedProvider,
+      model,
       response,
       intent,
+      ruleId: routing?.rule.id,
     };
   } catch (error) {
     logger.error('Routing error', {
@@ -0,0 +1,187 @@
+import { createLogger } from '../../utils/logger.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { hasProviderAdapter } from './providerRegistry.js';
+import { Intent } from './intentAnalyzer.js';
+
+const prisma = getPrismaClient();
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'RoutingRules',
+});
+
+// 모든 조건은 AND, 각 배열 조건은 OR. 비어 있는 조건은 항상 일치
+export interface RoutingConditions {
+  intentTypes?: string[];
+  keywordPattern?: string; // 정규식 (대소문자 무시)
+  userRoles?: string[];
+  topics?: string[];
+  hasAttachments?: boolean;
+}
+
+export interface RoutingRequestContext {
+  userRole?: string;
+  topic?: string;
+  hasAttachments?: boolean;
+}
+
+export interface RoutingRule {
+  id: number;
+  name: string;
+  conditions: RoutingConditions;
+  provider: string;
+  model: string | null;
+  priority: number;
+}
+
+export interface RoutingRuleEvaluation {
+  ruleId: number;
+  name: string;
+  matched: boolean;
+  failedConditions: string[];
+}
+
+export interface RoutingDecision {
+  rule: RoutingRule;
+  provider: string;
+  model?: string;
+}
+
+const RULE_CACHE_TTL_MS = 30 * 1000;
+let cachedRules: RoutingRule[] | null = null;
+let cachedAt = 0;
+
+export function invalidateRoutingRulesCache(): void {
+  cachedRules = null;
+  cachedAt = 0;
+}
+
+export async function loadActiveRoutingRules(): Promise<RoutingRule[]> {
+  if (cachedRules && Date.now() - cachedAt < RULE_CACHE_TTL_MS) {
+    return cachedRules;
+  }
+
+  const rules = await prisma.routingRule.findMany({
+    where: { isActive: true },
+    orderBy: [{ priority: 'asc' }, { id: 'asc' }],
+  });
+
+  cachedRules = rules.map((rule: (typeof rules)[number]) => ({
+    id: rule.id,
+    name: rule.name,
+    conditions: (rule.conditions || {}) as RoutingConditions,
+    provider: rule.provider,
+    model: rule.model,
+    priority: rule.priority,
+  }));
+  cachedAt = Date.now();
+
+  return cachedRules!;
+}
+
+export function evaluateRoutingRule(
+  rule: RoutingRule,
+  prompt: string,
+  intent: Intent,
+  context: RoutingRequestContext = {}
+): RoutingRuleEvaluation {
+  const { intentTypes, keywordPattern, userRoles, topics, hasAttachments } = rule.conditions;
+  const failedConditions: string[] = [];
+
+  if (intentTypes?.length && !intentTypes.includes(intent.type)) {
+    failedConditions.push('intentTypes');
+  }
+
+  if (keywordPattern) {
+    try {
+      if (!new RegExp(keywordPattern, 'i').test(prompt)) {
+        failedConditions.push('keywordPattern');
+      }
+    } catch {
+      failedConditions.push('keywordPattern');
+    }
+  }
+
+  if (userRoles?.length && (!context.userRole || !userRoles.includes(context.userRole))) {
+    failedConditions.push('userRoles');
+  }
+
+  if (topics?.length && (!context.topic || !topics.includes(context.topic))) {
+    failedConditions.push('topics');
+  }
+
+  if (hasAttachments !== undefined && hasAttachments !== !!context.hasAttachments) {
+    failedConditions.push('hasAttachments');
+  }
+
+  if (!hasProviderAdapter(rule.provider)) {
+    failedConditions.push('provider');
+  }
+
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    matched: failedConditions.length === 0,
+    failedConditions,
+  };
+}
+
+// 우선순위 순으로 첫 번째로 일치하는 규칙 반환
+export async function matchRoutingRule(
+  prompt: string,
+  intent: Intent,
+  context: RoutingRequestContext = {}
+): Promise<RoutingDecision | null> {
+  try {
+    const rules = await loadActiveRoutingRules();
+
+    for (const rule of rules) {
+      if (evaluateRoutingRule(rule, prompt, intent, context).matched) {
+        logger.debug('Routing rule matched', {
+          ruleId: rule.id,
+          ruleName: rule.name,
+          provider: rule.provider,
+          model: rule.model,
+          logType: 'success',
+        });
+        return {
+          rule,
+          provider: rule.provider,
+          model: rule.model || undefined,
+        };
+      }
+    }
+
+    return null;
+  } catch (error) {
+    logger.error('Failed to match routing rules', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      logType: 'error',
+    });
+    return null;
+  }
+}
+
+// 관리자 dry-run용: 모든 활성 규칙의 평가 결과와 최종 선택 규칙
+export async function explainRouting(
+  prompt: string,
+  intent: Intent,
+  context: RoutingRequestContext = {}
+): Promise<{ evaluations: RoutingRuleEvaluation[]; decision: RoutingDecision | null }> {
+  const rules = await loadActiveRoutingRules();
+  const evaluations = rules.map((rule) => evaluateRoutingRule(rule, prompt, intent, context));
+  const matchedIndex = evaluations.findIndex((evaluation) => evaluation.matched);
+
+  if (matchedIndex === -1) {
+    return { evaluations, decision: null };
+  }
+
+  const rule = rules[matchedIndex];
+  return {
+    evaluations,
+    decision: {
+      rule,
+      provider: rule.provider,
+      model: rule.model || undefined,
+    },
+  };
+}
@@ -0,0 +1,135 @@
+// Zod 스키마 기반 구조화 출력
+// 네이티브 JSON 모드를 지원하는 프로바이더는 JSON 모드로 호출하고, 응답을 스키마로 검증해
+// 실패하면 검증 오류를 알려주는 수정 요청으로 재시도. 끝내 실패하면 빈 결과 대신 오류를 던짐
+
+import { z } from 'zod';
+import { createLogger } from '../../utils/logger.js';
+import { getProviderAdapter, ProviderMessage } from './providerRegistry.js';
+import { selectProvider } from './weightManager.js';
+import { resolveCatalogModel } from './modelCatalog.js';
+
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'StructuredOutput',
+});
+
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+const JSON_INSTRUCTION = '응답은 반드시 유효한 JSON 객체 하나만 출력하세요. 코드 블록, 설명, 주석을 붙이지 마세요.';
+
+export interface StructuredOutputOptions {
+  provider?: string; // 미지정 시 가중치 기반 선택
+  model?: string; // 미지정 시 모델 카탈로그의 기본 모델
+  temperature?: number;
+  maxTokens?: number;
+  maxRepairAttempts?: number; // 검증 실패 시 수정 요청 횟수 (기본 2)
+}
+
+/**
+ * 응답 텍스트에서 JSON 추출 (코드 블록 또는 앞뒤 설명이 붙은 경우 포함). 실패 시 throw
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // 아래에서 코드 블록/본문 추출 시도
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  if (fenced) {
+    return JSON.parse(fenced[1]);
+  }
+
+  const start = trimmed.search(/[{[]/);
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  if (start === -1 || end <= start) {
+    throw new Error('응답에서 JSON을 찾을 수 없습니다');
+  }
+  return JSON.parse(trimmed.slice(start, end + 1));
+}
+
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.errors.map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+function withJsonInstruction(messages: ProviderMessage[]): ProviderMessage[] {
+  const hasSystemMessage = messages.some((message) => message.role === 'system');
+  if (!hasSystemMessage) {
+    return [{ role: 'system', content: JSON_INSTRUCTION }, ...messages];
+  }
+  return messages.map((message) =>
+    message.role === 'system' ? { ...message, content: `${message.content}\n\n${JSON_INSTRUCTION}` } : message
+  );
+}
+
+/**
+ * 스키마를 만족하는 JSON 응답 생성. 스키마 최상위는 객체여야 함 (JSON 모드는 객체만 반환)
+ */
+export async function generateStructured<T>(
+  messages: ProviderMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options?: StructuredOutputOptions
+): Promise<T> {
+  const provider = options?.provider || (await selectProvider()) || 'openai';
+  const adapter = getProviderAdapter(provider);
+  if (!adapter) {
+    throw new Error(`Unknown provider: ${provider}`);
+  }
+
+  const { model } = await resolveCatalogModel(provider, options?.model);
+  const maxRepairAttempts = options?.maxRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+  const conversation = withJsonInstruction(messages);
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const response = await adapter.chat(conversation, {
+      model,
+      temperature: options?.temperature ?? 0.2,
+      maxTokens: options?.maxTokens,
+      jsonMode: adapter.capabilities.jsonMode,
+    });
+    if (!response) {
+      throw new Error(`No response from ${provider}`);
+    }
+
+    try {
+      const parsed = schema.safeParse(extractJson(response));
+      if (parsed.success) {
+        if (attempt > 0) {
+          logger.info('Structured output repaired', {
+            provider,
+            attempts: attempt + 1,
+            logType: 'success',
+          });
+        }
+        return parsed.data;
+      }
+      issues = formatZodIssues(parsed.error);
+    } catch (error) {
+      issues = [`JSON 파싱 실패: ${error instanceof Error ? error.message : 'Unknown error'}`];
+    }
+
+    logger.warning('Structured output validation failed', {
+      provider,
+      attempt: attempt + 1,
+      issues,
+      logType: 'warning',
+    });
+
+    conversation.push(
+      { role: 'assistant', content: response },
+      {
+        role: 'user',
+        content: `이전 응답이 요구한 JSON 형식에 맞지 않습니다.\n문제:\n${issues.map((issue) => `- ${issue}`).join('\n')}\n\n문제를 고친 JSON 객체만 다시 응답하세요.`,
+      }
+    );
+  }
+
+  logger.error('Structured output failed', {
+    provider,
+    attempts: maxRepairAttempts + 1,
+    issues,
+    logType: 'error',
+  });
+  throw new Error(`Structured output validation failed: ${issues.join(', ')}`);
+}
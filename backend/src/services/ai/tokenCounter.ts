@@ -0,0 +1,40 @@
+// 프로바이더별 토크나이저 없이 사용하는 근사 토큰 계산기
+// - ASCII 문자: 약 4자당 1토큰
+// - 한글/CJK 등 비 ASCII 문자: 약 1자당 1토큰
+
+export function estimateTokens(text: string, charsPerToken: number = 4): number {
+  if (!text) {
+    return 0;
+  }
+
+  let asciiCount = 0;
+  let nonAsciiCount = 0;
+
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) {
+      asciiCount++;
+    } else {
+      nonAsciiCount++;
+    }
+  }
+
+  return Math.ceil(asciiCount / charsPerToken) + nonAsciiCount;
+}
+
+export function estimateMessagesTokens(
+  messages: Array<{ role: string; content: string }>,
+  charsPerToken: number = 4
+): number {
+  // 메시지마다 역할/구분자 오버헤드 4토큰
+  return messages.reduce(
+    (sum, m) => sum + estimateTokens(m.content, charsPerToken) + 4,
+    0
+  );
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  model?: string; // 실제 호출된 모델 (요청 옵션에 없을 때)
+  estimated?: boolean; // 벤더 응답에 usage가 없어 추정한 값
+}
@@ -0,0 +1,79 @@
+// 프로바이더 공통 도구 호출(function calling) 형식
+// 각 클라이언트는 이 형식을 벤더 형식(OpenAI tool_calls, Claude tool_use 등)으로 변환해 호출하고 결과를 다시 이 형식으로 반환
+
+import { Prisma } from '@prisma/client';
+import { TokenUsage } from './tokenCounter.js';
+
+export interface ToolSchema {
+  name: string; // 영문/숫자/_/- 64자 이내 (벤더 공통 제약)
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema (type: object)
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// 응답 메시지 메타데이터(toolCalls)에 저장되는 호출 내역
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: string;
+  isError?: boolean;
+}
+
+// 메시지 메타데이터(JSON 컬럼)에 저장할 형태로 변환 (인자는 모델 응답 JSON을 파싱한 값)
+export function toToolCallJson(record: ToolCallRecord): Prisma.InputJsonObject {
+  return {
+    id: record.id,
+    name: record.name,
+    arguments: record.arguments as Prisma.InputJsonObject,
+    ...(record.result !== undefined ? { result: record.result } : {}),
+    ...(record.isError !== undefined ? { isError: record.isError } : {}),
+  };
+}
+
+export type ToolChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface ToolChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  seed?: number;
+  onUsage?: (usage: TokenUsage) => void;
+  signal?: AbortSignal;
+}
+
+// toolCalls가 비어 있으면 최종 답변
+export interface ToolChatResult {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+// 모델이 만든 인자 JSON이 깨져 있으면 빈 객체로 처리 (도구 쪽에서 필수 인자 오류를 돌려줌)
+export function parseToolArguments(raw: string | undefined | null): Record<string, unknown> {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getToolMessageText(message: ToolChatMessage): string {
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return message.content + JSON.stringify(message.toolCalls);
+  }
+  return message.content;
+}
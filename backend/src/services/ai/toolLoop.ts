@@ -0,0 +1,146 @@
+// 프로바이더 공통 도구 호출 루프
+// 모델이 도구를 요청하면 서버에서 실행해 결과를 대화에 붙이고 다시 호출하는 과정을 최종 답변이 나올 때까지 반복.
+// 반복 한도에 도달하면 도구 결과를 텍스트로 정리해 도구 없이 스트리밍으로 마무리
+
+import { createLogger } from '../../utils/logger.js';
+import { getSettingNumber } from '../../routes/admin/settings.js';
+import { ProviderAdapter, ProviderMessage } from './providerRegistry.js';
+import { GenerationParams } from './generationParams.js';
+import { ToolCall, ToolChatMessage } from './toolCalling.js';
+import { getAvailableTools, executeToolCall, ToolContext, ToolExecutionResult } from './tools.js';
+
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'ToolLoop',
+});
+
+export interface ToolLoopCallbacks {
+  onChunk: (chunk: string) => void;
+  onToolCall?: (call: ToolCall) => void;
+  onToolResult?: (call: ToolCall, result: ToolExecutionResult) => void;
+}
+
+export interface ToolLoopOptions extends GenerationParams {
+  signal?: AbortSignal;
+}
+
+export interface ToolLoopResult {
+  content: string;
+  streamed: boolean; // true면 onChunk로 이미 전송됨
+}
+
+// 도구 없이 마무리할 때 도구 호출/결과 메시지를 일반 텍스트 대화로 변환
+function flattenToolMessages(messages: ToolChatMessage[]): ProviderMessage[] {
+  return messages.map((message) => {
+    if (message.role === 'tool') {
+      return { role: 'user', content: `[도구 결과: ${message.name}]\n${message.content}` };
+    }
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      const calls = message.toolCalls.map((call) => `${call.name}(${JSON.stringify(call.arguments)})`).join(', ');
+      return { role: 'assistant', content: `${message.content}\n[도구 호출: ${calls}]`.trim() };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+async function streamWithoutTools(
+  adapter: ProviderAdapter,
+  messages: ProviderMessage[],
+  callbacks: ToolLoopCallbacks,
+  options?: ToolLoopOptions
+): Promise<ToolLoopResult> {
+  let content = '';
+  await new Promise<void>((resolve, reject) => {
+    adapter
+      .stream(
+        messages,
+        {
+          onChunk: (chunk) => {
+            content += chunk;
+            callbacks.onChunk(chunk);
+          },
+          onComplete: (fullResponse) => {
+            content = fullResponse || content;
+            resolve();
+          },
+          onError: reject,
+        },
+        options
+      )
+      .catch(reject);
+  });
+
+  return { content, streamed: true };
+}
+
+export async function runToolLoop(
+  adapter: ProviderAdapter,
+  messages: ProviderMessage[],
+  context: ToolContext,
+  callbacks: ToolLoopCallbacks,
+  options?: ToolLoopOptions
+): Promise<ToolLoopResult> {
+  if (!adapter.chatWithTools) {
+    throw new Error(`${adapter.displayName}은(는) 도구 호출을 지원하지 않습니다`);
+  }
+
+  const tools = await getAvailableTools(context.allowedTools);
+  const maxIterations = await getSettingNumber('AI_TOOL_MAX_ITERATIONS');
+  const schemas = tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+  const conversation: ToolChatMessage[] = messages.map((message) =>
+    message.role === 'system' || message.role === 'assistant'
+      ? { role: message.role, content: message.content }
+      : { role: 'user', content: message.content }
+  );
+
+  // 허용된 도구가 없으면 일반 스트리밍 (빈 도구 목록은 벤더 API가 거부)
+  if (tools.length === 0) {
+    return streamWithoutTools(adapter, messages, callbacks, options);
+  }
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    if (options?.signal?.aborted) {
+      return { content: '', streamed: false };
+    }
+
+    let result;
+    try {
+      result = await adapter.chatWithTools(conversation, schemas, options);
+    } catch (error) {
+      // 취소로 중단된 호출은 오류가 아님
+      if (options?.signal?.aborted) {
+        return { content: '', streamed: false };
+      }
+      throw error;
+    }
+    if (result.toolCalls.length === 0) {
+      return { content: result.content, streamed: false };
+    }
+
+    conversation.push({ role: 'assistant', content: result.content, toolCalls: result.toolCalls });
+
+    for (const call of result.toolCalls) {
+      if (options?.signal?.aborted) {
+        return { content: '', streamed: false };
+      }
+      callbacks.onToolCall?.(call);
+      const toolResult = await executeToolCall(call, tools, context);
+      callbacks.onToolResult?.(call, toolResult);
+      conversation.push({ role: 'tool', toolCallId: call.id, name: call.name, content: toolResult.content });
+    }
+  }
+
+  logger.warning('Tool loop reached iteration limit', {
+    provider: adapter.id,
+    maxIterations,
+    logType: 'warning',
+  });
+
+  const finalMessages = flattenToolMessages(conversation);
+  finalMessages.push({
+    role: 'user',
+    content: '도구 호출 한도에 도달했습니다. 지금까지의 도구 결과만으로 답변을 마무리해주세요.',
+  });
+
+  return streamWithoutTools(adapter, finalMessages, callbacks, options);
+}
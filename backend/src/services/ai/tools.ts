@@ -0,0 +1,261 @@
+// 모델에 제공하는 도구 목록과 서버 측 실행
+// 내장 도구(웹 검색, 표 생성, Python 실행, 문서 검색)와 등록된 MCP 서버 도구를 공통 스키마로 노출하고,
+// 실행 전 인자를 가드레일로 검사하며 결과는 길이를 제한해 모델에 돌려줌
+
+import { Document } from '@prisma/client';
+import { createLogger } from '../../utils/logger.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { getSettingBoolean } from '../../routes/admin/settings.js';
+import { validatePrompt } from '../guardrails/validator.js';
+import { searchWeb } from '../research/webSearch.js';
+import { generateTable } from '../tables/generator.js';
+import { executePythonCode, isCodeExecutionEnabled } from '../code/index.js';
+import { mcpClient } from '../mcp/client.js';
+import { executeMCPTool } from '../mcp/tools.js';
+import { embedText, cosineSimilarity } from './embedding.js';
+import { ToolSchema, ToolCall } from './toolCalling.js';
+
+const prisma = getPrismaClient();
+const logger = createLogger({
+  screenName: 'AI',
+  callerFunction: 'Tools',
+});
+
+const TOOL_TIMEOUT_MS = 60000;
+const TOOL_RESULT_MAX_CHARS = 8000; // 모델 컨텍스트를 넘지 않도록 결과를 자름
+const DOCUMENT_CHUNK_CHARS = 800;
+
+export interface ToolContext {
+  userId: number;
+  conversationId?: number;
+  allowedTools?: string[] | null; // 페르소나 허용 도구 (미지정: 전체, 'mcp': 모든 MCP 도구)
+}
+
+export interface ToolExecutionResult {
+  content: string;
+  isError: boolean;
+}
+
+interface AvailableTool extends ToolSchema {
+  source: 'builtin' | 'mcp';
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+}
+
+export async function isToolCallingEnabled(): Promise<boolean> {
+  return getSettingBoolean('AI_TOOLS_ENABLED');
+}
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`'${key}' 인자가 필요합니다`);
+  }
+  return value;
+}
+
+function optionalNumber(args: Record<string, unknown>, key: string, fallback: number, max: number): number {
+  const value = Number(args[key]);
+  return Number.isFinite(value) && value > 0 ? Math.min(Math.floor(value), max) : fallback;
+}
+
+interface DocumentMatch {
+  documentId: number;
+  name: string;
+  excerpt: string;
+  score: number;
+}
+
+// 사용자의 업로드 문서(대화가 지정되면 그 대화의 문서만)를 조각으로 나눠 질의와 유사한 조각 반환
+async function searchDocuments(
+  query: string,
+  limit: number,
+  context: ToolContext
+): Promise<DocumentMatch[]> {
+  const documents = await prisma.document.findMany({
+    where: context.conversationId
+      ? { userId: context.userId, conversationId: context.conversationId }
+      : { userId: context.userId },
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+  });
+
+  const queryVector = embedText(query);
+  const chunks: DocumentMatch[] = documents.flatMap((document: Document) => {
+    const text = (document.metadata as { text?: string } | null)?.text || '';
+    const result: DocumentMatch[] = [];
+    for (let offset = 0; offset < text.length; offset += DOCUMENT_CHUNK_CHARS) {
+      const excerpt = text.slice(offset, offset + DOCUMENT_CHUNK_CHARS);
+      result.push({
+        documentId: document.id,
+        name: document.name,
+        excerpt,
+        score: Number(cosineSimilarity(queryVector, embedText(excerpt)).toFixed(4)),
+      });
+    }
+    return result;
+  });
+
+  return chunks.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+const BUILTIN_TOOLS: AvailableTool[] = [
+  {
+    source: 'builtin',
+    name: 'web_search',
+    description: '최신 정보나 사실 확인이 필요할 때 웹을 검색합니다.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: '검색어' },
+        maxResults: { type: 'integer', description: '최대 결과 수 (기본 5, 최대 10)' },
+      },
+      required: ['query'],
+    },
+    execute: (args) => searchWeb(requireString(args, 'query'), optionalNumber(args, 'maxResults', 5, 10)),
+  },
+  {
+    source: 'builtin',
+    name: 'generate_table',
+    description: '요청한 내용을 제목·헤더·행으로 구성된 표 데이터(JSON)로 만듭니다.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: '표로 만들 내용' },
+        context: { type: 'string', description: '표를 만들 때 참고할 데이터 (선택)' },
+      },
+      required: ['prompt'],
+    },
+    execute: (args) =>
+      generateTable(requireString(args, 'prompt'), typeof args.context === 'string' ? args.context : undefined),
+  },
+  {
+    source: 'builtin',
+    name: 'execute_python',
+    description: '계산이나 데이터 처리를 위해 Python 코드를 격리된 환경에서 실행하고 출력을 반환합니다.',
+    parameters: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', description: '실행할 Python 코드 (결과는 print로 출력)' },
+      },
+      required: ['code'],
+    },
+    execute: (args) => executePythonCode(requireString(args, 'code')),
+  },
+  {
+    source: 'builtin',
+    name: 'search_documents',
+    description: '사용자가 업로드한 문서에서 질의와 관련된 부분을 찾습니다.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: '찾을 내용' },
+        limit: { type: 'integer', description: '최대 결과 수 (기본 3, 최대 10)' },
+      },
+      required: ['query'],
+    },
+    execute: (args, context) =>
+      searchDocuments(requireString(args, 'query'), optionalNumber(args, 'limit', 3, 10), context),
+  },
+];
+
+// 벤더 공통 도구 이름 제약: 영문/숫자/_/- 64자 이내
+function toToolName(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+function getMCPTools(): AvailableTool[] {
+  return mcpClient
+    .getConnections()
+    .filter((connection) => connection.isActive)
+    .flatMap((connection) =>
+      connection.tools.map((tool): AvailableTool => ({
+        source: 'mcp',
+        name: toToolName(`mcp_${connection.name}_${tool.name}`),
+        description: `[${connection.name}] ${tool.description}`,
+        parameters: { ...tool.inputSchema, type: 'object', properties: tool.inputSchema?.properties || {} },
+        execute: (args, context) => executeMCPTool(context.userId, connection.id, tool.name, args),
+      }))
+    );
+}
+
+/**
+ * 현재 사용할 수 있는 도구 목록 (Python 실행은 코드 실행이 활성화된 경우만)
+ */
+export async function getAvailableTools(allowedTools?: string[] | null): Promise<AvailableTool[]> {
+  const codeEnabled = await isCodeExecutionEnabled();
+  const builtins = BUILTIN_TOOLS.filter((tool) => tool.name !== 'execute_python' || codeEnabled);
+  const tools = [...builtins, ...getMCPTools()].filter(
+    (tool) =>
+      !allowedTools || allowedTools.includes(tool.name) || (tool.source === 'mcp' && allowedTools.includes('mcp'))
+  );
+
+  // 이름이 겹치면 먼저 등록된 도구 사용
+  const seen = new Set<string>();
+  return tools.filter((tool) => !seen.has(tool.name) && !!seen.add(tool.name));
+}
+
+function truncateResult(text: string): string {
+  return text.length > TOOL_RESULT_MAX_CHARS
+    ? `${text.slice(0, TOOL_RESULT_MAX_CHARS)}\n... (${text.length - TOOL_RESULT_MAX_CHARS}자 생략)`
+    : text;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`도구 실행 시간 초과 (${ms / 1000}초)`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * 모델이 요청한 도구 실행. 실패해도 throw하지 않고 오류 내용을 결과로 돌려 모델이 대응하도록 함
+ */
+export async function executeToolCall(
+  call: ToolCall,
+  tools: AvailableTool[],
+  context: ToolContext
+): Promise<ToolExecutionResult> {
+  const tool = tools.find((candidate) => candidate.name === call.name);
+  if (!tool) {
+    return { content: `알 수 없는 도구입니다: ${call.name}`, isError: true };
+  }
+
+  // 모델이 만든 인자도 사용자 입력과 같은 가드레일 적용
+  const validation = await validatePrompt(JSON.stringify(call.arguments));
+  if (!validation.isValid) {
+    logger.warning('Tool call blocked by guardrail', {
+      tool: call.name,
+      userId: context.userId,
+      logType: 'warning',
+    });
+    return { content: validation.message || '가드레일에 의해 차단된 요청입니다', isError: true };
+  }
+
+  const startTime = Date.now();
+  try {
+    const output = await withTimeout(tool.execute(call.arguments, context), TOOL_TIMEOUT_MS);
+    const text = typeof output === 'string' ? output : JSON.stringify(output ?? null);
+    // 코드 실행은 실패도 정상 반환되므로 success 플래그로 판단
+    const isError = !!output && typeof output === 'object' && (output as { success?: boolean }).success === false;
+
+    logger.info('Tool executed', {
+      tool: call.name,
+      source: tool.source,
+      userId: context.userId,
+      durationMs: Date.now() - startTime,
+      isError,
+      logType: isError ? 'warning' : 'success',
+    });
+    return { content: truncateResult(text), isError };
+  } catch (error) {
+    logger.warning('Tool execution failed', {
+      tool: call.name,
+      source: tool.source,
+      userId: context.userId,
+      error: error instanceof Error ? error.message : 'Unknown',
+      logType: 'warning',
+    });
+    return { content: `도구 실행 오류: ${error instanceof Error ? error.message : '알 수 없는 오류'}`, isError: true };
+  }
+}
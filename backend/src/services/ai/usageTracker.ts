@@ -0,0 +1,102 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Prisma } from '@prisma/client';
+import { TokenUsage } from './tokenCounter.js';
+import { calculateCost, findModelPrice, getModelPrices } from './pricing.js';
+
+export interface UsageRecord extends TokenUsage {
+  provider: string;
+}
+
+export interface UsageTracker {
+  records: UsageRecord[];
+  parent?: UsageTracker; // 하위 추적기의 기록은 상위에도 합산
+}
+
+export interface UsageSummary {
+  provider: string | null; // 마지막 호출 (최종 응답을 만든 프로바이더)
+  model: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  estimated: boolean;
+  calls: Array<UsageRecord & { cost: number }>;
+}
+
+// 요청 단위로 어댑터 호출 사용량을 모음 (의도 분류, 폴백, mix/A2A 에이전트 호출 포함)
+const storage = new AsyncLocalStorage<UsageTracker>();
+
+export function createUsageTracker(): UsageTracker {
+  return { records: [] };
+}
+
+// 현재 요청 추적기 아래에서 일부 호출(A2A 발언 등)의 사용량만 따로 모을 때 사용
+export function createChildUsageTracker(): UsageTracker {
+  return { records: [], parent: storage.getStore() };
+}
+
+export function runWithUsageTracker<T>(tracker: UsageTracker, fn: () => Promise<T>): Promise<T> {
+  return storage.run(tracker, fn);
+}
+
+export function recordUsage(record: UsageRecord): void {
+  for (let tracker = storage.getStore(); tracker; tracker = tracker.parent) {
+    tracker.records.push(record);
+  }
+}
+
+export async function summarizeUsage(tracker: UsageTracker): Promise<UsageSummary> {
+  const prices = await getModelPrices();
+  const calls = tracker.records.map((record) => ({
+    ...record,
+    cost: calculateCost(record, findModelPrice(record.model, prices)),
+  }));
+  const last = calls[calls.length - 1];
+
+  const promptTokens = calls.reduce((sum, call) => sum + call.promptTokens, 0);
+  const completionTokens = calls.reduce((sum, call) => sum + call.completionTokens, 0);
+
+  return {
+    provider: last?.provider || null,
+    model: last?.model || null,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    cost: calls.reduce((sum, call) => sum + call.cost, 0),
+    estimated: calls.some((call) => call.estimated),
+    calls,
+  };
+}
+
+// 호출별 사용량을 JSON 컬럼 값으로 변환 (값이 없는 선택 필드는 제외)
+function toUsageCallJson(call: UsageRecord & { cost: number }): Prisma.InputJsonObject {
+  return {
+    provider: call.provider,
+    promptTokens: call.promptTokens,
+    completionTokens: call.completionTokens,
+    cost: call.cost,
+    ...(call.model !== undefined ? { model: call.model } : {}),
+    ...(call.estimated !== undefined ? { estimated: call.estimated } : {}),
+  };
+}
+
+// Message 행에 저장할 사용량 필드 (호출별 내역은 metadata.usage)
+// extraMetadata: 사용량과 함께 messages.metadata에 저장할 값 (예: { cancelled: true })
+export function getMessageUsageData(summary: UsageSummary, extraMetadata?: Prisma.InputJsonObject) {
+  const metadata: Prisma.InputJsonObject = {
+    usage: {
+      estimated: summary.estimated,
+      calls: summary.calls.map(toUsageCallJson),
+    },
+    ...extraMetadata,
+  };
+
+  return {
+    tokens: summary.totalTokens,
+    promptTokens: summary.promptTokens,
+    completionTokens: summary.completionTokens,
+    cost: summary.cost,
+    model: summary.model,
+    metadata,
+  };
+}
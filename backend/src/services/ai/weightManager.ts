@@ -1,5 +1,8 @@
 import { createLogger } from '../../utils/logger.js';
 import { getPrismaClient } from '../../utils/database.js';
+import { hasProviderAdapter } from './providerRegistry.js';
+import { getProviderHealth, MIN_RECENT_SAMPLES } from './providerStats.js';
+import { getSettingBoolean, getSettingNumber } from '../../routes/admin/settings.js';
 
 const prisma = getPrismaClient();
 const logger = createLogger({
@@ -8,11 +11,22 @@ const logger = createLogger({
 });
 
 export interface ProviderWeight {
-  provider: 'openai' | 'claude' | 'gemini' | 'perplexity' | 'luxia';
+  provider: string;
   weight: number;
   isActive: boolean;
 }
 
+export interface EffectiveProviderWeight extends ProviderWeight {
+  effectiveWeight: number;
+  healthFactor: number; // 0.1~1, 성공률과 p95 지연 시간으로 계산
+  successRate: number | null;
+  p95LatencyMs: number | null;
+  sampleCount: number;
+}
+
+const MIN_HEALTH_FACTOR = 0.1; // 장애 프로바이더도 복구 확인용 트래픽은 일부 유지
+const DEGRADED_HEALTH_FACTOR = 0.5;
+
 export async function getProviderWeights(): Promise<ProviderWeight[]> {
   try {
     const apiKeys = await prisma.apiKey.findMany({
@@ -30,7 +44,11 @@ export async function getProviderWeights(): Promise<ProviderWeight[]> {
     const providerMap = new Map<string, ProviderWeight>();
 
     for (const key of apiKeys) {
-      const provider = key.provider as ProviderWeight['provider'];
+      const provider = key.provider;
+      if (!hasProviderAdapter(provider)) {
+        continue;
+      }
+
       const existing = providerMap.get(provider);
       const keyWeight = typeof key.weight === 'object' ? Number(key.weight) : Number(key.weight);
 
@@ -53,11 +71,48 @@ export async function getProviderWeights(): Promise<ProviderWeight[]> {
   }
 }
 
+// 관리자 가중치 × 성공률² × min(1, 목표 지연 / p95)
+// 일별 통계로 보완한 경우 p95가 없으므로 지연 시간 보정은 하지 않음 (평균을 p95로 쓰지 않음)
+export async function getEffectiveWeights(): Promise<EffectiveProviderWeight[]> {
+  const weights = await getProviderWeights();
+  const health = await getProviderHealth(weights.map((w) => w.provider));
+  const latencyTargetMs = (await getSettingNumber('AI_ADAPTIVE_LATENCY_TARGET_MS')) || 15000;
+
+  return weights.map((w) => {
+    const stats = health.get(w.provider);
+    let healthFactor = 1;
+
+    if (stats && stats.sampleCount >= MIN_RECENT_SAMPLES && stats.successRate !== null) {
+      const successFactor = stats.successRate * stats.successRate;
+      const latencyFactor = stats.p95LatencyMs
+        ? Math.min(1, latencyTargetMs / stats.p95LatencyMs)
+        : 1;
+      healthFactor = Math.max(MIN_HEALTH_FACTOR, successFactor * latencyFactor);
+    }
+
+    return {
+      ...w,
+      effectiveWeight: w.weight * healthFactor,
+      healthFactor,
+      successRate: stats?.successRate ?? null,
+      p95LatencyMs: stats?.p95LatencyMs ?? null,
+      sampleCount: stats?.sampleCount ?? 0,
+    };
+  });
+}
+
+export async function isAdaptiveWeightingEnabled(): Promise<boolean> {
+  return await getSettingBoolean('AI_ADAPTIVE_WEIGHTING_ENABLED');
+}
+
 export async function selectProvider(
   preferredProvider?: string
-): Promise<'openai' | 'claude' | 'gemini' | 'perplexity' | 'luxia' | null> {
+): Promise<string | null> {
   try {
-    const weights = await getProviderWeights();
+    const adaptive = await isAdaptiveWeightingEnabled();
+    const weights: Array<ProviderWeight & { healthFactor?: number }> = adaptive
+      ? (await getEffectiveWeights()).map((w) => ({ ...w, weight: w.effectiveWeight }))
+      : await getProviderWeights();
 
     if (weights.length === 0) {
       logger.warning('No active providers available', {
@@ -71,7 +126,8 @@ export async function selectProvider(
       const preferred = weights.find(
         (w) => w.provider === preferredProvider && w.isActive
       );
-      if (preferred) {
+      // 적응형 모드에서는 성능이 저하된 선호 프로바이더를 건너뜀
+      if (preferred && (preferred.healthFactor ?? 1) >= DEGRADED_HEALTH_FACTOR) {
         return preferred.provider;
       }
     }
@@ -1,6 +1,21 @@
 import { createLogger } from '../../utils/logger.js';
 import { getContextMessages } from './session.js';
 import { getPrismaClient } from '../../utils/database.js';
+import { getSetting, getSettingNumber } from '../../routes/admin/settings.js';
+import { getProviderAdapter } from '../ai/providerRegistry.js';
+import { getProviderWeights } from '../ai/weightManager.js';
+import { resolveCatalogModel } from '../ai/modelCatalog.js';
+import { estimateTokens } from '../ai/tokenCounter.js';
+import {
+  ContextMessage,
+  ContextStrategy,
+  MessageTokenCounter,
+  getHistoryBudget,
+  splitByBudget,
+  selectRelevantTurns,
+  formatTranscript,
+} from '../ai/contextWindow.js';
+import { StoredMessage, getRollingSummary, getConversationSummary } from './summary.js';
 
 const prisma = getPrismaClient();
 const logger = createLogger({
@@ -8,7 +23,12 @@ const logger = createLogger({
   callerFunction: 'ContextManager',
 });
 
-const MAX_CONTEXT_LENGTH = 8000; // 최대 컨텍스트 길이 (토큰 수 대략)
+const MAX_HISTORY_MESSAGES = 200; // 토큰 계산 대상으로 불러올 최근 메시지 수
+const DEFAULT_CONTEXT_WINDOW = 8192; // 카탈로그·어댑터 정보가 없을 때
+const SYSTEM_OVERHEAD_TOKENS = 1024; // 시스템 프롬프트·페르소나·도구 정의 몫
+const SIDE_CONTEXT_RATIO = 0.25; // 예산 중 요약/검색 결과에 쓸 비율
+const RETRIEVAL_MIN_SIMILARITY = 0.35;
+const CONTEXT_STRATEGIES: ContextStrategy[] = ['truncate', 'summary', 'retrieval'];
 
 export interface ContextChunk {
   messages: Array<{ role: string; content: string }>;
@@ -17,93 +37,153 @@ export interface ContextChunk {
   endIndex: number;
 }
 
-export async function manageContext(
-  conversationId: number
-): Promise<Array<{ role: string; content: string }>> {
-  try {
-    const allMessages = await getContextMessages(conversationId, 100);
-
-    // 컨텍스트 길이 계산
-    const totalLength = allMessages.reduce(
-      (sum, m) => sum + m.content.length,
-      0
-    );
+export interface BuildContextOptions {
+  provider?: string; // 미지정 또는 'auto'면 활성 프로바이더 중 가장 작은 컨텍스트 기준
+  model?: string;
+  currentMessage: string; // 첨부 내용이 포함된 현재 사용자 메시지
+  maxTokens?: number; // 요청의 최대 응답 토큰
+  strategy?: ContextStrategy | 'auto';
+  readOnly?: boolean; // 미리보기: 저장된 요약만 사용하고 요약 생성·갱신(AI 호출)은 하지 않음
+}
 
-    // 컨텍스트가 너무 길면 요약 필요
-    if (totalLength > MAX_CONTEXT_LENGTH) {
-      logger.info('Context too long, creating summary', {
-        conversationId,
-        totalLength,
-        logType: 'info',
-      });
+export interface BuiltContext {
+  messages: ContextMessage[]; // 현재 메시지를 제외한 이력 (요약/검색 결과는 맨 앞 system 메시지)
+  strategy: ContextStrategy | 'full';
+  contextWindow: number;
+  budgetTokens: number;
+  historyTokens: number;
+  omittedMessages: number;
+}
 
-      return await createSummarizedContext(conversationId, allMessages);
-    }
+async function getModelContextWindow(provider: string, model?: string): Promise<number> {
+  const { entry } = await resolveCatalogModel(provider, model);
+  return entry?.contextWindow || getProviderAdapter(provider)?.capabilities.maxContextTokens || DEFAULT_CONTEXT_WINDOW;
+}
 
-    return allMessages;
-  } catch (error) {
-    logger.error('Failed to manage context', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      conversationId,
-      logType: 'error',
-    });
-    return [];
+export async function resolveContextWindow(provider?: string, model?: string): Promise<number> {
+  if (provider && provider !== 'auto') {
+    return getModelContextWindow(provider, model);
   }
+
+  // 자동 선택은 어느 프로바이더로 라우팅·폴백될지 모르므로 가장 작은 컨텍스트 기준
+  const activeProviders = (await getProviderWeights()).filter((w) => w.isActive).map((w) => w.provider);
+  const windows = await Promise.all(activeProviders.map((p) => getModelContextWindow(p)));
+  return windows.length > 0 ? Math.min(...windows) : DEFAULT_CONTEXT_WINDOW;
 }
 
-async function createSummarizedContext(
-  conversationId: number,
-  messages: Array<{ role: string; content: string }>
-): Promise<Array<{ role: string; content: string }>> {
-  try {
-    // 오래된 메시지들을 요약
-    const recentMessages = messages.slice(-10); // 최근 10개 메시지
-    const oldMessages = messages.slice(0, -10); // 나머지 메시지
+// 프로바이더 요청에는 role, content만 전달
+function toContextMessages(messages: StoredMessage[]): ContextMessage[] {
+  return messages.map(({ role, content }) => ({ role, content }));
+}
 
-    if (oldMessages.length === 0) {
-      return recentMessages;
-    }
+async function getContextStrategy(): Promise<ContextStrategy | 'auto'> {
+  const value = await getSetting('AI_CONTEXT_STRATEGY');
+  return (CONTEXT_STRATEGIES as string[]).includes(value) ? (value as ContextStrategy) : 'auto';
+}
 
-    // 오래된 메시지 요약 생성 (AI 사용)
-    const { orchestrateAI } = await import('../ai/orchestrator.js');
-    const oldContext = oldMessages
-      .map((m) => `${m.role}: ${m.content}`)
-      .join('\n\n');
-
-    const summaryPrompt = `다음 대화 내용을 간결하게 요약해주세요:\n\n${oldContext.substring(0, 8000)}`;
-    
-    const summary = await orchestrateAI(
-      [
-        {
-          role: 'system',
-          content: '당신은 대화 요약 전문가입니다. 핵심 내용만 간결하게 요약합니다.',
-        },
-        {
-          role: 'user',
-          content: summaryPrompt,
-        },
-      ],
-      summaryPrompt
-    );
-
-    const summaryText = summary || `[이전 대화 요약]\n${oldContext.substring(0, 1000)}...`;
-
-    return [
-      {
+/**
+ * 모델 컨텍스트에 맞춘 대화 이력 구성.
+ * 최근 대화를 토큰 예산만큼 유지하고, 넘치는 이전 대화는 전략에 따라 버리거나(truncate)
+ * 요약하거나(summary) 현재 질문과 관련된 턴만 포함(retrieval)
+ */
+export async function buildContext(conversationId: number, options: BuildContextOptions): Promise<BuiltContext> {
+  const adapter = options.provider && options.provider !== 'auto' ? getProviderAdapter(options.provider) : undefined;
+  const countText = adapter ? adapter.countTokens : (text: string) => estimateTokens(text);
+  // 메시지마다 역할/구분자 오버헤드 4토큰
+  const countTokens: MessageTokenCounter = (message) => countText(message.content) + 4;
+
+  const [contextWindow, responseTokens, maxHistoryTokens, configuredStrategy, history] = await Promise.all([
+    resolveContextWindow(options.provider, options.model),
+    getSettingNumber('AI_CONTEXT_RESPONSE_TOKENS'),
+    getSettingNumber('AI_CONTEXT_MAX_TOKENS'),
+    options.strategy ? Promise.resolve(options.strategy) : getContextStrategy(),
+    getContextMessages(conversationId, MAX_HISTORY_MESSAGES),
+  ]);
+
+  const budgetTokens = getHistoryBudget({
+    contextWindow,
+    reservedOutputTokens: options.maxTokens || responseTokens,
+    currentTokens: countTokens({ role: 'user', content: options.currentMessage }),
+    overheadTokens: SYSTEM_OVERHEAD_TOKENS,
+    maxHistoryTokens,
+  });
+
+  const messages = history.filter((m): m is StoredMessage => m.role === 'user' || m.role === 'assistant');
+  const full = splitByBudget(messages, budgetTokens, countTokens);
+  if (full.older.length === 0) {
+    return {
+      messages: toContextMessages(full.recent),
+      strategy: 'full',
+      contextWindow,
+      budgetTokens,
+      historyTokens: full.recentTokens,
+      omittedMessages: 0,
+    };
+  }
+
+  // 이전 대화 몫을 떼어 두고 최근 대화 다시 배분
+  const sideBudget = Math.floor(budgetTokens * SIDE_CONTEXT_RATIO);
+  const { recent, older, recentTokens } =
+    configuredStrategy === 'truncate' ? full : splitByBudget(messages, budgetTokens - sideBudget, countTokens);
+
+  let strategy: ContextStrategy = 'truncate';
+  let sideMessage: ContextMessage | null = null;
+
+  if (configuredStrategy === 'retrieval' || configuredStrategy === 'auto') {
+    const relevant = selectRelevantTurns(older, options.currentMessage, sideBudget, countTokens, RETRIEVAL_MIN_SIMILARITY);
+    if (relevant.length > 0) {
+      strategy = 'retrieval';
+      sideMessage = {
         role: 'system',
-        content: summaryText,
-      },
-      ...recentMessages,
-    ];
-  } catch (error) {
-    logger.error('Failed to create summarized context', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      conversationId,
-      logType: 'error',
-    });
-    // 실패 시 최근 메시지만 반환
-    return messages.slice(-10);
+        content: `[이전 대화 중 관련 내용]\n${formatTranscript(relevant)}`,
+      };
+    }
   }
+
+  if (!sideMessage && (configuredStrategy === 'summary' || configuredStrategy === 'auto')) {
+    // 저장된 누적 요약 사용 (새로 창을 벗어난 메시지가 있을 때만 갱신)
+    const summary = options.readOnly
+      ? (await getConversationSummary(conversationId))?.summary ?? null
+      : await getRollingSummary(conversationId, older, sideBudget, countTokens);
+    const summaryMessage: ContextMessage | null = summary
+      ? { role: 'system', content: `[이전 대화 요약]\n${summary}` }
+      : null;
+    if (summaryMessage && countTokens(summaryMessage) <= sideBudget) {
+      strategy = 'summary';
+      sideMessage = summaryMessage;
+    } else if (summaryMessage) {
+      // 직접 수정했거나 더 큰 모델 기준으로 만든 요약이 예산을 넘으면 사용하지 않음
+      logger.warning('Stored summary exceeds context budget', {
+        conversationId,
+        sideBudget,
+        logType: 'warning',
+      });
+    }
+  }
+
+  // 요약·검색 결과가 없으면 떼어 둔 몫도 최근 대화에 사용
+  const kept = sideMessage ? { recent, older, recentTokens } : full;
+  const sideTokens = sideMessage ? countTokens(sideMessage) : 0;
+
+  logger.info('Context trimmed to token budget', {
+    conversationId,
+    provider: options.provider || 'auto',
+    contextWindow,
+    budgetTokens,
+    strategy,
+    keptMessages: kept.recent.length,
+    omittedMessages: kept.older.length,
+    logType: 'info',
+  });
+
+  return {
+    messages: sideMessage ? [sideMessage, ...toContextMessages(kept.recent)] : toContextMessages(kept.recent),
+    strategy,
+    contextWindow,
+    budgetTokens,
+    historyTokens: kept.recentTokens + sideTokens,
+    omittedMessages: kept.older.length,
+  };
 }
 
 export async function saveMessage(
@@ -141,4 +221,3 @@ export async function saveMessage(
     throw error;
   }
 }
-
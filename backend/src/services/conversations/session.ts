@@ -1,5 +1,9 @@
 import { createLogger } from '../../utils/logger.js';
+import { Prisma } from '@prisma/client';
 import { getPrismaClient } from '../../utils/database.js';
+import { getMessageUsageData, UsageSummary } from '../ai/usageTracker.js';
+import { ToolCallRecord } from '../ai/toolCalling.js';
+import { getPersonaIdFromMetadata } from '../ai/personas.js';
 
 const prisma = getPrismaClient();
 const logger = createLogger({
@@ -12,9 +16,14 @@ export interface ConversationSession {
   userId: number;
   title: string;
   topic: string;
+  personaId?: number | null; // 연결된 페르소나 (metadata.personaId)
   messages: Array<{
+    id?: number;
     role: string;
     content: string;
+    a2aSessionId?: string | null; // A2A 토론 결과 메시지면 다시 보기용 세션 ID
+    cancelled?: boolean; // 사용자가 생성을 중단한 부분 응답
+    toolCalls?: ToolCallRecord[]; // 응답 중 실행된 도구 호출
     createdAt: Date;
   }>;
   createdAt: Date;
@@ -72,6 +81,9 @@ export async function getSession(
       include: {
         messages: {
           orderBy: { createdAt: 'asc' },
+          include: {
+            a2aSession: { select: { sessionId: true } },
+          },
         },
       },
     });
@@ -85,9 +97,14 @@ export async function getSession(
       userId: conversation.userId,
       title: conversation.title || '새 대화',
       topic: conversation.topic || 'general',
+      personaId: getPersonaIdFromMetadata(conversation.metadata),
       messages: conversation.messages.map((m) => ({
+        id: m.id,
         role: m.role,
         content: m.content,
+        a2aSessionId: m.a2aSession?.sessionId || null,
+        cancelled: !!(m.metadata as { cancelled?: boolean } | null)?.cancelled,
+        toolCalls: (m.metadata as { toolCalls?: ToolCallRecord[] } | null)?.toolCalls,
         createdAt: m.createdAt,
       })),
       createdAt: conversation.createdAt,
@@ -147,7 +164,7 @@ export async function listSessions(
 export async function getContextMessages(
   conversationId: number,
   maxMessages: number = MAX_CONTEXT_MESSAGES
-): Promise<Array<{ role: string; content: string }>> {
+): Promise<Array<{ id: number; role: string; content: string }>> {
   try {
     const messages = await prisma.message.findMany({
       where: { conversationId },
@@ -158,6 +175,7 @@ export async function getContextMessages(
     return messages
       .reverse()
       .map((m) => ({
+        id: m.id,
         role: m.role,
         content: m.content,
       }));
@@ -176,7 +194,9 @@ export async function addMessage(
   userId: number,
   role: 'user' | 'assistant',
   content: string,
-  provider?: string
+  provider?: string,
+  usage?: UsageSummary,
+  metadata?: Prisma.InputJsonObject
 ): Promise<void> {
   try {
     await prisma.message.create({
@@ -186,6 +206,7 @@ export async function addMessage(
         role,
         content,
         provider,
+        ...(usage ? getMessageUsageData(usage, metadata) : metadata ? { metadata } : {}),
       },
     });
 
@@ -227,3 +248,28 @@ export async function updateConversationTitle(
   }
 }
 
+
+export async function getConversationTopic(conversationId: number): Promise<string | null> {
+  try {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { topic: true },
+    });
+    return conversation?.topic || null;
+  } catch (error) {
+    logger.error('Failed to get conversation topic', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      conversationId,
+      logType: 'error',
+    });
+    return null;
+  }
+}
+
+export async function isConversationOwner(conversationId: number, userId: number): Promise<boolean> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { userId: true },
+  });
+  return !!conversation && conversation.userId === userId;
+}
@@ -0,0 +1,183 @@
+import { createLogger } from '../../utils/logger.js';
+import { getPrismaClient } from '../../utils/database.js';
+import { ContextMessage, MessageTokenCounter, chunkByBudget, formatTranscript } from '../ai/contextWindow.js';
+
+const prisma = getPrismaClient();
+const logger = createLogger({
+  screenName: 'Conversations',
+  callerFunction: 'ConversationSummary',
+});
+
+const SUMMARY_SOURCE_TOKENS = 8000; // 한 번에 요약 요청에 넣을 대화 최대 토큰
+const MAX_SUMMARY_CHUNKS_PER_REQUEST = 4;
+
+export interface StoredMessage extends ContextMessage {
+  id: number;
+}
+
+export interface ConversationSummary {
+  conversationId: number;
+  summary: string;
+  lastMessageId: number; // 이 ID까지의 메시지를 요약
+  messageCount: number;
+  isEdited: boolean;
+  updatedAt: Date;
+}
+
+function toConversationSummary(row: {
+  conversationId: number;
+  summary: string;
+  lastMessageId: number;
+  messageCount: number;
+  isEdited: boolean;
+  updatedAt: Date;
+}): ConversationSummary {
+  return {
+    conversationId: row.conversationId,
+    summary: row.summary,
+    lastMessageId: row.lastMessageId,
+    messageCount: row.messageCount,
+    isEdited: row.isEdited,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export async function getConversationSummary(conversationId: number): Promise<ConversationSummary | null> {
+  const row = await prisma.conversationSummary.findUnique({ where: { conversationId } });
+  return row ? toConversationSummary(row) : null;
+}
+
+/**
+ * 사용자가 요약을 직접 수정 (lastMessageId 미지정 시 기존 요약 범위 유지, 새 요약이면 0부터).
+ * lastMessageId가 이 대화의 메시지가 아니면 null. 이후 자동 갱신은 수정된 요약에 이어서 작성
+ */
+export async function updateConversationSummary(
+  conversationId: number,
+  summary: string,
+  lastMessageId?: number
+): Promise<ConversationSummary | null> {
+  let range = {};
+  if (lastMessageId !== undefined) {
+    const message = await prisma.message.findFirst({
+      where: { id: lastMessageId, conversationId },
+      select: { id: true },
+    });
+    if (!message) {
+      return null;
+    }
+    range = {
+      lastMessageId,
+      messageCount: await prisma.message.count({
+        where: { conversationId, id: { lte: lastMessageId } },
+      }),
+    };
+  }
+
+  const row = await prisma.conversationSummary.upsert({
+    where: { conversationId },
+    create: { conversationId, summary, isEdited: true, ...range },
+    update: { summary, isEdited: true, ...range },
+  });
+
+  logger.info('Conversation summary edited', {
+    conversationId,
+    lastMessageId: row.lastMessageId,
+    logType: 'info',
+  });
+  return toConversationSummary(row);
+}
+
+/**
+ * 컨텍스트 창을 벗어난 메시지(older)까지 반영한 요약.
+ * 저장된 요약이 이미 포함하고 있으면 AI 호출 없이 사용하고, 새로 벗어난 메시지만 오래된 것부터
+ * 한도 크기 묶음으로 기존 요약에 이어서 요약해 묶음마다 저장 (lastMessageId는 실제 요약한 메시지까지)
+ */
+export async function getRollingSummary(
+  conversationId: number,
+  older: StoredMessage[],
+  maxTokens: number,
+  countTokens: MessageTokenCounter
+): Promise<string | null> {
+  if (older.length === 0 || maxTokens <= 0) {
+    return null;
+  }
+
+  const stored = await getConversationSummary(conversationId);
+  let summary = stored?.summary ?? null;
+  let lastMessageId = stored?.lastMessageId ?? 0;
+  let messageCount = stored?.messageCount ?? 0;
+
+  const pending = older.filter((m) => m.id > lastMessageId);
+  if (pending.length === 0) {
+    return summary;
+  }
+
+  // 한 요청에서 처리할 묶음 수 제한 (남은 메시지는 다음 요청에서 이어서 요약)
+  const chunks = chunkByBudget(pending, SUMMARY_SOURCE_TOKENS, countTokens).slice(0, MAX_SUMMARY_CHUNKS_PER_REQUEST);
+  for (const chunk of chunks) {
+    const updated = await summarizeMessages(conversationId, summary, chunk, maxTokens);
+    if (!updated) {
+      // 갱신 실패 시 지금까지의 요약 사용 (다음 요청에서 다시 시도)
+      break;
+    }
+
+    summary = updated;
+    lastMessageId = chunk[chunk.length - 1].id;
+    messageCount += chunk.length;
+    const data = { summary, lastMessageId, messageCount };
+    await prisma.conversationSummary.upsert({
+      where: { conversationId },
+      create: { conversationId, ...data },
+      update: data,
+    });
+
+    logger.info('Conversation summary updated', {
+      conversationId,
+      lastMessageId,
+      newMessages: chunk.length,
+      logType: 'info',
+    });
+  }
+
+  return summary;
+}
+
+async function summarizeMessages(
+  conversationId: number,
+  previousSummary: string | null,
+  messages: StoredMessage[],
+  maxTokens: number
+): Promise<string | null> {
+  try {
+    const transcript = formatTranscript(messages);
+
+    const { orchestrateAI } = await import('../ai/orchestrator.js');
+    const summaryPrompt = previousSummary
+      ? `다음은 지금까지의 대화 요약과 그 이후 대화입니다. 이후 대화 내용을 반영해 하나의 요약으로 갱신해주세요.\n\n[기존 요약]\n${previousSummary}\n\n[이후 대화]\n${transcript}`
+      : `다음 대화 내용을 간결하게 요약해주세요:\n\n${transcript}`;
+
+    const summary = await orchestrateAI(
+      [
+        {
+          role: 'system',
+          content: '당신은 대화 요약 전문가입니다. 이후 대화에 필요한 사실, 결정 사항, 사용자 요청을 중심으로 핵심만 간결하게 요약합니다.',
+        },
+        {
+          role: 'user',
+          content: summaryPrompt,
+        },
+      ],
+      summaryPrompt,
+      { generation: { maxTokens } }
+    );
+
+    return summary?.trim() || null;
+  } catch (error) {
+    logger.error('Failed to create conversation summary', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      conversationId,
+      logType: 'error',
+    });
+    return null;
+  }
+}
@@ -1,5 +1,7 @@
+import { z } from 'zod';
 import { createLogger } from '../utils/logger.js';
-import { chatWithLuxia, getLuxiaApiKey } from './ai/luxia.js';
+import { getLuxiaApiKey } from './ai/luxia.js';
+import { generateStructured } from './ai/structuredOutput.js';
 
 const logger = createLogger({
   screenName: 'PromptSuggestion',
@@ -14,6 +16,10 @@ const FALLBACK_SUGGESTIONS = [
   '비교 분석을 해줘',
 ];
 
+const suggestionsSchema = z.object({
+  suggestions: z.array(z.string().trim().min(1)).min(1, '제안이 최소 1개 필요합니다'),
+});
+
 export async function generateSuggestions(
   words: string[]
 ): Promise<string[]> {
@@ -37,39 +43,30 @@ export async function generateSuggestions(
 규칙:
 1. 사용자의 입력 의도를 파악하여 3-5개의 완성된 프롬프트를 제안하세요.
 2. 각 제안은 실용적이고 구체적이어야 합니다.
-3. JSON 배열 형식으로만 응답하세요: ["제안1", "제안2", "제안3"]
+3. JSON 형식으로만 응답하세요: {"suggestions": ["제안1", "제안2", "제안3"]}
 4. 한국어로 제안하세요.
 5. 각 제안은 20-50자 사이로 간결하게 작성하세요.
 6. 비즈니스/업무 관련 프롬프트를 우선시하세요.`;
 
     const userMessage = `사용자가 현재 입력 중인 텍스트: "${userInput}"
 
-위 텍스트를 기반으로 완성된 프롬프트 제안을 JSON 배열로 제공하세요.`;
+위 텍스트를 기반으로 완성된 프롬프트 제안을 JSON으로 제공하세요.`;
 
-    const response = await chatWithLuxia(
+    // 입력 중 자동완성이므로 수정 요청은 한 번만
+    const { suggestions } = await generateStructured(
       [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userMessage },
       ],
-      { 
-        temperature: 0.7, 
+      suggestionsSchema,
+      {
+        provider: 'luxia',
+        temperature: 0.7,
         maxTokens: 512,
+        maxRepairAttempts: 1,
       }
     );
 
-    if (!response) {
-      logger.warning('Luxia returned no response, using fallback', {
-        logType: 'warning',
-      });
-      return getContextualFallback(userInput);
-    }
-
-    const suggestions = parseSuggestions(response);
-    
-    if (suggestions.length === 0) {
-      return getContextualFallback(userInput);
-    }
-
     logger.debug('Generated prompt suggestions via Luxia', {
       userInput: userInput.substring(0, 50),
       suggestionCount: suggestions.length,
@@ -86,42 +83,6 @@ export async function generateSuggestions(
   }
 }
 
-function parseSuggestions(response: string): string[] {
-  try {
-    const jsonMatch = response.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      if (Array.isArray(parsed)) {
-        return parsed
-          .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
-          .map(item => item.trim());
-      }
-    }
-    
-    const lines = response.split('\n').filter(line => {
-      const trimmed = line.trim();
-      return trimmed.length > 0 && 
-             !trimmed.startsWith('[') && 
-             !trimmed.startsWith(']') &&
-             !trimmed.startsWith('{');
-    });
-    
-    if (lines.length > 0) {
-      return lines.slice(0, 5).map(line => 
-        line.replace(/^[\d\.\-\*\)]+\s*/, '').replace(/^["']|["']$/g, '').trim()
-      ).filter(line => line.length > 0);
-    }
-    
-    return [];
-  } catch (error) {
-    logger.warning('Failed to parse Luxia response', {
-      response: response.substring(0, 100),
-      logType: 'warning',
-    });
-    return [];
-  }
-}
-
 function getContextualFallback(userInput: string): string[] {
   const input = userInput.toLowerCase();
   
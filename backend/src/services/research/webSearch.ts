@@ -1,4 +1,5 @@
-import { chatWithPerplexity } from '../ai/perplexity.js';
+import { z } from 'zod';
+import { generateStructured } from '../ai/structuredOutput.js';
 import { createLogger } from '../../utils/logger.js';
 
 const logger = createLogger({
@@ -16,13 +17,25 @@ export interface SearchResult {
   timestamp: string;
 }
 
+const searchResultsSchema = z.object({
+  results: z
+    .array(
+      z.object({
+        title: z.string().min(1),
+        url: z.string().optional().nullable().transform((url) => url || undefined),
+        snippet: z.string(),
+      })
+    )
+    .min(1, '검색 결과가 최소 1개 필요합니다'),
+});
+
 export async function searchWeb(
   query: string,
   maxResults: number = 10
 ): Promise<SearchResult> {
   try {
     // Perplexity는 온라인 검색 기능이 있으므로 사용
-    const response = await chatWithPerplexity(
+    const { results } = await generateStructured(
       [
         {
           role: 'system',
@@ -30,35 +43,16 @@ export async function searchWeb(
         },
         {
           role: 'user',
-          content: `"${query}"에 대한 최신 정보를 검색하고 ${maxResults}개의 결과를 제공해주세요. 각 결과는 제목, URL(가능한 경우), 요약을 포함해주세요.`,
+          content: `"${query}"에 대한 최신 정보를 검색하고 ${maxResults}개의 결과를 제공해주세요. 각 결과는 제목, URL(가능한 경우), 요약을 포함해주세요.\n\n응답 형식 (JSON):\n{\n  "results": [\n    { "title": "제목", "url": "https://...", "snippet": "요약" }\n  ]\n}`,
         },
       ],
-      { model: 'llama-3-sonar-large-32k-online' }
+      searchResultsSchema,
+      { provider: 'perplexity' }
     );
 
-    if (!response) {
-      throw new Error('Failed to search web');
-    }
-
-    // 응답을 파싱하여 SearchResult 생성
-    const results: SearchResult['results'] = [];
-    const lines = response.split('\n').filter((line) => line.trim().length > 0);
-
-    for (let i = 0; i < lines.length && results.length < maxResults; i++) {
-      const line = lines[i];
-      if (line.match(/^\d+\.|^[-*]/)) {
-        const title = line.replace(/^\d+\.\s*|^[-*]\s*/, '').trim();
-        const snippet = i + 1 < lines.length ? lines[i + 1].trim() : '';
-        results.push({
-          title,
-          snippet,
-        });
-      }
-    }
-
     const searchResult: SearchResult = {
       query,
-      results: results.length > 0 ? results : [{ title: query, snippet: response }],
+      results: results.slice(0, maxResults),
       timestamp: new Date().toISOString(),
     };
 
@@ -1,4 +1,6 @@
+import { z } from 'zod';
 import { orchestrateAI } from '../ai/orchestrator.js';
+import { generateStructured } from '../ai/structuredOutput.js';
 import { createLogger } from '../../utils/logger.js';
 
 const logger = createLogger({
@@ -12,6 +14,22 @@ export interface TableData {
   title?: string;
 }
 
+// 숫자/불리언 셀은 문자열로 변환, 빈 표와 열 수가 맞지 않는 행은 수정 요청
+const cellSchema = z
+  .union([z.string(), z.number(), z.boolean(), z.null()])
+  .transform((value) => (value === null ? '' : String(value)));
+
+const tableDataSchema = z
+  .object({
+    title: z.string().optional(),
+    headers: z.array(z.string()).min(1, '헤더가 최소 1개 필요합니다'),
+    rows: z.array(z.array(cellSchema)).min(1, '행이 최소 1개 필요합니다'),
+  })
+  .refine((table) => table.rows.every((row) => row.length === table.headers.length), {
+    message: '모든 행의 값 개수가 헤더 개수와 같아야 합니다',
+    path: ['rows'],
+  });
+
 export async function generateTable(
   prompt: string,
   context?: string
@@ -19,7 +37,7 @@ export async function generateTable(
   try {
     const fullPrompt = `다음 요청에 따라 표를 생성해주세요. 표는 JSON 형식으로 반환해주세요:\n\n요청: ${prompt}\n${context ? `\n컨텍스트:\n${context}` : ''}\n\n응답 형식:\n{\n  "title": "표 제목",\n  "headers": ["헤더1", "헤더2", ...],\n  "rows": [\n    ["값1", "값2", ...],\n    ...\n  ]\n}`;
 
-    const response = await orchestrateAI(
+    const tableData: TableData = await generateStructured(
       [
         {
           role: 'system',
@@ -30,32 +48,9 @@ export async function generateTable(
           content: fullPrompt,
         },
       ],
-      fullPrompt
+      tableDataSchema
     );
 
-    if (!response) {
-      throw new Error('Failed to generate table');
-    }
-
-    // JSON 파싱 시도
-    let tableData: TableData;
-    try {
-      // JSON 코드 블록에서 추출
-      const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) || response.match(/\{[\s\S]*\}/);
-      const jsonString = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : response;
-      tableData = JSON.parse(jsonString);
-    } catch (parseError) {
-      // JSON 파싱 실패 시 기본 구조 생성
-      logger.warning('Failed to parse table JSON, creating default structure', {
-        logType: 'warning',
-      });
-      tableData = {
-        title: '생성된 표',
-        headers: ['항목', '값'],
-        rows: [['데이터', response.substring(0, 100)]],
-      };
-    }
-
     logger.success('Table generated', {
       prompt: prompt.substring(0, 100),
       headerCount: tableData.headers.length,
@@ -1,4 +1,5 @@
-import { orchestrateAI } from '../ai/orchestrator.js';
+import { z } from 'zod';
+import { generateStructured } from '../ai/structuredOutput.js';
 import { createLogger } from '../../utils/logger.js';
 
 const logger = createLogger({
@@ -21,14 +22,49 @@ export interface WorkflowPlan {
   requiredResources: string[];
 }
 
+// id가 겹치거나 잘못된 선행 단계를 참조하면 수정 요청
+const workflowPlanSchema = z
+  .object({
+    steps: z
+      .array(
+        z.object({
+          id: z.string().min(1),
+          name: z.string().min(1),
+          description: z.string(),
+          action: z.enum(['execute', 'code', 'table', 'research']),
+          dependencies: z.array(z.string()).default([]),
+          estimatedTime: z.number().optional(),
+        })
+      )
+      .min(1, '단계가 최소 1개 필요합니다'),
+  })
+  .superRefine((plan, ctx) => {
+    const ids = new Set(plan.steps.map((step) => step.id));
+    if (ids.size !== plan.steps.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: '단계 id가 중복됩니다', path: ['steps'] });
+    }
+    // 선행 단계는 앞선 단계만 가능 (순환 방지)
+    plan.steps.forEach((step, index) => {
+      const earlierIds = new Set(plan.steps.slice(0, index).map((earlier) => earlier.id));
+      const unknown = step.dependencies.filter((dependency) => !earlierIds.has(dependency));
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `잘못된 선행 단계: ${unknown.join(', ')}`,
+          path: ['steps', index, 'dependencies'],
+        });
+      }
+    });
+  });
+
 export async function createWorkflowPlan(
   goal: string,
   context?: string
 ): Promise<WorkflowPlan> {
   try {
-    const prompt = `다음 목표를 달성하기 위한 단계별 작업 계획을 수립해주세요:\n\n목표: ${goal}\n${context ? `\n컨텍스트:\n${context}` : ''}\n\n각 단계는 다음 형식으로 작성해주세요:\n- 단계명: 설명 (작업 유형: execute/code/table/research, 예상 소요 시간)`;
+    const prompt = `다음 목표를 달성하기 위한 단계별 작업 계획을 수립해주세요:\n\n목표: ${goal}\n${context ? `\n컨텍스트:\n${context}` : ''}\n\n응답 형식 (JSON):\n{\n  "steps": [\n    {\n      "id": "step-1",\n      "name": "단계명",\n      "description": "수행할 작업 설명",\n      "action": "execute | code | table | research 중 하나",\n      "dependencies": ["먼저 끝나야 하는 앞선 단계 id"]\n    }\n  ]\n}`;
 
-    const response = await orchestrateAI(
+    const { steps } = await generateStructured(
       [
         {
           role: 'system',
@@ -39,76 +75,9 @@ export async function createWorkflowPlan(
           content: prompt,
         },
       ],
-      prompt
+      workflowPlanSchema
     );
 
-    if (!response) {
-      throw new Error('Failed to create workflow plan');
-    }
-
-    // 응답을 파싱하여 WorkflowPlan 생성
-    const steps: WorkflowStep[] = [];
-    const lines = response.split('\n').filter((line) => line.trim().length > 0);
-
-    let stepId = 1;
-    let currentStep: Partial<WorkflowStep> | null = null;
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
-      // 단계 시작 감지
-      if (trimmedLine.match(/^\d+[\.\)]\s*|^[-*•]\s*|단계\s*\d+|Step\s*\d+/i)) {
-        // 이전 단계 저장
-        if (currentStep && currentStep.name) {
-          steps.push(currentStep as WorkflowStep);
-        }
-        
-        const cleanLine = trimmedLine.replace(/^\d+[\.\)]\s*|^[-*•]\s*|단계\s*\d+:|Step\s*\d+:/i, '');
-        const parts = cleanLine.split(':');
-        const name = parts[0].trim();
-        const rest = parts.slice(1).join(':').trim();
-
-        // 작업 유형 추출
-        let action: WorkflowStep['action'] = 'execute';
-        const lowerRest = rest.toLowerCase();
-        if (lowerRest.includes('code') || lowerRest.includes('코드') || lowerRest.includes('python')) {
-          action = 'code';
-        } else if (lowerRest.includes('table') || lowerRest.includes('표') || lowerRest.includes('데이터표')) {
-          action = 'table';
-        } else if (lowerRest.includes('research') || lowerRest.includes('리서치') || lowerRest.includes('조사')) {
-          action = 'research';
-        }
-
-        currentStep = {
-          id: `step-${stepId}`,
-          name,
-          description: rest || name,
-          action,
-          dependencies: stepId > 1 ? [`step-${stepId - 1}`] : [],
-        };
-        stepId++;
-      } else if (currentStep && trimmedLine.length > 0) {
-        // 현재 단계의 설명에 추가
-        currentStep.description += '\n' + trimmedLine;
-      }
-    }
-
-    // 마지막 단계 저장
-    if (currentStep && currentStep.name) {
-      steps.push(currentStep as WorkflowStep);
-    }
-
-    // 단계가 없으면 기본 단계 생성
-    if (steps.length === 0) {
-      steps.push({
-        id: 'step-1',
-        name: '작업 실행',
-        description: goal,
-        action: 'execute',
-        dependencies: [],
-      });
-    }
-
     // 각 단계의 예상 시간 계산 (실제 작업 유형에 따라)
     let totalTime = 0;
     for (const step of steps) {
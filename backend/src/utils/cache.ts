@@ -61,6 +61,7 @@ function getCacheKey(prefix: string, key: string): string {
 export interface CacheOptions {
   ttl?: number; // Time to live in seconds
   prefix?: string;
+  skipMetrics?: boolean; // 호출 측에서 히트/미스를 직접 기록하는 경우
 }
 
 // 캐시 저장
@@ -114,13 +115,17 @@ export async function getCache<T>(
     const cached = await redis.get(cacheKey);
     
     if (!cached) {
-      recordCacheMiss(options.prefix || 'default');
+      if (!options.skipMetrics) {
+        recordCacheMiss(options.prefix || 'default');
+      }
       return null;
     }
 
     const parsed = JSON.parse(cached) as T;
 
-    recordCacheHit(options.prefix || 'default');
+    if (!options.skipMetrics) {
+      recordCacheHit(options.prefix || 'default');
+    }
     
     logger.debug('Cache hit', {
       key: cacheKey,
@@ -256,5 +261,6 @@ export const CACHE_PREFIXES = {
   CONVERSATION: 'conversation',
   DOCUMENT: 'document',
   WORKFLOW: 'workflow',
+  INTENT: 'intent',
 } as const;
 
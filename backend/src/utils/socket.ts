@@ -2,6 +2,8 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import http from 'http';
 import jwt from 'jsonwebtoken';
 import { logger } from './logger.js';
+import { getA2AEventBufferOwner, getA2AEventsSince } from '../services/ai/a2aEventBuffer.js';
+import { cancelRequest } from '../services/ai/cancellation.js';
 
 let io: SocketIOServer | null = null;
 
@@ -79,23 +81,71 @@ export function initSocketIO(server: http.Server): SocketIOServer {
       });
     });
 
-    socket.on('start_a2a', (data: { sessionId: string }, callback?: (ack: { joined: boolean }) => void) => {
+    // 재연결한 클라이언트는 lastSeq(마지막으로 받은 이벤트 번호)를 보내 놓친 이벤트를 다시 받음
+    socket.on('start_a2a', (
+      data: { sessionId: string; lastSeq?: number },
+      callback?: (ack: { joined: boolean; missed?: number }) => void
+    ) => {
       const room = `a2a_${data.sessionId}`;
+      const owner = getA2AEventBufferOwner(data.sessionId);
+      if (owner !== null && owner !== socket.userId) {
+        logger.warning('A2A session join rejected', {
+          screenName: 'WebSocket',
+          callerFunction: 'start_a2a',
+          sessionId: data.sessionId,
+          socketId: socket.id,
+          userId: socket.userId,
+          logType: 'warning',
+        });
+        if (callback) {
+          callback({ joined: false });
+        }
+        return;
+      }
+
       socket.join(room);
+      // 방에 들어간 직후 동기적으로 재전송하므로 이후 실시간 이벤트와 순서가 섞이지 않음
+      const missed = typeof data.lastSeq === 'number' ? getA2AEventsSince(data.sessionId, data.lastSeq) : [];
+      for (const buffered of missed) {
+        socket.emit(buffered.event, { ...buffered.data, seq: buffered.seq });
+      }
+
       logger.info('A2A session room joined', {
         screenName: 'WebSocket',
         callerFunction: 'start_a2a',
         sessionId: data.sessionId,
         room,
         socketId: socket.id,
+        lastSeq: data.lastSeq,
+        missed: missed.length,
         logType: 'info',
       });
       if (callback) {
-        callback({ joined: true });
+        callback({ joined: true, missed: missed.length });
       }
       socket.emit('a2a_joined', { sessionId: data.sessionId, room });
     });
 
+    // 토론 취소: 진행 중인 발언은 부분 응답으로 끝나고 a2a_complete(cancelled)가 전송됨
+    socket.on('cancel_a2a', (
+      data: { sessionId: string },
+      callback?: (ack: { cancelled: boolean }) => void
+    ) => {
+      const cancelled = cancelRequest(data.sessionId, socket.userId);
+      logger.info('A2A cancel requested', {
+        screenName: 'WebSocket',
+        callerFunction: 'cancel_a2a',
+        sessionId: data.sessionId,
+        socketId: socket.id,
+        userId: socket.userId,
+        cancelled,
+        logType: 'info',
+      });
+      if (callback) {
+        callback({ cancelled });
+      }
+    });
+
     socket.on('disconnect', () => {
       logger.info('WebSocket client disconnected', {
         screenName: 'WebSocket',
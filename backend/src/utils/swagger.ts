@@ -35,6 +35,7 @@ const options: swaggerJsdoc.Options = {
       { name: 'Code', description: '코드 생성 및 실행 API' },
       { name: 'Workflows', description: '워크플로우 관리 API' },
       { name: 'Conversations', description: '대화 이력 API' },
+      { name: 'Personas', description: '어시스턴트 페르소나 API' },
       { name: 'Admin', description: '관리자 API' },
       { name: 'Multimodal', description: '멀티모달 처리 API' },
       { name: 'Metrics', description: '메트릭 조회 API' },
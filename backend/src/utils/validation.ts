@@ -1,5 +1,11 @@
 import { z } from 'zod';
 import { createLogger } from './logger.js';
+import { hasProviderAdapter, getProviderAdapter } from '../services/ai/providerRegistry.js';
+import { GenerationParams, validateGenerationParams } from '../services/ai/generationParams.js';
+import { providerModelsSchema } from '../services/ai/modelCatalog.js';
+import { INTENT_TYPES } from '../services/ai/intentAnalyzer.js';
+import { BUDGET_PERIODS, BUDGET_SCOPES } from '../services/ai/budget.js';
+import { a2aPipelineSchema } from '../services/ai/a2aPipeline.js';
 
 const logger = createLogger({
   screenName: 'Validation',
@@ -16,6 +22,7 @@ export const commonSchemas = {
     .regex(/[^A-Za-z0-9]/, '비밀번호에 특수문자가 포함되어야 합니다'),
   id: z.number().int().positive('ID는 양수여야 합니다'),
   uuid: z.string().uuid('유효한 UUID 형식이 아닙니다'),
+  provider: z.string().refine(hasProviderAdapter, '지원하지 않는 프로바이더입니다'),
 };
 
 // 인증 관련 스키마
@@ -31,13 +38,52 @@ export const authSchemas = {
   }),
 };
 
+// 요청별 생성 파라미터. 공통 범위는 스키마로, 프로바이더별 한도는 요청 프로바이더 기준으로 검증
+// (자동 선택이면 선택된 프로바이더에 맞춰 조정되므로 model만 지정할 수 없음, 모델 카탈로그 확인은 라우트에서)
+const generationParamsShape = {
+  model: z.string().min(1).max(100).optional(),
+  temperature: z.number().min(0, 'temperature는 0 이상이어야 합니다').max(2, 'temperature는 2 이하여야 합니다').optional(),
+  topP: z.number().gt(0, 'topP는 0보다 커야 합니다').max(1, 'topP는 1 이하여야 합니다').optional(),
+  maxTokens: z.number().int().positive('maxTokens는 양수여야 합니다').optional(),
+  stop: z.array(z.string().min(1).max(100)).max(8, 'stop 시퀀스는 최대 8개입니다').optional(),
+  seed: z.number().int().optional(),
+};
+
+function refineGenerationParams(data: GenerationParams & { provider?: string | null }, ctx: z.RefinementCtx) {
+  const adapter = data.provider ? getProviderAdapter(data.provider) : undefined;
+  if (!adapter) {
+    if (data.model) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['model'], message: '모델을 지정하려면 프로바이더를 선택하세요' });
+    }
+    return;
+  }
+
+  for (const issue of validateGenerationParams(data, adapter.capabilities.generation)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${adapter.displayName}: ${issue}` });
+  }
+}
+
 // AI 관련 스키마
 export const aiSchemas = {
   chat: z.object({
     message: z.string().min(1, '메시지를 입력하세요').max(50000, '메시지는 50000자 이하여야 합니다'),
     conversationId: z.number().int().positive().optional().nullable(),
-    provider: z.enum(['openai', 'claude', 'gemini', 'perplexity', 'luxia']).optional().nullable(),
+    provider: commonSchemas.provider.optional().nullable(),
     mixOfAgents: z.boolean().optional().default(false),
+    hasAttachments: z.boolean().optional(),
+    a2aPresetId: z.number().int().positive().optional().nullable(),
+    a2aPipeline: a2aPipelineSchema.optional().nullable(),
+    useTools: z.boolean().optional(),
+    personaId: z.number().int().positive().optional().nullable(), // 지정 시 대화에 페르소나 연결 (null: 해제)
+    ...generationParamsShape,
+  }).superRefine(refineGenerationParams),
+  a2aStart: z.object({
+    message: z.string().min(1, '메시지를 입력하세요'),
+    conversationId: z.number().int().positive().optional().nullable(),
+    sessionId: z.string().min(1, 'sessionId is required'),
+    presetId: z.number().int().positive().optional().nullable(),
+    pipeline: a2aPipelineSchema.optional().nullable(),
+    parallel: z.boolean().optional(), // 프리셋 설정과 무관하게 라운드 내 동시 실행 여부 지정
   }),
   promptSuggestions: z.object({
     words: z.array(z.string()).min(1, '단어 배열이 필요합니다'),
@@ -71,6 +117,41 @@ export const codeSchemas = {
   }),
 };
 
+// 페르소나 관련 스키마 (allowedTools 미지정/null: 모든 도구 허용)
+const personaFields = {
+  name: z.string().min(1, '이름을 입력하세요').max(100),
+  description: z.string().max(1000).optional().nullable(),
+  systemPrompt: z.string().min(1, '시스템 프롬프트를 입력하세요').max(20000),
+  language: z.string().min(2).max(20),
+  provider: commonSchemas.provider.optional().nullable(),
+  model: z.string().max(100).optional().nullable(),
+  temperature: z.number().min(0).max(2).optional().nullable(),
+  allowedTools: z.array(z.string().min(1).max(100)).max(50).optional().nullable(),
+  showSignature: z.boolean(),
+  isShared: z.boolean(),
+};
+
+export const personaSchemas = {
+  create: z.object({
+    ...personaFields,
+    language: personaFields.language.default('ko'),
+    showSignature: personaFields.showSignature.default(false),
+    isShared: personaFields.isShared.default(false),
+  }),
+  update: z.object(personaFields).partial(),
+  assign: z.object({
+    personaId: z.number().int().positive().nullable(),
+  }),
+};
+
+// 대화 관련 스키마
+export const conversationSchemas = {
+  summary: z.object({
+    summary: z.string().trim().min(1, '요약을 입력하세요').max(20000, '요약은 20000자 이하여야 합니다'),
+    lastMessageId: z.number().int().positive().optional(), // 요약에 포함된 마지막 메시지 ID (이 대화의 메시지)
+  }),
+};
+
 // 워크플로우 관련 스키마
 export const workflowSchemas = {
   create: z.object({
@@ -80,13 +161,51 @@ export const workflowSchemas = {
   }),
 };
 
+// OpenAI 호환 엔드포인트 설정 (ApiKey.metadata)
+const apiKeyMetadataSchema = z.object({
+  baseUrl: z.string().url('유효한 base URL을 입력하세요').optional(),
+  model: z.string().min(1).max(255).optional(),
+  headers: z.record(z.string()).optional(),
+});
+
 // 관리자 관련 스키마
+const routingConditionsSchema = z.object({
+  intentTypes: z.array(z.enum(INTENT_TYPES)).optional(),
+  keywordPattern: z.string().max(1000).refine((pattern) => {
+    try {
+      new RegExp(pattern, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  }, '올바른 정규식이 아닙니다').optional(),
+  userRoles: z.array(z.string().max(50)).optional(),
+  topics: z.array(z.string().max(255)).optional(),
+  hasAttachments: z.boolean().optional(),
+});
+
 export const adminSchemas = {
   apiKey: z.object({
-    provider: z.enum(['openai', 'claude', 'gemini', 'perplexity', 'luxia']),
+    provider: commonSchemas.provider,
     apiKey: z.string().min(1, 'API 키를 입력하세요'),
     weight: z.number().min(0.1).max(10).default(1.0),
     isActive: z.boolean().default(true),
+    metadata: apiKeyMetadataSchema.optional(),
+    name: z.string().max(100).optional(),
+    dailyRequestLimit: z.number().int().positive().nullable().optional(),
+    dailyTokenLimit: z.number().int().positive().nullable().optional(),
+  }).refine(
+    (data) => data.provider !== 'openai-compatible' || (!!data.metadata?.baseUrl && !!data.metadata?.model),
+    { message: 'OpenAI 호환 프로바이더는 baseUrl과 model이 필요합니다', path: ['metadata'] }
+  ),
+  apiKeyUpdate: z.object({
+    apiKey: z.string().min(1).optional(),
+    weight: z.number().min(0.1).max(10).optional(),
+    isActive: z.boolean().optional(),
+    metadata: apiKeyMetadataSchema.optional(),
+    name: z.string().max(100).optional(),
+    dailyRequestLimit: z.number().int().positive().nullable().optional(),
+    dailyTokenLimit: z.number().int().positive().nullable().optional(),
   }),
   user: z.object({
     email: commonSchemas.email,
@@ -95,6 +214,70 @@ export const adminSchemas = {
     role: z.enum(['user', 'admin']).default('user'),
     isActive: z.boolean().default(true),
   }),
+  routingRule: z.object({
+    name: z.string().min(1).max(255),
+    description: z.string().max(1000).optional(),
+    conditions: routingConditionsSchema.default({}),
+    provider: commonSchemas.provider,
+    model: z.string().max(255).optional().nullable(),
+    priority: z.number().int().default(0),
+    isActive: z.boolean().default(true),
+  }),
+  routingRuleUpdate: z.object({
+    name: z.string().min(1).max(255).optional(),
+    description: z.string().max(1000).optional().nullable(),
+    conditions: routingConditionsSchema.optional(),
+    provider: commonSchemas.provider.optional(),
+    model: z.string().max(255).optional().nullable(),
+    priority: z.number().int().optional(),
+    isActive: z.boolean().optional(),
+  }),
+  routingDryRun: z.object({
+    prompt: z.string().min(1, '프롬프트를 입력하세요').max(50000),
+    userRole: z.string().max(50).optional(),
+    topic: z.string().max(255).optional(),
+    hasAttachments: z.boolean().optional(),
+  }),
+  usageBudget: z.object({
+    scope: z.enum(BUDGET_SCOPES),
+    userId: z.number().int().positive().optional(),
+    role: z.string().min(1).max(50).optional(),
+    period: z.enum(BUDGET_PERIODS),
+    tokenLimit: z.number().int().positive().optional().nullable(),
+    costLimit: z.number().positive().optional().nullable(),
+    softLimitPercent: z.number().int().min(1).max(100).default(80),
+    isActive: z.boolean().default(true),
+  })
+    .refine((data) => (data.scope === 'user' ? !!data.userId : !!data.role), {
+      message: 'scope가 user이면 userId, role이면 role이 필요합니다',
+    })
+    .refine((data) => !!data.tokenLimit || !!data.costLimit, {
+      message: '토큰 한도 또는 비용 한도 중 하나는 입력해야 합니다',
+    }),
+  usageBudgetUpdate: z.object({
+    tokenLimit: z.number().int().positive().optional().nullable(),
+    costLimit: z.number().positive().optional().nullable(),
+    softLimitPercent: z.number().int().min(1).max(100).optional(),
+    isActive: z.boolean().optional(),
+  }),
+  a2aPreset: z.object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(1000).optional().nullable(),
+    definition: a2aPipelineSchema,
+    isDefault: z.boolean().default(false),
+  }),
+  a2aPresetUpdate: z.object({
+    name: z.string().min(1).max(100).optional(),
+    description: z.string().max(1000).optional().nullable(),
+    definition: a2aPipelineSchema.optional(),
+    isDefault: z.boolean().optional(),
+  }),
+  circuitAction: z.object({
+    action: z.enum(['open', 'reset']),
+  }),
+  providerModels: z.object({
+    models: providerModelsSchema.nullable(), // null이면 기본 카탈로그로 복원
+  }),
   guardrail: z.object({
     name: z.string().min(1).max(255),
     description: z.string().max(1000).optional(),
@@ -0,0 +1,24 @@
+-- 프로바이더별 API 키 풀: 키 여러 개 허용, 키별 일일 쿼터 및 사용량
+
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_provider_created_by_key;
+
+ALTER TABLE api_keys
+    ADD COLUMN name VARCHAR(100),
+    ADD COLUMN daily_request_limit INTEGER,
+    ADD COLUMN daily_token_limit INTEGER;
+
+CREATE TABLE api_key_usage (
+    id SERIAL PRIMARY KEY,
+    api_key_id INTEGER NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    request_count INTEGER DEFAULT 0,
+    token_count INTEGER DEFAULT 0,
+    error_count INTEGER DEFAULT 0,
+    last_status INTEGER,
+    last_used_at TIMESTAMP,
+    UNIQUE(api_key_id, date)
+);
+
+CREATE INDEX idx_api_key_usage_date ON api_key_usage(date);
+
+COMMENT ON TABLE api_key_usage IS 'API 키별 일일 사용량 (쿼터 계산용)';
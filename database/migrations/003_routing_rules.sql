@@ -0,0 +1,24 @@
+-- 관리자 라우팅 규칙: 우선순위 순으로 조건(의도, 키워드, 역할, 주제, 첨부)을 평가해 프로바이더/모델 결정
+
+CREATE TABLE routing_rules (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    conditions JSONB DEFAULT '{}',
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(255),
+    is_active BOOLEAN DEFAULT true,
+    priority INTEGER DEFAULT 0,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_routing_rules_is_active ON routing_rules(is_active);
+CREATE INDEX idx_routing_rules_priority ON routing_rules(priority);
+CREATE INDEX idx_routing_rules_created_by ON routing_rules(created_by);
+
+CREATE TRIGGER update_routing_rules_updated_at BEFORE UPDATE ON routing_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE routing_rules IS 'AI 라우팅 규칙 (priority 오름차순으로 평가)';
@@ -0,0 +1,13 @@
+-- 메시지별 토큰 사용량/비용 및 프로바이더별 일일 비용
+
+ALTER TABLE messages
+    ADD COLUMN prompt_tokens INTEGER DEFAULT 0,
+    ADD COLUMN completion_tokens INTEGER DEFAULT 0,
+    ADD COLUMN cost DECIMAL(12,6) DEFAULT 0;
+
+ALTER TABLE ai_request_stats
+    ADD COLUMN total_cost DECIMAL(14,6) DEFAULT 0;
+
+CREATE INDEX idx_messages_model ON messages(model);
+
+COMMENT ON COLUMN messages.cost IS '응답 생성에 든 비용 (USD, 의도 분류·폴백·에이전트 호출 포함)';
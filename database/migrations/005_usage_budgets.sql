@@ -0,0 +1,24 @@
+-- 사용자/역할(팀)별 일간·월간 토큰 또는 비용 예산
+
+CREATE TABLE usage_budgets (
+    id SERIAL PRIMARY KEY,
+    scope VARCHAR(20) NOT NULL CHECK (scope IN ('user', 'role')),
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(50),
+    period VARCHAR(20) NOT NULL CHECK (period IN ('daily', 'monthly')),
+    token_limit INTEGER,
+    cost_limit DECIMAL(12,4),
+    soft_limit_percent INTEGER DEFAULT 80,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, period),
+    UNIQUE(role, period)
+);
+
+CREATE INDEX idx_usage_budgets_is_active ON usage_budgets(is_active);
+
+CREATE TRIGGER update_usage_budgets_updated_at BEFORE UPDATE ON usage_budgets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE usage_budgets IS 'AI 사용 예산 (scope=role은 해당 역할 사용자 전체 합계 기준)';
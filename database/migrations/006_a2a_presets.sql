@@ -0,0 +1,19 @@
+-- A2A 토론 파이프라인 프리셋: 참가자, 단계별 라운드 수, 페르소나, 종합 폴백 체인, 조기 종료 조건
+
+CREATE TABLE a2a_presets (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) UNIQUE NOT NULL,
+    description TEXT,
+    definition JSONB NOT NULL,
+    is_default BOOLEAN DEFAULT false,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_a2a_presets_is_default ON a2a_presets(is_default);
+
+CREATE TRIGGER update_a2a_presets_updated_at BEFORE UPDATE ON a2a_presets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE a2a_presets IS 'A2A 파이프라인 프리셋 (is_default 프리셋이 요청 기본값)';
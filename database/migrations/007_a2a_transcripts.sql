@@ -0,0 +1,48 @@
+-- A2A 토론 기록: 세션(요청 단위)과 에이전트 발언(단계·라운드·지연 시간·토큰 사용량)
+
+CREATE TABLE a2a_sessions (
+    id SERIAL PRIMARY KEY,
+    session_id VARCHAR(100) UNIQUE NOT NULL,
+    conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    message_id INTEGER UNIQUE REFERENCES messages(id) ON DELETE SET NULL,
+    prompt TEXT NOT NULL,
+    pipeline JSONB NOT NULL,
+    parallel BOOLEAN DEFAULT false,
+    status VARCHAR(20) DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    synthesizer VARCHAR(50),
+    early_stop JSONB,
+    tokens INTEGER DEFAULT 0,
+    cost DECIMAL(12,6) DEFAULT 0,
+    error TEXT,
+    started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX idx_a2a_sessions_conversation_id ON a2a_sessions(conversation_id);
+CREATE INDEX idx_a2a_sessions_user_id ON a2a_sessions(user_id);
+CREATE INDEX idx_a2a_sessions_status ON a2a_sessions(status);
+
+CREATE TABLE a2a_turns (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER NOT NULL REFERENCES a2a_sessions(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(100),
+    label VARCHAR(255) NOT NULL,
+    phase VARCHAR(20) NOT NULL CHECK (phase IN ('collaboration', 'debate', 'synthesis')),
+    round INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    status VARCHAR(20) DEFAULT 'completed' CHECK (status IN ('completed', 'failed')),
+    latency_ms INTEGER DEFAULT 0,
+    prompt_tokens INTEGER DEFAULT 0,
+    completion_tokens INTEGER DEFAULT 0,
+    tokens INTEGER DEFAULT 0,
+    cost DECIMAL(12,6) DEFAULT 0,
+    started_at TIMESTAMP NOT NULL,
+    completed_at TIMESTAMP NOT NULL,
+    UNIQUE(session_id, sequence)
+);
+
+COMMENT ON TABLE a2a_sessions IS 'A2A 토론 세션 (message_id는 발언을 합쳐 저장한 assistant 메시지)';
+COMMENT ON COLUMN a2a_turns.sequence IS '발언 시작 순서 (동시 실행 라운드는 참가자 순서)';
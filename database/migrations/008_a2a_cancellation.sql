@@ -0,0 +1,11 @@
+-- 생성 취소: 사용자가 중단한 A2A 세션과 취소 시점까지의 부분 발언
+
+ALTER TABLE a2a_sessions DROP CONSTRAINT IF EXISTS a2a_sessions_status_check;
+ALTER TABLE a2a_sessions
+    ADD CONSTRAINT a2a_sessions_status_check CHECK (status IN ('running', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE a2a_turns DROP CONSTRAINT IF EXISTS a2a_turns_status_check;
+ALTER TABLE a2a_turns
+    ADD CONSTRAINT a2a_turns_status_check CHECK (status IN ('completed', 'failed', 'cancelled'));
+
+COMMENT ON COLUMN messages.metadata IS '응답 부가 정보 (usage: 토큰 집계, cancelled: 사용자가 생성을 중단한 부분 응답)';
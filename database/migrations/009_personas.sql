@@ -0,0 +1,29 @@
+-- 어시스턴트 페르소나: 시스템 프롬프트, 응답 언어, 기본 프로바이더/모델, temperature, 허용 도구, 시그니처 표시 여부
+-- 대화에는 conversations.metadata.personaId로 연결
+
+CREATE TABLE personas (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    system_prompt TEXT NOT NULL,
+    language VARCHAR(20) DEFAULT 'ko',
+    provider VARCHAR(50),
+    model VARCHAR(100),
+    temperature DECIMAL(3,2),
+    allowed_tools JSONB,
+    show_signature BOOLEAN DEFAULT false,
+    is_shared BOOLEAN DEFAULT false,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_personas_user_id ON personas(user_id);
+CREATE INDEX idx_personas_is_shared ON personas(is_shared);
+
+CREATE TRIGGER update_personas_updated_at BEFORE UPDATE ON personas
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE personas IS '어시스턴트 페르소나 (is_shared 페르소나는 모든 사용자가 선택 가능, 관리자만 공유 설정)';
+COMMENT ON COLUMN personas.allowed_tools IS '도구 호출 시 허용할 도구 이름 목록 (NULL: 전체, mcp: 모든 MCP 도구)';
+COMMENT ON COLUMN conversations.metadata IS '대화 메타데이터 (personaId: 대화에 연결된 페르소나)';
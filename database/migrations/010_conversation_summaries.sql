@@ -0,0 +1,20 @@
+-- 대화별 누적 요약: last_message_id까지의 메시지를 요약해 저장하고,
+-- 컨텍스트 창을 벗어난 메시지가 새로 생길 때만 기존 요약에 이어서 갱신
+
+CREATE TABLE conversation_summaries (
+    id SERIAL PRIMARY KEY,
+    conversation_id INTEGER NOT NULL UNIQUE REFERENCES conversations(id) ON DELETE CASCADE,
+    summary TEXT NOT NULL,
+    last_message_id INTEGER NOT NULL DEFAULT 0,
+    message_count INTEGER DEFAULT 0,
+    is_edited BOOLEAN DEFAULT false,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_conversation_summaries_updated_at BEFORE UPDATE ON conversation_summaries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE conversation_summaries IS '대화별 누적 요약 (컨텍스트 토큰 예산을 넘는 이전 대화 대신 사용)';
+COMMENT ON COLUMN conversation_summaries.last_message_id IS '요약에 포함된 마지막 메시지 ID (이후 메시지가 창을 벗어나면 이어서 요약)';
+COMMENT ON COLUMN conversation_summaries.is_edited IS '사용자가 직접 수정한 요약 여부 (이후 갱신은 수정된 요약에 이어서 작성)';
@@ -0,0 +1,10 @@
+-- 프로바이더 일별 통계의 응답 시간을 누적 합계로 저장 (평균은 total_duration / request_count로 계산)
+-- 평균을 읽어서 다시 쓰면 여러 인스턴스가 동시에 갱신할 때 값이 덮어써지므로 증가분만 저장
+
+ALTER TABLE ai_request_stats
+    ADD COLUMN total_duration DECIMAL(14,3) DEFAULT 0;
+
+UPDATE ai_request_stats
+SET total_duration = COALESCE(avg_duration, 0) * request_count;
+
+COMMENT ON COLUMN ai_request_stats.total_duration IS '응답 시간 합계 (초)';
@@ -1,5 +1,7 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { usePromptSuggestion } from '../hooks/usePromptSuggestion';
+import GenerationSettingsPopover from './GenerationSettingsPopover';
+import { GenerationLimits, GenerationSettings } from '../types/generation';
 
 export type ToolMode = 'none' | 'mk-news' | 'mk-stock' | 'comprehensive';
 
@@ -10,8 +12,12 @@ interface ChatInputProps {
   onSuggestionsChange: (suggestions: string[]) => void;
   onSuggestionsLoadingChange?: (loading: boolean) => void;
   loading: boolean;
+  onStop?: () => void; // 있으면 생성 중에 전송 대신 중지 버튼 표시
   toolMode?: ToolMode;
   onToolModeChange?: (mode: ToolMode) => void;
+  generationSettings?: GenerationSettings; // 있으면 생성 설정 팝오버 표시
+  onGenerationSettingsChange?: (settings: GenerationSettings) => void;
+  generationLimits?: GenerationLimits | null; // 선택한 프로바이더의 한도 (자동 선택이면 null)
 }
 
 export default function ChatInput({
@@ -21,8 +27,12 @@ export default function ChatInput({
   onSuggestionsChange,
   onSuggestionsLoadingChange,
   loading,
+  onStop,
   toolMode = 'none',
   onToolModeChange,
+  generationSettings,
+  onGenerationSettingsChange,
+  generationLimits = null,
 }: ChatInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -94,6 +104,16 @@ export default function ChatInput({
             종목코드 또는 종목명을 입력하세요
           </span>
         )}
+        {generationSettings && onGenerationSettingsChange && (
+          <div className="ml-auto">
+            <GenerationSettingsPopover
+              settings={generationSettings}
+              onChange={onGenerationSettingsChange}
+              limits={generationLimits}
+              disabled={loading}
+            />
+          </div>
+        )}
       </div>
       <div className="flex items-end space-x-2 bg-white rounded-lg border border-gray-300 focus-within:border-primary-500 focus-within:ring-2 focus-within:ring-primary-200">
         <textarea
@@ -118,19 +138,29 @@ export default function ChatInput({
         <span id="input-help" className="sr-only">
           Enter 키로 전송, Shift+Enter로 줄바꿈
         </span>
-        <button
-          onClick={() => {
-            if (value.trim() && !loading) {
-              onSend(value);
-            }
-          }}
-          disabled={!value.trim() || loading}
-          className="m-2 px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          aria-label="메시지 전송"
-          aria-disabled={!value.trim() || loading}
-        >
-          {loading ? '전송 중...' : '전송'}
-        </button>
+        {loading && onStop ? (
+          <button
+            onClick={onStop}
+            className="m-2 px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors"
+            aria-label="응답 생성 중지"
+          >
+            중지
+          </button>
+        ) : (
+          <button
+            onClick={() => {
+              if (value.trim() && !loading) {
+                onSend(value);
+              }
+            }}
+            disabled={!value.trim() || loading}
+            className="m-2 px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label="메시지 전송"
+            aria-disabled={!value.trim() || loading}
+          >
+            {loading ? '전송 중...' : '전송'}
+          </button>
+        )}
       </div>
     </div>
   );
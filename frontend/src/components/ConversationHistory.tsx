@@ -1,9 +1,10 @@
-import { Message } from '../types/message';
+import { Message, ToolCallInfo } from '../types/message';
 import Markdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
 interface ConversationHistoryProps {
   messages: Message[];
+  onReplayA2A?: (sessionId: string) => void;
 }
 
 const MarkdownRenderer = ({ content }: { content: string }) => {
@@ -14,6 +15,41 @@ const MarkdownRenderer = ({ content }: { content: string }) => {
   );
 };
 
+const TOOL_LABELS: Record<string, string> = {
+  web_search: '웹 검색',
+  generate_table: '표 생성',
+  execute_python: '코드 실행',
+  search_documents: '문서 검색',
+};
+
+// 응답 중 실행된 도구 호출 (펼치면 인자와 결과 표시)
+const ToolCallList = ({ toolCalls }: { toolCalls: ToolCallInfo[] }) => {
+  return (
+    <div className="mb-3 space-y-1">
+      {toolCalls.map((call) => (
+        <details key={call.id} className="text-xs bg-gray-50 border border-gray-200 rounded">
+          <summary className="px-3 py-1.5 cursor-pointer text-gray-600 flex items-center gap-2">
+            <span>🔧 {TOOL_LABELS[call.name] || call.name}</span>
+            {call.result === undefined ? (
+              <span className="text-gray-400">실행 중...</span>
+            ) : call.isError ? (
+              <span className="text-red-600">실패</span>
+            ) : (
+              <span className="text-green-600">완료</span>
+            )}
+          </summary>
+          <div className="px-3 pb-2 space-y-1">
+            <pre className="whitespace-pre-wrap break-all text-gray-500">{JSON.stringify(call.arguments, null, 2)}</pre>
+            {call.result !== undefined && (
+              <pre className="whitespace-pre-wrap break-all text-gray-700 max-h-48 overflow-y-auto">{call.result}</pre>
+            )}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+};
+
 const getProviderBadgeColor = (provider: string): string => {
   const colors: Record<string, string> = {
     openai: 'bg-green-50 text-green-700',
@@ -42,6 +78,7 @@ const isLuxiaProvider = (provider: string | undefined): boolean => {
 
 export default function ConversationHistory({
   messages,
+  onReplayA2A,
 }: ConversationHistoryProps) {
   return (
     <div className="space-y-4">
@@ -95,6 +132,10 @@ export default function ConversationHistory({
                 </div>
               )}
               
+              {message.toolCalls && message.toolCalls.length > 0 && (
+                <ToolCallList toolCalls={message.toolCalls} />
+              )}
+
               {message.role === 'user' ? (
                 <div className="whitespace-pre-wrap">{message.content}</div>
               ) : (
@@ -105,6 +146,8 @@ export default function ConversationHistory({
                 }`}>
                   {message.content ? (
                     <MarkdownRenderer content={message.content} />
+                  ) : message.cancelled ? (
+                    <span className="text-sm text-gray-400">응답 생성을 중지했습니다.</span>
                   ) : (
                     <div className="flex items-center gap-2 text-gray-400">
                       <div className="flex space-x-1">
@@ -126,6 +169,17 @@ export default function ConversationHistory({
                 }`}
               >
                 {new Date(message.createdAt).toLocaleTimeString('ko-KR')}
+                {message.cancelled && (
+                  <span className="ml-3 text-gray-500">중단됨</span>
+                )}
+                {message.a2aSessionId && onReplayA2A && (
+                  <button
+                    onClick={() => onReplayA2A(message.a2aSessionId!)}
+                    className="ml-3 text-primary-600 hover:text-primary-700 font-medium"
+                  >
+                    토론 다시 보기
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import { GenerationLimits, GenerationSettings } from '../types/generation';
+
+interface GenerationSettingsPopoverProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  limits: GenerationLimits | null; // null이면 자동 선택 (선택된 프로바이더 한도에 맞춰 조정됨)
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100 disabled:cursor-not-allowed';
+
+function parseNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// 빈 값은 제거해 프로바이더 기본값을 사용하도록 함
+function compact(settings: GenerationSettings): GenerationSettings {
+  return Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+  ) as GenerationSettings;
+}
+
+export default function GenerationSettingsPopover({
+  settings,
+  onChange,
+  limits,
+  disabled,
+}: GenerationSettingsPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [stopText, setStopText] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  // 모델은 대화 화면의 모델 선택에서 지정
+  const activeCount = Object.keys(settings).filter((key) => key !== 'model').length;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const update = (patch: Partial<GenerationSettings>) => {
+    onChange(compact({ ...settings, ...patch }));
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => {
+          // 열 때 stop 입력값을 현재 대화 설정으로 맞춤
+          if (!open) {
+            setStopText((settings.stop || []).join('\n'));
+          }
+          setOpen(!open);
+        }}
+        disabled={disabled}
+        className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-expanded={open}
+        aria-haspopup="dialog"
+      >
+        생성 설정{activeCount > 0 ? ` (${activeCount})` : ''}
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          aria-label="생성 설정"
+          className="absolute bottom-full right-0 mb-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg p-4 z-20 space-y-3"
+        >
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-800">생성 설정 (이 대화에 적용)</h3>
+            <button
+              type="button"
+              onClick={() => {
+                setStopText('');
+                onChange(settings.model ? { model: settings.model } : {});
+              }}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              초기화
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block text-xs text-gray-600">
+              Temperature (0~{limits?.maxTemperature ?? 2})
+              <input
+                type="number"
+                min={0}
+                max={limits?.maxTemperature ?? 2}
+                step={0.1}
+                value={settings.temperature ?? ''}
+                onChange={(e) => update({ temperature: parseNumber(e.target.value) })}
+                placeholder="기본값"
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-xs text-gray-600">
+              Top P (0~1)
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.topP ?? ''}
+                onChange={(e) => update({ topP: parseNumber(e.target.value) })}
+                disabled={limits ? !limits.topP : false}
+                placeholder="기본값"
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-xs text-gray-600">
+              최대 토큰{limits ? ` (~${limits.maxOutputTokens})` : ''}
+              <input
+                type="number"
+                min={1}
+                max={limits?.maxOutputTokens}
+                step={1}
+                value={settings.maxTokens ?? ''}
+                onChange={(e) => update({ maxTokens: parseNumber(e.target.value) })}
+                placeholder="기본값"
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-xs text-gray-600">
+              Seed
+              <input
+                type="number"
+                step={1}
+                value={settings.seed ?? ''}
+                onChange={(e) => update({ seed: parseNumber(e.target.value) })}
+                disabled={limits ? !limits.seed : false}
+                placeholder={limits && !limits.seed ? '미지원' : '없음'}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+
+          <label className="block text-xs text-gray-600">
+            Stop 시퀀스 (한 줄에 하나{limits && limits.maxStopSequences > 0 ? `, 최대 ${limits.maxStopSequences}개` : ''})
+            <textarea
+              value={stopText}
+              onChange={(e) => {
+                setStopText(e.target.value);
+                update({ stop: e.target.value.split('\n').filter((line) => line.length > 0) });
+              }}
+              disabled={limits ? limits.maxStopSequences === 0 : false}
+              placeholder={limits && limits.maxStopSequences === 0 ? '미지원' : ''}
+              rows={2}
+              className={`${inputClassName} resize-none`}
+            />
+          </label>
+
+          {limits?.exclusiveSampling && (
+            <p className="text-xs text-amber-600">이 프로바이더는 Temperature와 Top P를 함께 지정할 수 없습니다.</p>
+          )}
+          {!limits && (
+            <p className="text-xs text-gray-500">
+              자동 선택 시 선택된 프로바이더가 지원하지 않는 값은 제외되고 범위에 맞춰 조정됩니다.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
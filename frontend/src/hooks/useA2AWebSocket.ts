@@ -1,8 +1,9 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, MutableRefObject } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useAuthStore } from '../store/authStore';
+import { BudgetWarning } from './useStreamChat';
 
-interface AgentMessage {
+export interface AgentMessage {
   provider: string;
   providerName: string;
   content: string;
@@ -21,6 +22,86 @@ interface A2AState {
     round: number;
   } | null;
   error: string | null;
+  budgetWarning: BudgetWarning | null;
+  parallelColumns: ParallelAgentColumn[]; // 동시 실행 중인 라운드의 에이전트별 스트림
+  isReplaying: boolean;
+}
+
+export interface ParallelAgentColumn extends AgentMessage {
+  done: boolean;
+}
+
+export interface A2AStartOptions {
+  presetId?: number | null; // 미지정 시 서버 기본 프리셋
+  parallel?: boolean; // 라운드 내 에이전트 동시 실행
+}
+
+interface AgentEvent {
+  provider: string;
+  providerName: string;
+  phase: string;
+  round: number;
+}
+
+export interface A2ATranscriptTurn {
+  sequence: number;
+  provider: string;
+  model: string | null;
+  label: string;
+  phase: string;
+  round: number;
+  content: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  latencyMs: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface A2ATranscript {
+  sessionId: string;
+  conversationId: number;
+  parallel: boolean;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  turns: A2ATranscriptTurn[];
+}
+
+export interface A2ACallbacks {
+  onAgentStart?: (provider: string, providerName: string, phase: string, round: number) => void;
+  onAgentChunk?: (provider: string, chunk: string) => void;
+  onAgentComplete?: (agent: AgentMessage) => void;
+  onPhaseChange?: (phase: string) => void;
+  onConversationCreated?: (conversationId: number) => void;
+  onComplete?: (conversationId: number, cancelled?: boolean) => void;
+  onError?: (error: string) => void;
+  onRoundComplete?: (agents: AgentMessage[]) => void;
+}
+
+// 다시 보기: 기록된 발언 시간보다 빠르게, 한 발언은 최대 REPLAY_MAX_TICKS 틱 안에 재생
+const REPLAY_TICK_MS = 30;
+const REPLAY_SPEEDUP = 4;
+const REPLAY_MAX_TICKS = 150;
+
+function getReplayStep(turn: A2ATranscriptTurn): number {
+  const ticks = Math.min(
+    Math.max(Math.round(turn.latencyMs / REPLAY_SPEEDUP / REPLAY_TICK_MS), 1),
+    REPLAY_MAX_TICKS
+  );
+  return Math.max(1, Math.ceil(turn.content.length / ticks));
+}
+
+// 재전송과 실시간 이벤트가 겹칠 수 있으므로 이미 받은 seq는 무시
+function withSequence<T>(lastSeqRef: MutableRefObject<number>, handler: (data: T) => void) {
+  return (data: T & { seq?: number }) => {
+    if (typeof data.seq === 'number') {
+      if (data.seq <= lastSeqRef.current) return;
+      lastSeqRef.current = data.seq;
+    }
+    handler(data);
+  };
+}
+
+function isSameColumn(column: AgentMessage, data: { provider: string; phase: string; round: number }): boolean {
+  return column.provider === data.provider && column.phase === data.phase && column.round === data.round;
 }
 
 export function useA2AWebSocket() {
@@ -30,6 +111,9 @@ export function useA2AWebSocket() {
     currentPhase: '',
     currentAgent: null,
     error: null,
+    budgetWarning: null,
+    parallelColumns: [],
+    isReplaying: false,
   });
   
   const socketRef = useRef<Socket | null>(null);
@@ -40,8 +124,94 @@ export function useA2AWebSocket() {
   const onAgentComplete = useRef<((agent: AgentMessage) => void) | null>(null);
   const onPhaseChange = useRef<((phase: string) => void) | null>(null);
   const onConversationCreated = useRef<((conversationId: number) => void) | null>(null);
-  const onComplete = useRef<((conversationId: number) => void) | null>(null);
+  const onComplete = useRef<((conversationId: number, cancelled?: boolean) => void) | null>(null);
   const onError = useRef<((error: string) => void) | null>(null);
+  const onRoundComplete = useRef<((agents: AgentMessage[]) => void) | null>(null);
+  const parallelRef = useRef(false);
+  const parallelColumnsRef = useRef<ParallelAgentColumn[]>([]);
+  const replaySkipRef = useRef(false);
+  // 진행 중인 세션과 마지막으로 받은 이벤트 번호 (재연결 시 놓친 이벤트 요청)
+  const activeSessionRef = useRef<string | null>(null);
+  const lastSeqRef = useRef(0);
+  const wasDisconnectedRef = useRef(false);
+
+  // 동시 실행 라운드 컬럼은 ref와 state를 함께 갱신 (완료 판정은 ref 기준)
+  const updateParallelColumns = useCallback((columns: ParallelAgentColumn[]) => {
+    parallelColumnsRef.current = columns;
+    setState((prev) => ({ ...prev, parallelColumns: columns }));
+  }, []);
+
+  // 소켓 이벤트와 다시 보기가 같은 처리 경로를 사용
+  const handlePhase = useCallback((data: { phase: string }) => {
+    console.log('=== A2A Phase:', data.phase);
+    setState((prev) => ({ ...prev, currentPhase: data.phase }));
+    onPhaseChange.current?.(data.phase);
+  }, []);
+
+  const handleAgentStart = useCallback((data: AgentEvent) => {
+    console.log('=== A2A Agent Start:', data.provider, data.phase, data.round);
+    if (parallelRef.current && data.phase !== 'synthesis') {
+      // 동시 실행 라운드의 에이전트 시작 이벤트는 청크보다 먼저 모두 도착
+      updateParallelColumns([
+        ...parallelColumnsRef.current,
+        { ...data, content: '', done: false },
+      ]);
+      return;
+    }
+    setState((prev) => ({
+      ...prev,
+      currentAgent: data,
+    }));
+    onAgentStart.current?.(data.provider, data.providerName, data.phase, data.round);
+  }, [updateParallelColumns]);
+
+  const handleChunk = useCallback((data: AgentEvent & { chunk: string; timestamp: number }) => {
+    if (parallelRef.current && data.phase !== 'synthesis') {
+      updateParallelColumns(
+        parallelColumnsRef.current.map((column) =>
+          isSameColumn(column, data) ? { ...column, content: column.content + data.chunk } : column
+        )
+      );
+      return;
+    }
+    onAgentChunk.current?.(data.provider, data.chunk);
+  }, [updateParallelColumns]);
+
+  const handleAgentComplete = useCallback((data: AgentEvent & { content: string }) => {
+    console.log('=== A2A Agent Complete:', data.provider, 'length:', data.content.length);
+    if (parallelRef.current && data.phase !== 'synthesis') {
+      const columns = parallelColumnsRef.current.map((column) =>
+        isSameColumn(column, data) ? { ...column, content: data.content, done: true } : column
+      );
+      if (columns.every((column) => column.done)) {
+        // 라운드 전체가 끝나면 컬럼을 비우고 완료된 발언을 순서대로 전달
+        updateParallelColumns([]);
+        onRoundComplete.current?.(columns.map(({ done: _done, ...agent }) => agent));
+      } else {
+        updateParallelColumns(columns);
+      }
+      return;
+    }
+    setState((prev) => ({ ...prev, currentAgent: null }));
+    onAgentComplete.current?.({
+      provider: data.provider,
+      providerName: data.providerName,
+      content: data.content,
+      phase: data.phase,
+      round: data.round,
+    });
+  }, [updateParallelColumns]);
+
+  const setCallbacks = useCallback((callbacks: A2ACallbacks) => {
+    onAgentStart.current = callbacks.onAgentStart || null;
+    onAgentChunk.current = callbacks.onAgentChunk || null;
+    onAgentComplete.current = callbacks.onAgentComplete || null;
+    onPhaseChange.current = callbacks.onPhaseChange || null;
+    onConversationCreated.current = callbacks.onConversationCreated || null;
+    onComplete.current = callbacks.onComplete || null;
+    onError.current = callbacks.onError || null;
+    onRoundComplete.current = callbacks.onRoundComplete || null;
+  }, []);
 
   const connect = useCallback(() => {
     if (socketRef.current?.connected) return;
@@ -61,84 +231,55 @@ export function useA2AWebSocket() {
     socketRef.current.on('connect', () => {
       console.log('=== A2A WebSocket connected ===', socketRef.current?.id);
       setState((prev) => ({ ...prev, isConnected: true, error: null }));
+
+      // 토론 도중 끊겼다가 다시 연결되면 방에 재입장하고 놓친 이벤트를 받음
+      if (wasDisconnectedRef.current && activeSessionRef.current) {
+        console.log('=== A2A resuming session ===', activeSessionRef.current, 'lastSeq:', lastSeqRef.current);
+        socketRef.current?.emit('start_a2a', {
+          sessionId: activeSessionRef.current,
+          lastSeq: lastSeqRef.current,
+        });
+      }
+      wasDisconnectedRef.current = false;
     });
 
     socketRef.current.on('disconnect', () => {
       console.log('=== A2A WebSocket disconnected ===');
+      wasDisconnectedRef.current = true;
       setState((prev) => ({ ...prev, isConnected: false }));
     });
 
-    socketRef.current.on('a2a_phase', (data: { phase: string }) => {
-      console.log('=== A2A Phase:', data.phase);
-      setState((prev) => ({ ...prev, currentPhase: data.phase }));
-      onPhaseChange.current?.(data.phase);
-    });
-
-    socketRef.current.on('a2a_agent_start', (data: {
-      provider: string;
-      providerName: string;
-      phase: string;
-      round: number;
-    }) => {
-      console.log('=== A2A Agent Start:', data.provider, data.phase, data.round);
-      setState((prev) => ({
-        ...prev,
-        currentAgent: data,
-      }));
-      onAgentStart.current?.(data.provider, data.providerName, data.phase, data.round);
-    });
-
-    socketRef.current.on('a2a_chunk', (data: {
-      provider: string;
-      providerName: string;
-      phase: string;
-      round: number;
-      chunk: string;
-      timestamp: number;
-    }) => {
-      onAgentChunk.current?.(data.provider, data.chunk);
-    });
-
-    socketRef.current.on('a2a_agent_complete', (data: {
-      provider: string;
-      providerName: string;
-      phase: string;
-      round: number;
-      content: string;
-    }) => {
-      console.log('=== A2A Agent Complete:', data.provider, 'length:', data.content.length);
-      setState((prev) => ({ ...prev, currentAgent: null }));
-      onAgentComplete.current?.({
-        provider: data.provider,
-        providerName: data.providerName,
-        content: data.content,
-        phase: data.phase,
-        round: data.round,
-      });
-    });
+    socketRef.current.on('a2a_phase', withSequence(lastSeqRef, handlePhase));
+    socketRef.current.on('a2a_agent_start', withSequence(lastSeqRef, handleAgentStart));
+    socketRef.current.on('a2a_chunk', withSequence(lastSeqRef, handleChunk));
+    socketRef.current.on('a2a_agent_complete', withSequence(lastSeqRef, handleAgentComplete));
 
-    socketRef.current.on('a2a_conversation', (data: { conversationId: number }) => {
+    socketRef.current.on('a2a_conversation', withSequence(lastSeqRef, (data: { conversationId: number }) => {
       console.log('=== A2A Conversation created:', data.conversationId);
       onConversationCreated.current?.(data.conversationId);
-    });
+    }));
 
-    socketRef.current.on('a2a_complete', (data: { conversationId: number; totalLength: number }) => {
-      console.log('=== A2A Complete, total length:', data.totalLength);
-      setState((prev) => ({ ...prev, isProcessing: false, currentPhase: '', currentAgent: null }));
-      onComplete.current?.(data.conversationId);
-    });
+    socketRef.current.on('a2a_complete', withSequence(lastSeqRef, (data: { conversationId: number; totalLength: number; cancelled?: boolean }) => {
+      console.log('=== A2A Complete, total length:', data.totalLength, 'cancelled:', !!data.cancelled);
+      activeSessionRef.current = null;
+      parallelColumnsRef.current = [];
+      setState((prev) => ({ ...prev, isProcessing: false, currentPhase: '', currentAgent: null, parallelColumns: [] }));
+      onComplete.current?.(data.conversationId, !!data.cancelled);
+    }));
 
-    socketRef.current.on('a2a_error', (data: { error: string }) => {
+    socketRef.current.on('a2a_error', withSequence(lastSeqRef, (data: { error: string }) => {
       console.error('=== A2A Error:', data.error);
-      setState((prev) => ({ ...prev, isProcessing: false, error: data.error }));
+      activeSessionRef.current = null;
+      parallelColumnsRef.current = [];
+      setState((prev) => ({ ...prev, isProcessing: false, error: data.error, parallelColumns: [] }));
       onError.current?.(data.error);
-    });
+    }));
 
     socketRef.current.on('connect_error', (error) => {
       console.error('=== A2A WebSocket connect error:', error.message);
       setState((prev) => ({ ...prev, error: error.message }));
     });
-  }, []);
+  }, [handlePhase, handleAgentStart, handleChunk, handleAgentComplete]);
 
   const disconnect = useCallback(() => {
     if (socketRef.current) {
@@ -151,25 +292,16 @@ export function useA2AWebSocket() {
   const startA2A = useCallback(async (
     message: string,
     conversationId: string | null,
-    callbacks: {
-      onAgentStart?: (provider: string, providerName: string, phase: string, round: number) => void;
-      onAgentChunk?: (provider: string, chunk: string) => void;
-      onAgentComplete?: (agent: AgentMessage) => void;
-      onPhaseChange?: (phase: string) => void;
-      onConversationCreated?: (conversationId: number) => void;
-      onComplete?: (conversationId: number) => void;
-      onError?: (error: string) => void;
-    }
+    callbacks: A2ACallbacks,
+    options?: A2AStartOptions
   ) => {
-    onAgentStart.current = callbacks.onAgentStart || null;
-    onAgentChunk.current = callbacks.onAgentChunk || null;
-    onAgentComplete.current = callbacks.onAgentComplete || null;
-    onPhaseChange.current = callbacks.onPhaseChange || null;
-    onConversationCreated.current = callbacks.onConversationCreated || null;
-    onComplete.current = callbacks.onComplete || null;
-    onError.current = callbacks.onError || null;
+    setCallbacks(callbacks);
+    parallelRef.current = !!options?.parallel;
+    parallelColumnsRef.current = [];
 
     const sessionId = `${Date.now()}-${Math.random().toString(36).substring(7)}`;
+    activeSessionRef.current = sessionId;
+    lastSeqRef.current = 0;
 
     const ensureConnectedAndJoined = async (): Promise<boolean> => {
       return new Promise((resolve) => {
@@ -212,7 +344,7 @@ export function useA2AWebSocket() {
       });
     };
 
-    setState((prev) => ({ ...prev, isProcessing: true, error: null }));
+    setState((prev) => ({ ...prev, isProcessing: true, error: null, budgetWarning: null, parallelColumns: [] }));
 
     try {
       const joined = await ensureConnectedAndJoined();
@@ -232,21 +364,121 @@ export function useA2AWebSocket() {
           message,
           conversationId: conversationId ? parseInt(conversationId) : null,
           sessionId,
+          presetId: options?.presetId ?? null,
+          parallel: options?.parallel,
         }),
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        // 예산 초과(402) 등 서버가 보낸 오류 메시지 표시
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.error || `HTTP error! status: ${response.status}`);
       }
 
       const data = await response.json();
       console.log('=== A2A session started:', data);
+      if (data.budgetWarnings?.length) {
+        setState((prev) => ({ ...prev, budgetWarning: data.budgetWarnings[0] }));
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      activeSessionRef.current = null;
       setState((prev) => ({ ...prev, isProcessing: false, error: errorMessage }));
       onError.current?.(errorMessage);
     }
-  }, [token, connect]);
+  }, [token, connect, setCallbacks]);
+
+  // 진행 중인 토론 중지 (진행 중인 발언은 부분 응답으로 끝나고 a2a_complete가 cancelled로 도착)
+  const cancelA2A = useCallback(() => {
+    const sessionId = activeSessionRef.current;
+    if (!sessionId || !socketRef.current?.connected) return;
+    socketRef.current.emit('cancel_a2a', { sessionId }, (ack: { cancelled: boolean }) => {
+      console.log('=== A2A cancel acknowledged:', ack);
+    });
+  }, []);
+
+  /**
+   * 저장된 토론 기록을 실시간 토론과 같은 이벤트 순서로 재생 (단계 → 발언 시작 → 청크 → 발언 완료).
+   * 동시 실행으로 진행된 라운드는 참가자 발언을 함께 재생해 컬럼으로 표시
+   */
+  const replayA2A = useCallback(async (transcript: A2ATranscript, callbacks: A2ACallbacks) => {
+    setCallbacks(callbacks);
+    parallelRef.current = transcript.parallel;
+    parallelColumnsRef.current = [];
+    replaySkipRef.current = false;
+    setState((prev) => ({ ...prev, isReplaying: true, error: null, parallelColumns: [] }));
+
+    const toEvent = (turn: A2ATranscriptTurn): AgentEvent => ({
+      provider: turn.provider,
+      providerName: turn.label,
+      phase: turn.phase,
+      round: turn.round,
+    });
+
+    const playTurns = async (turns: A2ATranscriptTurn[]) => {
+      const offsets = turns.map(() => 0);
+      const done = turns.map(() => false);
+      const steps = turns.map(getReplayStep);
+
+      while (done.some((finished) => !finished)) {
+        turns.forEach((turn, index) => {
+          if (done[index]) return;
+          const size = replaySkipRef.current ? turn.content.length : steps[index];
+          const chunk = turn.content.slice(offsets[index], offsets[index] + size);
+          offsets[index] += chunk.length;
+          if (chunk) {
+            handleChunk({ ...toEvent(turn), chunk, timestamp: Date.now() });
+          }
+          if (offsets[index] >= turn.content.length) {
+            done[index] = true;
+            handleAgentComplete({ ...toEvent(turn), content: turn.content });
+          }
+        });
+        if (!replaySkipRef.current) {
+          await new Promise((resolve) => setTimeout(resolve, REPLAY_TICK_MS));
+        }
+      }
+    };
+
+    let currentPhase = '';
+    let index = 0;
+    while (index < transcript.turns.length) {
+      const first = transcript.turns[index];
+      const group = [first];
+      while (
+        index + group.length < transcript.turns.length &&
+        transcript.turns[index + group.length].phase === first.phase &&
+        transcript.turns[index + group.length].round === first.round
+      ) {
+        group.push(transcript.turns[index + group.length]);
+      }
+      index += group.length;
+
+      if (first.phase !== currentPhase) {
+        currentPhase = first.phase;
+        handlePhase({ phase: first.phase });
+      }
+
+      if (transcript.parallel && first.phase !== 'synthesis') {
+        group.forEach((turn) => handleAgentStart(toEvent(turn)));
+        await playTurns(group);
+      } else {
+        for (const turn of group) {
+          handleAgentStart(toEvent(turn));
+          await playTurns([turn]);
+        }
+      }
+    }
+
+    parallelColumnsRef.current = [];
+    setState((prev) => ({ ...prev, isReplaying: false, currentPhase: '', currentAgent: null, parallelColumns: [] }));
+    onComplete.current?.(transcript.conversationId);
+  }, [setCallbacks, handlePhase, handleAgentStart, handleChunk, handleAgentComplete]);
+
+  // 남은 다시 보기를 즉시 끝까지 표시
+  const skipReplay = useCallback(() => {
+    replaySkipRef.current = true;
+  }, []);
 
   useEffect(() => {
     return () => {
@@ -259,5 +491,8 @@ export function useA2AWebSocket() {
     connect,
     disconnect,
     startA2A,
+    cancelA2A,
+    replayA2A,
+    skipReplay,
   };
 }
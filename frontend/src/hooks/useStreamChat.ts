@@ -1,10 +1,22 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useAuthStore } from '../store/authStore';
+import { ToolCallInfo } from '../types/message';
+import { GenerationSettings } from '../types/generation';
 
 type ChatMode = 'normal' | 'mix' | 'a2a';
 
+export interface BudgetWarning {
+  metric: 'tokens' | 'cost';
+  period: 'daily' | 'monthly';
+  used: number;
+  limit: number;
+  percent: number;
+  resetsAt: string;
+}
+
 interface StreamMessage {
-  type: 'chunk' | 'complete' | 'error' | 'conversationId' | 'agent_start' | 'agent_complete' | 'phase';
+  type: 'request' | 'chunk' | 'complete' | 'error' | 'conversationId' | 'agent_start' | 'agent_complete' | 'phase' | 'provider_switched' | 'budget_warning' | 'tool_call' | 'tool_result';
+  requestId?: string;
   content?: string;
   message?: string;
   conversationId?: number;
@@ -12,6 +24,23 @@ interface StreamMessage {
   providerName?: string;
   phase?: string;
   round?: number;
+  fromProvider?: string;
+  reason?: string;
+  budget?: BudgetWarning;
+  cancelled?: boolean;
+  id?: string;
+  name?: string;
+  arguments?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+interface StreamChatOptions {
+  hasAttachments?: boolean;
+  useTools?: boolean; // 일반 모드에서 모델이 도구(웹 검색, 코드 실행 등)를 호출하도록 허용
+  personaId?: number | null; // 대화에 연결할 페르소나 (미지정 시 대화에 연결된 페르소나)
+  generation?: GenerationSettings; // 일반 모드 생성 파라미터 (model, temperature, topP, maxTokens, stop, seed)
+  onToolCall?: (call: ToolCallInfo) => void;
+  onToolResult?: (id: string, result: string, isError: boolean) => void;
 }
 
 interface AgentMessage {
@@ -38,6 +67,8 @@ async function typeContent(content: string, onChunk: (chunk: string) => void): P
 export function useStreamChat() {
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamError, setStreamError] = useState<string | null>(null);
+  const [budgetWarning, setBudgetWarning] = useState<BudgetWarning | null>(null);
+  const requestIdRef = useRef<string | null>(null); // 진행 중인 스트림의 취소용 ID
   const { token } = useAuthStore();
 
   const streamChat = useCallback(
@@ -47,14 +78,17 @@ export function useStreamChat() {
       provider?: string,
       chatMode?: ChatMode,
       onChunk?: (chunk: string) => void,
-      onComplete?: (fullResponse: string, newConversationId?: number) => void,
+      onComplete?: (fullResponse: string, newConversationId?: number, cancelled?: boolean) => void,
       onError?: (error: string) => void,
       onAgentStart?: (provider: string, providerName: string, phase?: string, round?: number) => void,
       onAgentComplete?: (agentMessage: AgentMessage) => void,
-      onPhaseChange?: (phase: string) => void
+      onPhaseChange?: (phase: string) => void,
+      onProviderSwitch?: (provider: string, providerName: string, fromProvider?: string, reason?: string) => void,
+      options?: StreamChatOptions
     ) => {
       setIsStreaming(true);
       setStreamError(null);
+      setBudgetWarning(null);
 
       try {
         const resolvedChatMode = chatMode || 'normal';
@@ -64,6 +98,10 @@ export function useStreamChat() {
           provider: provider || null,
           chatMode: resolvedChatMode,
           mixOfAgents: resolvedChatMode === 'mix',
+          hasAttachments: !!options?.hasAttachments,
+          useTools: !!options?.useTools,
+          ...(options?.personaId !== undefined ? { personaId: options.personaId } : {}),
+          ...options?.generation,
         };
         
         console.log('=== useStreamChat v9: Immediate display ===', requestBody);
@@ -82,7 +120,10 @@ export function useStreamChat() {
         );
 
         if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+          // 예산 초과(402) 등 서버가 보낸 오류 메시지 표시
+          const errorBody = await response.json().catch(() => null);
+          // 입력 검증 실패는 첫 번째 상세 사유 표시 (예: 프로바이더가 지원하지 않는 생성 파라미터)
+          throw new Error(errorBody?.details?.[0]?.message || errorBody?.error || `HTTP error! status: ${response.status}`);
         }
 
         const reader = response.body?.getReader();
@@ -120,7 +161,9 @@ export function useStreamChat() {
               try {
                 const data: StreamMessage = JSON.parse(line.substring(6));
 
-                if (data.type === 'conversationId' && data.conversationId) {
+                if (data.type === 'request' && data.requestId) {
+                  requestIdRef.current = data.requestId;
+                } else if (data.type === 'conversationId' && data.conversationId) {
                   newConversationId = data.conversationId;
                   console.log('=== New conversationId:', newConversationId);
                 } else if (data.type === 'phase' && data.phase) {
@@ -148,13 +191,24 @@ export function useStreamChat() {
                     phase: currentPhase,
                     round: currentRound,
                   });
+                } else if (data.type === 'provider_switched') {
+                  // 이전 프로바이더의 부분 응답은 버리고 새 프로바이더 응답으로 다시 시작
+                  fullResponse = '';
+                  onProviderSwitch?.(data.provider || '', data.providerName || '', data.fromProvider, data.reason);
+                } else if (data.type === 'tool_call' && data.id && data.name) {
+                  options?.onToolCall?.({ id: data.id, name: data.name, arguments: data.arguments || {} });
+                } else if (data.type === 'tool_result' && data.id) {
+                  options?.onToolResult?.(data.id, data.content || '', !!data.isError);
+                } else if (data.type === 'budget_warning' && data.budget) {
+                  setBudgetWarning(data.budget);
                 } else if (data.type === 'chunk' && data.content) {
                   fullResponse += data.content;
                   onChunk?.(data.content);
-                } else if (data.type === 'complete' && data.content) {
-                  console.log('=== Stream complete, total length:', data.content.length);
-                  fullResponse = data.content;
-                  onComplete?.(fullResponse, newConversationId || data.conversationId);
+                } else if (data.type === 'complete' && (data.content || data.cancelled)) {
+                  // 중지한 경우 받은 부분까지만 (내용이 없을 수도 있음)
+                  console.log('=== Stream complete, total length:', data.content?.length || 0, 'cancelled:', !!data.cancelled);
+                  fullResponse = data.content || '';
+                  onComplete?.(fullResponse, newConversationId || data.conversationId, !!data.cancelled);
                 } else if (data.type === 'error') {
                   const errorMessage = data.message || 'Stream error';
                   setStreamError(errorMessage);
@@ -171,15 +225,35 @@ export function useStreamChat() {
         setStreamError(errorMessage);
         onError?.(errorMessage);
       } finally {
+        requestIdRef.current = null;
         setIsStreaming(false);
       }
     },
     [token]
   );
 
+  // 서버가 생성을 중단하고 부분 응답으로 complete 이벤트를 보냄
+  const cancelStream = useCallback(async () => {
+    const requestId = requestIdRef.current;
+    if (!requestId) {
+      return;
+    }
+
+    try {
+      await fetch(`/api/ai/requests/${requestId}/cancel`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    } catch (error) {
+      console.error('Failed to cancel stream:', error);
+    }
+  }, [token]);
+
   return {
     streamChat,
+    cancelStream,
     isStreaming,
     streamError,
+    budgetWarning,
   };
 }
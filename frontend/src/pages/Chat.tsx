@@ -7,9 +7,11 @@ import LogMonitor from '../components/LogMonitor';
 import ConversationHistory from '../components/ConversationHistory';
 import axios from 'axios';
 import { useAuthStore } from '../store/authStore';
-import { Message } from '../types/message';
+import { useGenerationStore } from '../store/generationStore';
+import { Message, ToolCallInfo } from '../types/message';
+import { GenerationLimits, GenerationSettings, ModelInfo } from '../types/generation';
 import { useStreamChat } from '../hooks/useStreamChat';
-import { useA2AWebSocket } from '../hooks/useA2AWebSocket';
+import { useA2AWebSocket, A2ATranscript } from '../hooks/useA2AWebSocket';
 import { validateAndCorrectStock } from '../utils/stockValidator';
 import { searchMKNews, searchMKTV, getComprehensiveAnalysis } from '../services/mkApi';
 
@@ -28,11 +30,43 @@ interface AgentMessage {
   round?: number;
 }
 
+function getA2APhaseLabel(phase?: string, round?: number): string {
+  if (phase === 'collaboration') return `협력 라운드 ${round}`;
+  if (phase === 'debate') return `토론 라운드 ${round}`;
+  if (phase === 'synthesis') return '최종 종합';
+  return '';
+}
+
+// 예: "gpt-4.1 · 1M · $2/$8" (컨텍스트 크기, 100만 토큰당 입력/출력 가격)
+function formatModelLabel(model: ModelInfo): string {
+  const context = model.contextWindow >= 1_000_000
+    ? `${Math.round(model.contextWindow / 1_000_000)}M`
+    : `${Math.round(model.contextWindow / 1000)}K`;
+  const price = model.price ? ` · $${model.price.input}/$${model.price.output}` : '';
+  return `${model.name || model.id} · ${context}${price}`;
+}
+
 interface AIProvider {
   id: string;
   name: string;
   weight: number;
   isActive: boolean;
+  models: ModelInfo[];
+  generation: GenerationLimits | null;
+}
+
+interface A2APreset {
+  id: number;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+}
+
+interface Persona {
+  id: number;
+  name: string;
+  description: string | null;
+  isShared: boolean;
 }
 
 interface UploadedFile {
@@ -57,12 +91,29 @@ export default function Chat() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const currentAgentIdRef = useRef<number | null>(null);
   const { token } = useAuthStore();
-  const { streamChat } = useStreamChat();
-  const { startA2A } = useA2AWebSocket();
+  const { streamChat, cancelStream, budgetWarning: streamBudgetWarning } = useStreamChat();
+  const {
+    startA2A,
+    cancelA2A,
+    replayA2A,
+    skipReplay,
+    isReplaying,
+    budgetWarning: a2aBudgetWarning,
+    parallelColumns,
+  } = useA2AWebSocket();
 
   const [providers, setProviders] = useState<AIProvider[]>([]);
   const [selectedProvider, setSelectedProvider] = useState<string>('auto');
   const [chatMode, setChatMode] = useState<'normal' | 'mix' | 'a2a'>('normal');
+  const [a2aPresets, setA2APresets] = useState<A2APreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<number | null>(null);
+  const [a2aParallel, setA2AParallel] = useState(false);
+  const [toolsEnabled, setToolsEnabled] = useState(false);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [selectedPersonaId, setSelectedPersonaId] = useState<number | null>(null);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>({});
+  const setConversationGenerationSettings = useGenerationStore((state) => state.setConversationSettings);
+  const budgetWarning = chatMode === 'a2a' ? a2aBudgetWarning : streamBudgetWarning;
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [uploading, setUploading] = useState(false);
   const [toolMode, setToolMode] = useState<ToolMode>('none');
@@ -83,10 +134,14 @@ export default function Chat() {
     setLoading(false);
     setChatMode('normal');
     setSelectedProvider('auto');
+    setSelectedPersonaId(null);
+    setGenerationSettings({});
   }, []);
 
   useEffect(() => {
     loadProviders();
+    loadA2APresets();
+    loadPersonas();
   }, []);
 
   useEffect(() => {
@@ -128,6 +183,193 @@ export default function Chat() {
     }
   };
 
+  // 동시 실행 라운드가 끝나면 컬럼으로 보던 발언을 참가자 순서대로 대화에 추가
+  const appendParallelRound = (agents: AgentMessage[]) => {
+    const roundMessages: Message[] = agents.map((agent) => ({
+      id: generateUniqueId(),
+      role: 'assistant',
+      content: agent.content,
+      createdAt: new Date().toISOString(),
+      provider: agent.provider,
+      providerName: agent.providerName,
+      phase: getA2APhaseLabel(agent.phase, agent.round),
+    }));
+    setMessages((prev) => [...prev, ...roundMessages]);
+  };
+
+  // 실시간 토론과 다시 보기가 공유하는 화면 갱신 (에이전트별 메시지, 단계 구분선, 동시 실행 라운드)
+  const a2aDisplayHandlers = {
+    onAgentStart: (provider: string, providerName: string, phase: string, round: number) => {
+      const newAgentId = generateUniqueId();
+      currentAgentIdRef.current = newAgentId;
+      setCurrentAgentId(newAgentId);
+      
+      const newAgentMessage: Message = {
+        id: newAgentId,
+        role: 'assistant',
+        content: '',
+        createdAt: new Date().toISOString(),
+        provider: provider,
+        providerName: providerName,
+        phase: getA2APhaseLabel(phase, round),
+      };
+      
+      setMessages((prev) => [...prev, newAgentMessage]);
+    },
+    onAgentChunk: (_provider: string, chunk: string) => {
+      const agentId = currentAgentIdRef.current;
+      if (agentId) {
+        setMessages((prevMessages) =>
+          prevMessages.map((msg) =>
+            msg.id === agentId
+              ? { ...msg, content: msg.content + chunk }
+              : msg
+          )
+        );
+      }
+    },
+    onAgentComplete: (_agent: AgentMessage) => {
+      currentAgentIdRef.current = null;
+      setCurrentAgentId(null);
+    },
+    onPhaseChange: (phase: string) => {
+      setCurrentPhase(phase);
+      
+      const phaseMessage: Message = {
+        id: generateUniqueId(),
+        role: 'system',
+        content: phase === 'collaboration' 
+          ? '### 1단계: 협력적 인사이트 공유' 
+          : phase === 'debate' 
+            ? '### 2단계: 토론 및 보완' 
+            : phase === 'synthesis' 
+              ? '### 3단계: 최종 종합' 
+              : phase,
+        createdAt: new Date().toISOString(),
+      };
+      
+      setMessages((prev) => [...prev, phaseMessage]);
+    },
+    onRoundComplete: appendParallelRound,
+  };
+
+  // 토론을 중지하면 내용 없이 끝난 발언을 중단 표시하고 안내 메시지 추가
+  const markA2ACancelled = () => {
+    setMessages((prev) => [
+      ...prev.map((msg) => (msg.role === 'assistant' && !msg.content ? { ...msg, cancelled: true } : msg)),
+      {
+        id: generateUniqueId(),
+        role: 'system',
+        content: '토론을 중지했습니다',
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+  };
+
+  // 저장된 토론을 결과 메시지 자리에서 다시 재생하고, 이후 메시지는 재생이 끝나면 복원
+  const replayA2ASession = async (sessionId: string) => {
+    if (!conversationId || isReplaying || loading) return;
+
+    try {
+      const response = await axios.get(`/api/conversations/${conversationId}/a2a/${sessionId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const transcript: A2ATranscript = response.data.session;
+
+      const index = messages.findIndex((message) => message.a2aSessionId === sessionId);
+      if (index < 0) return;
+      const following = messages.slice(index + 1);
+      setMessages(messages.slice(0, index));
+      currentAgentIdRef.current = null;
+
+      await replayA2A(transcript, {
+        ...a2aDisplayHandlers,
+        onComplete: () => {
+          currentAgentIdRef.current = null;
+          setCurrentAgentId(null);
+          setCurrentPhase('');
+          setMessages((prev) => [...prev, ...following]);
+        },
+      });
+    } catch (error) {
+      console.error('Failed to load A2A session', error);
+      alert('토론 기록을 불러오지 못했습니다.');
+    }
+  };
+
+  const loadA2APresets = async () => {
+    try {
+      const response = await axios.get('/api/ai/a2a/presets', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      setA2APresets(response.data.presets || []);
+    } catch (error) {
+      console.error('Failed to load A2A presets', error);
+    }
+  };
+
+  const loadPersonas = async () => {
+    try {
+      const response = await axios.get('/api/personas', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      setPersonas(response.data.personas || []);
+    } catch (error) {
+      console.error('Failed to load personas', error);
+    }
+  };
+
+  // 기존 대화는 바로 연결을 저장하고, 새 대화는 첫 메시지 요청에 함께 전송
+  const handlePersonaChange = async (personaId: number | null) => {
+    const previousPersonaId = selectedPersonaId;
+    setSelectedPersonaId(personaId);
+    if (!conversationId) return;
+
+    try {
+      await axios.put(
+        `/api/conversations/${conversationId}/persona`,
+        { personaId },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+    } catch (error) {
+      console.error('Failed to set conversation persona', error);
+      setSelectedPersonaId(previousPersonaId);
+      alert('페르소나를 변경하지 못했습니다.');
+    }
+  };
+
+  const handleGenerationSettingsChange = (settings: GenerationSettings) => {
+    setGenerationSettings(settings);
+    if (conversationId) {
+      setConversationGenerationSettings(conversationId, settings);
+    }
+  };
+
+  const handleModelChange = (model: string) => {
+    const { model: _previous, ...rest } = generationSettings;
+    handleGenerationSettingsChange(model ? { ...rest, model } : rest);
+  };
+
+  // 모델은 프로바이더별이므로 프로바이더를 바꾸면 해제
+  const handleProviderChange = (provider: string) => {
+    setSelectedProvider(provider);
+    if (generationSettings.model) {
+      handleModelChange('');
+    }
+  };
+
+  const selectedProviderInfo = providers.find((provider) => provider.id === selectedProvider);
+
+  // 저장된 모델이 현재 프로바이더의 모델이 아니면 (자동 선택 포함) 모델 없이 전송
+  const getRequestGeneration = (): GenerationSettings => {
+    const { model, ...sampling } = generationSettings;
+    const modelAllowed =
+      !!model &&
+      !!selectedProviderInfo &&
+      (selectedProviderInfo.models.length === 0 || selectedProviderInfo.models.some((info) => info.id === model));
+    return modelAllowed ? { ...sampling, model } : sampling;
+  };
+
   const loadConversation = async (id: string) => {
     try {
       const response = await axios.get(
@@ -137,6 +379,8 @@ export default function Chat() {
         }
       );
       setMessages(response.data.conversation?.messages || []);
+      setSelectedPersonaId(response.data.conversation?.personaId ?? null);
+      setGenerationSettings(useGenerationStore.getState().settingsByConversation[id] || {});
     } catch (error) {
       console.error('Failed to load conversation', error);
     }
@@ -278,73 +522,18 @@ export default function Chat() {
       const a2aPrompt = `다음은 ${stockQuery}에 대한 ${toolMode === 'mk-news' ? '뉴스 기사' : toolMode === 'mk-stock' ? '증권TV 방송' : '종합 분석'} 정보입니다. 이 정보를 바탕으로 심층적인 분석과 인사이트를 제공해주세요.\n\n${apiResponse}`;
 
       await startA2A(a2aPrompt, conversationId || null, {
-        onAgentStart: (provider: string, providerName: string, phase: string, round: number) => {
-          const newAgentId = generateUniqueId();
-          currentAgentIdRef.current = newAgentId;
-          setCurrentAgentId(newAgentId);
-          
-          const phaseLabel = phase === 'collaboration' 
-            ? `협력 라운드 ${round}` 
-            : phase === 'debate' 
-              ? `토론 라운드 ${round}` 
-              : phase === 'synthesis' 
-                ? '최종 종합' 
-                : '';
-          
-          const newAgentMessage: Message = {
-            id: newAgentId,
-            role: 'assistant',
-            content: '',
-            createdAt: new Date().toISOString(),
-            provider: provider,
-            providerName: providerName,
-            phase: phaseLabel,
-          };
-          
-          setMessages((prev) => [...prev, newAgentMessage]);
-        },
-        onAgentChunk: (_provider: string, chunk: string) => {
-          const agentId = currentAgentIdRef.current;
-          if (agentId) {
-            setMessages((prevMessages) =>
-              prevMessages.map((msg) =>
-                msg.id === agentId
-                  ? { ...msg, content: msg.content + chunk }
-                  : msg
-              )
-            );
-          }
-        },
-        onAgentComplete: (_agent: AgentMessage) => {
-          currentAgentIdRef.current = null;
-          setCurrentAgentId(null);
-        },
-        onPhaseChange: (phase: string) => {
-          setCurrentPhase(phase);
-          
-          const phaseMessage: Message = {
-            id: generateUniqueId(),
-            role: 'system',
-            content: phase === 'collaboration' 
-              ? '### 1단계: 협력적 인사이트 공유' 
-              : phase === 'debate' 
-                ? '### 2단계: 토론 및 보완' 
-                : phase === 'synthesis' 
-                  ? '### 3단계: 최종 종합' 
-                  : phase,
-            createdAt: new Date().toISOString(),
-          };
-          
-          setMessages((prev) => [...prev, phaseMessage]);
-        },
+        ...a2aDisplayHandlers,
         onConversationCreated: (newConversationId: number) => {
           if (!conversationId) {
             pendingConversationIdRef.current = newConversationId;
             refreshConversationList();
           }
         },
-        onComplete: (_conversationId: number) => {
+        onComplete: (_conversationId: number, cancelled?: boolean) => {
           isA2AInProgressRef.current = false;
+          if (cancelled) {
+            markA2ACancelled();
+          }
           setStreamingMessage('');
           setLoading(false);
           currentAgentIdRef.current = null;
@@ -366,7 +555,7 @@ export default function Chat() {
           currentAgentIdRef.current = null;
           setCurrentAgentId(null);
         },
-      });
+      }, { presetId: selectedPresetId, parallel: a2aParallel });
     } catch (error) {
       console.error('Tool mode request error:', error);
       const errorMessage: Message = {
@@ -391,7 +580,8 @@ export default function Chat() {
     }
 
     let fullMessage = message;
-    if (uploadedFiles.length > 0) {
+    const hasAttachments = uploadedFiles.length > 0;
+    if (hasAttachments) {
       const fileContext = uploadedFiles
         .filter((f) => f.parsedText)
         .map((f) => `[첨부파일: ${f.filename}]\n${f.parsedText}`)
@@ -428,73 +618,18 @@ export default function Chat() {
       isA2AInProgressRef.current = true;
       
       await startA2A(fullMessage, conversationId || null, {
-        onAgentStart: (provider: string, providerName: string, phase: string, round: number) => {
-          const newAgentId = generateUniqueId();
-          currentAgentIdRef.current = newAgentId;
-          setCurrentAgentId(newAgentId);
-          
-          const phaseLabel = phase === 'collaboration' 
-            ? `협력 라운드 ${round}` 
-            : phase === 'debate' 
-              ? `토론 라운드 ${round}` 
-              : phase === 'synthesis' 
-                ? '최종 종합' 
-                : '';
-          
-          const newAgentMessage: Message = {
-            id: newAgentId,
-            role: 'assistant',
-            content: '',
-            createdAt: new Date().toISOString(),
-            provider: provider,
-            providerName: providerName,
-            phase: phaseLabel,
-          };
-          
-          setMessages((prev) => [...prev, newAgentMessage]);
-        },
-        onAgentChunk: (_provider: string, chunk: string) => {
-          const agentId = currentAgentIdRef.current;
-          if (agentId) {
-            setMessages((prevMessages) =>
-              prevMessages.map((msg) =>
-                msg.id === agentId
-                  ? { ...msg, content: msg.content + chunk }
-                  : msg
-              )
-            );
-          }
-        },
-        onAgentComplete: (_agent: AgentMessage) => {
-          currentAgentIdRef.current = null;
-          setCurrentAgentId(null);
-        },
-        onPhaseChange: (phase: string) => {
-          setCurrentPhase(phase);
-          
-          const phaseMessage: Message = {
-            id: generateUniqueId(),
-            role: 'system',
-            content: phase === 'collaboration' 
-              ? '### 1단계: 협력적 인사이트 공유' 
-              : phase === 'debate' 
-                ? '### 2단계: 토론 및 보완' 
-                : phase === 'synthesis' 
-                  ? '### 3단계: 최종 종합' 
-                  : phase,
-            createdAt: new Date().toISOString(),
-          };
-          
-          setMessages((prev) => [...prev, phaseMessage]);
-        },
+        ...a2aDisplayHandlers,
         onConversationCreated: (newConversationId: number) => {
           if (!conversationId) {
             pendingConversationIdRef.current = newConversationId;
             refreshConversationList();
           }
         },
-        onComplete: (_conversationId: number) => {
+        onComplete: (_conversationId: number, cancelled?: boolean) => {
           isA2AInProgressRef.current = false;
+          if (cancelled) {
+            markA2ACancelled();
+          }
           setStreamingMessage('');
           setLoading(false);
           currentAgentIdRef.current = null;
@@ -516,7 +651,7 @@ export default function Chat() {
           currentAgentIdRef.current = null;
           setCurrentAgentId(null);
         },
-      });
+      }, { presetId: selectedPresetId, parallel: a2aParallel });
     } else {
       const assistantMessageId = generateUniqueId();
       const assistantMessage: Message = {
@@ -546,18 +681,19 @@ export default function Chat() {
             return newContent;
           });
         },
-        (fullResponse: string, newConversationId?: number) => {
+        (fullResponse: string, newConversationId?: number, cancelled?: boolean) => {
           setStreamingMessage('');
           setMessages((prevMessages) =>
             prevMessages.map((msg) =>
               msg.id === assistantMessageId
-                ? { ...msg, content: fullResponse }
+                ? { ...msg, content: fullResponse, cancelled }
                 : msg
             )
           );
           setLoading(false);
           
           if (newConversationId && !conversationId) {
+            setConversationGenerationSettings(String(newConversationId), generationSettings);
             navigate(`/chat/${newConversationId}`, { replace: true });
             refreshConversationList();
           }
@@ -565,7 +701,57 @@ export default function Chat() {
         (error: string) => {
           console.error('Stream error:', error);
           setStreamingMessage('');
+          setMessages((prevMessages) =>
+            prevMessages.map((msg) =>
+              msg.id === assistantMessageId
+                ? {
+                    ...msg,
+                    content: `${msg.content}${msg.content ? '\n\n' : ''}*응답 생성 중 오류가 발생했습니다: ${error}*`,
+                  }
+                : msg
+            )
+          );
           setLoading(false);
+        },
+        undefined,
+        undefined,
+        undefined,
+        (provider: string, providerName: string) => {
+          setStreamingMessage('');
+          setMessages((prevMessages) =>
+            prevMessages.map((msg) =>
+              msg.id === assistantMessageId
+                ? { ...msg, content: '', provider, providerName }
+                : msg
+            )
+          );
+        },
+        {
+          hasAttachments,
+          useTools: chatMode === 'normal' && toolsEnabled,
+          personaId: !conversationId && selectedPersonaId ? selectedPersonaId : undefined,
+          generation: chatMode === 'normal' ? getRequestGeneration() : undefined,
+          onToolCall: (call: ToolCallInfo) => {
+            setMessages((prevMessages) =>
+              prevMessages.map((msg) =>
+                msg.id === assistantMessageId
+                  ? { ...msg, toolCalls: [...(msg.toolCalls || []), call] }
+                  : msg
+              )
+            );
+          },
+          onToolResult: (id: string, result: string, isError: boolean) => {
+            setMessages((prevMessages) =>
+              prevMessages.map((msg) =>
+                msg.id === assistantMessageId
+                  ? {
+                      ...msg,
+                      toolCalls: msg.toolCalls?.map((call) => (call.id === id ? { ...call, result, isError } : call)),
+                    }
+                  : msg
+              )
+            );
+          },
         }
       );
     }
@@ -586,7 +772,41 @@ export default function Chat() {
             </div>
           ) : (
             <>
-              <ConversationHistory messages={messages} />
+              <ConversationHistory messages={messages} onReplayA2A={replayA2ASession} />
+              {parallelColumns.length > 0 && (
+                <div
+                  className="grid gap-3"
+                  style={{ gridTemplateColumns: `repeat(${parallelColumns.length}, minmax(0, 1fr))` }}
+                >
+                  {parallelColumns.map((column) => (
+                    <div
+                      key={`${column.phase}-${column.round}-${column.provider}`}
+                      className="bg-white rounded-lg p-3 shadow-sm flex flex-col min-w-0"
+                    >
+                      <div className="flex items-center justify-between mb-2 pb-2 border-b border-gray-100">
+                        <span className="text-sm font-medium text-gray-800 truncate">{column.providerName}</span>
+                        <span className="text-xs text-gray-500 shrink-0 ml-2">
+                          {column.done ? '완료' : getA2APhaseLabel(column.phase, column.round)}
+                        </span>
+                      </div>
+                      <div className="text-sm text-gray-700 whitespace-pre-wrap break-words max-h-96 overflow-y-auto">
+                        {column.content || <span className="text-gray-400">응답 대기 중...</span>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {isReplaying && (
+                <div className="flex items-center justify-between bg-white rounded-lg px-4 py-2 shadow-sm text-sm text-gray-600">
+                  <span>저장된 토론을 다시 보는 중입니다.</span>
+                  <button
+                    onClick={skipReplay}
+                    className="text-primary-600 hover:text-primary-700 font-medium"
+                  >
+                    건너뛰기
+                  </button>
+                </div>
+              )}
               {loading && (
                 <div className="flex justify-start">
                   <div className="bg-white rounded-lg p-4 shadow-sm">
@@ -597,9 +817,9 @@ export default function Chat() {
                           <span className="text-sm text-gray-600 font-medium">A2A 협력 토론 진행 중...</span>
                         </div>
                         <div className="text-xs text-gray-500 pl-5">
-                          <p>OpenAI, Claude, Gemini, Perplexity가 순차적으로 토론합니다.</p>
-                          <p className="mt-1">협력(2라운드) → 토론(2라운드) → 최종 종합</p>
-                          <p className="mt-1 text-gray-400">약 2-3분 소요될 수 있습니다.</p>
+                          <p>{a2aParallel ? '라운드마다 참가 AI가 동시에 발언합니다.' : '참가 AI가 순서대로 토론합니다.'}</p>
+                          <p className="mt-1">협력 → 토론 → 최종 종합</p>
+                          <p className="mt-1 text-gray-400">{a2aParallel ? '약 1분' : '약 2-3분'} 소요될 수 있습니다.</p>
                         </div>
                       </div>
                     ) : (
@@ -620,12 +840,18 @@ export default function Chat() {
 
       <div className="border-t border-gray-200 bg-white p-4">
         <div className="max-w-4xl mx-auto">
+          {budgetWarning && (
+            <div className="mb-3 px-3 py-2 text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg">
+              {budgetWarning.period === 'daily' ? '일간' : '월간'} AI 사용 예산의 {budgetWarning.percent}%를 사용했습니다.
+              {' '}한도에 도달하면 {new Date(budgetWarning.resetsAt).toLocaleString('ko-KR')}까지 요청이 제한됩니다.
+            </div>
+          )}
           <div className="flex items-center gap-4 mb-3">
             <div className="flex items-center gap-2">
               <label className="text-sm text-gray-600">AI 에이전트:</label>
               <select
                 value={selectedProvider}
-                onChange={(e) => setSelectedProvider(e.target.value)}
+                onChange={(e) => handleProviderChange(e.target.value)}
                 className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
                 disabled={loading}
               >
@@ -638,6 +864,36 @@ export default function Chat() {
               </select>
             </div>
 
+            {chatMode === 'normal' && selectedProviderInfo && (
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-gray-600">모델:</label>
+                {selectedProviderInfo.models.length > 0 ? (
+                  <select
+                    value={generationSettings.model || ''}
+                    onChange={(e) => handleModelChange(e.target.value)}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    disabled={loading}
+                  >
+                    <option value="">기본 모델</option>
+                    {selectedProviderInfo.models.map((model) => (
+                      <option key={model.id} value={model.id}>
+                        {formatModelLabel(model)}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={generationSettings.model || ''}
+                    onChange={(e) => handleModelChange(e.target.value)}
+                    placeholder="기본 모델"
+                    className="w-40 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    disabled={loading}
+                  />
+                )}
+              </div>
+            )}
+
             <div className="flex items-center gap-2">
               <label className="text-sm text-gray-600">대화 모드:</label>
               <select
@@ -652,6 +908,70 @@ export default function Chat() {
               </select>
             </div>
 
+            {chatMode === 'normal' && personas.length > 0 && (
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-gray-600">페르소나:</label>
+                <select
+                  value={selectedPersonaId ?? ''}
+                  onChange={(e) => handlePersonaChange(e.target.value ? Number(e.target.value) : null)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  disabled={loading}
+                >
+                  <option value="">기본</option>
+                  {personas.map((persona) => (
+                    <option key={persona.id} value={persona.id} title={persona.description || undefined}>
+                      {persona.name}{persona.isShared ? ' (공유)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {chatMode === 'normal' && (
+              <label className="flex items-center gap-1.5 text-sm text-gray-600" title="웹 검색, 표 생성, 코드 실행, 문서 검색 등을 AI가 직접 사용">
+                <input
+                  type="checkbox"
+                  checked={toolsEnabled}
+                  onChange={(e) => setToolsEnabled(e.target.checked)}
+                  disabled={loading}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                도구 사용
+              </label>
+            )}
+
+            {chatMode === 'a2a' && (
+              <label className="flex items-center gap-1.5 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={a2aParallel}
+                  onChange={(e) => setA2AParallel(e.target.checked)}
+                  disabled={loading}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                동시 실행
+              </label>
+            )}
+
+            {chatMode === 'a2a' && a2aPresets.length > 0 && (
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-gray-600">토론 구성:</label>
+                <select
+                  value={selectedPresetId ?? ''}
+                  onChange={(e) => setSelectedPresetId(e.target.value ? Number(e.target.value) : null)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  disabled={loading}
+                >
+                  <option value="">기본</option>
+                  {a2aPresets.map((preset) => (
+                    <option key={preset.id} value={preset.id} title={preset.description || undefined}>
+                      {preset.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="flex-1"></div>
 
             <input
@@ -729,9 +1049,13 @@ export default function Chat() {
               onSend={handleSend}
               onSuggestionsChange={setSuggestions}
               onSuggestionsLoadingChange={setSuggestionsLoading}
-              loading={loading}
+              loading={loading || isReplaying}
+              onStop={loading && !isReplaying ? (chatMode === 'a2a' ? cancelA2A : cancelStream) : undefined}
               toolMode={toolMode}
               onToolModeChange={setToolMode}
+              generationSettings={chatMode === 'normal' ? generationSettings : undefined}
+              onGenerationSettingsChange={handleGenerationSettingsChange}
+              generationLimits={selectedProviderInfo?.generation ?? null}
             />
           </div>
         </div>
@@ -7,19 +7,61 @@ interface ApiKey {
   provider: string;
   isActive: boolean;
   weight: number;
+  metadata?: {
+    baseUrl?: string;
+    model?: string;
+    headers?: Record<string, string>;
+  };
+  name?: string | null;
+  dailyRequestLimit?: number | null;
+  dailyTokenLimit?: number | null;
+  usage?: {
+    requestCount: number;
+    tokenCount: number;
+    errorCount: number;
+    lastStatus: number | null;
+    lastUsedAt: string | null;
+  };
+  cooldown?: { until: number; status: number } | null;
   createdAt: string;
 }
 
+interface EffectiveWeight {
+  provider: string;
+  weight: number;
+  effectiveWeight: number;
+  healthFactor: number;
+  successRate: number | null;
+  p95LatencyMs: number | null;
+  sampleCount: number;
+}
+
+const INITIAL_FORM = {
+  provider: 'openai',
+  apiKey: '',
+  weight: 1.0,
+  isActive: true,
+  baseUrl: '',
+  model: '',
+  headers: '',
+  name: '',
+  dailyRequestLimit: '',
+  dailyTokenLimit: '',
+};
+
+function formatUsage(used: number, limit?: number | null): string {
+  const formatted = used.toLocaleString('ko-KR');
+  return limit ? `${formatted} / ${limit.toLocaleString('ko-KR')}` : formatted;
+}
+
 export default function ApiKeys() {
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
-  const [formData, setFormData] = useState({
-    provider: 'openai',
-    apiKey: '',
-    weight: 1.0,
-    isActive: true,
-  });
+  const [formData, setFormData] = useState(INITIAL_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [effectiveWeights, setEffectiveWeights] = useState<EffectiveWeight[]>([]);
+  const [adaptiveWeighting, setAdaptiveWeighting] = useState(false);
   const { token } = useAuthStore();
 
   useEffect(() => {
@@ -35,6 +77,8 @@ export default function ApiKeys() {
         }
       );
       setApiKeys(response.data.apiKeys);
+      setEffectiveWeights(response.data.effectiveWeights || []);
+      setAdaptiveWeighting(!!response.data.adaptiveWeighting);
     } catch (error) {
       console.error('Failed to fetch API keys', error);
     } finally {
@@ -44,24 +88,44 @@ export default function ApiKeys() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setFormError(null);
+
+    const { baseUrl, model, headers, name, dailyRequestLimit, dailyTokenLimit, ...payload } = formData;
+    let metadata: Record<string, unknown> | undefined;
+
+    if (formData.provider === 'openai-compatible') {
+      let parsedHeaders: Record<string, string> | undefined;
+      if (headers.trim()) {
+        try {
+          parsedHeaders = JSON.parse(headers);
+        } catch {
+          setFormError('헤더는 JSON 객체 형식이어야 합니다.');
+          return;
+        }
+      }
+      metadata = { baseUrl, model, headers: parsedHeaders };
+    }
+
     try {
       await axios.post(
         '/api/admin/api-keys',
-        formData,
+        {
+          ...payload,
+          metadata,
+          name: name.trim() || undefined,
+          dailyRequestLimit: dailyRequestLimit ? parseInt(dailyRequestLimit, 10) : undefined,
+          dailyTokenLimit: dailyTokenLimit ? parseInt(dailyTokenLimit, 10) : undefined,
+        },
         {
           headers: { Authorization: `Bearer ${token}` },
         }
       );
       setShowForm(false);
-      setFormData({
-        provider: 'openai',
-        apiKey: '',
-        weight: 1.0,
-        isActive: true,
-      });
+      setFormData(INITIAL_FORM);
       fetchApiKeys();
     } catch (error) {
       console.error('Failed to create API key', error);
+      setFormError('API 키 저장에 실패했습니다.');
     }
   };
 
@@ -112,6 +176,7 @@ export default function ApiKeys() {
                 <option value="gemini">Gemini</option>
                 <option value="perplexity">Perplexity</option>
                 <option value="luxia">Luxia</option>
+                <option value="openai-compatible">Self-hosted (OpenAI 호환)</option>
               </select>
             </div>
             <div>
@@ -124,6 +189,40 @@ export default function ApiKeys() {
                 className="w-full px-3 py-2 border rounded-lg"
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">이름 (선택)</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="예: 팀 A 키"
+                className="w-full px-3 py-2 border rounded-lg"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-2">일일 요청 한도</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.dailyRequestLimit}
+                  onChange={(e) => setFormData({ ...formData, dailyRequestLimit: e.target.value })}
+                  placeholder="무제한"
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">일일 토큰 한도</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.dailyTokenLimit}
+                  onChange={(e) => setFormData({ ...formData, dailyTokenLimit: e.target.value })}
+                  placeholder="무제한"
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+            </div>
             <div className="col-span-2">
               <label className="block text-sm font-medium mb-2">API 키</label>
               <input
@@ -134,7 +233,44 @@ export default function ApiKeys() {
                 required
               />
             </div>
+            {formData.provider === 'openai-compatible' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Base URL</label>
+                  <input
+                    type="url"
+                    value={formData.baseUrl}
+                    onChange={(e) => setFormData({ ...formData, baseUrl: e.target.value })}
+                    placeholder="http://localhost:8000/v1"
+                    className="w-full px-3 py-2 border rounded-lg"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">모델</label>
+                  <input
+                    type="text"
+                    value={formData.model}
+                    onChange={(e) => setFormData({ ...formData, model: e.target.value })}
+                    placeholder="llama-3.1-8b-instruct"
+                    className="w-full px-3 py-2 border rounded-lg"
+                    required
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium mb-2">추가 헤더 (JSON, 선택)</label>
+                  <textarea
+                    value={formData.headers}
+                    onChange={(e) => setFormData({ ...formData, headers: e.target.value })}
+                    placeholder='{"X-Tenant-Id": "team-a"}'
+                    className="w-full px-3 py-2 border rounded-lg font-mono text-sm"
+                    rows={2}
+                  />
+                </div>
+              </>
+            )}
           </div>
+          {formError && <p className="mt-3 text-sm text-red-600">{formError}</p>}
           <button
             type="submit"
             className="mt-4 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700"
@@ -157,6 +293,9 @@ export default function ApiKeys() {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                 상태
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                오늘 사용량
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                 생성일
               </th>
@@ -170,6 +309,14 @@ export default function ApiKeys() {
               <tr key={key.id}>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                   {key.provider}
+                  {key.name && (
+                    <div className="text-xs font-normal text-gray-700">{key.name}</div>
+                  )}
+                  {key.metadata?.baseUrl && (
+                    <div className="text-xs font-normal text-gray-500">
+                      {key.metadata.model} @ {key.metadata.baseUrl}
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm">{key.weight}</td>
                 <td className="px-6 py-4 whitespace-nowrap">
@@ -182,6 +329,23 @@ export default function ApiKeys() {
                   >
                     {key.isActive ? '활성' : '비활성'}
                   </span>
+                  {key.cooldown && (
+                    <span
+                      className="ml-2 px-2 py-1 text-xs rounded-full bg-yellow-100 text-yellow-800"
+                      title={`${new Date(key.cooldown.until).toLocaleTimeString('ko-KR')}까지 제외`}
+                    >
+                      {key.cooldown.status === 429 ? '레이트 리밋' : '인증 오류'}
+                    </span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <div>요청 {formatUsage(key.usage?.requestCount || 0, key.dailyRequestLimit)}</div>
+                  <div className="text-xs text-gray-500">
+                    토큰 {formatUsage(key.usage?.tokenCount || 0, key.dailyTokenLimit)}
+                    {(key.usage?.errorCount || 0) > 0 && (
+                      <span className="ml-2 text-red-600">오류 {key.usage?.errorCount}</span>
+                    )}
+                  </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   {new Date(key.createdAt).toLocaleDateString('ko-KR')}
@@ -199,6 +363,69 @@ export default function ApiKeys() {
           </tbody>
         </table>
       </div>
+
+      {effectiveWeights.length > 0 && (
+        <div className="mt-8">
+          <div className="flex items-center gap-3 mb-3">
+            <h2 className="text-lg font-semibold">유효 가중치</h2>
+            <span
+              className={`px-2 py-1 text-xs rounded-full ${
+                adaptiveWeighting ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
+              }`}
+            >
+              {adaptiveWeighting ? '적응형 가중치 사용 중' : '고정 가중치 사용 중'}
+            </span>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    프로바이더
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    설정 가중치
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    유효 가중치
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    성공률
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    p95 응답 시간
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    표본 수
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {effectiveWeights.map((w) => (
+                  <tr key={w.provider}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">{w.provider}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">{w.weight}</td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                        w.healthFactor < 0.5 ? 'text-red-600' : 'text-gray-900'
+                      }`}
+                    >
+                      {w.effectiveWeight.toFixed(2)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {w.successRate !== null ? `${(w.successRate * 100).toFixed(1)}%` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {w.p95LatencyMs !== null ? `${(w.p95LatencyMs / 1000).toFixed(1)}초` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{w.sampleCount}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -11,6 +11,48 @@ interface User {
   createdAt: string;
 }
 
+interface BudgetUsage {
+  metric: 'tokens' | 'cost';
+  used: number;
+  limit: number;
+  percent: number;
+  resetsAt: string;
+}
+
+interface Budget {
+  id: number;
+  scope: 'user' | 'role';
+  userId: number | null;
+  role: string | null;
+  period: 'daily' | 'monthly';
+  tokenLimit: number | null;
+  costLimit: string | null;
+  softLimitPercent: number;
+  isActive: boolean;
+  user?: { id: number; email: string; name: string } | null;
+  usage: BudgetUsage[];
+}
+
+interface BudgetForm {
+  scope: 'user' | 'role';
+  userId: string;
+  role: string;
+  period: 'daily' | 'monthly';
+  tokenLimit: string;
+  costLimit: string;
+  softLimitPercent: string;
+}
+
+const EMPTY_BUDGET_FORM: BudgetForm = {
+  scope: 'user',
+  userId: '',
+  role: 'user',
+  period: 'monthly',
+  tokenLimit: '',
+  costLimit: '',
+  softLimitPercent: '80',
+};
+
 interface UserForm {
   email: string;
   password: string;
@@ -35,13 +77,120 @@ export default function Users() {
     failed: any[];
   } | null>(null);
   const [error, setError] = useState('');
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [showBudgetModal, setShowBudgetModal] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [budgetForm, setBudgetForm] = useState<BudgetForm>(EMPTY_BUDGET_FORM);
+  const [budgetError, setBudgetError] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { token } = useAuthStore();
 
   useEffect(() => {
     fetchUsers();
+    fetchBudgets();
   }, []);
 
+  const fetchBudgets = async () => {
+    try {
+      const response = await axios.get('/api/admin/budgets', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      setBudgets(response.data.budgets || []);
+    } catch (error) {
+      console.error('Failed to fetch budgets', error);
+    }
+  };
+
+  const openBudgetModal = (budget: Budget | null, defaults: Partial<BudgetForm> = {}) => {
+    setEditingBudget(budget);
+    setBudgetError('');
+    setBudgetForm(
+      budget
+        ? {
+            scope: budget.scope,
+            userId: budget.userId ? String(budget.userId) : '',
+            role: budget.role || 'user',
+            period: budget.period,
+            tokenLimit: budget.tokenLimit ? String(budget.tokenLimit) : '',
+            costLimit: budget.costLimit ? String(Number(budget.costLimit)) : '',
+            softLimitPercent: String(budget.softLimitPercent),
+          }
+        : { ...EMPTY_BUDGET_FORM, ...defaults }
+    );
+    setShowBudgetModal(true);
+  };
+
+  const handleBudgetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBudgetError('');
+
+    const limits = {
+      tokenLimit: budgetForm.tokenLimit ? parseInt(budgetForm.tokenLimit, 10) : null,
+      costLimit: budgetForm.costLimit ? parseFloat(budgetForm.costLimit) : null,
+      softLimitPercent: parseInt(budgetForm.softLimitPercent, 10) || 80,
+    };
+
+    try {
+      if (editingBudget) {
+        await axios.put(`/api/admin/budgets/${editingBudget.id}`, limits, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+      } else {
+        await axios.post(
+          '/api/admin/budgets',
+          {
+            scope: budgetForm.scope,
+            userId: budgetForm.scope === 'user' ? parseInt(budgetForm.userId, 10) : undefined,
+            role: budgetForm.scope === 'role' ? budgetForm.role : undefined,
+            period: budgetForm.period,
+            ...limits,
+          },
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+      }
+
+      setShowBudgetModal(false);
+      setEditingBudget(null);
+      fetchBudgets();
+    } catch (error: any) {
+      setBudgetError(
+        error.response?.data?.details?.[0]?.message ||
+          error.response?.data?.error ||
+          '예산 저장에 실패했습니다.'
+      );
+    }
+  };
+
+  const handleBudgetToggle = async (budget: Budget) => {
+    try {
+      await axios.put(
+        `/api/admin/budgets/${budget.id}`,
+        { isActive: !budget.isActive },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      fetchBudgets();
+    } catch (error) {
+      console.error('Failed to toggle budget', error);
+    }
+  };
+
+  const handleBudgetDelete = async (budgetId: number) => {
+    if (!confirm('이 예산을 삭제하시겠습니까?')) return;
+
+    try {
+      await axios.delete(`/api/admin/budgets/${budgetId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      fetchBudgets();
+    } catch (error) {
+      console.error('Failed to delete budget', error);
+      alert('예산 삭제에 실패했습니다.');
+    }
+  };
+
+  const formatBudgetValue = (metric: 'tokens' | 'cost', value: number) =>
+    metric === 'cost' ? `$${value.toFixed(2)}` : value.toLocaleString();
+
   const fetchUsers = async () => {
     try {
       const response = await axios.get('/api/admin/users', {
@@ -301,6 +450,15 @@ export default function Users() {
                   >
                     수정
                   </button>
+                  <button
+                    onClick={() => {
+                      const existing = budgets.find((b) => b.scope === 'user' && b.userId === user.id);
+                      openBudgetModal(existing || null, { scope: 'user', userId: String(user.id) });
+                    }}
+                    className="text-green-600 hover:text-green-800 mr-3"
+                  >
+                    예산
+                  </button>
                   <button
                     onClick={() => handleDelete(user.id)}
                     className="text-red-600 hover:text-red-800"
@@ -314,6 +472,224 @@ export default function Users() {
         </table>
       </div>
 
+      <div className="flex justify-between items-center mt-8 mb-4">
+        <div>
+          <h2 className="text-xl font-bold">AI 사용 예산</h2>
+          <p className="text-sm text-gray-500">
+            사용자별 또는 역할(팀) 전체 합계 기준 일간/월간 토큰·비용 한도. 초과 시 요청이 차단되고 관리자에게 알림이 전송됩니다.
+          </p>
+        </div>
+        <button
+          onClick={() => openBudgetModal(null, { scope: 'role' })}
+          className="px-4 py-2 text-sm bg-primary-600 text-white rounded hover:bg-primary-700"
+        >
+          예산 추가
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">대상</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">기간</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">사용량 / 한도</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">경고 기준</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">상태</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">작업</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {budgets.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  설정된 예산이 없습니다.
+                </td>
+              </tr>
+            ) : (
+              budgets.map((budget) => (
+                <tr key={budget.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {budget.scope === 'user'
+                      ? budget.user?.email || `사용자 #${budget.userId}`
+                      : `역할: ${budget.role === 'admin' ? '관리자' : budget.role === 'user' ? '사용자' : budget.role}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {budget.period === 'daily' ? '일간' : '월간'}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    {budget.usage.map((usage) => (
+                      <div key={usage.metric} className="mb-1">
+                        <span className={usage.percent >= 100 ? 'text-red-600 font-medium' : usage.percent >= budget.softLimitPercent ? 'text-yellow-600' : ''}>
+                          {formatBudgetValue(usage.metric, usage.used)} / {formatBudgetValue(usage.metric, usage.limit)}
+                          {usage.metric === 'tokens' ? ' 토큰' : ''} ({usage.percent}%)
+                        </span>
+                        <div className="w-40 h-1.5 bg-gray-200 rounded-full mt-1">
+                          <div
+                            className={`h-1.5 rounded-full ${usage.percent >= 100 ? 'bg-red-500' : usage.percent >= budget.softLimitPercent ? 'bg-yellow-500' : 'bg-green-500'}`}
+                            style={{ width: `${Math.min(100, usage.percent)}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">{budget.softLimitPercent}%</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => handleBudgetToggle(budget)}
+                      className={`px-2 py-1 text-xs rounded-full ${
+                        budget.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {budget.isActive ? '활성' : '비활성'}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <button
+                      onClick={() => openBudgetModal(budget)}
+                      className="text-blue-600 hover:text-blue-800 mr-3"
+                    >
+                      수정
+                    </button>
+                    <button
+                      onClick={() => handleBudgetDelete(budget.id)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      삭제
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {showBudgetModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold mb-4">{editingBudget ? '예산 수정' : '예산 추가'}</h2>
+            {budgetError && (
+              <div className="mb-4 p-3 bg-red-100 text-red-700 rounded">{budgetError}</div>
+            )}
+            <form onSubmit={handleBudgetSubmit}>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">적용 대상</label>
+                  <select
+                    value={budgetForm.scope}
+                    onChange={(e) => setBudgetForm({ ...budgetForm, scope: e.target.value as 'user' | 'role' })}
+                    className="w-full border rounded-lg px-3 py-2"
+                    disabled={!!editingBudget}
+                  >
+                    <option value="user">사용자</option>
+                    <option value="role">역할 (팀 전체 합계)</option>
+                  </select>
+                </div>
+                {budgetForm.scope === 'user' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">사용자</label>
+                    <select
+                      value={budgetForm.userId}
+                      onChange={(e) => setBudgetForm({ ...budgetForm, userId: e.target.value })}
+                      className="w-full border rounded-lg px-3 py-2"
+                      disabled={!!editingBudget}
+                      required
+                    >
+                      <option value="">선택하세요</option>
+                      {users.map((user) => (
+                        <option key={user.id} value={user.id}>
+                          {user.name} ({user.email})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">역할</label>
+                    <select
+                      value={budgetForm.role}
+                      onChange={(e) => setBudgetForm({ ...budgetForm, role: e.target.value })}
+                      className="w-full border rounded-lg px-3 py-2"
+                      disabled={!!editingBudget}
+                    >
+                      <option value="user">사용자</option>
+                      <option value="admin">관리자</option>
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">기간</label>
+                  <select
+                    value={budgetForm.period}
+                    onChange={(e) => setBudgetForm({ ...budgetForm, period: e.target.value as 'daily' | 'monthly' })}
+                    className="w-full border rounded-lg px-3 py-2"
+                    disabled={!!editingBudget}
+                  >
+                    <option value="daily">일간</option>
+                    <option value="monthly">월간</option>
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">토큰 한도</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={budgetForm.tokenLimit}
+                      onChange={(e) => setBudgetForm({ ...budgetForm, tokenLimit: e.target.value })}
+                      className="w-full border rounded-lg px-3 py-2"
+                      placeholder="제한 없음"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">비용 한도 (USD)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={budgetForm.costLimit}
+                      onChange={(e) => setBudgetForm({ ...budgetForm, costLimit: e.target.value })}
+                      className="w-full border rounded-lg px-3 py-2"
+                      placeholder="제한 없음"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">경고 기준 (%)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={budgetForm.softLimitPercent}
+                    onChange={(e) => setBudgetForm({ ...budgetForm, softLimitPercent: e.target.value })}
+                    className="w-full border rounded-lg px-3 py-2"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-2 mt-6">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowBudgetModal(false);
+                    setBudgetError('');
+                  }}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+                >
+                  취소
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-primary-600 text-white rounded hover:bg-primary-700"
+                >
+                  저장
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md">
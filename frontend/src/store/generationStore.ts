@@ -0,0 +1,30 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { GenerationSettings } from '../types/generation';
+
+interface GenerationState {
+  settingsByConversation: Record<string, GenerationSettings>;
+  setConversationSettings: (conversationId: string, settings: GenerationSettings) => void;
+}
+
+// 대화별 생성 파라미터 (브라우저에 저장)
+export const useGenerationStore = create<GenerationState>()(
+  persist(
+    (set) => ({
+      settingsByConversation: {},
+      setConversationSettings: (conversationId, settings) =>
+        set((state) => {
+          const settingsByConversation = { ...state.settingsByConversation };
+          if (Object.keys(settings).length > 0) {
+            settingsByConversation[conversationId] = settings;
+          } else {
+            delete settingsByConversation[conversationId];
+          }
+          return { settingsByConversation };
+        }),
+    }),
+    {
+      name: 'generation-settings',
+    }
+  )
+);
@@ -0,0 +1,32 @@
+// 요청별 생성 파라미터 (미지정 값은 프로바이더 기본값 사용)
+export interface GenerationSettings {
+  model?: string; // 프로바이더를 직접 선택한 경우에만 적용
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  seed?: number;
+}
+
+// 프로바이더별 생성 파라미터 한도 (/api/ai/providers)
+export interface GenerationLimits {
+  maxTemperature: number;
+  maxOutputTokens: number;
+  topP: boolean;
+  maxStopSequences: number; // 0이면 stop 미지원
+  seed: boolean;
+  exclusiveSampling?: boolean; // temperature와 topP 동시 지정 불가
+}
+
+// 모델 카탈로그 항목 (/api/ai/providers)
+export interface ModelInfo {
+  id: string;
+  name?: string;
+  contextWindow: number;
+  maxOutputTokens?: number;
+  modalities: Array<'text' | 'image' | 'audio'>;
+  streaming: boolean;
+  toolCalling: boolean;
+  price: { input: number; output: number } | null; // USD / 100만 토큰
+  isDefault?: boolean;
+}
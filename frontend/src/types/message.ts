@@ -1,3 +1,11 @@
+export interface ToolCallInfo {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: string;
+  isError?: boolean;
+}
+
 export interface Message {
   id: number;
   role: 'user' | 'assistant' | 'system';
@@ -6,4 +14,7 @@ export interface Message {
   provider?: string;
   providerName?: string;
   phase?: string;
+  a2aSessionId?: string | null; // 저장된 A2A 토론 결과 (다시 보기 가능)
+  cancelled?: boolean; // 생성을 중지한 부분 응답
+  toolCalls?: ToolCallInfo[]; // 응답 중 실행된 도구 호출
 }